@@ -4,6 +4,11 @@
 export async function register() {
   if (process.env.NEXT_RUNTIME === 'nodejs') {
     await import('./sentry.server.config');
+
+    if (process.env.GITPINS_SCHEDULER_ENABLED === 'true') {
+      const { startScheduler } = await import('./src/lib/scheduler');
+      startScheduler();
+    }
   }
   if (process.env.NEXT_RUNTIME === 'edge') {
     await import('./sentry.edge.config');
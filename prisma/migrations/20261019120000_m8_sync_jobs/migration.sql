@@ -0,0 +1,41 @@
+-- M8: Persisted asynchronous sync jobs with per-repo progress
+
+CREATE TABLE IF NOT EXISTS "sync_jobs" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'queued',
+  "trigger" TEXT NOT NULL DEFAULT 'secret',
+  "force" BOOLEAN NOT NULL DEFAULT false,
+  "progress" TEXT NOT NULL DEFAULT '[]',
+  "total" INTEGER NOT NULL DEFAULT 0,
+  "processed" INTEGER NOT NULL DEFAULT 0,
+  "succeeded" INTEGER NOT NULL DEFAULT 0,
+  "failed" INTEGER NOT NULL DEFAULT 0,
+  "result" TEXT,
+  "error" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "startedAt" TIMESTAMP(3),
+  "finishedAt" TIMESTAMP(3),
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "sync_jobs_userId_createdAt_idx"
+  ON "sync_jobs"("userId", "createdAt");
+
+CREATE INDEX IF NOT EXISTS "sync_jobs_status_updatedAt_idx"
+  ON "sync_jobs"("status", "updatedAt");
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'sync_jobs_userId_fkey'
+  ) THEN
+    ALTER TABLE "sync_jobs"
+      ADD CONSTRAINT "sync_jobs_userId_fkey"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
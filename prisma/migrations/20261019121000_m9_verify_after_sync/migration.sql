@@ -0,0 +1,4 @@
+-- M9: Optional post-sync verification
+
+ALTER TABLE "repo_orders"
+  ADD COLUMN IF NOT EXISTS "verifyAfterSync" BOOLEAN NOT NULL DEFAULT false;
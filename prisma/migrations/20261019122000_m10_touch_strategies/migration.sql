@@ -0,0 +1,15 @@
+-- M10: Selectable touch strategies with per-repo overrides
+
+ALTER TABLE "repo_orders"
+  ADD COLUMN IF NOT EXISTS "repoStrategies" TEXT NOT NULL DEFAULT '{}';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'repo_orders_commit_strategy_check'
+  ) THEN
+    ALTER TABLE "repo_orders"
+      ADD CONSTRAINT "repo_orders_commit_strategy_check"
+      CHECK ("commitStrategy" IN ('revert', 'branch', 'annotated_tag', 'metadata'));
+  END IF;
+END $$;
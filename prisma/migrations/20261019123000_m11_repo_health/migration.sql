@@ -0,0 +1,32 @@
+-- M11: Per-repository touch health and automatic quarantine
+
+CREATE TABLE IF NOT EXISTS "repo_health" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "repo" TEXT NOT NULL,
+  "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+  "lastErrorCategory" TEXT,
+  "lastFailureAt" TIMESTAMP(3),
+  "lastSuccessAt" TIMESTAMP(3),
+  "quarantinedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "repo_health_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "repo_health_userId_repo_key"
+  ON "repo_health"("userId", "repo");
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'repo_health_userId_fkey'
+  ) THEN
+    ALTER TABLE "repo_health"
+      ADD CONSTRAINT "repo_health_userId_fkey"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
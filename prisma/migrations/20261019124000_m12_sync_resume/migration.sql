@@ -0,0 +1,4 @@
+-- M12: Resume syncs deferred by the GitHub rate limit
+
+ALTER TABLE "repo_orders"
+  ADD COLUMN IF NOT EXISTS "resumeSyncAt" TIMESTAMP(3);
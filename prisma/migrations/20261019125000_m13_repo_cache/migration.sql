@@ -0,0 +1,30 @@
+-- M13: Per-user cache of the GitHub repository list
+
+CREATE TABLE IF NOT EXISTS "repo_caches" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "repos" TEXT NOT NULL DEFAULT '[]',
+  "etag" TEXT,
+  "fetchedAt" TIMESTAMP(3) NOT NULL,
+  "checkedAt" TIMESTAMP(3) NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "repo_caches_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "repo_caches_userId_key"
+  ON "repo_caches"("userId");
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'repo_caches_userId_fkey'
+  ) THEN
+    ALTER TABLE "repo_caches"
+      ADD CONSTRAINT "repo_caches_userId_fkey"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
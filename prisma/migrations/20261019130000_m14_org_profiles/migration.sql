@@ -0,0 +1,15 @@
+-- M14: Organization ordering profiles (several repo_orders rows per user)
+
+ALTER TABLE "repo_orders"
+  ADD COLUMN IF NOT EXISTS "org" TEXT,
+  ADD COLUMN IF NOT EXISTS "installationId" INTEGER;
+
+DROP INDEX IF EXISTS "repo_orders_userId_key";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "repo_orders_userId_org_key"
+  ON "repo_orders"("userId", "org");
+
+-- NULL org values are distinct in the index above: keep one personal profile per user
+CREATE UNIQUE INDEX IF NOT EXISTS "repo_orders_userId_personal_key"
+  ON "repo_orders"("userId")
+  WHERE "org" IS NULL;
@@ -0,0 +1,35 @@
+-- M15: Named order profiles with scheduled rotation
+
+CREATE TABLE IF NOT EXISTS "order_profiles" (
+  "id" TEXT NOT NULL,
+  "repoOrderId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "reposOrder" TEXT NOT NULL DEFAULT '[]',
+  "topN" INTEGER NOT NULL DEFAULT 10,
+  "activateAt" TIMESTAMP(3),
+  "cron" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "order_profiles_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "order_profiles_repoOrderId_name_key"
+  ON "order_profiles"("repoOrderId", "name");
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'order_profiles_repoOrderId_fkey'
+  ) THEN
+    ALTER TABLE "order_profiles"
+      ADD CONSTRAINT "order_profiles_repoOrderId_fkey"
+      FOREIGN KEY ("repoOrderId") REFERENCES "repo_orders"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+ALTER TABLE "repo_orders"
+  ADD COLUMN IF NOT EXISTS "activeProfileId" TEXT,
+  ADD COLUMN IF NOT EXISTS "rotationCheckedAt" TIMESTAMP(3);
@@ -0,0 +1,4 @@
+-- M16: Rule-based pinned list (null keeps the fixed reposOrder list)
+
+ALTER TABLE "repo_orders"
+  ADD COLUMN IF NOT EXISTS "pinRules" TEXT;
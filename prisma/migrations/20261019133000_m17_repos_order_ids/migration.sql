@@ -0,0 +1,4 @@
+-- M17: GitHub repository ids of pinned repos, used to follow renames and transfers
+
+ALTER TABLE "repo_orders"
+  ADD COLUMN IF NOT EXISTS "reposOrderIds" TEXT NOT NULL DEFAULT '{}';
@@ -0,0 +1,35 @@
+-- M18: Drift monitoring between syncs
+
+ALTER TABLE "repo_orders"
+  ADD COLUMN IF NOT EXISTS "driftCheckedAt" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "driftedSince" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "driftEarlySync" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS "drift_checks" (
+  "id" TEXT NOT NULL,
+  "repoOrderId" TEXT NOT NULL,
+  "inOrder" BOOLEAN NOT NULL,
+  "currentTop" TEXT NOT NULL DEFAULT '[]',
+  "desiredTop" TEXT NOT NULL DEFAULT '[]',
+  "outOfPlace" TEXT NOT NULL DEFAULT '[]',
+  "earlySync" BOOLEAN NOT NULL DEFAULT false,
+  "checkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "drift_checks_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "drift_checks_repoOrderId_checkedAt_idx"
+  ON "drift_checks"("repoOrderId", "checkedAt");
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'drift_checks_repoOrderId_fkey'
+  ) THEN
+    ALTER TABLE "drift_checks"
+      ADD CONSTRAINT "drift_checks_repoOrderId_fkey"
+      FOREIGN KEY ("repoOrderId") REFERENCES "repo_orders"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
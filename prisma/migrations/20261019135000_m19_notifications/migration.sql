@@ -0,0 +1,59 @@
+-- M19: Outbound notification channels and delivery attempts
+
+CREATE TABLE IF NOT EXISTS "notification_channels" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "type" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "target" TEXT NOT NULL,
+  "secret" TEXT,
+  "events" TEXT NOT NULL DEFAULT '[]',
+  "enabled" BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "notification_channels_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "notification_channels_userId_idx"
+  ON "notification_channels"("userId");
+
+CREATE TABLE IF NOT EXISTS "notification_deliveries" (
+  "id" TEXT NOT NULL,
+  "channelId" TEXT NOT NULL,
+  "event" TEXT NOT NULL,
+  "attempt" INTEGER NOT NULL DEFAULT 1,
+  "status" TEXT NOT NULL,
+  "statusCode" INTEGER,
+  "error" TEXT,
+  "durationMs" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "notification_deliveries_channelId_createdAt_idx"
+  ON "notification_deliveries"("channelId", "createdAt");
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'notification_channels_userId_fkey'
+  ) THEN
+    ALTER TABLE "notification_channels"
+      ADD CONSTRAINT "notification_channels_userId_fkey"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'notification_deliveries_channelId_fkey'
+  ) THEN
+    ALTER TABLE "notification_deliveries"
+      ADD CONSTRAINT "notification_deliveries_channelId_fkey"
+      FOREIGN KEY ("channelId") REFERENCES "notification_channels"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
@@ -0,0 +1,34 @@
+-- M20: Personal API tokens (Authorization: Bearer)
+
+CREATE TABLE IF NOT EXISTS "api_tokens" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "prefix" TEXT NOT NULL,
+  "scopes" TEXT NOT NULL DEFAULT '[]',
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "lastUsedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "api_tokens_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "api_tokens_tokenHash_key"
+  ON "api_tokens"("tokenHash");
+
+CREATE INDEX IF NOT EXISTS "api_tokens_userId_idx"
+  ON "api_tokens"("userId");
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'api_tokens_userId_fkey'
+  ) THEN
+    ALTER TABLE "api_tokens"
+      ADD CONSTRAINT "api_tokens_userId_fkey"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
@@ -0,0 +1,8 @@
+-- M21: Config-as-code from a repository of the user (gitpins.yml / config.json)
+
+ALTER TABLE "repo_orders"
+  ADD COLUMN IF NOT EXISTS "configRepo" TEXT,
+  ADD COLUMN IF NOT EXISTS "configPath" TEXT,
+  ADD COLUMN IF NOT EXISTS "configSha" TEXT,
+  ADD COLUMN IF NOT EXISTS "configImportedAt" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "configError" TEXT;
@@ -0,0 +1,5 @@
+-- M22: Organization profiles are keyed by the lowercased login (GitHub logins are case-insensitive)
+
+UPDATE "repo_orders"
+  SET "org" = lower("org")
+  WHERE "org" IS NOT NULL AND "org" <> lower("org");
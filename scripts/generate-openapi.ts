@@ -0,0 +1,28 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { buildOpenApiDocument } from '../src/lib/api-v1/openapi'
+
+const OUTPUT = join(__dirname, '..', 'docs', 'openapi.json')
+
+function main(): void {
+  const document = `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`
+
+  if (process.argv.includes('--check')) {
+    const current = readFileSync(OUTPUT, 'utf8')
+    if (current !== document) {
+      throw new Error('docs/openapi.json is out of date. Run: pnpm run openapi')
+    }
+    console.log('docs/openapi.json is up to date')
+    return
+  }
+
+  writeFileSync(OUTPUT, document)
+  console.log('Wrote docs/openapi.json')
+}
+
+try {
+  main()
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error))
+  process.exitCode = 1
+}
@@ -0,0 +1,30 @@
+import { homedir } from 'node:os'
+import { createInterface } from 'node:readline/promises'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { runCli } from '../src/lib/cli/commands'
+import { resolveConfigPath } from '../src/lib/cli/config'
+
+async function prompt(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr })
+  try {
+    return await rl.question(question)
+  } finally {
+    rl.close()
+  }
+}
+
+runCli(process.argv.slice(2), {
+  stdout: (text) => console.log(text),
+  stderr: (text) => console.error(text),
+  prompt,
+  sleep: (ms) => sleep(ms),
+  env: process.env,
+  configPath: resolveConfigPath(process.env, homedir()),
+})
+  .then((code) => {
+    process.exitCode = code
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : String(error))
+    process.exitCode = 1
+  })
@@ -11,9 +11,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getSession, verifyCSRFToken } from '@/lib/session'
+import { authorizeUserRequest } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
-import { validateOrigin, checkAPIRateLimit, addNoStoreHeaders, addSecurityHeaders } from '@/lib/security'
+import { addNoStoreHeaders, addSecurityHeaders } from '@/lib/security'
 
 /** Unified activity entry type */
 interface ActivityEntry {
@@ -34,18 +34,8 @@ interface ActivityEntry {
  * Query params: limit (default 30), offset (default 0)
  */
 export async function GET(request: NextRequest) {
-  const session = await getSession()
-
-  if (!session) {
-    return addSecurityHeaders(
-      NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    )
-  }
-
-  const rateLimit = await checkAPIRateLimit(request, session.userId)
-  if (!rateLimit.allowed) {
-    return addSecurityHeaders(rateLimit.response!)
-  }
+  const auth = await authorizeUserRequest(request, { scope: 'activity:read', mutation: false })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
 
   try {
     const { searchParams } = new URL(request.url)
@@ -55,7 +45,7 @@ export async function GET(request: NextRequest) {
     // Fetch snapshots and sync logs in parallel
     const [snapshots, syncLogs, snapshotCount, syncLogCount] = await Promise.all([
       prisma.orderSnapshot.findMany({
-        where: { userId: session.userId },
+        where: { userId: auth.userId },
         orderBy: { createdAt: 'desc' },
         select: {
           id: true,
@@ -66,7 +56,7 @@ export async function GET(request: NextRequest) {
         },
       }),
       prisma.syncLog.findMany({
-        where: { userId: session.userId },
+        where: { userId: auth.userId },
         orderBy: { createdAt: 'desc' },
         select: {
           id: true,
@@ -77,8 +67,8 @@ export async function GET(request: NextRequest) {
           createdAt: true,
         },
       }),
-      prisma.orderSnapshot.count({ where: { userId: session.userId } }),
-      prisma.syncLog.count({ where: { userId: session.userId } }),
+      prisma.orderSnapshot.count({ where: { userId: auth.userId } }),
+      prisma.syncLog.count({ where: { userId: auth.userId } }),
     ])
 
     // Convert snapshots to unified format
@@ -153,33 +143,8 @@ export async function GET(request: NextRequest) {
  * Body: { snapshotId }
  */
 export async function POST(request: NextRequest) {
-  // Validate origin for CSRF protection
-  if (!validateOrigin(request)) {
-    return addSecurityHeaders(
-      NextResponse.json({ error: 'Invalid request' }, { status: 403 })
-    )
-  }
-
-  const session = await getSession()
-
-  if (!session) {
-    return addSecurityHeaders(
-      NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    )
-  }
-
-  // Rate limiting
-  const rateLimit = await checkAPIRateLimit(request, session.userId)
-  if (!rateLimit.allowed) {
-    return addSecurityHeaders(rateLimit.response!)
-  }
-
-  const csrfToken = request.headers.get('X-CSRF-Token')
-  if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
-    return addSecurityHeaders(
-      NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 })
-    )
-  }
+  const auth = await authorizeUserRequest(request, { scope: 'order:write', mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
 
   try {
     const body = await request.json()
@@ -195,7 +160,7 @@ export async function POST(request: NextRequest) {
     const snapshot = await prisma.orderSnapshot.findFirst({
       where: {
         id: snapshotId,
-        userId: session.userId,
+        userId: auth.userId,
       },
     })
 
@@ -205,24 +170,42 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Restore the order
-    await prisma.repoOrder.upsert({
-      where: { userId: session.userId },
-      update: {
-        reposOrder: snapshot.reposOrder,
-        topN: snapshot.topN,
-      },
-      create: {
-        userId: session.userId,
-        reposOrder: snapshot.reposOrder,
-        topN: snapshot.topN,
-      },
+    // Restore the order (snapshots belong to the personal profile)
+    const personalOrder = await prisma.repoOrder.findFirst({
+      where: { userId: auth.userId, org: null },
+      select: { id: true, configRepo: true },
     })
+    if (personalOrder?.configRepo) {
+      return addSecurityHeaders(
+        NextResponse.json({
+          error: 'Order is managed by a config repository',
+          reason: 'managed_by_config',
+          configRepo: personalOrder.configRepo,
+        }, { status: 409 })
+      )
+    }
+    if (personalOrder) {
+      await prisma.repoOrder.update({
+        where: { id: personalOrder.id },
+        data: {
+          reposOrder: snapshot.reposOrder,
+          topN: snapshot.topN,
+        },
+      })
+    } else {
+      await prisma.repoOrder.create({
+        data: {
+          userId: auth.userId,
+          reposOrder: snapshot.reposOrder,
+          topN: snapshot.topN,
+        },
+      })
+    }
 
     // Create a new snapshot for this restore action
     await prisma.orderSnapshot.create({
       data: {
-        userId: session.userId,
+        userId: auth.userId,
         reposOrder: snapshot.reposOrder,
         topN: snapshot.topN,
         changeType: 'restore',
@@ -232,7 +215,7 @@ export async function POST(request: NextRequest) {
     // Log the restore action
     await prisma.syncLog.create({
       data: {
-        userId: session.userId,
+        userId: auth.userId,
         action: 'restore_order',
         status: 'success',
         details: JSON.stringify({
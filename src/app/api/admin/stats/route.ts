@@ -41,7 +41,7 @@ export async function GET() {
     // Total counts
     const totalUsers = await prisma.user.count()
     const activeUsers = await prisma.user.count({
-      where: { repoOrder: { isNot: null } }
+      where: { repoOrders: { some: {} } }
     })
     const bannedUsers = await prisma.user.count({
       where: { isBanned: true }
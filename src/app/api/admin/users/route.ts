@@ -37,7 +37,8 @@ export async function GET() {
     const users = await prisma.user.findMany({
       orderBy: { createdAt: 'desc' },
       include: {
-        repoOrder: {
+        repoOrders: {
+          where: { org: null },
           select: {
             reposOrder: true,
             syncFrequency: true,
@@ -50,32 +51,36 @@ export async function GET() {
       }
     })
 
-    const formattedUsers = users.map((user: typeof users[number]) => ({
-      id: user.id,
-      githubId: user.githubId,
-      username: user.username,
-      email: user.email,
-      avatarUrl: user.avatarUrl,
-      isBanned: user.isBanned,
-      bannedAt: user.bannedAt,
-      bannedReason: user.bannedReason,
-      createdAt: user.createdAt,
-      lastLoginAt: user.lastLoginAt,
-      reposConfigured: user.repoOrder
-        ? (() => {
-            try {
-              const parsed = JSON.parse(user.repoOrder.reposOrder)
-              return Array.isArray(parsed) ? parsed.length : 0
-            } catch {
-              return 0
-            }
-          })()
-        : 0,
-      syncCount: user._count.syncLogs,
-      hasConfig: !!user.repoOrder,
-      syncFrequency: user.repoOrder?.syncFrequency || null,
-      autoEnabled: user.repoOrder?.autoEnabled || false,
-    }))
+    const formattedUsers = users.map((user: typeof users[number]) => {
+      // Perfil personal; los perfiles de organización no cuentan aquí
+      const repoOrder = user.repoOrders[0]
+      return {
+        id: user.id,
+        githubId: user.githubId,
+        username: user.username,
+        email: user.email,
+        avatarUrl: user.avatarUrl,
+        isBanned: user.isBanned,
+        bannedAt: user.bannedAt,
+        bannedReason: user.bannedReason,
+        createdAt: user.createdAt,
+        lastLoginAt: user.lastLoginAt,
+        reposConfigured: repoOrder
+          ? (() => {
+              try {
+                const parsed = JSON.parse(repoOrder.reposOrder)
+                return Array.isArray(parsed) ? parsed.length : 0
+              } catch {
+                return 0
+              }
+            })()
+          : 0,
+        syncCount: user._count.syncLogs,
+        hasConfig: !!repoOrder,
+        syncFrequency: repoOrder?.syncFrequency || null,
+        autoEnabled: repoOrder?.autoEnabled || false,
+      }
+    })
 
     return addSecurityHeaders(
       addNoStoreHeaders(NextResponse.json({ users: formattedUsers }))
@@ -0,0 +1,170 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Config Repository API Route
+ * Links an account to a repository whose gitpins.yml becomes the source of
+ * truth of its order (config-as-code), shows the state of the last import
+ * and unlinks it. Linking imports the file right away.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { addSecurityHeaders } from '@/lib/security'
+import { authorizeSessionRequest } from '@/lib/api-auth'
+import { getProfileInstallationId, parseProfileOrg } from '@/lib/profiles'
+import { createAppOctokit } from '@/lib/github-app'
+import { checkOrgProfileAccess, describeOrgAccessFailure } from '@/lib/org-access'
+import { fetchConfigFile } from '@/lib/config-repo/fetch'
+import { applyConfigFile } from '@/lib/config-repo/import'
+import { parseConfigErrors, parseConfigRepoName } from '@/lib/config-repo/parse'
+import type { ConfigRepoStatus } from '@/types'
+
+function serializeStatus(repoOrder: {
+  configRepo: string | null
+  configPath: string | null
+  configSha: string | null
+  configImportedAt: Date | null
+  configError: string | null
+} | null): ConfigRepoStatus {
+  return {
+    configRepo: repoOrder?.configRepo ?? null,
+    configPath: repoOrder?.configPath ?? null,
+    configSha: repoOrder?.configSha ?? null,
+    configImportedAt: repoOrder?.configImportedAt?.toISOString() ?? null,
+    configErrors: parseConfigErrors(repoOrder?.configError ?? null),
+  }
+}
+
+/**
+ * GET /api/config-repo?org=<login>
+ * Returns: ConfigRepoStatus
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeSessionRequest(request, { mutation: false })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  const org = parseProfileOrg(request.nextUrl.searchParams.get('org'))
+  if (org === undefined) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+  }
+
+  try {
+    const repoOrder = await prisma.repoOrder.findFirst({
+      where: { userId: auth.session.userId, org },
+      select: { configRepo: true, configPath: true, configSha: true, configImportedAt: true, configError: true },
+    })
+
+    return addSecurityHeaders(
+      NextResponse.json(serializeStatus(repoOrder), { headers: { 'Cache-Control': 'no-store' } })
+    )
+  } catch (error) {
+    console.error('Error fetching config repository:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * POST /api/config-repo
+ * Links a repository and imports its config file. The repository must be
+ * readable by the account's GitHub App installation and contain one of
+ * gitpins.yml, gitpins.yaml or config.json. An invalid file still links the
+ * repository; the errors are returned and the current order is kept.
+ * Organization profiles need the user to still be an org admin (403
+ * `not_org_admin` otherwise).
+ * Body: { org?, repo }
+ * Returns: ConfigRepoStatus + imported
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeSessionRequest(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  try {
+    const body = await request.json()
+    const org = parseProfileOrg(body?.org)
+    const configRepo = parseConfigRepoName(body?.repo)
+    if (org === undefined || !configRepo) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+    }
+
+    const repoOrder = await prisma.repoOrder.findFirst({
+      where: { userId: auth.session.userId, org },
+      include: { user: true },
+    })
+    if (!repoOrder) {
+      // Hay que guardar un orden antes de enlazar un repo
+      return addSecurityHeaders(NextResponse.json({ error: 'Profile not found' }, { status: 404 }))
+    }
+
+    if (repoOrder.org) {
+      const access = await checkOrgProfileAccess(auth.session.userId, repoOrder.org)
+      if (access !== 'ok') {
+        const { status, body } = describeOrgAccessFailure(access)
+        return addSecurityHeaders(NextResponse.json(body, { status }))
+      }
+    }
+
+    const installationId = getProfileInstallationId(repoOrder, repoOrder.user)
+    if (!installationId) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'GitHub App is not installed', reason: 'installation_missing' }, { status: 409 })
+      )
+    }
+
+    let file
+    try {
+      file = await fetchConfigFile(createAppOctokit(installationId), configRepo)
+    } catch (error) {
+      console.error('Error reading config repository:', { configRepo, error })
+      return addSecurityHeaders(NextResponse.json({ error: 'Could not read the repository' }, { status: 502 }))
+    }
+    if (!file) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Config file not found', reason: 'config_not_found' }, { status: 422 })
+      )
+    }
+
+    const linked = await prisma.repoOrder.update({
+      where: { id: repoOrder.id },
+      data: { configRepo, configPath: null, configSha: null, configImportedAt: null, configError: null },
+    })
+    const result = await applyConfigFile(linked, file, 'link')
+
+    return addSecurityHeaders(
+      NextResponse.json({ ...serializeStatus(result.repoOrder), imported: result.status === 'imported' })
+    )
+  } catch (error) {
+    console.error('Error linking config repository:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * DELETE /api/config-repo?org=<login>
+ * Unlinks the repository. The last imported order stays and becomes
+ * editable from the dashboard again.
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await authorizeSessionRequest(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  const org = parseProfileOrg(request.nextUrl.searchParams.get('org'))
+  if (org === undefined) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+  }
+
+  try {
+    await prisma.repoOrder.updateMany({
+      where: { userId: auth.session.userId, org },
+      data: { configRepo: null, configPath: null, configSha: null, configImportedAt: null, configError: null },
+    })
+
+    return addSecurityHeaders(NextResponse.json({ success: true, ...serializeStatus(null) }))
+  } catch (error) {
+    console.error('Error unlinking config repository:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
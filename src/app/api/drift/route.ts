@@ -0,0 +1,167 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Drift API Route
+ * Drift history of a profile and on-demand drift checks from the dashboard.
+ * Checks are read-only: they compare the live order with the desired list
+ * and never start a sync.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, verifyCSRFToken } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { validateOrigin, checkAPIRateLimit, addSecurityHeaders } from '@/lib/security'
+import { parseProfileOrg } from '@/lib/profiles'
+import { runDriftCheck } from '@/lib/drift-monitor'
+import { DRIFT_HISTORY_LIMIT } from '@/lib/sync/drift'
+import type { DriftCheckEntry } from '@/types'
+
+function parseList(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * GET /api/drift?org=<login>
+ * Returns: driftCheckedAt, driftedSince, checks[] (newest first)
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession()
+  if (!session) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    )
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return addSecurityHeaders(rateLimit.response!)
+  }
+
+  const org = parseProfileOrg(request.nextUrl.searchParams.get('org'))
+  if (org === undefined) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    )
+  }
+
+  try {
+    const repoOrder = await prisma.repoOrder.findFirst({
+      where: { userId: session.userId, org },
+      select: {
+        driftCheckedAt: true,
+        driftedSince: true,
+        driftChecks: { orderBy: { checkedAt: 'desc' }, take: DRIFT_HISTORY_LIMIT },
+      },
+    })
+    if (!repoOrder) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+      )
+    }
+
+    const checks: DriftCheckEntry[] = repoOrder.driftChecks.map((check) => ({
+      id: check.id,
+      inOrder: check.inOrder,
+      currentTop: parseList(check.currentTop),
+      desiredTop: parseList(check.desiredTop),
+      outOfPlace: parseList(check.outOfPlace),
+      earlySync: check.earlySync,
+      checkedAt: check.checkedAt.toISOString(),
+    }))
+
+    return addSecurityHeaders(
+      NextResponse.json({
+        driftCheckedAt: repoOrder.driftCheckedAt?.toISOString() ?? null,
+        driftedSince: repoOrder.driftedSince?.toISOString() ?? null,
+        checks,
+      }, { headers: { 'Cache-Control': 'no-store' } })
+    )
+  } catch (error) {
+    console.error('Error fetching drift history:', error)
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Operation failed' }, { status: 500 })
+    )
+  }
+}
+
+/**
+ * POST /api/drift?org=<login>
+ * Runs a drift check now and records it in the history.
+ * Returns: inOrder, driftedSince, driftCheckedAt, outOfPlace[]
+ */
+export async function POST(request: NextRequest) {
+  if (!validateOrigin(request)) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Invalid request' }, { status: 403 })
+    )
+  }
+
+  const session = await getSession()
+  if (!session) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    )
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return addSecurityHeaders(rateLimit.response!)
+  }
+
+  const csrfToken = request.headers.get('X-CSRF-Token')
+  if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 })
+    )
+  }
+
+  const org = parseProfileOrg(request.nextUrl.searchParams.get('org'))
+  if (org === undefined) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    )
+  }
+
+  try {
+    const repoOrder = await prisma.repoOrder.findFirst({
+      where: { userId: session.userId, org },
+      include: { user: true },
+    })
+    if (!repoOrder?.syncSecret) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Sync is not configured yet' }, { status: 400 })
+      )
+    }
+
+    const drift = await runDriftCheck(repoOrder)
+    if ('outcome' in drift) {
+      return addSecurityHeaders(
+        NextResponse.json(drift.outcome.body, { status: drift.outcome.status })
+      )
+    }
+
+    return addSecurityHeaders(
+      NextResponse.json({
+        success: true,
+        inOrder: drift.check.inOrder,
+        outOfPlace: drift.check.outOfPlace,
+        driftedSince: drift.check.driftedSince?.toISOString() ?? null,
+        driftCheckedAt: drift.check.checkedAt.toISOString(),
+      })
+    )
+  } catch (error) {
+    console.error('Error checking drift:', error)
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Operation failed' }, { status: 500 })
+    )
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Notifications API Route
+ * The user's outbound notification channels (signed webhook, Slack-compatible
+ * webhook, email) and their recent delivery attempts. Targets and webhook
+ * secrets are stored encrypted and never returned in full.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, verifyCSRFToken } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { validateOrigin, checkAPIRateLimit, addSecurityHeaders } from '@/lib/security'
+import { decrypt, encrypt, generateSecureToken } from '@/lib/crypto'
+import { isEmailConfigured } from '@/lib/notifications/channels'
+import {
+  MAX_NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENTS,
+  isNotificationChannelType,
+  maskChannelTarget,
+  parseChannelName,
+  parseNotificationEvents,
+  sanitizeEmailAddress,
+  sanitizeNotificationEvents,
+  sanitizeWebhookUrl,
+} from '@/lib/notifications/events'
+import type { NotificationChannelInfo, NotificationDeliveryInfo } from '@/types'
+
+const RECENT_DELIVERIES = 20
+
+/**
+ * Session, rate limit and (for mutations) origin + CSRF checks.
+ * @returns The user ID, or the error response to return
+ */
+async function authorize(
+  request: NextRequest,
+  options: { mutation: boolean }
+): Promise<{ userId: string } | { response: NextResponse }> {
+  if (options.mutation && !validateOrigin(request)) {
+    return { response: NextResponse.json({ error: 'Invalid request' }, { status: 403 }) }
+  }
+
+  const session = await getSession()
+  if (!session) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return { response: rateLimit.response! }
+  }
+
+  if (options.mutation) {
+    const csrfToken = request.headers.get('X-CSRF-Token')
+    if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
+      return { response: NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 }) }
+    }
+  }
+
+  return { userId: session.userId }
+}
+
+function serializeChannel(channel: {
+  id: string
+  type: string
+  name: string
+  target: string
+  events: string
+  enabled: boolean
+  createdAt: Date
+}): NotificationChannelInfo | null {
+  if (!isNotificationChannelType(channel.type)) return null
+  let target = '…'
+  try {
+    target = maskChannelTarget(channel.type, decrypt(channel.target))
+  } catch {
+    // Cifrado con otra ENCRYPTION_SECRET: el canal se muestra sin destino
+  }
+  return {
+    id: channel.id,
+    type: channel.type,
+    name: channel.name,
+    target,
+    events: parseNotificationEvents(channel.events),
+    enabled: channel.enabled,
+    createdAt: channel.createdAt.toISOString(),
+  }
+}
+
+/**
+ * GET /api/notifications
+ * Returns: channels[], deliveries[] (latest attempts, newest first), emailAvailable
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, { mutation: false })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  try {
+    const channels = await prisma.notificationChannel.findMany({
+      where: { userId: auth.userId },
+      orderBy: { createdAt: 'asc' },
+    })
+    const deliveries = await prisma.notificationDelivery.findMany({
+      where: { channel: { userId: auth.userId } },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_DELIVERIES,
+    })
+
+    return addSecurityHeaders(
+      NextResponse.json({
+        channels: channels.map(serializeChannel).filter((channel) => channel !== null),
+        deliveries: deliveries.map((delivery): NotificationDeliveryInfo => ({
+          id: delivery.id,
+          channelId: delivery.channelId,
+          event: delivery.event as NotificationDeliveryInfo['event'],
+          attempt: delivery.attempt,
+          status: delivery.status === 'success' ? 'success' : 'failed',
+          statusCode: delivery.statusCode,
+          error: delivery.error,
+          durationMs: delivery.durationMs,
+          createdAt: delivery.createdAt.toISOString(),
+        })),
+        emailAvailable: isEmailConfigured(),
+      }, { headers: { 'Cache-Control': 'no-store' } })
+    )
+  } catch (error) {
+    console.error('Error fetching notification channels:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * POST /api/notifications
+ * Adds a channel. Generic webhooks get a signing secret, returned only once.
+ * Body: { type, name, target, events? } (events default to all)
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  try {
+    const body = await request.json()
+    const type = isNotificationChannelType(body?.type) ? body.type : null
+    const name = parseChannelName(body?.name)
+    const target = type === 'email'
+      ? sanitizeEmailAddress(body?.target)
+      : sanitizeWebhookUrl(body?.target, {
+          allowPrivateHosts: process.env.GITPINS_NOTIFICATIONS_ALLOW_PRIVATE_HOSTS === 'true',
+        })
+    const events = body?.events === undefined ? [...NOTIFICATION_EVENTS] : sanitizeNotificationEvents(body.events)
+    if (!type || !name || !target) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+    }
+    if (type === 'email' && !isEmailConfigured()) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Email is not configured on this server', reason: 'email_unavailable' }, { status: 409 })
+      )
+    }
+
+    const count = await prisma.notificationChannel.count({ where: { userId: auth.userId } })
+    if (count >= MAX_NOTIFICATION_CHANNELS) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Too many channels' }, { status: 400 }))
+    }
+
+    const secret = type === 'webhook' ? generateSecureToken(32) : null
+    const channel = await prisma.notificationChannel.create({
+      data: {
+        userId: auth.userId,
+        type,
+        name,
+        target: encrypt(target),
+        secret: secret ? encrypt(secret) : null,
+        events: JSON.stringify(events),
+      },
+    })
+
+    return addSecurityHeaders(
+      NextResponse.json({
+        success: true,
+        channel: serializeChannel(channel),
+        // Solo se muestra ahora: el receptor lo necesita para verificar la firma
+        secret,
+      }, { status: 201, headers: { 'Cache-Control': 'no-store' } })
+    )
+  } catch (error) {
+    console.error('Error creating notification channel:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ * Renames a channel, changes its events or enables/disables it.
+ * Body: { id, name?, events?, enabled? }
+ */
+export async function PATCH(request: NextRequest) {
+  const auth = await authorize(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  try {
+    const body = await request.json()
+    const id = typeof body?.id === 'string' ? body.id : null
+    const name = body?.name === undefined ? undefined : parseChannelName(body.name)
+    const enabled = body?.enabled === undefined ? undefined : body.enabled
+    if (!id || name === null || (enabled !== undefined && typeof enabled !== 'boolean')) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+    }
+
+    const existing = await prisma.notificationChannel.findFirst({
+      where: { id, userId: auth.userId },
+      select: { id: true },
+    })
+    if (!existing) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Channel not found' }, { status: 404 }))
+    }
+
+    const channel = await prisma.notificationChannel.update({
+      where: { id: existing.id },
+      data: {
+        ...(name ? { name } : {}),
+        ...(body.events !== undefined ? { events: JSON.stringify(sanitizeNotificationEvents(body.events)) } : {}),
+        ...(enabled !== undefined ? { enabled } : {}),
+      },
+    })
+
+    return addSecurityHeaders(NextResponse.json({ success: true, channel: serializeChannel(channel) }))
+  } catch (error) {
+    console.error('Error updating notification channel:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * DELETE /api/notifications?id=<channelId>
+ * Removes a channel and its delivery history.
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await authorize(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+  }
+
+  try {
+    const result = await prisma.notificationChannel.deleteMany({
+      where: { id, userId: auth.userId },
+    })
+    if (result.count === 0) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Channel not found' }, { status: 404 }))
+    }
+    return addSecurityHeaders(NextResponse.json({ success: true }))
+  } catch (error) {
+    console.error('Error deleting notification channel:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Notification Test API Route
+ * Sends a test notification through one of the user's channels, even when
+ * it is disabled, and returns the delivery attempts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, verifyCSRFToken } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { validateOrigin, checkAPIRateLimit, addSecurityHeaders } from '@/lib/security'
+import { deliverToChannel } from '@/lib/notifications/dispatch'
+import { buildTestNotification } from '@/lib/notifications/events'
+
+/**
+ * POST /api/notifications/test
+ * Body: { id }
+ * Returns: { success, attempts[] } — success reflects the last attempt
+ */
+export async function POST(request: NextRequest) {
+  if (!validateOrigin(request)) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 403 }))
+  }
+
+  const session = await getSession()
+  if (!session) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Unauthorized' }, { status: 401 }))
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return addSecurityHeaders(rateLimit.response!)
+  }
+
+  const csrfToken = request.headers.get('X-CSRF-Token')
+  if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 }))
+  }
+
+  try {
+    const body = await request.json()
+    const id = typeof body?.id === 'string' ? body.id : null
+    if (!id) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+    }
+
+    const channel = await prisma.notificationChannel.findFirst({
+      where: { id, userId: session.userId },
+    })
+    if (!channel) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Channel not found' }, { status: 404 }))
+    }
+
+    const attempts = await deliverToChannel(channel, buildTestNotification())
+    return addSecurityHeaders(NextResponse.json({
+      success: attempts.length > 0 && attempts[attempts.length - 1].ok,
+      attempts,
+    }))
+  } catch (error) {
+    console.error('Error sending test notification:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Order Profile Activation API Route
+ * Switches an account to one of its named profiles from the dashboard.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, verifyCSRFToken } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { validateOrigin, checkAPIRateLimit, addSecurityHeaders } from '@/lib/security'
+import { activateOrderProfile } from '@/lib/order-profiles'
+
+/**
+ * POST /api/order-profiles/activate
+ * Copies the profile's order into the account and logs `profile_activated`.
+ * The next sync applies it on GitHub.
+ * Body: { id }
+ */
+export async function POST(request: NextRequest) {
+  if (!validateOrigin(request)) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Invalid request' }, { status: 403 })
+    )
+  }
+
+  const session = await getSession()
+  if (!session) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    )
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return addSecurityHeaders(rateLimit.response!)
+  }
+
+  const csrfToken = request.headers.get('X-CSRF-Token')
+  if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 })
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const id = typeof body?.id === 'string' ? body.id : null
+    if (!id) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+      )
+    }
+
+    const profile = await prisma.orderProfile.findFirst({
+      where: { id, repoOrder: { userId: session.userId } },
+      include: { repoOrder: { select: { id: true, userId: true, org: true, configRepo: true } } },
+    })
+    if (!profile) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+      )
+    }
+    if (profile.repoOrder.configRepo) {
+      return addSecurityHeaders(
+        NextResponse.json({
+          error: 'Order is managed by a config repository',
+          reason: 'managed_by_config',
+          configRepo: profile.repoOrder.configRepo,
+        }, { status: 409 })
+      )
+    }
+
+    const { repoOrder, ...orderProfile } = profile
+    await activateOrderProfile(repoOrder, orderProfile, { action: 'profile_activated' })
+
+    return addSecurityHeaders(NextResponse.json({ success: true }))
+  } catch (error) {
+    console.error('Error activating order profile:', error)
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Operation failed' }, { status: 500 })
+    )
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Order Profiles API Route
+ * Named saved orders ("conference week", "hiring"...) of an account, with an
+ * optional rotation schedule. Profiles belong to the personal account or to
+ * an organization profile (`?org=` / `org` in the body).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, verifyCSRFToken } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { validateOrigin, checkAPIRateLimit, addSecurityHeaders } from '@/lib/security'
+import { parseProfileOrg } from '@/lib/profiles'
+import { isValidCron, MAX_ORDER_PROFILES, parseProfileName } from '@/lib/sync/rotation'
+import type { OrderProfileInfo } from '@/types'
+
+type Schedule = { activateAt?: Date | null; cron?: string | null }
+
+/**
+ * Session, rate limit and (for mutations) origin + CSRF checks.
+ * @returns The user ID, or the error response to return
+ */
+async function authorize(
+  request: NextRequest,
+  options: { mutation: boolean }
+): Promise<{ userId: string } | { response: NextResponse }> {
+  if (options.mutation && !validateOrigin(request)) {
+    return { response: NextResponse.json({ error: 'Invalid request' }, { status: 403 }) }
+  }
+
+  const session = await getSession()
+  if (!session) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return { response: rateLimit.response! }
+  }
+
+  if (options.mutation) {
+    const csrfToken = request.headers.get('X-CSRF-Token')
+    if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
+      return { response: NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 }) }
+    }
+  }
+
+  return { userId: session.userId }
+}
+
+/**
+ * Reads `activateAt` (ISO date or null) and `cron` (expression or null) from
+ * a request body. Missing fields are left out so PATCH keeps them.
+ * @returns The schedule, or null when a field is invalid
+ */
+function parseSchedule(body: Record<string, unknown>): Schedule | null {
+  const schedule: Schedule = {}
+
+  if (body.activateAt !== undefined) {
+    if (body.activateAt === null || body.activateAt === '') {
+      schedule.activateAt = null
+    } else {
+      const date = typeof body.activateAt === 'string' ? new Date(body.activateAt) : null
+      if (!date || Number.isNaN(date.getTime())) return null
+      schedule.activateAt = date
+    }
+  }
+
+  if (body.cron !== undefined) {
+    if (body.cron === null || body.cron === '') {
+      schedule.cron = null
+    } else if (isValidCron(body.cron)) {
+      schedule.cron = body.cron.trim()
+    } else {
+      return null
+    }
+  }
+
+  return schedule
+}
+
+function serializeProfile(profile: {
+  id: string
+  name: string
+  reposOrder: string
+  topN: number
+  activateAt: Date | null
+  cron: string | null
+  updatedAt: Date
+}): OrderProfileInfo {
+  let reposCount = 0
+  try {
+    const parsed = JSON.parse(profile.reposOrder)
+    reposCount = Array.isArray(parsed) ? Math.min(parsed.length, profile.topN) : 0
+  } catch {
+    reposCount = 0
+  }
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    reposCount,
+    activateAt: profile.activateAt?.toISOString() ?? null,
+    cron: profile.cron,
+    updatedAt: profile.updatedAt.toISOString(),
+  }
+}
+
+/** Loads the account a request targets (personal or organization profile). */
+async function findAccount(userId: string, org: string | null) {
+  return prisma.repoOrder.findFirst({
+    where: { userId, org },
+    select: { id: true, reposOrder: true, topN: true, activeProfileId: true, rotationCheckedAt: true },
+  })
+}
+
+/** Scheduled activations only count from the moment a schedule exists. */
+async function startRotationClock(account: { id: string; rotationCheckedAt: Date | null }, schedule: Schedule) {
+  if (account.rotationCheckedAt || (!schedule.activateAt && !schedule.cron)) return
+  await prisma.repoOrder.update({
+    where: { id: account.id },
+    data: { rotationCheckedAt: new Date() },
+  })
+}
+
+/**
+ * GET /api/order-profiles?org=<login>
+ * Returns the account's named profiles and the active one.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, { mutation: false })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  const org = parseProfileOrg(request.nextUrl.searchParams.get('org'))
+  if (org === undefined) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+  }
+
+  try {
+    const account = await findAccount(auth.userId, org)
+    const profiles = account
+      ? await prisma.orderProfile.findMany({
+          where: { repoOrderId: account.id },
+          orderBy: { name: 'asc' },
+        })
+      : []
+
+    return addSecurityHeaders(
+      NextResponse.json({
+        profiles: profiles.map(serializeProfile),
+        activeProfileId: account?.activeProfileId ?? null,
+      }, { headers: { 'Cache-Control': 'no-store' } })
+    )
+  } catch (error) {
+    console.error('Error fetching order profiles:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * POST /api/order-profiles
+ * Saves the account's current order as a new named profile, which becomes
+ * the active one.
+ * Body: { org?, name, activateAt?, cron? }
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  try {
+    const body = await request.json()
+    const org = parseProfileOrg(body?.org)
+    const name = parseProfileName(body?.name)
+    const schedule = body && typeof body === 'object' ? parseSchedule(body) : null
+    if (org === undefined || !name || !schedule) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+    }
+
+    const account = await findAccount(auth.userId, org)
+    if (!account) {
+      // Hay que guardar un orden antes de poder nombrarlo
+      return addSecurityHeaders(NextResponse.json({ error: 'Profile not found' }, { status: 404 }))
+    }
+
+    const existing = await prisma.orderProfile.findMany({
+      where: { repoOrderId: account.id },
+      select: { name: true },
+    })
+    if (existing.some((profile) => profile.name === name)) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Name already in use' }, { status: 409 }))
+    }
+    if (existing.length >= MAX_ORDER_PROFILES) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Too many profiles' }, { status: 400 }))
+    }
+
+    const profile = await prisma.orderProfile.create({
+      data: {
+        repoOrderId: account.id,
+        name,
+        reposOrder: account.reposOrder,
+        topN: account.topN,
+        activateAt: schedule.activateAt ?? null,
+        cron: schedule.cron ?? null,
+      },
+    })
+    await prisma.repoOrder.update({
+      where: { id: account.id },
+      data: { activeProfileId: profile.id },
+    })
+    await startRotationClock(account, schedule)
+
+    return addSecurityHeaders(
+      NextResponse.json({ success: true, profile: serializeProfile(profile) }, { status: 201 })
+    )
+  } catch (error) {
+    console.error('Error creating order profile:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * PATCH /api/order-profiles
+ * Renames a profile or changes its rotation schedule (null clears a field).
+ * Body: { id, name?, activateAt?, cron? }
+ */
+export async function PATCH(request: NextRequest) {
+  const auth = await authorize(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  try {
+    const body = await request.json()
+    const id = typeof body?.id === 'string' ? body.id : null
+    const name = body?.name === undefined ? undefined : parseProfileName(body.name)
+    const schedule = body && typeof body === 'object' ? parseSchedule(body) : null
+    if (!id || name === null || !schedule) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+    }
+
+    const profile = await prisma.orderProfile.findFirst({
+      where: { id, repoOrder: { userId: auth.userId } },
+      include: { repoOrder: { select: { id: true, rotationCheckedAt: true } } },
+    })
+    if (!profile) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Profile not found' }, { status: 404 }))
+    }
+
+    if (name && name !== profile.name) {
+      const clash = await prisma.orderProfile.findFirst({
+        where: { repoOrderId: profile.repoOrderId, name },
+        select: { id: true },
+      })
+      if (clash) {
+        return addSecurityHeaders(NextResponse.json({ error: 'Name already in use' }, { status: 409 }))
+      }
+    }
+
+    const updated = await prisma.orderProfile.update({
+      where: { id: profile.id },
+      data: { ...(name ? { name } : {}), ...schedule },
+    })
+    await startRotationClock(profile.repoOrder, schedule)
+
+    return addSecurityHeaders(NextResponse.json({ success: true, profile: serializeProfile(updated) }))
+  } catch (error) {
+    console.error('Error updating order profile:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * DELETE /api/order-profiles?id=<profileId>
+ * Removes a named profile. The account keeps its current order.
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await authorize(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+  }
+
+  try {
+    const result = await prisma.orderProfile.deleteMany({
+      where: { id, repoOrder: { userId: auth.userId } },
+    })
+    if (result.count === 0) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Profile not found' }, { status: 404 }))
+    }
+
+    await prisma.repoOrder.updateMany({
+      where: { userId: auth.userId, activeProfileId: id },
+      data: { activeProfileId: null },
+    })
+
+    return addSecurityHeaders(NextResponse.json({ success: true }))
+  } catch (error) {
+    console.error('Error deleting order profile:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
@@ -12,6 +12,13 @@ import { getSession, verifyCSRFToken } from '@/lib/session'
 import { prisma } from '@/lib/prisma'
 import { addSecurityHeaders, checkAPIRateLimit, validateOrigin } from '@/lib/security'
 import { ipHashFromRequest, jsonDetails, subjectHashFromGithubId, userAgentFromRequest } from '@/lib/privacy-audit'
+import { parseRepoStrategies } from '@/lib/sync/strategies'
+import { parsePinRules } from '@/lib/sync/pin-rules'
+import { parseRepoIds } from '@/lib/sync/repo-ids'
+import { parseConfigErrors } from '@/lib/config-repo/parse'
+import { decrypt } from '@/lib/crypto'
+import { parseApiTokenScopes } from '@/lib/api-tokens'
+import { isNotificationChannelType, maskChannelTarget, parseNotificationEvents } from '@/lib/notifications/events'
 
 function safeParseJSON<T>(value: string | null | undefined): T | null {
   if (!value || typeof value !== 'string') return null
@@ -27,6 +34,99 @@ function safeParseJSONArray(value: string | null | undefined): string[] {
   return Array.isArray(parsed) ? parsed.filter((v) => typeof v === 'string') : []
 }
 
+function serializeRepoOrder(repoOrder: {
+  reposOrder: string
+  reposOrderIds: string
+  topN: number
+  includePrivate: boolean
+  syncFrequency: number
+  autoEnabled: boolean
+  commitStrategy: string
+  repoStrategies: string
+  preferredHour: number | null
+  verifyAfterSync: boolean
+  pinRules: string | null
+  driftEarlySync: boolean
+  driftCheckedAt: Date | null
+  driftedSince: Date | null
+  driftChecks: Array<{
+    inOrder: boolean
+    currentTop: string
+    desiredTop: string
+    outOfPlace: string
+    earlySync: boolean
+    checkedAt: Date
+  }>
+  lastSyncAt: Date | null
+  resumeSyncAt: Date | null
+  activeProfileId: string | null
+  orderProfiles: Array<{
+    id: string
+    name: string
+    reposOrder: string
+    topN: number
+    activateAt: Date | null
+    cron: string | null
+    createdAt: Date
+    updatedAt: Date
+  }>
+  configRepo: string | null
+  configPath: string | null
+  configSha: string | null
+  configImportedAt: Date | null
+  configError: string | null
+  createdAt: Date
+  updatedAt: Date
+}) {
+  return {
+    reposOrder: safeParseJSONArray(repoOrder.reposOrder),
+    reposOrderIds: parseRepoIds(repoOrder.reposOrderIds),
+    topN: repoOrder.topN,
+    includePrivate: repoOrder.includePrivate,
+    syncFrequency: repoOrder.syncFrequency,
+    autoEnabled: repoOrder.autoEnabled,
+    commitStrategy: repoOrder.commitStrategy,
+    repoStrategies: parseRepoStrategies(repoOrder.repoStrategies),
+    preferredHour: repoOrder.preferredHour,
+    verifyAfterSync: repoOrder.verifyAfterSync,
+    pinRules: parsePinRules(repoOrder.pinRules),
+    driftEarlySync: repoOrder.driftEarlySync,
+    driftCheckedAt: repoOrder.driftCheckedAt?.toISOString() ?? null,
+    driftedSince: repoOrder.driftedSince?.toISOString() ?? null,
+    driftChecks: repoOrder.driftChecks.map((check) => ({
+      inOrder: check.inOrder,
+      currentTop: safeParseJSONArray(check.currentTop),
+      desiredTop: safeParseJSONArray(check.desiredTop),
+      outOfPlace: safeParseJSONArray(check.outOfPlace),
+      earlySync: check.earlySync,
+      checkedAt: check.checkedAt.toISOString(),
+    })),
+    lastSyncAt: repoOrder.lastSyncAt?.toISOString() ?? null,
+    resumeSyncAt: repoOrder.resumeSyncAt?.toISOString() ?? null,
+    namedProfiles: repoOrder.orderProfiles.map((profile) => ({
+      name: profile.name,
+      active: profile.id === repoOrder.activeProfileId,
+      reposOrder: safeParseJSONArray(profile.reposOrder),
+      topN: profile.topN,
+      activateAt: profile.activateAt?.toISOString() ?? null,
+      cron: profile.cron,
+      createdAt: profile.createdAt.toISOString(),
+      updatedAt: profile.updatedAt.toISOString(),
+    })),
+    configRepo: repoOrder.configRepo
+      ? {
+          repo: repoOrder.configRepo,
+          path: repoOrder.configPath,
+          sha: repoOrder.configSha,
+          importedAt: repoOrder.configImportedAt?.toISOString() ?? null,
+          errors: parseConfigErrors(repoOrder.configError),
+        }
+      : null,
+    createdAt: repoOrder.createdAt.toISOString(),
+    updatedAt: repoOrder.updatedAt.toISOString(),
+  }
+}
+
 export async function GET(request: NextRequest) {
   const session = await getSession()
   if (!session) {
@@ -117,7 +217,7 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const [user, repoOrder, snapshots, syncLogs, privacyEvents, exportJobs, adminAccounts] = await Promise.all([
+    const [user, repoOrders, snapshots, syncLogs, privacyEvents, exportJobs, adminAccounts, repoHealth] = await Promise.all([
       prisma.user.findUnique({
         where: { id: session.userId },
         select: {
@@ -144,17 +244,58 @@ export async function POST(request: NextRequest) {
           },
         },
       }),
-      prisma.repoOrder.findUnique({
+      prisma.repoOrder.findMany({
         where: { userId: session.userId },
+        orderBy: { createdAt: 'asc' },
         select: {
+          org: true,
+          installationId: true,
           reposOrder: true,
+          reposOrderIds: true,
           topN: true,
           includePrivate: true,
           syncFrequency: true,
           autoEnabled: true,
           commitStrategy: true,
+          repoStrategies: true,
           preferredHour: true,
+          verifyAfterSync: true,
+          pinRules: true,
+          driftEarlySync: true,
+          driftCheckedAt: true,
+          driftedSince: true,
+          driftChecks: {
+            orderBy: { checkedAt: 'asc' },
+            select: {
+              inOrder: true,
+              currentTop: true,
+              desiredTop: true,
+              outOfPlace: true,
+              earlySync: true,
+              checkedAt: true,
+            },
+          },
           lastSyncAt: true,
+          resumeSyncAt: true,
+          activeProfileId: true,
+          configRepo: true,
+          configPath: true,
+          configSha: true,
+          configImportedAt: true,
+          configError: true,
+          orderProfiles: {
+            orderBy: { name: 'asc' },
+            select: {
+              id: true,
+              name: true,
+              reposOrder: true,
+              topN: true,
+              activateAt: true,
+              cron: true,
+              createdAt: true,
+              updatedAt: true,
+            },
+          },
           createdAt: true,
           updatedAt: true,
           // syncSecret intentionally excluded (secret)
@@ -223,6 +364,18 @@ export async function POST(request: NextRequest) {
           updatedAt: true,
         },
       }),
+      prisma.repoHealth.findMany({
+        where: { userId: session.userId },
+        orderBy: { repo: 'asc' },
+        select: {
+          repo: true,
+          consecutiveFailures: true,
+          lastErrorCategory: true,
+          lastFailureAt: true,
+          lastSuccessAt: true,
+          quarantinedAt: true,
+        },
+      }),
     ])
 
     if (!user) {
@@ -262,7 +415,49 @@ export async function POST(request: NextRequest) {
         createdAt: true,
       },
     })
+    const notificationChannels = await prisma.notificationChannel.findMany({
+      where: { userId: session.userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        type: true,
+        name: true,
+        target: true,
+        events: true,
+        enabled: true,
+        createdAt: true,
+        updatedAt: true,
+        deliveries: {
+          orderBy: { createdAt: 'asc' },
+          select: {
+            event: true,
+            attempt: true,
+            status: true,
+            statusCode: true,
+            error: true,
+            durationMs: true,
+            createdAt: true,
+          },
+        },
+        // secret intentionally excluded (secret)
+      },
+    })
+    const apiTokens = await prisma.apiToken.findMany({
+      where: { userId: session.userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        prefix: true,
+        scopes: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        createdAt: true,
+        // tokenHash intentionally excluded
+      },
+    })
     const hasActiveAdminAccess = adminAccounts.some((account) => account.revokedAt === null)
+    const personalOrder = repoOrders.find((order) => order.org === null)
 
     const payload = {
       exportVersion: 1,
@@ -293,20 +488,14 @@ export async function POST(request: NextRequest) {
             updatedAt: user.token.updatedAt.toISOString(),
           }
         : null,
-      repoOrder: repoOrder
-        ? {
-            reposOrder: safeParseJSONArray(repoOrder.reposOrder),
-            topN: repoOrder.topN,
-            includePrivate: repoOrder.includePrivate,
-            syncFrequency: repoOrder.syncFrequency,
-            autoEnabled: repoOrder.autoEnabled,
-            commitStrategy: repoOrder.commitStrategy,
-            preferredHour: repoOrder.preferredHour,
-            lastSyncAt: repoOrder.lastSyncAt?.toISOString() ?? null,
-            createdAt: repoOrder.createdAt.toISOString(),
-            updatedAt: repoOrder.updatedAt.toISOString(),
-          }
-        : null,
+      repoOrder: personalOrder ? serializeRepoOrder(personalOrder) : null,
+      orgProfiles: repoOrders
+        .filter((order) => order.org !== null)
+        .map((order) => ({
+          org: order.org,
+          installationId: order.installationId,
+          ...serializeRepoOrder(order),
+        })),
       history: {
         orderSnapshots: snapshots.map((s) => ({
           id: s.id,
@@ -323,7 +512,47 @@ export async function POST(request: NextRequest) {
           details: safeParseJSON<unknown>(log.details),
           createdAt: log.createdAt.toISOString(),
         })),
+        repoHealth: repoHealth.map((h) => ({
+          repo: h.repo,
+          consecutiveFailures: h.consecutiveFailures,
+          lastErrorCategory: h.lastErrorCategory,
+          lastFailureAt: h.lastFailureAt?.toISOString() ?? null,
+          lastSuccessAt: h.lastSuccessAt?.toISOString() ?? null,
+          quarantinedAt: h.quarantinedAt?.toISOString() ?? null,
+        })),
       },
+      apiTokens: apiTokens.map((token) => ({
+        id: token.id,
+        name: token.name,
+        prefix: token.prefix,
+        scopes: parseApiTokenScopes(token.scopes),
+        expiresAt: token.expiresAt.toISOString(),
+        lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+        createdAt: token.createdAt.toISOString(),
+      })),
+      notifications: notificationChannels.map((channel) => {
+        let target: string | null = null
+        try {
+          // Webhook URLs act as credentials: only the host is exported
+          target = isNotificationChannelType(channel.type) ? maskChannelTarget(channel.type, decrypt(channel.target)) : null
+        } catch {
+          target = null
+        }
+        return {
+          id: channel.id,
+          type: channel.type,
+          name: channel.name,
+          target,
+          events: parseNotificationEvents(channel.events),
+          enabled: channel.enabled,
+          createdAt: channel.createdAt.toISOString(),
+          updatedAt: channel.updatedAt.toISOString(),
+          deliveries: channel.deliveries.map((delivery) => ({
+            ...delivery,
+            createdAt: delivery.createdAt.toISOString(),
+          })),
+        }
+      }),
       admin: {
         logsTargetingMe: targetedAdminLogs.map((l) => ({
           id: l.id,
@@ -0,0 +1,233 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Profiles API Route
+ * Lists, creates and removes organization ordering profiles. A profile can
+ * only be created for an organization the user administers and where the
+ * GitHub App is installed; its order is then saved via /api/repos/order.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, verifyCSRFToken } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { ensureValidToken, getAdministeredOrgInstallations } from '@/lib/github'
+import { validateOrigin, checkAPIRateLimit, addSecurityHeaders } from '@/lib/security'
+import { MAX_ORG_PROFILES, normalizeOrgLogin, parseProfileOrg } from '@/lib/profiles'
+import type { ProfilesResponse } from '@/types'
+
+/**
+ * Session, rate limit and (for mutations) origin + CSRF checks.
+ * @returns The user ID, or the error response to return
+ */
+async function authorize(
+  request: NextRequest,
+  options: { mutation: boolean }
+): Promise<{ userId: string } | { response: NextResponse }> {
+  if (options.mutation && !validateOrigin(request)) {
+    return { response: NextResponse.json({ error: 'Invalid request' }, { status: 403 }) }
+  }
+
+  const session = await getSession()
+  if (!session) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return { response: rateLimit.response! }
+  }
+
+  if (options.mutation) {
+    const csrfToken = request.headers.get('X-CSRF-Token')
+    if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
+      return { response: NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 }) }
+    }
+  }
+
+  return { userId: session.userId }
+}
+
+/**
+ * GET /api/profiles
+ * Returns the user's organization profiles and the organizations that can
+ * still get one.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, { mutation: false })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  try {
+    const profiles = await prisma.repoOrder.findMany({
+      where: { userId: auth.userId, org: { not: null } },
+      select: { org: true, installationId: true, lastSyncAt: true },
+      orderBy: { org: 'asc' },
+    })
+
+    // Sin token válido solo se listan los perfiles existentes
+    let administered: Awaited<ReturnType<typeof getAdministeredOrgInstallations>> = []
+    try {
+      const { accessToken } = await ensureValidToken(auth.userId)
+      administered = await getAdministeredOrgInstallations(accessToken)
+    } catch (error) {
+      console.error('Error listing administered organizations:', error)
+    }
+
+    const avatars = new Map(administered.map((entry) => [normalizeOrgLogin(entry.org), entry.avatarUrl]))
+    const taken = new Set(profiles.map((profile) => profile.org!))
+
+    const response: ProfilesResponse = {
+      profiles: profiles.map((profile) => ({
+        org: profile.org!,
+        avatarUrl: avatars.get(profile.org!) ?? null,
+        installed: profile.installationId !== null,
+        lastSyncAt: profile.lastSyncAt?.toISOString() ?? null,
+      })),
+      availableOrgs: administered
+        .filter((entry) => !taken.has(normalizeOrgLogin(entry.org)))
+        .map(({ org, avatarUrl }) => ({ org, avatarUrl })),
+    }
+
+    return addSecurityHeaders(
+      NextResponse.json(response, { headers: { 'Cache-Control': 'no-store' } })
+    )
+  } catch (error) {
+    console.error('Error fetching profiles:', error)
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Operation failed' }, { status: 500 })
+    )
+  }
+}
+
+/**
+ * POST /api/profiles
+ * Creates an organization profile (empty order, auto sync off).
+ * Re-creating an existing profile refreshes its installation ID, which
+ * recovers a profile after the app was reinstalled on the organization.
+ * Body: { org }
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  try {
+    const body = await request.json()
+    const requested = parseProfileOrg(body?.org)
+    if (!requested) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+      )
+    }
+
+    const { accessToken } = await ensureValidToken(auth.userId)
+    const installation = (await getAdministeredOrgInstallations(accessToken))
+      .find((entry) => normalizeOrgLogin(entry.org) === requested)
+
+    // Solo administradores de una org con la app instalada
+    if (!installation) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Forbidden', reason: 'not_org_admin' }, { status: 403 })
+      )
+    }
+
+    const existing = await prisma.repoOrder.findFirst({
+      where: { userId: auth.userId, org: requested },
+      select: { id: true },
+    })
+
+    if (existing) {
+      await prisma.repoOrder.update({
+        where: { id: existing.id },
+        data: { installationId: installation.installationId },
+      })
+    } else {
+      const profileCount = await prisma.repoOrder.count({
+        where: { userId: auth.userId, org: { not: null } },
+      })
+      if (profileCount >= MAX_ORG_PROFILES) {
+        return addSecurityHeaders(
+          NextResponse.json({ error: 'Too many profiles' }, { status: 400 })
+        )
+      }
+
+      await prisma.repoOrder.create({
+        data: {
+          userId: auth.userId,
+          org: requested,
+          installationId: installation.installationId,
+          reposOrder: '[]',
+          autoEnabled: false,
+          syncSecret: crypto.randomUUID(),
+        },
+      })
+    }
+
+    await prisma.syncLog.create({
+      data: {
+        userId: auth.userId,
+        action: 'org_profile_created',
+        status: 'success',
+        details: JSON.stringify({ org: requested, reinstalled: !!existing }),
+        reposAffected: '[]',
+      },
+    })
+
+    return addSecurityHeaders(
+      NextResponse.json({ success: true, org: requested }, { status: existing ? 200 : 201 })
+    )
+  } catch (error) {
+    console.error('Error creating profile:', error)
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Operation failed' }, { status: 500 })
+    )
+  }
+}
+
+/**
+ * DELETE /api/profiles?org=<login>
+ * Removes an organization profile and its saved order. Repositories keep
+ * their current position on GitHub.
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await authorize(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  const org = parseProfileOrg(request.nextUrl.searchParams.get('org'))
+  if (!org) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    )
+  }
+
+  try {
+    const result = await prisma.repoOrder.deleteMany({
+      where: { userId: auth.userId, org },
+    })
+
+    if (result.count === 0) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+      )
+    }
+
+    await prisma.syncLog.create({
+      data: {
+        userId: auth.userId,
+        action: 'org_profile_deleted',
+        status: 'success',
+        details: JSON.stringify({ org }),
+        reposAffected: '[]',
+      },
+    })
+
+    return addSecurityHeaders(NextResponse.json({ success: true }))
+  } catch (error) {
+    console.error('Error deleting profile:', error)
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Operation failed' }, { status: 500 })
+    )
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Public View API Route
+ * Lists a profile's public repositories in the order a logged-out visitor
+ * sees them on the repositories tab (most recently updated first). The
+ * dashboard compares it with the desired list.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/session'
+import { createUserOctokit, ensureValidToken, fetchPublicRepoOrder, type PublicRepoOrder } from '@/lib/github'
+import { createAppOctokit } from '@/lib/github-app'
+import { prisma } from '@/lib/prisma'
+import { checkAPIRateLimit, addSecurityHeaders, isValidRepoFullName } from '@/lib/security'
+import { parseProfileOrg } from '@/lib/profiles'
+
+/** Most pinned repos the listing is asked to locate (same cap as topN). */
+const MAX_WANTED_REPOS = 100
+
+/**
+ * Parses the `repos` query parameter (comma-separated full names).
+ * @returns The names, or null when one of them is invalid or there are too many
+ */
+function parseWantedRepos(value: string | null): string[] | null {
+  if (!value) return []
+  const repos = value.split(',')
+  if (repos.length > MAX_WANTED_REPOS || !repos.every(isValidRepoFullName)) return null
+  return repos
+}
+
+/**
+ * GET /api/public-view
+ * Reads GitHub directly (never the repo cache) so the result matches what
+ * visitors see right now. Pages are read until every pinned repo has been
+ * found or the listing ends.
+ * Query: ?org=<login> checks an organization profile (through its installation)
+ *        &repos=<owner/name,...> pinned repos to locate
+ * Returns: account, visitorOrder[], complete, fetchedAt
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession()
+
+  if (!session) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Unauthorized', reason: 'no_session' }, { status: 401 })
+    )
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return addSecurityHeaders(rateLimit.response!)
+  }
+
+  const org = parseProfileOrg(request.nextUrl.searchParams.get('org'))
+  const wanted = parseWantedRepos(request.nextUrl.searchParams.get('repos'))
+  if (org === undefined || !wanted) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    )
+  }
+
+  try {
+    let listing: PublicRepoOrder
+    let account: string
+
+    if (org) {
+      const repoOrder = await prisma.repoOrder.findFirst({
+        where: { userId: session.userId, org },
+        select: { installationId: true },
+      })
+      if (!repoOrder) {
+        return addSecurityHeaders(
+          NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+        )
+      }
+      if (!repoOrder.installationId) {
+        return addSecurityHeaders(
+          NextResponse.json({ error: 'GitHub App is not installed on this organization', reason: 'installation_missing' }, { status: 409 })
+        )
+      }
+      account = org
+      listing = await fetchPublicRepoOrder(createAppOctokit(repoOrder.installationId), { org }, wanted)
+    } else {
+      const user = await prisma.user.findUnique({
+        where: { id: session.userId },
+        select: { username: true },
+      })
+      if (!user) {
+        return addSecurityHeaders(
+          NextResponse.json({ error: 'Unauthorized', reason: 'no_session' }, { status: 401 })
+        )
+      }
+
+      let accessToken: string
+      try {
+        accessToken = (await ensureValidToken(session.userId)).accessToken
+      } catch {
+        return addSecurityHeaders(
+          NextResponse.json({
+            error: 'GitHub authentication expired. Please log in again.',
+            reason: 'token_expired'
+          }, { status: 401 })
+        )
+      }
+      account = user.username
+      listing = await fetchPublicRepoOrder(createUserOctokit(accessToken), { user: user.username }, wanted)
+    }
+
+    return addSecurityHeaders(
+      NextResponse.json({
+        account,
+        visitorOrder: listing.order,
+        complete: listing.complete,
+        fetchedAt: new Date().toISOString(),
+      }, { headers: { 'Cache-Control': 'no-store' } })
+    )
+  } catch (error) {
+    console.error('Error fetching public repository order:', error)
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Operation failed' }, { status: 500 })
+    )
+  }
+}
@@ -14,8 +14,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@/lib/session'
 import { prisma } from '@/lib/prisma'
 import { createAppOctokit } from '@/lib/github-app'
+import { getRateLimitBudget, planRequestPacing } from '@/lib/github-rate-limit'
 import { validateOrigin, addNoStoreHeaders, addSecurityHeaders, checkAPIRateLimit } from '@/lib/security'
 
+/** A request should not hang on the rate limit for longer than this. */
+const MAX_RATE_LIMIT_WAIT_MS = 5000
+
 interface RepoCommitCount {
   repo: string
   gitpinsCommits: number
@@ -52,10 +56,12 @@ export async function GET(request: NextRequest) {
   try {
     const user = await prisma.user.findUnique({
       where: { id: session.userId },
-      include: { repoOrder: true },
+      // Perfil personal: la limpieza de commits solo aplica a la cuenta del usuario
+      include: { repoOrders: { where: { org: null } } },
     })
+    const repoOrder = user?.repoOrders[0]
 
-    if (!user || !user.installationId || !user.repoOrder) {
+    if (!user || !user.installationId || !repoOrder) {
       return addSecurityHeaders(
         addNoStoreHeaders(NextResponse.json({ error: 'Configuration required' }, { status: 400 }))
       )
@@ -77,7 +83,7 @@ export async function GET(request: NextRequest) {
     // Obtener lista de repos configurados
     let reposOrder: string[] = []
     try {
-      reposOrder = JSON.parse(user.repoOrder.reposOrder)
+      reposOrder = JSON.parse(repoOrder.reposOrder)
       if (!Array.isArray(reposOrder)) {
         reposOrder = []
       }
@@ -88,11 +94,29 @@ export async function GET(request: NextRequest) {
     }
 
     const results: RepoCommitCount[] = []
+    const budget = getRateLimitBudget(octokit)
+    let resumeAt: Date | undefined
 
     // Revisar cada repo
-    for (const repoFullName of reposOrder) {
+    for (const [index, repoFullName] of reposOrder.entries()) {
       const [owner, repo] = repoFullName.split('/')
 
+      // Pequeño delay para no saturar la API, más largo si queda poco presupuesto
+      const pacing = budget
+        ? planRequestPacing(budget.snapshot(), {
+            baseDelayMs: index === 0 ? 0 : 100,
+            requestsPerItem: 1,
+            maxWaitMs: MAX_RATE_LIMIT_WAIT_MS,
+          })
+        : { action: 'continue' as const, delayMs: index === 0 ? 0 : 100 }
+      if (pacing.action === 'defer') {
+        resumeAt = pacing.resumeAt
+        break
+      }
+      if (pacing.delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, pacing.delayMs))
+      }
+
       try {
         // Obtener commits recientes (últimos 100)
         const { data: commits } = await octokit.rest.repos.listCommits({
@@ -130,9 +154,6 @@ export async function GET(request: NextRequest) {
           totalCommits: 0,
         })
       }
-
-      // Pequeño delay para no saturar la API
-      await new Promise(resolve => setTimeout(resolve, 100))
     }
 
     return addSecurityHeaders(
@@ -140,6 +161,8 @@ export async function GET(request: NextRequest) {
         success: true,
         repos: results,
         totalGitpinsCommits: results.reduce((sum, r) => sum + r.gitpinsCommits, 0),
+        // Sin presupuesto de API: el resto de repos se puede consultar más tarde
+        ...(resumeAt && { incomplete: true, resumeAt: resumeAt.toISOString() }),
       }))
     )
 
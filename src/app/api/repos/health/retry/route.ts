@@ -0,0 +1,84 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Repo Health Retry API Route
+ * Releases a quarantined repository so the next sync touches it again.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, verifyCSRFToken } from '@/lib/session'
+import { prisma } from '@/lib/prisma'
+import { validateOrigin, checkAPIRateLimit, isValidRepoFullName, addSecurityHeaders } from '@/lib/security'
+
+/**
+ * POST /api/repos/health/retry
+ * Clears the failure streak and quarantine of one repository.
+ * Body: { repo }
+ */
+export async function POST(request: NextRequest) {
+  if (!validateOrigin(request)) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Invalid request' }, { status: 403 })
+    )
+  }
+
+  const session = await getSession()
+  if (!session) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    )
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return addSecurityHeaders(rateLimit.response!)
+  }
+
+  const csrfToken = request.headers.get('X-CSRF-Token')
+  if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 })
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const repo = body?.repo
+
+    if (typeof repo !== 'string' || !isValidRepoFullName(repo)) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Invalid repository name' }, { status: 400 })
+      )
+    }
+
+    const result = await prisma.repoHealth.updateMany({
+      where: { userId: session.userId, repo },
+      data: { consecutiveFailures: 0, quarantinedAt: null },
+    })
+
+    if (result.count > 0) {
+      await prisma.syncLog.create({
+        data: {
+          userId: session.userId,
+          action: 'repo_quarantine_released',
+          status: 'success',
+          details: JSON.stringify({ reason: 'Repository released from quarantine by the user' }),
+          reposAffected: JSON.stringify([repo]),
+        },
+      })
+    }
+
+    return addSecurityHeaders(
+      NextResponse.json({ success: true, released: result.count > 0 })
+    )
+  } catch (error) {
+    console.error('Error releasing repo quarantine:', error)
+    return addSecurityHeaders(
+      NextResponse.json({ error: 'Operation failed' }, { status: 500 })
+    )
+  }
+}
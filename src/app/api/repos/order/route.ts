@@ -11,50 +11,36 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getSession, verifyCSRFToken } from '@/lib/session'
+import { authorizeUserRequest } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
-import { validateOrigin, checkAPIRateLimit, isValidRepoFullName, addSecurityHeaders } from '@/lib/security'
+import { isValidRepoFullName, addSecurityHeaders } from '@/lib/security'
+import { DEFAULT_TOUCH_STRATEGY, isTouchStrategy, sanitizeRepoStrategies } from '@/lib/sync/strategies'
+import { parseProfileOrg } from '@/lib/profiles'
+import { sanitizePinRules } from '@/lib/sync/pin-rules'
+import { parseRepoIds, retainRepoIds } from '@/lib/sync/repo-ids'
+import { recordOrderSave } from '@/lib/order-history'
+import { checkOrgProfileAccess, describeOrgAccessFailure } from '@/lib/org-access'
 
 /**
  * POST /api/repos/order
  * Saves repository order and settings to database.
- * Body: { reposOrder, topN, syncFrequency, autoEnabled }
+ * Body: { org?, reposOrder, topN, syncFrequency, autoEnabled, commitStrategy, repoStrategies, verifyAfterSync, driftEarlySync, pinRules? }
+ * `pinRules` (array of slots) replaces `reposOrder` + `topN` as the pinned list; null or omitted = fixed list.
+ * `org` selects an organization profile created via POST /api/profiles; omitted = personal.
+ * 409 `managed_by_config` while a config repository is linked (see /api/config-repo).
+ * 403 `not_org_admin` when the user no longer administers the organization (the profile is disabled).
  */
 export async function POST(request: NextRequest) {
-  // Validate origin for CSRF protection
-  if (!validateOrigin(request)) {
-    return addSecurityHeaders(
-      NextResponse.json({ error: 'Invalid request' }, { status: 403 })
-    )
-  }
-
-  const session = await getSession()
-
-  if (!session) {
-    return addSecurityHeaders(
-      NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    )
-  }
-
-  // Rate limiting
-  const rateLimit = await checkAPIRateLimit(request, session.userId)
-  if (!rateLimit.allowed) {
-    return addSecurityHeaders(rateLimit.response!)
-  }
-
-  const csrfToken = request.headers.get('X-CSRF-Token')
-  if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
-    return addSecurityHeaders(
-      NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 })
-    )
-  }
+  const auth = await authorizeUserRequest(request, { scope: 'order:write', mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
 
   try {
     const body = await request.json()
     const { reposOrder, topN, syncFrequency, autoEnabled } = body
 
-    // Validate reposOrder array
-    if (!Array.isArray(reposOrder)) {
+    // Validate profile and reposOrder array
+    const org = parseProfileOrg(body.org)
+    if (org === undefined || !Array.isArray(reposOrder)) {
       return addSecurityHeaders(
         NextResponse.json({ error: 'Invalid request' }, { status: 400 })
       )
@@ -83,8 +69,14 @@ export async function POST(request: NextRequest) {
     const validFrequencies = [1, 2, 4, 6, 8, 12, 24, 48, 168, 360, 720]
     const validSyncFrequency = validFrequencies.includes(syncFrequency) ? syncFrequency : 168
 
-    // Strategy key is kept as 'revert' for backward compatibility.
-    const validCommitStrategy = 'revert'
+    // 'revert' (temporary tag ref) stays the default key for backward compatibility.
+    const validCommitStrategy = isTouchStrategy(body.commitStrategy) ? body.commitStrategy : DEFAULT_TOUCH_STRATEGY
+
+    // Per-repo overrides: only valid strategies for repos in the saved order
+    const repoStrategies = body.repoStrategies && typeof body.repoStrategies === 'object' && !Array.isArray(body.repoStrategies)
+      ? sanitizeRepoStrategies(body.repoStrategies as Record<string, unknown>, reposOrder)
+      : {}
+    const repoStrategiesJson = JSON.stringify(repoStrategies)
 
     // Validate preferredHour (0-23 UTC or null)
     const preferredHour = body.preferredHour
@@ -94,73 +86,69 @@ export async function POST(request: NextRequest) {
 
     const includePrivate = typeof body.includePrivate === 'boolean' ? body.includePrivate : true
     const validAutoEnabled = typeof autoEnabled === 'boolean' ? autoEnabled : true
+    const verifyAfterSync = body.verifyAfterSync === true
+    const driftEarlySync = body.driftEarlySync === true
+
+    // Reglas de pineado: los slots inválidos se descartan
+    const pinRules = sanitizePinRules(body.pinRules)
 
-    const existingRepoOrder = await prisma.repoOrder.findUnique({
-      where: { userId: session.userId },
-      select: { syncSecret: true },
+    const existingRepoOrder = await prisma.repoOrder.findFirst({
+      where: { userId: auth.userId, org },
+      select: { id: true, syncSecret: true, reposOrderIds: true, configRepo: true },
     })
+
+    // Los perfiles de organización se crean antes (POST /api/profiles) tras verificar la instalación
+    if (org && !existingRepoOrder) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+      )
+    }
+    // Con un repo de configuración enlazado el orden solo cambia desde su gitpins.yml
+    if (existingRepoOrder?.configRepo) {
+      return addSecurityHeaders(
+        NextResponse.json({
+          error: 'Order is managed by a config repository',
+          reason: 'managed_by_config',
+          configRepo: existingRepoOrder.configRepo,
+        }, { status: 409 })
+      )
+    }
+    // El usuario pudo dejar de ser admin de la org después de crear el perfil
+    if (org) {
+      const access = await checkOrgProfileAccess(auth.userId, org)
+      if (access !== 'ok') {
+        const { status, body } = describeOrgAccessFailure(access)
+        return addSecurityHeaders(NextResponse.json(body, { status }))
+      }
+    }
     const syncSecret = existingRepoOrder?.syncSecret || crypto.randomUUID()
 
     // Crear o actualizar orden
     const reposOrderJson = JSON.stringify(reposOrder)
-    const repoOrderResult = await prisma.repoOrder.upsert({
-      where: { userId: session.userId },
-      update: {
+    const repoOrderData = {
         reposOrder: reposOrderJson,
+        // Los ids de repos nuevos se aprenden en la próxima lectura de la lista
+        reposOrderIds: JSON.stringify(retainRepoIds(parseRepoIds(existingRepoOrder?.reposOrderIds), reposOrder)),
         topN: validTopN,
         includePrivate,
         syncFrequency: validSyncFrequency,
         autoEnabled: validAutoEnabled,
         commitStrategy: validCommitStrategy,
+        repoStrategies: repoStrategiesJson,
         preferredHour: validPreferredHour,
+        verifyAfterSync,
+        pinRules: pinRules ? JSON.stringify(pinRules) : null,
+        driftEarlySync,
+        // La última comprobación de deriva era contra el orden anterior
+        driftCheckedAt: null,
+        driftedSince: null,
         syncSecret,
-      },
-      create: {
-        userId: session.userId,
-        reposOrder: reposOrderJson,
-        topN: validTopN,
-        includePrivate,
-        syncFrequency: validSyncFrequency,
-        autoEnabled: validAutoEnabled,
-        commitStrategy: validCommitStrategy,
-        preferredHour: validPreferredHour,
-        syncSecret,
-      },
-    })
-
-    // Guardar snapshot del historial
-    await prisma.orderSnapshot.create({
-      data: {
-        userId: session.userId,
-        reposOrder: reposOrderJson,
-        topN: validTopN,
-        changeType: 'manual',
-      },
-    })
-
-    // Limpiar snapshots antiguos (mantener solo los últimos 20)
-    const oldSnapshots = await prisma.orderSnapshot.findMany({
-      where: { userId: session.userId },
-      orderBy: { createdAt: 'desc' },
-      skip: 20,
-      select: { id: true },
-    })
-    if (oldSnapshots.length > 0) {
-      await prisma.orderSnapshot.deleteMany({
-        where: { id: { in: oldSnapshots.map((s: { id: string }) => s.id) } },
-      })
     }
+    const repoOrderResult = existingRepoOrder
+      ? await prisma.repoOrder.update({ where: { id: existingRepoOrder.id }, data: repoOrderData })
+      : await prisma.repoOrder.create({ data: { userId: auth.userId, ...repoOrderData } })
 
-    // Registrar en log
-    await prisma.syncLog.create({
-      data: {
-        userId: session.userId,
-        action: 'manual_order',
-        status: 'success',
-        details: JSON.stringify({ reposCount: reposOrder.length }),
-        reposAffected: JSON.stringify(reposOrder.slice(0, validTopN)),
-      },
-    })
+    await recordOrderSave(repoOrderResult, reposOrder)
 
     // Do not return syncSecret to the browser. The secret authenticates scheduled sync calls
     // and must be treated like a password.
@@ -172,8 +160,14 @@ export async function POST(request: NextRequest) {
           includePrivate: repoOrderResult.includePrivate,
           syncFrequency: repoOrderResult.syncFrequency,
           autoEnabled: repoOrderResult.autoEnabled,
-          commitStrategy: 'revert' as const,
+          commitStrategy: validCommitStrategy,
+          repoStrategies,
           preferredHour: repoOrderResult.preferredHour,
+          verifyAfterSync: repoOrderResult.verifyAfterSync,
+          pinRules,
+          driftEarlySync: repoOrderResult.driftEarlySync,
+          driftCheckedAt: null,
+          driftedSince: null,
           syncConfigured: true,
         },
       })
@@ -6,40 +6,48 @@
  * @license MIT
  *
  * Repos API Route
- * Fetches user's GitHub repositories and applies saved ordering.
+ * Fetches user's GitHub repositories (through the repo cache) and applies saved ordering.
+ * Organization profiles list the organization's repositories instead.
  * Returns repos list along with saved order and settings.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/session'
-import { ensureValidToken, getUserRepos } from '@/lib/github'
+import { authorizeUserRequest } from '@/lib/api-auth'
+import { ensureValidToken, fetchOrgRepos } from '@/lib/github'
+import { getCachedUserRepos, type CachedRepos } from '@/lib/repo-cache'
 import { prisma } from '@/lib/prisma'
-import { checkAPIRateLimit, addSecurityHeaders } from '@/lib/security'
+import { addSecurityHeaders } from '@/lib/security'
+import { isSchedulerEnabled } from '@/lib/scheduler'
+import { getProfileInstallationId, parseProfileOrg } from '@/lib/profiles'
+import { DEFAULT_TOUCH_STRATEGY, isTouchStrategy, parseRepoStrategies } from '@/lib/sync/strategies'
+import { parsePinRules } from '@/lib/sync/pin-rules'
+import { applyPinnedRenames } from '@/lib/pinned-repos'
+import { findOrphanedPins } from '@/lib/sync/orphans'
+import type { RepoHealthInfo } from '@/types'
 
 /**
  * GET /api/repos
- * Fetches all user repos from GitHub, applies saved ordering.
- * Returns: repos[], savedOrder[], settings
+ * Reads the user's repos from the cache (revalidated against GitHub when
+ * stale), applies saved ordering.
+ * Query: ?refresh=true downloads the full list from GitHub
+ *        ?org=<login> loads an organization profile (org repos via its installation, not cached)
+ * Returns: repos[], savedOrder[], orphanedPins[], settings, reposCache
  */
 export async function GET(request: NextRequest) {
-  const session = await getSession()
+  const auth = await authorizeUserRequest(request, { scope: 'repos:read', mutation: false })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
 
-  if (!session) {
+  const org = parseProfileOrg(request.nextUrl.searchParams.get('org'))
+  if (org === undefined) {
     return addSecurityHeaders(
-      NextResponse.json({ error: 'Unauthorized', reason: 'no_session' }, { status: 401 })
+      NextResponse.json({ error: 'Invalid request' }, { status: 400 })
     )
   }
 
-  // Rate limiting
-  const rateLimit = await checkAPIRateLimit(request, session.userId)
-  if (!rateLimit.allowed) {
-    return addSecurityHeaders(rateLimit.response!)
-  }
-
   try {
     // Get user with token from database
     const user = await prisma.user.findUnique({
-      where: { id: session.userId },
+      where: { id: auth.userId },
       include: { token: true },
     })
 
@@ -51,7 +59,7 @@ export async function GET(request: NextRequest) {
 
     let accessToken: string
     try {
-      const tokenState = await ensureValidToken(session.userId)
+      const tokenState = await ensureValidToken(auth.userId)
       accessToken = tokenState.accessToken
     } catch {
       return addSecurityHeaders(
@@ -62,18 +70,43 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Obtener repos de GitHub
-    let repos
+    // Obtener orden guardado del perfil
+    let repoOrder = await prisma.repoOrder.findFirst({
+      where: { userId: auth.userId, org },
+    })
+
+    if (org && !repoOrder) {
+      return addSecurityHeaders(
+        NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+      )
+    }
+
+    // Obtener repos (caché o GitHub; las orgs se listan con su instalación)
+    const refresh = request.nextUrl.searchParams.get('refresh') === 'true'
+    let cached: CachedRepos | undefined
     try {
-      repos = await getUserRepos(accessToken)
+      if (org) {
+        if (!repoOrder?.installationId) {
+          return addSecurityHeaders(
+            NextResponse.json({ error: 'GitHub App is not installed on this organization', reason: 'installation_missing' }, { status: 409 })
+          )
+        }
+        cached = {
+          repos: await fetchOrgRepos(repoOrder.installationId, org),
+          fetchedAt: new Date(),
+          source: 'github',
+        }
+      } else {
+        cached = await getCachedUserRepos(auth.userId, accessToken, { refresh })
+      }
     } catch (error: unknown) {
       // Detectar errores de autenticación de GitHub (401/403)
       const githubError = error as { status?: number; message?: string }
-      if (githubError.status === 401 || githubError.status === 403) {
+      if (!org && (githubError.status === 401 || githubError.status === 403)) {
         try {
-          const forcedRefresh = await ensureValidToken(session.userId, true)
+          const forcedRefresh = await ensureValidToken(auth.userId, true)
           accessToken = forcedRefresh.accessToken
-          repos = await getUserRepos(accessToken)
+          cached = await getCachedUserRepos(auth.userId, accessToken, { refresh })
         } catch {
           console.error('GitHub token invalid or expired:', githubError.message)
           return addSecurityHeaders(
@@ -84,15 +117,37 @@ export async function GET(request: NextRequest) {
           )
         }
       }
-      if (!repos) {
+      if (!cached) {
         throw error
       }
     }
+    const repos = cached.repos
+
+    // Los repos pinneados que se renombraron o transfirieron se resuelven por id
+    if (repoOrder) {
+      try {
+        ({ repoOrder } = await applyPinnedRenames(repoOrder, repos))
+      } catch (error) {
+        console.error('Failed to resolve renamed repositories:', error)
+      }
+    }
 
-    // Obtener orden guardado del usuario
-    const repoOrder = await prisma.repoOrder.findUnique({
-      where: { userId: session.userId },
+    // Estado de salud de repos con fallos o en cuarentena
+    const repoHealthRows = await prisma.repoHealth.findMany({
+      where: {
+        userId: auth.userId,
+        OR: [{ consecutiveFailures: { gt: 0 } }, { quarantinedAt: { not: null } }],
+      },
     })
+    const repoHealth: Record<string, RepoHealthInfo> = Object.fromEntries(
+      repoHealthRows.map((row) => [row.repo, {
+        consecutiveFailures: row.consecutiveFailures,
+        lastErrorCategory: row.lastErrorCategory,
+        lastFailureAt: row.lastFailureAt?.toISOString() ?? null,
+        lastSuccessAt: row.lastSuccessAt?.toISOString() ?? null,
+        quarantinedAt: row.quarantinedAt?.toISOString() ?? null,
+      }])
+    )
 
     // Si hay orden guardado, aplicarlo
     let savedReposOrder: string[] = []
@@ -129,17 +184,34 @@ export async function GET(request: NextRequest) {
       NextResponse.json({
         repos,
         savedOrder: savedReposOrder,
+        repoHealth,
+        // Pins que ya no aparecen en la lista (borrados, sin acceso o privados excluidos)
+        orphanedPins: repoOrder
+          ? findOrphanedPins(savedReposOrder, repos, { includePrivate: repoOrder.includePrivate })
+          : [],
+        reposCache: {
+          fetchedAt: cached.fetchedAt.toISOString(),
+          source: cached.source,
+        },
         settings: repoOrder
           ? {
               topN: repoOrder.topN,
               includePrivate: repoOrder.includePrivate,
               syncFrequency: repoOrder.syncFrequency,
               autoEnabled: repoOrder.autoEnabled,
-              commitStrategy: 'revert' as const,
+              commitStrategy: isTouchStrategy(repoOrder.commitStrategy) ? repoOrder.commitStrategy : DEFAULT_TOUCH_STRATEGY,
+              repoStrategies: parseRepoStrategies(repoOrder.repoStrategies),
               preferredHour: repoOrder.preferredHour,
+              verifyAfterSync: repoOrder.verifyAfterSync,
+              pinRules: parsePinRules(repoOrder.pinRules),
+              driftEarlySync: repoOrder.driftEarlySync,
+              driftCheckedAt: repoOrder.driftCheckedAt?.toISOString() ?? null,
+              driftedSince: repoOrder.driftedSince?.toISOString() ?? null,
               lastSyncAt: repoOrder.lastSyncAt?.toISOString() ?? null,
               syncConfigured: !!repoOrder.syncSecret,
-              canManualSync: !!repoOrder.syncSecret && !!user.installationId,
+              canManualSync: !!repoOrder.syncSecret && !!getProfileInstallationId(repoOrder, user),
+              builtInScheduler: isSchedulerEnabled(),
+              configRepo: repoOrder.configRepo,
             }
           : null,
       }, {
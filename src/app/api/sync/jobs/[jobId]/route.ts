@@ -0,0 +1,90 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Sync Job Status API Route
+ * Returns status and per-repo progress of a sync job.
+ * - Dashboard: session cookie (job must belong to the user)
+ * - Schedulers: `X-GitPins-Sync-Secret` header of the job owner
+ * - Scripts: personal API token with the `sync` scope
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/session'
+import { authorizeUserRequest } from '@/lib/api-auth'
+import { prisma } from '@/lib/prisma'
+import { addSecurityHeaders, checkAPIRateLimit } from '@/lib/security'
+import { isSyncJobStale, serializeSyncJob } from '@/lib/sync'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+async function resolveRequesterUserId(request: NextRequest): Promise<string | null> {
+  const secret = request.headers.get('X-GitPins-Sync-Secret')
+  if (secret) {
+    if (!UUID_REGEX.test(secret)) return null
+    const repoOrder = await prisma.repoOrder.findFirst({
+      where: { syncSecret: secret },
+      select: { userId: true },
+    })
+    return repoOrder?.userId ?? null
+  }
+
+  const session = await getSession()
+  return session?.userId ?? null
+}
+
+/**
+ * GET /api/sync/jobs/[jobId]
+ * Polled by the dashboard progress bar and the generated workflow.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  // Personal API tokens (scope `sync`) have their own rate limit
+  let tokenUserId: string | null = null
+  if (request.headers.has('Authorization')) {
+    const auth = await authorizeUserRequest(request, { scope: 'sync', mutation: false })
+    if ('response' in auth) return addSecurityHeaders(auth.response)
+    tokenUserId = auth.userId
+  } else {
+    const rateLimit = await checkAPIRateLimit(request)
+    if (!rateLimit.allowed) {
+      return addSecurityHeaders(rateLimit.response!)
+    }
+  }
+
+  try {
+    const userId = tokenUserId ?? await resolveRequesterUserId(request)
+    if (!userId) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Unauthorized' }, { status: 401 }))
+    }
+
+    const { jobId } = await params
+    let job = await prisma.syncJob.findFirst({
+      where: { id: jobId, userId },
+    })
+
+    if (!job) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Job not found' }, { status: 404 }))
+    }
+
+    // The process running the job died (restart, timeout): close it so pollers stop.
+    if (isSyncJobStale(job)) {
+      job = await prisma.syncJob.update({
+        where: { id: job.id },
+        data: { status: 'failed', error: 'Job stopped reporting progress', finishedAt: new Date() },
+      })
+    }
+
+    const response = NextResponse.json({ success: true, job: serializeSyncJob(job) })
+    response.headers.set('Cache-Control', 'no-store')
+    return addSecurityHeaders(response)
+  } catch (error) {
+    console.error('Sync job status error:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
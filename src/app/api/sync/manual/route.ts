@@ -1,32 +1,25 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession, verifyCSRFToken } from '@/lib/session'
+import { after, NextRequest, NextResponse } from 'next/server'
+import { authorizeUserRequest } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
-import { addSecurityHeaders, checkAPIRateLimit, validateOrigin } from '@/lib/security'
+import { addSecurityHeaders } from '@/lib/security'
+import { requestSyncBySecret } from '@/lib/sync'
+import { parseProfileOrg } from '@/lib/profiles'
 
-export async function POST(request: NextRequest) {
-  if (!validateOrigin(request)) {
-    return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 403 }))
-  }
+// Same budget as /api/sync/[secret]: the job runs after the response.
+export const maxDuration = 800
 
-  const session = await getSession()
-  if (!session) {
-    return addSecurityHeaders(
-      NextResponse.json({ error: 'Unauthorized', reason: 'no_session' }, { status: 401 })
-    )
-  }
-
-  const csrfToken = request.headers.get('X-CSRF-Token')
-  if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
-    return addSecurityHeaders(NextResponse.json({ error: 'CSRF validation failed' }, { status: 403 }))
-  }
+export async function POST(request: NextRequest) {
+  const auth = await authorizeUserRequest(request, { scope: 'sync', mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
 
-  const rateLimit = await checkAPIRateLimit(request, session.userId)
-  if (!rateLimit.allowed) {
-    return addSecurityHeaders(rateLimit.response!)
+  // ?org=<login> sincroniza el perfil de esa organización
+  const org = parseProfileOrg(request.nextUrl.searchParams.get('org'))
+  if (org === undefined) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
   }
 
-  const repoOrder = await prisma.repoOrder.findUnique({
-    where: { userId: session.userId },
+  const repoOrder = await prisma.repoOrder.findFirst({
+    where: { userId: auth.userId, org },
     select: {
       syncSecret: true,
     },
@@ -39,27 +32,16 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const baseUrl = `http://localhost:${process.env.PORT || 3000}`
-    const internalUrl = new URL(`/api/sync/${repoOrder.syncSecret}`, baseUrl)
-    internalUrl.searchParams.set('force', 'true')
-
-    const internalResponse = await fetch(internalUrl.toString(), {
-      method: 'POST',
-      cache: 'no-store',
-      headers: {
-        'X-Internal-Request': 'manual-sync',
-      },
-    })
-
-    const bodyText = await internalResponse.text()
-    const proxiedResponse = new NextResponse(bodyText, {
-      status: internalResponse.status,
-      headers: {
-        'Content-Type': internalResponse.headers.get('Content-Type') || 'application/json',
-      },
+    const { background, ...outcome } = await requestSyncBySecret(repoOrder.syncSecret, {
+      trigger: 'manual',
+      force: true,
+      dryRun: request.nextUrl.searchParams.get('dryRun') === 'true',
     })
+    if (background) after(background)
 
-    return addSecurityHeaders(proxiedResponse)
+    return addSecurityHeaders(
+      NextResponse.json(outcome.body, { status: outcome.status, headers: outcome.headers })
+    )
   } catch (error) {
     console.error('Manual sync error:', error)
     return addSecurityHeaders(
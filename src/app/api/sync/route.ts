@@ -1,39 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { after, NextRequest, NextResponse } from 'next/server'
+import { requestSyncBySecret } from '@/lib/sync'
 
-const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+// Same budget as /api/sync/[secret]: the job runs after the response.
+export const maxDuration = 800
 
 export async function POST(request: NextRequest) {
   const secret = request.headers.get('X-GitPins-Sync-Secret')
 
-  if (!secret || !UUID_REGEX.test(secret)) {
+  if (!secret) {
     return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
   }
 
   try {
-    const baseUrl = `http://localhost:${process.env.PORT || 3000}`
-    const internalUrl = new URL(`/api/sync/${secret}`, baseUrl)
-
-    for (const [key, value] of request.nextUrl.searchParams.entries()) {
-      internalUrl.searchParams.set(key, value)
-    }
-
-    const internalResponse = await fetch(internalUrl.toString(), {
-      method: 'POST',
-      cache: 'no-store',
-      headers: {
-        'X-Internal-Request': 'header-sync',
-      },
-    })
-
-    const bodyText = await internalResponse.text()
-    return new NextResponse(bodyText, {
-      status: internalResponse.status,
-      headers: {
-        'Content-Type': internalResponse.headers.get('Content-Type') || 'application/json',
-      },
+    const { background, ...outcome } = await requestSyncBySecret(secret, {
+      trigger: 'secret',
+      force: request.nextUrl.searchParams.get('force') === 'true',
+      dryRun: request.nextUrl.searchParams.get('dryRun') === 'true',
     })
+    if (background) after(background)
+    return NextResponse.json(outcome.body, { status: outcome.status, headers: outcome.headers })
   } catch (error) {
-    console.error('Header sync proxy error:', error)
+    console.error('Header sync error:', error)
     return NextResponse.json({ error: 'Operation failed' }, { status: 500 })
   }
 }
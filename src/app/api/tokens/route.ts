@@ -0,0 +1,191 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API Tokens Route
+ * Lists, creates and revokes the user's personal API tokens. Only reachable
+ * with the browser session: a token can never manage tokens. Creation and
+ * revocation are recorded in `privacy_events`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { addSecurityHeaders } from '@/lib/security'
+import { authorizeSessionRequest } from '@/lib/api-auth'
+import { ipHashFromRequest, jsonDetails, subjectHashFromGithubId, userAgentFromRequest } from '@/lib/privacy-audit'
+import {
+  MAX_API_TOKENS,
+  generateApiToken,
+  parseApiTokenExpiry,
+  parseApiTokenName,
+  parseApiTokenScopes,
+  sanitizeApiTokenScopes,
+} from '@/lib/api-tokens'
+import type { ApiTokenInfo } from '@/types'
+
+function serializeToken(token: {
+  id: string
+  name: string
+  prefix: string
+  scopes: string
+  expiresAt: Date
+  lastUsedAt: Date | null
+  createdAt: Date
+}): ApiTokenInfo {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: parseApiTokenScopes(token.scopes),
+    expiresAt: token.expiresAt.toISOString(),
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+    createdAt: token.createdAt.toISOString(),
+  }
+}
+
+const TOKEN_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const
+
+/**
+ * GET /api/tokens
+ * Returns: tokens[] (expired tokens included until revoked)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeSessionRequest(request, { mutation: false })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+
+  try {
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: auth.session.userId },
+      orderBy: { createdAt: 'asc' },
+      select: TOKEN_SELECT,
+    })
+
+    return addSecurityHeaders(
+      NextResponse.json({ tokens: tokens.map(serializeToken) }, { headers: { 'Cache-Control': 'no-store' } })
+    )
+  } catch (error) {
+    console.error('Error fetching API tokens:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * POST /api/tokens
+ * Creates a token. The token itself is returned only in this response.
+ * Body: { name, scopes, expiresInDays? } (1-365 days, default 30)
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeSessionRequest(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+  const { session } = auth
+
+  try {
+    const body = await request.json()
+    const name = parseApiTokenName(body?.name)
+    const scopes = sanitizeApiTokenScopes(body?.scopes)
+    const expiresAt = parseApiTokenExpiry(body?.expiresInDays)
+    if (!name || scopes.length === 0 || !expiresAt) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+    }
+
+    const count = await prisma.apiToken.count({ where: { userId: session.userId } })
+    if (count >= MAX_API_TOKENS) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Too many tokens' }, { status: 400 }))
+    }
+
+    const { token, tokenHash, prefix } = generateApiToken()
+    const created = await prisma.$transaction(async (tx) => {
+      const apiToken = await tx.apiToken.create({
+        data: {
+          userId: session.userId,
+          name,
+          tokenHash,
+          prefix,
+          scopes: JSON.stringify(scopes),
+          expiresAt,
+        },
+        select: TOKEN_SELECT,
+      })
+
+      await tx.privacyEvent.create({
+        data: {
+          userId: session.userId,
+          subjectHash: subjectHashFromGithubId(session.githubId),
+          eventType: 'api_token_created',
+          details: jsonDetails({ tokenId: apiToken.id, name, prefix, scopes, expiresAt: expiresAt.toISOString() }),
+          ipHash: ipHashFromRequest(request),
+          userAgent: userAgentFromRequest(request),
+        },
+      })
+
+      return apiToken
+    })
+
+    return addSecurityHeaders(
+      NextResponse.json(
+        { success: true, token: serializeToken(created), secret: token },
+        { status: 201, headers: { 'Cache-Control': 'no-store' } }
+      )
+    )
+  } catch (error) {
+    console.error('Error creating API token:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
+
+/**
+ * DELETE /api/tokens?id=<tokenId>
+ * Revokes a token: it stops working immediately.
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await authorizeSessionRequest(request, { mutation: true })
+  if ('response' in auth) return addSecurityHeaders(auth.response)
+  const { session } = auth
+
+  const id = request.nextUrl.searchParams.get('id')
+  if (!id) {
+    return addSecurityHeaders(NextResponse.json({ error: 'Invalid request' }, { status: 400 }))
+  }
+
+  try {
+    const revoked = await prisma.$transaction(async (tx) => {
+      const apiToken = await tx.apiToken.findFirst({
+        where: { id, userId: session.userId },
+        select: { id: true, name: true, prefix: true },
+      })
+      if (!apiToken) return false
+
+      await tx.apiToken.delete({ where: { id: apiToken.id } })
+      await tx.privacyEvent.create({
+        data: {
+          userId: session.userId,
+          subjectHash: subjectHashFromGithubId(session.githubId),
+          eventType: 'api_token_revoked',
+          details: jsonDetails({ tokenId: apiToken.id, name: apiToken.name, prefix: apiToken.prefix }),
+          ipHash: ipHashFromRequest(request),
+          userAgent: userAgentFromRequest(request),
+        },
+      })
+      return true
+    })
+
+    if (!revoked) {
+      return addSecurityHeaders(NextResponse.json({ error: 'Token not found' }, { status: 404 }))
+    }
+    return addSecurityHeaders(NextResponse.json({ success: true }))
+  } catch (error) {
+    console.error('Error revoking API token:', error)
+    return addSecurityHeaders(NextResponse.json({ error: 'Operation failed' }, { status: 500 }))
+  }
+}
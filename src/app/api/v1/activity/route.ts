@@ -0,0 +1,60 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 Activity Route
+ * Saved orders (snapshots) and sync log entries of the caller, newest first,
+ * with offset pagination.
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeV1, parseV1Query, v1Page, v1ServerError } from '@/lib/api-v1/http'
+import { paginationFor } from '@/lib/api-v1/envelope'
+import { mergeActivity, serializeSnapshotEntry, serializeSyncLogEntry } from '@/lib/api-v1/serialize'
+import { PaginationQuerySchema } from '@/types/api-v1'
+
+/**
+ * GET /api/v1/activity?limit=30&offset=0
+ * Scope: activity:read
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeV1(request, { scope: 'activity:read', mutation: false })
+  if ('response' in auth) return auth.response
+
+  const query = parseV1Query(request, PaginationQuerySchema)
+  if ('response' in query) return query.response
+  const { limit, offset } = query.data
+
+  try {
+    // Cada tabla aporta como mucho offset + limit entradas a la página fusionada
+    const take = offset + limit
+    const [snapshots, syncLogs, snapshotCount, syncLogCount] = await Promise.all([
+      prisma.orderSnapshot.findMany({
+        where: { userId: auth.userId },
+        orderBy: { createdAt: 'desc' },
+        take,
+        select: { id: true, reposOrder: true, topN: true, changeType: true, createdAt: true },
+      }),
+      prisma.syncLog.findMany({
+        where: { userId: auth.userId },
+        orderBy: { createdAt: 'desc' },
+        take,
+        select: { id: true, action: true, status: true, details: true, reposAffected: true, createdAt: true },
+      }),
+      prisma.orderSnapshot.count({ where: { userId: auth.userId } }),
+      prisma.syncLog.count({ where: { userId: auth.userId } }),
+    ])
+
+    return v1Page(
+      mergeActivity(snapshots.map(serializeSnapshotEntry), syncLogs.map(serializeSyncLogEntry), offset, limit),
+      paginationFor(limit, offset, snapshotCount + syncLogCount)
+    )
+  } catch (error) {
+    console.error('API v1 activity error:', error)
+    return v1ServerError()
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 OpenAPI Route
+ * Serves the OpenAPI document of the public API. No authentication: it only
+ * describes the endpoints.
+ */
+
+import { NextResponse } from 'next/server'
+import { buildOpenApiDocument } from '@/lib/api-v1/openapi'
+import { addSecurityHeaders } from '@/lib/security'
+
+/**
+ * GET /api/v1/openapi.json
+ */
+export function GET() {
+  return addSecurityHeaders(NextResponse.json(buildOpenApiDocument()))
+}
@@ -0,0 +1,123 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 Order Route
+ * Reads and replaces the saved pinned order of a profile. Saving has the same
+ * effects as the dashboard (snapshot, activity entry, drift reset); sync
+ * settings are left untouched (see /api/v1/settings).
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeV1, parseV1Body, parseV1Query, v1Error, v1Json, v1ServerError } from '@/lib/api-v1/http'
+import { serializeOrder } from '@/lib/api-v1/serialize'
+import { recordOrderSave } from '@/lib/order-history'
+import { checkOrgProfileAccess, describeOrgAccessFailure } from '@/lib/org-access'
+import { sanitizePinRules } from '@/lib/sync/pin-rules'
+import { parseRepoIds, retainRepoIds } from '@/lib/sync/repo-ids'
+import { parseRepoStrategies, sanitizeRepoStrategies } from '@/lib/sync/strategies'
+import { OrderUpdateSchema, ProfileQuerySchema } from '@/types/api-v1'
+
+/**
+ * GET /api/v1/order?org=<login>
+ * Scope: repos:read
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeV1(request, { scope: 'repos:read', mutation: false })
+  if ('response' in auth) return auth.response
+
+  const query = parseV1Query(request, ProfileQuerySchema)
+  if ('response' in query) return query.response
+
+  try {
+    const repoOrder = await prisma.repoOrder.findFirst({
+      where: { userId: auth.userId, org: query.data.org ?? null },
+    })
+    if (!repoOrder) {
+      return v1Error(404, 'not_found', 'No saved order for this profile')
+    }
+
+    return v1Json(serializeOrder(repoOrder))
+  } catch (error) {
+    console.error('API v1 order read error:', error)
+    return v1ServerError()
+  }
+}
+
+/**
+ * PUT /api/v1/order?org=<login>
+ * Scope: order:write
+ * Body: OrderUpdate ({ pinned, topN?, pinRules? })
+ * 409 managed_by_config while a config repository is linked.
+ * 403 not_org_admin when the user no longer administers the organization.
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await authorizeV1(request, { scope: 'order:write', mutation: true })
+  if ('response' in auth) return auth.response
+
+  const query = parseV1Query(request, ProfileQuerySchema)
+  if ('response' in query) return query.response
+  const org = query.data.org ?? null
+
+  const body = await parseV1Body(request, OrderUpdateSchema)
+  if ('response' in body) return body.response
+  const { pinned } = body.data
+
+  try {
+    const existing = await prisma.repoOrder.findFirst({
+      where: { userId: auth.userId, org },
+      select: { id: true, syncSecret: true, reposOrderIds: true, repoStrategies: true, pinRules: true, topN: true, configRepo: true },
+    })
+
+    // Los perfiles de organización se crean desde el dashboard tras verificar la instalación
+    if (org && !existing) {
+      return v1Error(404, 'not_found', 'No saved order for this profile')
+    }
+    if (existing?.configRepo) {
+      return v1Error(409, 'managed_by_config', `The order is managed by the config repository ${existing.configRepo}`)
+    }
+    if (org) {
+      const access = await checkOrgProfileAccess(auth.userId, org)
+      if (access === 'revoked') {
+        return v1Error(403, 'not_org_admin', 'You are no longer an admin of this organization')
+      }
+      if (access !== 'ok') {
+        return v1Error(502, 'github_error', describeOrgAccessFailure(access).body.error)
+      }
+    }
+
+    // pinRules omitido conserva las reglas actuales; null las desactiva
+    let pinRules = existing?.pinRules ?? null
+    if (body.data.pinRules !== undefined) {
+      const slots = sanitizePinRules(body.data.pinRules)
+      pinRules = slots ? JSON.stringify(slots) : null
+    }
+
+    const data = {
+      reposOrder: JSON.stringify(pinned),
+      reposOrderIds: JSON.stringify(retainRepoIds(parseRepoIds(existing?.reposOrderIds), pinned)),
+      topN: body.data.topN ?? existing?.topN ?? 10,
+      pinRules,
+      // Las excepciones por repo solo se conservan para repos que siguen en el orden
+      repoStrategies: JSON.stringify(sanitizeRepoStrategies(parseRepoStrategies(existing?.repoStrategies), pinned)),
+      // La última comprobación de deriva era contra el orden anterior
+      driftCheckedAt: null,
+      driftedSince: null,
+      syncSecret: existing?.syncSecret || crypto.randomUUID(),
+    }
+    const repoOrder = existing
+      ? await prisma.repoOrder.update({ where: { id: existing.id }, data })
+      : await prisma.repoOrder.create({ data: { userId: auth.userId, ...data } })
+
+    await recordOrderSave(repoOrder, pinned)
+
+    return v1Json(serializeOrder(repoOrder))
+  } catch (error) {
+    console.error('API v1 order save error:', error)
+    return v1ServerError()
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 Settings Route
+ * Reads and partially updates the sync settings of a profile. The profile
+ * must already have a saved order (PUT /api/v1/order or the dashboard).
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeV1, parseV1Body, parseV1Query, v1Error, v1Json, v1ServerError } from '@/lib/api-v1/http'
+import { serializeSettings } from '@/lib/api-v1/serialize'
+import { parseDesiredTop } from '@/lib/sync/planner'
+import { sanitizeRepoStrategies } from '@/lib/sync/strategies'
+import { ProfileQuerySchema, SettingsUpdateSchema } from '@/types/api-v1'
+
+/**
+ * GET /api/v1/settings?org=<login>
+ * Scope: repos:read
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeV1(request, { scope: 'repos:read', mutation: false })
+  if ('response' in auth) return auth.response
+
+  const query = parseV1Query(request, ProfileQuerySchema)
+  if ('response' in query) return query.response
+
+  try {
+    const repoOrder = await prisma.repoOrder.findFirst({
+      where: { userId: auth.userId, org: query.data.org ?? null },
+    })
+    if (!repoOrder) {
+      return v1Error(404, 'not_found', 'No saved order for this profile')
+    }
+
+    return v1Json(serializeSettings(repoOrder))
+  } catch (error) {
+    console.error('API v1 settings read error:', error)
+    return v1ServerError()
+  }
+}
+
+/**
+ * PATCH /api/v1/settings?org=<login>
+ * Scope: order:write
+ * Body: SettingsUpdate (only the given fields change)
+ * 409 managed_by_config while a config repository is linked.
+ */
+export async function PATCH(request: NextRequest) {
+  const auth = await authorizeV1(request, { scope: 'order:write', mutation: true })
+  if ('response' in auth) return auth.response
+
+  const query = parseV1Query(request, ProfileQuerySchema)
+  if ('response' in query) return query.response
+
+  const body = await parseV1Body(request, SettingsUpdateSchema)
+  if ('response' in body) return body.response
+  const { repoStrategies, ...fields } = body.data
+
+  try {
+    const existing = await prisma.repoOrder.findFirst({
+      where: { userId: auth.userId, org: query.data.org ?? null },
+      select: { id: true, reposOrder: true, configRepo: true },
+    })
+    if (!existing) {
+      return v1Error(404, 'not_found', 'No saved order for this profile')
+    }
+    if (existing.configRepo) {
+      return v1Error(409, 'managed_by_config', `Settings are managed by the config repository ${existing.configRepo}`)
+    }
+
+    const repoOrder = await prisma.repoOrder.update({
+      where: { id: existing.id },
+      data: {
+        ...fields,
+        // Igual que en el dashboard: solo excepciones de repos del orden guardado
+        ...(repoStrategies
+          ? { repoStrategies: JSON.stringify(sanitizeRepoStrategies(repoStrategies, parseDesiredTop(existing.reposOrder, 0) ?? [])) }
+          : {}),
+      },
+    })
+
+    return v1Json(serializeSettings(repoOrder))
+  } catch (error) {
+    console.error('API v1 settings update error:', error)
+    return v1ServerError()
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 Sync Job Route
+ * Status and per-repository progress of a sync job of the caller.
+ */
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeV1, v1Error, v1Json, v1ServerError } from '@/lib/api-v1/http'
+import { isSyncJobStale, serializeSyncJob } from '@/lib/sync'
+
+/**
+ * GET /api/v1/syncs/{id}
+ * Scope: sync
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorizeV1(request, { scope: 'sync', mutation: false })
+  if ('response' in auth) return auth.response
+
+  try {
+    const { id } = await params
+    let job = await prisma.syncJob.findFirst({
+      where: { id, userId: auth.userId },
+    })
+    if (!job) {
+      return v1Error(404, 'not_found', 'Sync job not found')
+    }
+
+    // The process running the job died (restart, timeout): close it so pollers stop.
+    if (isSyncJobStale(job)) {
+      job = await prisma.syncJob.update({
+        where: { id: job.id },
+        data: { status: 'failed', error: 'Job stopped reporting progress', finishedAt: new Date() },
+      })
+    }
+
+    return v1Json(serializeSyncJob(job))
+  } catch (error) {
+    console.error('API v1 sync job error:', error)
+    return v1ServerError()
+  }
+}
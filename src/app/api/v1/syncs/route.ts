@@ -0,0 +1,101 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 Syncs Route
+ * Starts a forced sync of a profile, like "Sync now" in the dashboard. The job
+ * runs after the response; poll GET /api/v1/syncs/{id} for its progress.
+ * `dryRun=true` returns the plan without touching anything.
+ */
+
+import { after, NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeV1, parseV1Query, v1Error, v1Json, v1ServerError } from '@/lib/api-v1/http'
+import { requestSyncBySecret, serializeSyncJob } from '@/lib/sync'
+import { SyncStartQuerySchema, type ApiV1SyncPreview, type ApiV1SyncStart } from '@/types/api-v1'
+
+// Same budget as /api/sync/manual: the job runs after the response.
+export const maxDuration = 800
+
+/**
+ * POST /api/v1/syncs?org=<login>&dryRun=true
+ * Scope: sync
+ * Returns: 202 with the queued job, or 200 with `status: skipped` / `preview`
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authorizeV1(request, { scope: 'sync', mutation: true })
+  if ('response' in auth) return auth.response
+
+  const query = parseV1Query(request, SyncStartQuerySchema)
+  if ('response' in query) return query.response
+
+  try {
+    const repoOrder = await prisma.repoOrder.findFirst({
+      where: { userId: auth.userId, org: query.data.org ?? null },
+      select: { syncSecret: true },
+    })
+    if (!repoOrder?.syncSecret) {
+      return v1Error(404, 'not_found', 'No saved order for this profile')
+    }
+
+    const { background, ...outcome } = await requestSyncBySecret(repoOrder.syncSecret, {
+      trigger: 'manual',
+      force: true,
+      dryRun: query.data.dryRun === 'true',
+    })
+    if (background) after(background)
+
+    const { body } = outcome
+    if (outcome.status === 202 && typeof body.jobId === 'string') {
+      const job = await prisma.syncJob.findUniqueOrThrow({ where: { id: body.jobId } })
+      const data: ApiV1SyncStart = { status: 'queued', job: serializeSyncJob(job), preview: null, reason: null, message: null }
+      return v1Json(data, 202)
+    }
+
+    if (outcome.status === 200 && body.dryRun === true) {
+      const preview: ApiV1SyncPreview = {
+        currentTop: body.currentTop as string[],
+        desiredTop: body.desiredTop as string[],
+        alreadyOrdered: body.alreadyOrdered as boolean,
+        touchOrder: body.touchOrder as string[],
+        predictedTop: body.predictedTop as string[],
+      }
+      const data: ApiV1SyncStart = { status: 'preview', job: null, preview, reason: null, message: null }
+      return v1Json(data)
+    }
+
+    if (outcome.status === 200) {
+      const data: ApiV1SyncStart = {
+        status: 'skipped',
+        job: null,
+        preview: null,
+        reason: typeof body.reason === 'string' ? body.reason : 'no_repos',
+        message: typeof body.message === 'string' ? body.message : null,
+      }
+      return v1Json(data)
+    }
+
+    if (outcome.status === 429) {
+      const response = v1Error(429, 'rate_limited', 'Too many requests')
+      for (const [name, value] of Object.entries(outcome.headers ?? {})) response.headers.set(name, value)
+      return response
+    }
+
+    if (outcome.status === 403) {
+      return v1Error(403, 'not_org_admin', 'You are no longer an admin of this organization')
+    }
+
+    // 401 aquí significa que falló la autenticación con GitHub (app o token del usuario), no la del cliente
+    if (outcome.status === 401 || outcome.status === 502) {
+      return v1Error(502, 'github_error', typeof body.error === 'string' ? body.error : 'GitHub request failed')
+    }
+
+    return v1Error(400, 'invalid_configuration', typeof body.error === 'string' ? body.error : 'Invalid configuration')
+  } catch (error) {
+    console.error('API v1 sync start error:', error)
+    return v1ServerError()
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * GitHub Webhook API Route
+ * Receives GitHub App webhook deliveries (HMAC-verified) and keeps stored
+ * orders in sync with installation and repository lifecycle events:
+ * - installation deleted: clears the installationId of the user and of org profiles
+ * - repositories removed from the installation / deleted: drops them from the order
+ * - repository renamed / transferred: rewrites the pinned full name in place
+ * - push to a config repository: imports its gitpins.yml into the profiles linked to it
+ * Changes apply to every profile synced with the installation (the
+ * installer's personal profile and organization profiles). Repository events
+ * also mark the affected users' repo caches as stale.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import {
+  parseWebhookEvent,
+  removeFromOrder,
+  renameInOrder,
+  verifyWebhookSignature,
+  type WebhookChange,
+} from '@/lib/webhooks'
+import { parseRepoStrategies, renameRepoStrategy } from '@/lib/sync/strategies'
+import { parseRepoIds, renameRepoId, retainRepoIds } from '@/lib/sync/repo-ids'
+import { invalidateRepoCache } from '@/lib/repo-cache'
+import { createAppOctokit } from '@/lib/github-app'
+import { importConfigRepo } from '@/lib/config-repo/import'
+
+function parseOrder(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+const PROFILE_SELECT = {
+  id: true,
+  userId: true,
+  org: true,
+  reposOrder: true,
+  reposOrderIds: true,
+  repoStrategies: true,
+  configRepo: true,
+} as const
+
+/**
+ * Profiles synced with an installation: the personal profile of the user who
+ * installed it, and every organization profile that uses it.
+ */
+async function findInstallationProfiles(installationId: number) {
+  const [user, orgProfiles] = await Promise.all([
+    prisma.user.findUnique({
+      where: { installationId },
+      select: { id: true, repoOrders: { where: { org: null }, select: PROFILE_SELECT } },
+    }),
+    prisma.repoOrder.findMany({
+      where: { installationId, org: { not: null } },
+      select: PROFILE_SELECT,
+    }),
+  ])
+  return { user, profiles: [...(user?.repoOrders ?? []), ...orgProfiles] }
+}
+
+type InstallationProfile = Awaited<ReturnType<typeof findInstallationProfiles>>['profiles'][number]
+
+async function applyRepoChange(
+  profile: InstallationProfile,
+  change: Extract<WebhookChange, { type: 'repos_removed' | 'repo_renamed' }>,
+  deliveryId: string | null
+): Promise<number> {
+  const currentOrder = parseOrder(profile.reposOrder)
+  const org = profile.org ?? undefined
+
+  if (change.type === 'repos_removed') {
+    const { order, removed } = removeFromOrder(currentOrder, change.repos)
+    if (removed.length === 0) return 0
+
+    await prisma.repoOrder.update({
+      where: { id: profile.id },
+      data: {
+        reposOrder: JSON.stringify(order),
+        reposOrderIds: JSON.stringify(retainRepoIds(parseRepoIds(profile.reposOrderIds), order)),
+      },
+    })
+    await prisma.syncLog.create({
+      data: {
+        userId: profile.userId,
+        action: 'webhook_repos_removed',
+        status: 'success',
+        details: JSON.stringify({
+          reason: change.reason === 'deleted'
+            ? 'Repository was deleted on GitHub'
+            : 'Repository access was removed from the GitHub App installation',
+          removed,
+          org,
+          deliveryId,
+        }),
+        reposAffected: JSON.stringify(removed),
+      },
+    })
+    return removed.length
+  }
+
+  const { order, changed } = renameInOrder(currentOrder, change.from, change.to)
+  if (!changed) return 0
+
+  await prisma.repoOrder.update({
+    where: { id: profile.id },
+    data: {
+      reposOrder: JSON.stringify(order),
+      reposOrderIds: JSON.stringify(renameRepoId(parseRepoIds(profile.reposOrderIds), change.from, change.to)),
+      // La estrategia por repo sigue al repo renombrado
+      repoStrategies: JSON.stringify(
+        renameRepoStrategy(parseRepoStrategies(profile.repoStrategies), change.from, change.to)
+      ),
+    },
+  })
+  await prisma.syncLog.create({
+    data: {
+      userId: profile.userId,
+      action: 'webhook_repo_renamed',
+      status: 'success',
+      details: JSON.stringify({
+        reason: change.reason === 'transferred'
+          ? 'Repository was transferred to a new owner'
+          : 'Repository was renamed',
+        from: change.from,
+        to: change.to,
+        org,
+        deliveryId,
+      }),
+      reposAffected: JSON.stringify([change.to]),
+    },
+  })
+  return 1
+}
+
+async function applyChange(change: WebhookChange, deliveryId: string | null): Promise<number> {
+  const { user, profiles } = await findInstallationProfiles(change.installationId)
+
+  if (change.type === 'installation_removed') {
+    const orgProfiles = profiles.filter((profile) => profile.org !== null)
+    if (user) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { installationId: null },
+      })
+    }
+    if (orgProfiles.length > 0) {
+      await prisma.repoOrder.updateMany({
+        where: { id: { in: orgProfiles.map((profile) => profile.id) } },
+        data: { installationId: null },
+      })
+    }
+
+    const affected = [
+      ...(user ? [{ userId: user.id, org: undefined }] : []),
+      ...orgProfiles.map((profile) => ({ userId: profile.userId, org: profile.org ?? undefined })),
+    ]
+    for (const { userId, org } of affected) {
+      await prisma.syncLog.create({
+        data: {
+          userId,
+          action: 'webhook_installation_removed',
+          status: 'success',
+          details: JSON.stringify({
+            reason: 'GitHub App was uninstalled',
+            installationId: change.installationId,
+            org,
+            deliveryId,
+          }),
+          reposAffected: '[]',
+        },
+      })
+    }
+    return affected.length
+  }
+
+  if (change.type === 'config_pushed') {
+    // Solo los perfiles de esta instalación: es la que puede leer el repo
+    const linked = profiles.filter((profile) => profile.configRepo === change.repo)
+    if (linked.length === 0) return 0
+
+    const client = createAppOctokit(change.installationId)
+    let imported = 0
+    for (const profile of linked) {
+      const repoOrder = await prisma.repoOrder.findUnique({ where: { id: profile.id } })
+      if (!repoOrder) continue
+      const result = await importConfigRepo(repoOrder, client, 'webhook')
+      if (result.status === 'imported') imported += 1
+    }
+    return imported
+  }
+
+  // La lista cacheada ya no refleja el repo eliminado o renombrado
+  const userIds = new Set([...(user ? [user.id] : []), ...profiles.map((profile) => profile.userId)])
+  for (const userId of userIds) {
+    await invalidateRepoCache(userId)
+  }
+
+  let applied = 0
+  for (const profile of profiles) {
+    applied += await applyRepoChange(profile, change, deliveryId)
+  }
+  return applied
+}
+
+/**
+ * POST /api/webhooks/github
+ * Entry point for GitHub App webhook deliveries.
+ * Requires GITHUB_WEBHOOK_SECRET and a valid X-Hub-Signature-256 header.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET
+  if (!secret) {
+    console.error('GitHub webhook received but GITHUB_WEBHOOK_SECRET is not configured')
+    return NextResponse.json({ error: 'Webhook not configured' }, { status: 503 })
+  }
+
+  const payload = await request.text()
+  if (!verifyWebhookSignature(payload, request.headers.get('x-hub-signature-256'), secret)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  const event = request.headers.get('x-github-event') || ''
+  const deliveryId = request.headers.get('x-github-delivery')
+
+  if (event === 'ping') {
+    return NextResponse.json({ ok: true, pong: true })
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(payload)
+  } catch {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+  }
+
+  const change = parseWebhookEvent(event, body)
+  if (!change) {
+    return NextResponse.json({ ok: true, ignored: true })
+  }
+
+  try {
+    const applied = await applyChange(change, deliveryId)
+    return NextResponse.json({ ok: true, change: change.type, applied })
+  } catch (error) {
+    console.error('GitHub webhook processing error:', { event, deliveryId, error })
+    return NextResponse.json({ error: 'Operation failed' }, { status: 500 })
+  }
+}
+
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST instead.' },
+    { status: 405, headers: { Allow: 'POST' } }
+  )
+}
@@ -0,0 +1,192 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API Tokens Settings Component
+ * Personal API tokens for scripts and CI: create a token with a name, scopes
+ * and expiration (shown once), list existing tokens and revoke them.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui'
+import { useTranslation } from '@/i18n'
+import type { ApiTokenInfo, ApiTokenScope } from '@/types'
+
+interface ApiTokensSettingsProps {
+  ensureCsrfToken: () => Promise<string | null>
+}
+
+const SCOPES: ApiTokenScope[] = ['repos:read', 'order:write', 'activity:read', 'sync']
+const EXPIRY_OPTIONS = [7, 30, 90, 365]
+
+export function ApiTokensSettings({ ensureCsrfToken }: ApiTokensSettingsProps) {
+  const { t } = useTranslation()
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([])
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['repos:read', 'activity:read'])
+  const [expiresInDays, setExpiresInDays] = useState(30)
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tokens', { cache: 'no-store' })
+      if (!response.ok) return
+      const data = await response.json()
+      setTokens(Array.isArray(data.tokens) ? data.tokens : [])
+    } catch (err) {
+      console.error('Error fetching API tokens:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadTokens()
+  }, [loadTokens])
+
+  /** Sends a mutation and reloads the list. Returns the response body, or null when it failed. */
+  async function mutate(path: string, method: string, body?: Record<string, unknown>): Promise<Record<string, unknown> | null> {
+    setBusy(true)
+    setError(null)
+    try {
+      const token = await ensureCsrfToken()
+      if (!token) return null
+
+      const response = await fetch(path, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': token,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(t('settings.sections.apiTokens.error'))
+        return null
+      }
+
+      await loadTokens()
+      return data
+    } catch (err) {
+      console.error('API token request failed:', err)
+      setError(t('settings.sections.apiTokens.error'))
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleCreate() {
+    const data = await mutate('/api/tokens', 'POST', { name, scopes, expiresInDays })
+    if (data) {
+      setName('')
+      setNewToken(typeof data.secret === 'string' ? data.secret : null)
+    }
+  }
+
+  async function handleRevoke(token: ApiTokenInfo) {
+    if (!window.confirm(t('settings.sections.apiTokens.revokeConfirm', { name: token.name }))) return
+    await mutate(`/api/tokens?id=${encodeURIComponent(token.id)}`, 'DELETE')
+  }
+
+  function toggleScope(scope: ApiTokenScope) {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]))
+  }
+
+  return (
+    <>
+      {newToken && (
+        <div className="rounded-lg border border-border bg-background p-3 text-xs">
+          <p className="mb-1">{t('settings.sections.apiTokens.copyOnce')}</p>
+          <code className="block break-all font-mono">{newToken}</code>
+          <button type="button" onClick={() => setNewToken(null)} className="mt-2 underline">
+            {t('settings.sections.apiTokens.dismiss')}
+          </button>
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <ul className="divide-y divide-border rounded-lg border border-border bg-background">
+          {tokens.map((token) => {
+            const expired = new Date(token.expiresAt).getTime() <= Date.now()
+            return (
+              <li key={token.id} className="flex flex-wrap items-center gap-2 p-3">
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-medium">
+                    {token.name} <span className="font-mono text-xs text-muted-foreground">{token.prefix}…</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {token.scopes.join(', ')}
+                    {' · '}
+                    {expired
+                      ? t('settings.sections.apiTokens.expired')
+                      : t('settings.sections.apiTokens.expires', { date: new Date(token.expiresAt).toLocaleDateString() })}
+                    {' · '}
+                    {token.lastUsedAt
+                      ? t('settings.sections.apiTokens.lastUsed', { date: new Date(token.lastUsedAt).toLocaleString() })
+                      : t('settings.sections.apiTokens.neverUsed')}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(token)}
+                  disabled={busy}
+                  className="px-2 py-1 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+                >
+                  {t('settings.sections.apiTokens.revoke')}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <div className="rounded-lg border border-border bg-background p-3 space-y-3">
+        <input
+          type="text"
+          value={name}
+          maxLength={60}
+          placeholder={t('settings.sections.apiTokens.namePlaceholder')}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full px-3 py-2 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-foreground/20"
+        />
+        <div className="flex flex-wrap gap-3">
+          {SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-1 text-xs text-muted-foreground">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              <span className="font-mono">{scope}</span>
+            </label>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          {t('settings.sections.apiTokens.expiresIn')}
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            className="px-2 py-1 text-sm bg-background border border-border rounded-lg"
+          >
+            {EXPIRY_OPTIONS.map((days) => (
+              <option key={days} value={days}>{t('settings.sections.apiTokens.days', { count: days })}</option>
+            ))}
+          </select>
+        </label>
+        <Button
+          type="button"
+          variant="secondary"
+          className="w-full"
+          onClick={handleCreate}
+          disabled={busy || !name.trim() || scopes.length === 0}
+        >
+          {t('settings.sections.apiTokens.create')}
+        </Button>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+    </>
+  )
+}
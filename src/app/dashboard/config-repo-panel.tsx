@@ -0,0 +1,171 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Config Repository Panel Component
+ * Config-as-code for the selected account: link a repository whose
+ * gitpins.yml manages the order, see the last import (or why the file was
+ * rejected) and unlink it to edit the order here again.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card } from '@/components/ui'
+import { useTranslation } from '@/i18n'
+import type { ConfigRepoStatus } from '@/types'
+
+interface ConfigRepoPanelProps {
+  /** Selected account, null for the personal one */
+  org: string | null
+  /** Linking replaces the order, so unsaved edits block it */
+  hasUnsavedChanges: boolean
+  /** Called after linking or unlinking so the dashboard reloads the order */
+  onChanged: () => void
+  ensureCsrfToken: () => Promise<string | null>
+}
+
+export function ConfigRepoPanel({ org, hasUnsavedChanges, onChanged, ensureCsrfToken }: ConfigRepoPanelProps) {
+  const { t } = useTranslation()
+  const [status, setStatus] = useState<ConfigRepoStatus | null>(null)
+  const [repo, setRepo] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = org ? `?org=${encodeURIComponent(org)}` : ''
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/config-repo${query}`, { cache: 'no-store' })
+      if (!response.ok) return
+      setStatus(await response.json())
+    } catch (err) {
+      console.error('Error fetching config repository:', err)
+    }
+  }, [query])
+
+  useEffect(() => {
+    void loadStatus()
+  }, [loadStatus])
+
+  /** Sends a mutation and refreshes the panel and the order. */
+  async function mutate(path: string, method: string, body?: Record<string, unknown>): Promise<boolean> {
+    setBusy(true)
+    setError(null)
+    try {
+      const token = await ensureCsrfToken()
+      if (!token) return false
+
+      const response = await fetch(path, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': token,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(data.reason === 'config_not_found'
+          ? t('dashboard.configRepo.notFound')
+          : t('dashboard.configRepo.error'))
+        return false
+      }
+
+      setStatus(data)
+      onChanged()
+      return true
+    } catch (err) {
+      console.error('Config repository request failed:', err)
+      setError(t('dashboard.configRepo.error'))
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleLink() {
+    if (await mutate('/api/config-repo', 'POST', { org, repo: repo.trim() })) {
+      setRepo('')
+    }
+  }
+
+  async function handleUnlink() {
+    if (!window.confirm(t('dashboard.configRepo.unlinkConfirm'))) return
+    await mutate(`/api/config-repo${query}`, 'DELETE')
+  }
+
+  const linked = status?.configRepo ?? null
+
+  return (
+    <Card className={`mb-6 p-4 ${linked ? 'border-foreground/30' : ''}`}>
+      <div className="mb-3">
+        <h2 className="text-sm font-semibold">
+          {linked ? t('dashboard.configRepo.managedTitle') : t('dashboard.configRepo.title')}
+        </h2>
+        <p className="text-xs text-muted-foreground">
+          {linked ? t('dashboard.configRepo.managedDesc') : t('dashboard.configRepo.desc')}
+        </p>
+      </div>
+
+      {linked ? (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-mono text-sm">{linked}</span>
+            {status?.configPath && (
+              <span className="text-xs text-muted-foreground">
+                {status.configPath}
+                {status.configSha && ` @ ${status.configSha.slice(0, 7)}`}
+              </span>
+            )}
+            <button
+              onClick={handleUnlink}
+              disabled={busy}
+              className="ml-auto px-2 py-1 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+            >
+              {t('dashboard.configRepo.unlink')}
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {status?.configImportedAt
+              ? t('dashboard.configRepo.importedAt', { date: new Date(status.configImportedAt).toLocaleString() })
+              : t('dashboard.configRepo.neverImported')}
+          </p>
+          {status?.configErrors && status.configErrors.length > 0 && (
+            <div className="mt-2 rounded border border-red-500/20 bg-red-500/5 p-2 text-xs">
+              <div className="font-medium text-red-600">{t('dashboard.configRepo.invalid')}</div>
+              <ul className="mt-1 space-y-0.5 font-mono">
+                {status.configErrors.map((issue, i) => (
+                  <li key={`${issue.path}-${i}`}>{issue.path}: {issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={repo}
+            maxLength={201}
+            placeholder="owner/gitpins-config"
+            onChange={(e) => setRepo(e.target.value)}
+            className="px-3 py-2 text-sm font-mono bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-foreground/20"
+          />
+          <button
+            onClick={handleLink}
+            disabled={busy || hasUnsavedChanges || !repo.trim()}
+            title={hasUnsavedChanges ? t('dashboard.configRepo.saveFirst') : undefined}
+            className="px-3 py-2 text-sm border border-border rounded-lg hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {t('dashboard.configRepo.link')}
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-500">{error}</p>}
+    </Card>
+  )
+}
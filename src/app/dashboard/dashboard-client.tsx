@@ -42,10 +42,23 @@ import { SortableRepoItem } from './sortable-repo-item'
 import { SettingsModal } from './settings-modal'
 import { OnboardingWizard } from './onboarding-wizard'
 import { RepoFilters, applyFilters, type FilterState, type VisibilityFilter } from './repo-filters'
+import { ProfileSwitcher } from './profile-switcher'
+import { OrderProfilesPanel } from './order-profiles-panel'
+import { ConfigRepoPanel } from './config-repo-panel'
+import { PinRulesEditor } from './pin-rules-editor'
+import { OrphanedPinsPanel } from './orphaned-pins-panel'
+import { PublicViewPanel } from './public-view-panel'
+import { NotificationsPanel } from './notifications-panel'
 import { Footer } from '@/components/footer'
 import { ActivityHistory } from '@/components/activity-history'
 import { useTranslation } from '@/i18n'
-import type { Repo, RepoOrderSettings } from '@/types'
+import type { CommitStrategy, OrphanedPin, Repo, RepoHealthInfo, RepoOrderSettings } from '@/types'
+import type { SyncPreview } from '@/lib/sync/planner'
+import { resolvePinRules } from '@/lib/sync/pin-rules'
+import type { SerializedSyncJob } from '@/lib/sync/job-state'
+
+const SYNC_JOB_POLL_MS = 2000
+const SYNC_JOB_MAX_POLL_MS = 20 * 60 * 1000
 
 /** Props for the DashboardClient component */
 interface DashboardClientProps {
@@ -59,10 +72,12 @@ function DashboardStatusCard({
   label,
   value,
   hint,
+  action,
 }: {
   label: string
   value: string
   hint?: string
+  action?: React.ReactNode
 }) {
   return (
     <Card className="p-4">
@@ -77,10 +92,19 @@ function DashboardStatusCard({
           {hint}
         </div>
       )}
+      {action}
     </Card>
   )
 }
 
+/** Query string selecting a profile (`?org=`), empty for the personal one. */
+function profileQuery(org: string | null, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra)
+  if (org) params.set('org', org)
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
 /**
  * Droppable zone component for drag-and-drop.
  * Highlights when items are dragged over it.
@@ -107,6 +131,8 @@ export function DashboardClient({ user }: DashboardClientProps) {
   const [repos, setRepos] = useState<Repo[]>([])
   const [pinnedRepos, setPinnedRepos] = useState<string[]>([]) // fullNames de repos pinneados
   const [settings, setSettings] = useState<RepoOrderSettings | null>(null)
+  const [repoHealth, setRepoHealth] = useState<Record<string, RepoHealthInfo>>({})
+  const [orphanedPins, setOrphanedPins] = useState<OrphanedPin[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
@@ -114,6 +140,11 @@ export function DashboardClient({ user }: DashboardClientProps) {
   const [activeId, setActiveId] = useState<string | null>(null)
   const [syncing, setSyncing] = useState(false)
   const [syncMessage, setSyncMessage] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [checkingDrift, setCheckingDrift] = useState(false)
+  const [driftCheckFailed, setDriftCheckFailed] = useState(false)
+  const [syncJob, setSyncJob] = useState<SerializedSyncJob | null>(null)
+  const [syncPreview, setSyncPreview] = useState<(SyncPreview & { quarantined?: string[]; orphaned?: OrphanedPin[]; visibility?: 'all' | 'public' }) | null>(null)
   const [authError, setAuthError] = useState(false)
   const [csrfToken, setCsrfToken] = useState<string | null>(null)
   const [filters, setFilters] = useState<FilterState>({ search: '', language: '', owner: '', minStars: 0 })
@@ -121,6 +152,7 @@ export function DashboardClient({ user }: DashboardClientProps) {
   const [showOnboarding, setShowOnboarding] = useState(false)
   const [onboardingChecked, setOnboardingChecked] = useState(false)
   const [autoOpenDelete, setAutoOpenDelete] = useState(false)
+  const [activeOrg, setActiveOrg] = useState<string | null>(null) // null = perfil personal
 
   const onboardingStorageKey = useMemo(
     () => `gitpins:onboarding:v1:dashboard:${user.username}`,
@@ -243,6 +275,18 @@ export function DashboardClient({ user }: DashboardClientProps) {
     return applyFilters(unpinned, filters)
   }, [filteredRepos, pinnedRepos, filters])
 
+  // Pins guardados que no están en la lista (se quitan al eliminarlos o reemplazarlos)
+  const pendingOrphans = useMemo(
+    () => orphanedPins.filter(orphan => pinnedRepos.includes(orphan.repo)),
+    [orphanedPins, pinnedRepos]
+  )
+
+  // Lista que la sincronización intentará dejar arriba (reglas ya resueltas)
+  const desiredTop = useMemo(() => {
+    if (!settings?.pinRules) return pinnedRepos
+    return resolvePinRules(settings.pinRules, repos, { includePrivate: settings.includePrivate }).map(pin => pin.repo)
+  }, [settings, repos, pinnedRepos])
+
   const displayedTopRepos = useMemo(() => {
     if (visibilityFilter === 'all') return topRepos
     if (visibilityFilter === 'public') return topRepos.filter(r => !r.isPrivate)
@@ -284,13 +328,37 @@ export function DashboardClient({ user }: DashboardClientProps) {
     }).format(date)
   }, [locale, settings?.lastSyncAt, t])
 
-  const syncFrequencyLabel = t('dashboard.summary.externalScheduler')
+  // Estado de deriva: última comprobación de solo lectura del orden real
+  const driftStatus = useMemo(() => {
+    const format = (value: string) => new Intl.DateTimeFormat(locale === 'en' ? 'en-US' : 'es-ES', {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    }).format(new Date(value))
 
-  async function fetchRepos() {
+    if (!settings?.driftCheckedAt) {
+      return { value: t('dashboard.summary.notChecked'), hint: undefined }
+    }
+    const syncedSinceCheck = !!settings.lastSyncAt && Date.parse(settings.lastSyncAt) > Date.parse(settings.driftCheckedAt)
+    return {
+      value: settings.driftedSince ? t('dashboard.summary.drifted') : t('dashboard.summary.inOrder'),
+      hint: syncedSinceCheck
+        ? t('dashboard.summary.syncedSinceCheck')
+        : settings.driftedSince
+          ? t('dashboard.summary.driftedSince', { date: format(settings.driftedSince) })
+          : t('dashboard.summary.checkedAt', { date: format(settings.driftCheckedAt) }),
+    }
+  }, [locale, settings?.driftCheckedAt, settings?.driftedSince, settings?.lastSyncAt, t])
+
+  const syncFrequencyLabel = settings?.builtInScheduler
+    ? t(`settings.syncFrequency.options.${settings.syncFrequency}`)
+    : t('dashboard.summary.externalScheduler')
+
+  async function fetchRepos(refresh = false, org: string | null = null) {
     setLoading(true)
     setAuthError(false)
     try {
-      const response = await fetch('/api/repos', { cache: 'no-store' })
+      // refresh=true descarga la lista completa en vez de leer la caché
+      const response = await fetch(`/api/repos${profileQuery(org, refresh ? { refresh: 'true' } : {})}`, { cache: 'no-store' })
       const data = await response.json()
 
       // Si hay error de autenticación, mostrar mensaje y redirigir
@@ -309,6 +377,8 @@ export function DashboardClient({ user }: DashboardClientProps) {
 
       // Asegurarse de que repos sea un array
       setRepos(Array.isArray(data.repos) ? data.repos : [])
+      setRepoHealth(data.repoHealth && typeof data.repoHealth === 'object' ? data.repoHealth : {})
+      setOrphanedPins(Array.isArray(data.orphanedPins) ? data.orphanedPins : [])
 
       const loadedSettings = data.settings || {
         topN: 10,
@@ -316,6 +386,8 @@ export function DashboardClient({ user }: DashboardClientProps) {
         syncFrequency: 168,
         autoEnabled: true,
         commitStrategy: 'revert',
+        repoStrategies: {},
+        verifyAfterSync: false,
         lastSyncAt: null,
         syncConfigured: false,
         canManualSync: false,
@@ -326,6 +398,8 @@ export function DashboardClient({ user }: DashboardClientProps) {
       if (data.savedOrder && data.savedOrder.length > 0) {
         const topN = loadedSettings.topN || 10
         setPinnedRepos(data.savedOrder.slice(0, topN))
+      } else {
+        setPinnedRepos([])
       }
     } catch (error) {
       console.error('Error fetching repos:', error)
@@ -336,6 +410,19 @@ export function DashboardClient({ user }: DashboardClientProps) {
     }
   }
 
+  /** Switches the edited profile, discarding unsaved changes of the current one. */
+  function handleSelectProfile(org: string | null) {
+    if (org === activeOrg) return
+    if (hasChanges && !window.confirm(t('dashboard.profiles.discardConfirm'))) return
+
+    setActiveOrg(org)
+    setHasChanges(false)
+    setSyncMessage(null)
+    setSyncPreview(null)
+    setFilters({ search: '', language: '', owner: '', minStars: 0 })
+    void fetchRepos(false, org)
+  }
+
   function handleDragStart(event: DragStartEvent) {
     setActiveId(event.active.id as string)
   }
@@ -428,6 +515,12 @@ export function DashboardClient({ user }: DashboardClientProps) {
     setHasChanges(true)
   }
 
+  /** Puts another repo in the position of an orphaned pin. */
+  function handleReplacePinned(repoFullName: string, replacement: string) {
+    setPinnedRepos(prev => prev.map(name => (name === repoFullName ? replacement : name)))
+    setHasChanges(true)
+  }
+
   async function saveOrder() {
     setSaving(true)
     try {
@@ -445,20 +538,25 @@ export function DashboardClient({ user }: DashboardClientProps) {
           'X-CSRF-Token': token,
         },
         body: JSON.stringify({
+          org: activeOrg,
           reposOrder: pinnedRepos,
           topN: pinnedRepos.length,
           includePrivate: settings?.includePrivate ?? true,
           syncFrequency: settings?.syncFrequency ?? 168,
           autoEnabled: settings?.autoEnabled ?? true,
-          commitStrategy: 'revert',
+          commitStrategy: settings?.commitStrategy ?? 'revert',
+          repoStrategies: settings?.repoStrategies ?? {},
           preferredHour: settings?.preferredHour ?? null,
+          verifyAfterSync: settings?.verifyAfterSync ?? false,
+          driftEarlySync: settings?.driftEarlySync ?? false,
+          pinRules: settings?.pinRules ?? null,
         }),
       })
 
       if (response.ok) {
         setHasChanges(false)
-        // Actualizar settings con el nuevo topN
-        setSettings(prev => prev ? { ...prev, topN: pinnedRepos.length } : null)
+        // Actualizar settings con el nuevo topN (la deriva se vuelve a comprobar contra el orden nuevo)
+        setSettings(prev => prev ? { ...prev, topN: pinnedRepos.length, driftCheckedAt: null, driftedSince: null } : null)
       }
     } catch (error) {
       console.error('Error saving order:', error)
@@ -517,6 +615,105 @@ export function DashboardClient({ user }: DashboardClientProps) {
     setHasChanges(true)
   }
 
+  function handleRepoStrategyChange(fullName: string, strategy: CommitStrategy | null) {
+    setSettings((prev) => {
+      if (!prev) return prev
+      const repoStrategies = { ...prev.repoStrategies }
+      if (strategy) {
+        repoStrategies[fullName] = strategy
+      } else {
+        delete repoStrategies[fullName]
+      }
+      return { ...prev, repoStrategies }
+    })
+    setHasChanges(true)
+  }
+
+  /** Releases a quarantined repo so the next sync touches it again. */
+  async function handleRetryRepo(fullName: string) {
+    try {
+      const token = await ensureCsrfToken()
+      if (!token) return
+
+      const response = await fetch('/api/repos/health/retry', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': token,
+        },
+        body: JSON.stringify({ repo: fullName }),
+      })
+
+      if (response.ok) {
+        setRepoHealth((prev) => {
+          const next = { ...prev }
+          delete next[fullName]
+          return next
+        })
+      }
+    } catch (error) {
+      console.error('Error releasing quarantine:', error)
+    }
+  }
+
+  /** Shows the final sync response (direct or from a finished job). */
+  function showSyncResult(data: Record<string, unknown>) {
+    if (data.skipped) {
+      const reason = typeof data.reason === 'string' ? data.reason : null
+
+      if (reason === 'mutations_disabled') {
+        setSyncMessage({ type: 'error', text: t('dashboard.syncNow.mutationsDisabled') })
+      } else if (reason === 'recent_sync') {
+        const minutes = typeof data.waitMinutes === 'number' ? data.waitMinutes : null
+        setSyncMessage({
+          type: 'info',
+          text: minutes
+            ? t('dashboard.syncNow.recentSync', { minutes })
+            : t('dashboard.syncNow.recentSyncGeneric')
+        })
+      } else if (reason === 'preferred_hour') {
+        const currentHour = typeof data.currentHour === 'number' ? data.currentHour : null
+        const preferredHour = typeof data.preferredHour === 'number' ? data.preferredHour : null
+        setSyncMessage({
+          type: 'info',
+          text: (currentHour !== null && preferredHour !== null)
+            ? t('dashboard.syncNow.preferredHour', { currentHour, preferredHour })
+            : t('dashboard.syncNow.preferredHourGeneric')
+        })
+      } else if (reason === 'auto_disabled') {
+        setSyncMessage({ type: 'info', text: t('dashboard.syncNow.autoDisabled') })
+      } else {
+        setSyncMessage({ type: 'info', text: t('dashboard.syncNow.alreadyOrdered') })
+      }
+    } else {
+      setSyncMessage({
+        type: 'success',
+        text: t('dashboard.syncNow.success', {
+          synced: typeof data.synced === 'number' ? data.synced : 0,
+          failed: typeof data.failed === 'number' ? data.failed : 0,
+        })
+      })
+    }
+  }
+
+  /** Polls a sync job until it finishes, updating the progress bar. */
+  async function pollSyncJob(jobId: string): Promise<SerializedSyncJob | null> {
+    const deadline = Date.now() + SYNC_JOB_MAX_POLL_MS
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, SYNC_JOB_POLL_MS))
+
+      const response = await fetch(`/api/sync/jobs/${jobId}`, { cache: 'no-store' })
+      if (!response.ok) return null
+
+      const { job } = await response.json() as { job: SerializedSyncJob }
+      setSyncJob(job)
+      if (job.status === 'completed' || job.status === 'failed') return job
+    }
+
+    return null
+  }
+
   async function handleSyncNow() {
     if (!settings?.canManualSync) {
       setSyncMessage({ type: 'error', text: t('dashboard.syncNow.noSecret') })
@@ -525,6 +722,8 @@ export function DashboardClient({ user }: DashboardClientProps) {
 
     setSyncing(true)
     setSyncMessage(null)
+    setSyncPreview(null)
+    setSyncJob(null)
 
     try {
       const token = await ensureCsrfToken()
@@ -533,7 +732,7 @@ export function DashboardClient({ user }: DashboardClientProps) {
         return
       }
 
-      const response = await fetch('/api/sync/manual', {
+      const response = await fetch(`/api/sync/manual${profileQuery(activeOrg)}`, {
         method: 'POST',
         headers: {
           'X-CSRF-Token': token,
@@ -542,43 +741,15 @@ export function DashboardClient({ user }: DashboardClientProps) {
 
       const data = await response.json()
 
-      if (response.ok) {
-        if (data.skipped) {
-          const reason = typeof data.reason === 'string' ? data.reason : null
-
-          if (reason === 'mutations_disabled') {
-            setSyncMessage({ type: 'error', text: t('dashboard.syncNow.mutationsDisabled') })
-          } else if (reason === 'recent_sync') {
-            const minutes = typeof data.waitMinutes === 'number' ? data.waitMinutes : null
-            setSyncMessage({
-              type: 'info',
-              text: minutes
-                ? t('dashboard.syncNow.recentSync', { minutes })
-                : t('dashboard.syncNow.recentSyncGeneric')
-            })
-          } else if (reason === 'preferred_hour') {
-            const currentHour = typeof data.currentHour === 'number' ? data.currentHour : null
-            const preferredHour = typeof data.preferredHour === 'number' ? data.preferredHour : null
-            setSyncMessage({
-              type: 'info',
-              text: (currentHour !== null && preferredHour !== null)
-                ? t('dashboard.syncNow.preferredHour', { currentHour, preferredHour })
-                : t('dashboard.syncNow.preferredHourGeneric')
-            })
-          } else if (reason === 'auto_disabled') {
-            setSyncMessage({ type: 'info', text: t('dashboard.syncNow.autoDisabled') })
-          } else {
-            setSyncMessage({ type: 'info', text: t('dashboard.syncNow.alreadyOrdered') })
-          }
+      if (response.status === 202 && typeof data.jobId === 'string') {
+        const job = await pollSyncJob(data.jobId)
+        if (job?.status === 'completed' && job.result) {
+          showSyncResult(job.result)
         } else {
-          setSyncMessage({
-            type: 'success',
-            text: t('dashboard.syncNow.success', {
-              synced: data.synced || 0,
-              failed: data.failed || 0
-            })
-          })
+          setSyncMessage({ type: 'error', text: t('dashboard.syncNow.error') })
         }
+      } else if (response.ok) {
+        showSyncResult(data)
       } else {
         setSyncMessage({ type: 'error', text: data.error || t('dashboard.syncNow.error') })
       }
@@ -587,12 +758,84 @@ export function DashboardClient({ user }: DashboardClientProps) {
       setSyncMessage({ type: 'error', text: t('dashboard.syncNow.error') })
     } finally {
       setSyncing(false)
+      setSyncJob(null)
       // Limpiar mensaje después de 5 segundos
       setTimeout(() => setSyncMessage(null), 5000)
     }
   }
 
+  async function handleCheckDrift() {
+    setCheckingDrift(true)
+    setDriftCheckFailed(false)
+    try {
+      const token = await ensureCsrfToken()
+      if (!token) {
+        setDriftCheckFailed(true)
+        return
+      }
+
+      const response = await fetch(`/api/drift${profileQuery(activeOrg)}`, {
+        method: 'POST',
+        headers: {
+          'X-CSRF-Token': token,
+        },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setDriftCheckFailed(true)
+        return
+      }
+      setSettings(prev => prev ? { ...prev, driftCheckedAt: data.driftCheckedAt, driftedSince: data.driftedSince } : null)
+    } catch (error) {
+      console.error('Drift check error:', error)
+      setDriftCheckFailed(true)
+    } finally {
+      setCheckingDrift(false)
+    }
+  }
+
+  async function handlePreviewSync() {
+    if (!settings?.canManualSync) {
+      setSyncMessage({ type: 'error', text: t('dashboard.syncNow.noSecret') })
+      return
+    }
+
+    setPreviewing(true)
+    setSyncMessage(null)
+    setSyncPreview(null)
+
+    try {
+      const token = await ensureCsrfToken()
+      if (!token) {
+        setSyncMessage({ type: 'error', text: t('dashboard.syncPreview.error') })
+        return
+      }
+
+      const response = await fetch(`/api/sync/manual${profileQuery(activeOrg, { dryRun: 'true' })}`, {
+        method: 'POST',
+        headers: {
+          'X-CSRF-Token': token,
+        },
+      })
+
+      const data = await response.json()
+
+      if (response.ok && data.dryRun) {
+        setSyncPreview(data as SyncPreview & { quarantined?: string[]; orphaned?: OrphanedPin[]; visibility?: 'all' | 'public' })
+      } else {
+        setSyncMessage({ type: 'error', text: data.error || t('dashboard.syncPreview.error') })
+      }
+    } catch (error) {
+      console.error('Sync preview error:', error)
+      setSyncMessage({ type: 'error', text: t('dashboard.syncPreview.error') })
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
   const maxPinned = settings?.topN || 10
+  // El orden se importa del gitpins.yml del repo enlazado: guardar desde aquí se rechaza
+  const managedByConfig = !!settings?.configRepo
   const slotsRemaining = maxPinned - pinnedRepos.length
 
   return (
@@ -622,7 +865,13 @@ export function DashboardClient({ user }: DashboardClientProps) {
             >
               <SettingsIcon className="w-4 h-4" />
             </Button>
-            <Button variant="ghost" size="sm" onClick={fetchRepos}>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fetchRepos(true, activeOrg)}
+              title={t('dashboard.refreshRepos')}
+              aria-label={t('dashboard.refreshRepos')}
+            >
               <RefreshIcon className="w-4 h-4" />
             </Button>
             <div className="flex items-center gap-2 pl-3 border-l border-border">
@@ -647,6 +896,14 @@ export function DashboardClient({ user }: DashboardClientProps) {
 
       {/* Main content */}
       <main className="max-w-5xl mx-auto px-4 py-8">
+        {!authError && (
+          <ProfileSwitcher
+            username={user.username}
+            activeOrg={activeOrg}
+            onSelect={handleSelectProfile}
+            ensureCsrfToken={ensureCsrfToken}
+          />
+        )}
         {authError ? (
           <div className="flex flex-col items-center justify-center py-20">
             <Card className="max-w-md p-8 text-center">
@@ -673,12 +930,16 @@ export function DashboardClient({ user }: DashboardClientProps) {
             {/* Save bar */}
             {hasChanges && (
               <div className="bg-foreground text-background rounded-lg p-4 mb-6 flex items-center justify-between">
-                <span className="text-sm">{t('dashboard.unsavedChanges')}</span>
+                <span className="text-sm">
+                  {managedByConfig
+                    ? t('dashboard.configRepo.saveBlocked', { repo: settings?.configRepo ?? '' })
+                    : t('dashboard.unsavedChanges')}
+                </span>
                 <Button
                   variant="secondary"
                   size="sm"
                   onClick={saveOrder}
-                  disabled={saving}
+                  disabled={saving || managedByConfig}
                 >
                   {saving ? (
                     <>
@@ -693,7 +954,7 @@ export function DashboardClient({ user }: DashboardClientProps) {
             )}
 
             {settings && (
-              <div className="mb-6 grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+              <div className="mb-6 grid gap-3 sm:grid-cols-2 xl:grid-cols-6">
                 <DashboardStatusCard
                   label={t('dashboard.summary.saveState')}
                   value={hasChanges ? t('dashboard.summary.pending') : t('dashboard.summary.saved')}
@@ -724,16 +985,79 @@ export function DashboardClient({ user }: DashboardClientProps) {
                     ? t('dashboard.summary.anyHour')
                     : t('dashboard.summary.preferredHour', { hour: `${settings.preferredHour}`.padStart(2, '0') })}
                 />
+                <DashboardStatusCard
+                  label={t('dashboard.summary.drift')}
+                  value={driftStatus.value}
+                  hint={driftCheckFailed ? t('dashboard.summary.checkFailed') : driftStatus.hint}
+                  action={settings.canManualSync && (
+                    <button
+                      onClick={handleCheckDrift}
+                      disabled={checkingDrift || hasChanges}
+                      className="mt-2 text-xs underline text-muted-foreground hover:text-foreground disabled:opacity-50"
+                    >
+                      {checkingDrift ? t('dashboard.summary.checking') : t('dashboard.summary.checkNow')}
+                    </button>
+                  )}
+                />
               </div>
             )}
 
+            {/* Config-as-code: el orden puede venir del gitpins.yml de un repo */}
+            {settings?.syncConfigured && (
+              <ConfigRepoPanel
+                key={activeOrg ?? ''}
+                org={activeOrg}
+                hasUnsavedChanges={hasChanges}
+                onChanged={() => fetchRepos(false, activeOrg)}
+                ensureCsrfToken={ensureCsrfToken}
+              />
+            )}
+
+            {/* Perfiles con nombre: solo cuando ya hay un orden guardado y no lo gestiona un repo */}
+            {settings?.syncConfigured && !managedByConfig && (
+              <OrderProfilesPanel
+                org={activeOrg}
+                hasUnsavedChanges={hasChanges}
+                onActivated={() => fetchRepos(false, activeOrg)}
+                ensureCsrfToken={ensureCsrfToken}
+              />
+            )}
+
+            {/* Reglas de pineado: sustituyen la lista fija al sincronizar */}
+            {settings && (
+              <PinRulesEditor
+                rules={settings.pinRules ?? null}
+                repos={repos}
+                pinnedRepos={pinnedRepos}
+                includePrivate={settings.includePrivate}
+                onChange={(pinRules) => {
+                  setSettings(prev => prev ? { ...prev, pinRules } : null)
+                  setHasChanges(true)
+                }}
+              />
+            )}
+
             {/* Sync Control */}
-            {settings && pinnedRepos.length > 0 && (
+            {settings && (pinnedRepos.length > 0 || !!settings.pinRules?.length) && (
               <>
-                <div className="mb-6 flex justify-end">
+                <div className="mb-6 flex justify-end gap-2">
+                  <button
+                    onClick={handlePreviewSync}
+                    disabled={syncing || previewing}
+                    className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium border border-border rounded-lg hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {previewing ? (
+                      <>
+                        <LoaderIcon className="w-4 h-4 animate-spin" />
+                        <span>{t('dashboard.syncPreview.loading')}</span>
+                      </>
+                    ) : (
+                      <span>{t('dashboard.syncPreview.button')}</span>
+                    )}
+                  </button>
                   <button
                     onClick={handleSyncNow}
-                    disabled={syncing}
+                    disabled={syncing || previewing}
                     className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium bg-foreground text-background rounded-lg hover:bg-foreground/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
                     {syncing ? (
@@ -750,6 +1074,36 @@ export function DashboardClient({ user }: DashboardClientProps) {
                   </button>
                 </div>
 
+                {/* Sync Job Progress */}
+                {syncing && syncJob && (
+                  <div className="mb-6 p-3 rounded-lg border border-border bg-muted/50 text-sm">
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="truncate">
+                        {syncJob.total === 0
+                          ? t('dashboard.syncNow.planning')
+                          : t('dashboard.syncNow.progress', { processed: syncJob.processed, total: syncJob.total })}
+                      </span>
+                      {syncJob.repos.find((entry) => entry.status === 'running') && (
+                        <span className="truncate font-mono text-xs text-muted-foreground">
+                          {syncJob.repos.find((entry) => entry.status === 'running')?.repo}
+                        </span>
+                      )}
+                    </div>
+                    <div
+                      className="mt-2 h-2 w-full overflow-hidden rounded-full bg-border"
+                      role="progressbar"
+                      aria-valuemin={0}
+                      aria-valuemax={syncJob.total}
+                      aria-valuenow={syncJob.processed}
+                    >
+                      <div
+                        className="h-full bg-foreground transition-all"
+                        style={{ width: `${syncJob.total > 0 ? Math.round((syncJob.processed / syncJob.total) * 100) : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {/* Sync Message */}
                 {syncMessage && (
                   <div className={`mb-6 p-3 rounded-lg border text-sm ${
@@ -760,9 +1114,90 @@ export function DashboardClient({ user }: DashboardClientProps) {
                     {syncMessage.text}
                   </div>
                 )}
+
+                {/* Sync Preview (dry run) */}
+                {syncPreview && (
+                  <Card className="mb-6 p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <h3 className="text-sm font-semibold">{t('dashboard.syncPreview.title')}</h3>
+                        <p className="mt-1 text-sm text-muted-foreground">
+                          {syncPreview.alreadyOrdered
+                            ? t('dashboard.syncPreview.alreadyOrdered')
+                            : t('dashboard.syncPreview.touchCount', { count: syncPreview.touchOrder.length })}
+                        </p>
+                        {syncPreview.quarantined && syncPreview.quarantined.length > 0 && (
+                          <p className="mt-1 text-sm text-yellow-700">
+                            {t('dashboard.syncPreview.quarantined', { repos: syncPreview.quarantined.join(', ') })}
+                          </p>
+                        )}
+                        {syncPreview.visibility === 'public' && (
+                          <p className="mt-1 text-sm text-muted-foreground">{t('dashboard.syncPreview.publicOnly')}</p>
+                        )}
+                        {syncPreview.orphaned?.some((orphan) => orphan.reason === 'private_excluded') && (
+                          <p className="mt-1 text-sm text-yellow-700">
+                            {t('dashboard.syncPreview.privateExcluded', {
+                              repos: syncPreview.orphaned.filter((orphan) => orphan.reason === 'private_excluded').map((orphan) => orphan.repo).join(', '),
+                            })}
+                          </p>
+                        )}
+                        {syncPreview.orphaned?.some((orphan) => orphan.reason === 'not_found') && (
+                          <p className="mt-1 text-sm text-yellow-700">
+                            {t('dashboard.syncPreview.orphaned', {
+                              repos: syncPreview.orphaned.filter((orphan) => orphan.reason === 'not_found').map((orphan) => orphan.repo).join(', '),
+                            })}
+                          </p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => setSyncPreview(null)}
+                        className="text-sm text-muted-foreground hover:text-foreground"
+                      >
+                        {t('dashboard.syncPreview.close')}
+                      </button>
+                    </div>
+
+                    <div className="mt-4 grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
+                      {([
+                        ['currentTop', syncPreview.currentTop],
+                        ['desiredTop', syncPreview.desiredTop],
+                        ['touchOrder', syncPreview.touchOrder],
+                        ['predictedTop', syncPreview.predictedTop],
+                      ] as const).map(([key, list]) => (
+                        <div key={key}>
+                          <div className="text-xs font-medium uppercase tracking-[0.18em] text-muted-foreground">
+                            {t(`dashboard.syncPreview.${key}`)}
+                          </div>
+                          {list.length === 0 ? (
+                            <p className="mt-2 text-sm text-muted-foreground">{t('dashboard.syncPreview.empty')}</p>
+                          ) : (
+                            <ol className="mt-2 space-y-1 text-sm font-mono">
+                              {list.map((fullName, index) => (
+                                <li key={`${key}-${fullName}`} className="truncate">
+                                  <span className="text-muted-foreground">{index + 1}.</span> {fullName}
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </Card>
+                )}
               </>
             )}
 
+            {settings && desiredTop.length > 0 && (
+              <PublicViewPanel key={activeOrg ?? ''} org={activeOrg} desiredTop={desiredTop} />
+            )}
+
+            <OrphanedPinsPanel
+              orphans={pendingOrphans}
+              candidates={filteredRepos.filter(r => !pinnedRepos.includes(r.fullName))}
+              onRemove={handleRemoveFromPinned}
+              onReplace={handleReplacePinned}
+            />
+
             <DndContext
               sensors={sensors}
               collisionDetection={closestCenter}
@@ -816,6 +1251,11 @@ export function DashboardClient({ user }: DashboardClientProps) {
                               index={index}
                               isTop
                               onRemove={() => handleRemoveFromPinned(repo.fullName)}
+                              strategy={settings?.repoStrategies?.[repo.fullName]}
+                              defaultStrategy={settings?.commitStrategy}
+                              onStrategyChange={(strategy) => handleRepoStrategyChange(repo.fullName, strategy)}
+                              health={repoHealth[repo.fullName]}
+                              onRetry={() => handleRetryRepo(repo.fullName)}
                             />
                           ))}
                         </div>
@@ -889,6 +1329,11 @@ export function DashboardClient({ user }: DashboardClientProps) {
                 />
               </div>
 
+              {/* Notifications */}
+              <div className="mt-8">
+                <NotificationsPanel ensureCsrfToken={ensureCsrfToken} />
+              </div>
+
               {/* Drag Overlay */}
               <DragOverlay>
                 {activeRepo ? (
@@ -0,0 +1,262 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Notifications Panel Component
+ * The user's outbound notification channels (signed webhook, Slack-compatible
+ * webhook, email): add and remove channels, pick their events, send a test
+ * notification and review the latest delivery attempts.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card } from '@/components/ui'
+import { useTranslation } from '@/i18n'
+import type { NotificationChannelInfo, NotificationChannelType, NotificationDeliveryInfo, NotificationEvent } from '@/types'
+
+interface NotificationsPanelProps {
+  ensureCsrfToken: () => Promise<string | null>
+}
+
+const EVENTS: NotificationEvent[] = ['sync_failed', 'sync_partial', 'repo_quarantined', 'drift_detected']
+const TYPES: NotificationChannelType[] = ['webhook', 'slack', 'email']
+
+export function NotificationsPanel({ ensureCsrfToken }: NotificationsPanelProps) {
+  const { t } = useTranslation()
+  const [channels, setChannels] = useState<NotificationChannelInfo[]>([])
+  const [deliveries, setDeliveries] = useState<NotificationDeliveryInfo[]>([])
+  const [emailAvailable, setEmailAvailable] = useState(false)
+  const [form, setForm] = useState<{ type: NotificationChannelType; name: string; target: string }>({
+    type: 'webhook',
+    name: '',
+    target: '',
+  })
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [testResult, setTestResult] = useState<{ id: string; ok: boolean } | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadChannels = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications', { cache: 'no-store' })
+      if (!response.ok) return
+      const data = await response.json()
+      setChannels(Array.isArray(data.channels) ? data.channels : [])
+      setDeliveries(Array.isArray(data.deliveries) ? data.deliveries : [])
+      setEmailAvailable(data.emailAvailable === true)
+    } catch (err) {
+      console.error('Error fetching notification channels:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadChannels()
+  }, [loadChannels])
+
+  /** Sends a mutation and reloads the list. Returns the response body, or null when it failed. */
+  async function mutate(path: string, method: string, body?: Record<string, unknown>): Promise<Record<string, unknown> | null> {
+    setBusy(true)
+    setError(null)
+    try {
+      const token = await ensureCsrfToken()
+      if (!token) return null
+
+      const response = await fetch(path, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': token,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        setError(data.reason === 'email_unavailable'
+          ? t('dashboard.notifications.emailUnavailable')
+          : t('dashboard.notifications.error'))
+        return null
+      }
+
+      await loadChannels()
+      return data
+    } catch (err) {
+      console.error('Notification channel request failed:', err)
+      setError(t('dashboard.notifications.error'))
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleCreate() {
+    const data = await mutate('/api/notifications', 'POST', { ...form, events: EVENTS })
+    if (data) {
+      setForm((prev) => ({ ...prev, name: '', target: '' }))
+      setNewSecret(typeof data.secret === 'string' ? data.secret : null)
+    }
+  }
+
+  async function handleToggleEvent(channel: NotificationChannelInfo, event: NotificationEvent) {
+    const events = channel.events.includes(event)
+      ? channel.events.filter((e) => e !== event)
+      : [...channel.events, event]
+    await mutate('/api/notifications', 'PATCH', { id: channel.id, events })
+  }
+
+  async function handleTest(channel: NotificationChannelInfo) {
+    setTestResult(null)
+    const data = await mutate('/api/notifications/test', 'POST', { id: channel.id })
+    if (data) setTestResult({ id: channel.id, ok: data.success === true })
+  }
+
+  async function handleDelete(channel: NotificationChannelInfo) {
+    if (!window.confirm(t('dashboard.notifications.deleteConfirm', { name: channel.name }))) return
+    await mutate(`/api/notifications?id=${encodeURIComponent(channel.id)}`, 'DELETE')
+  }
+
+  const channelName = (id: string) => channels.find((channel) => channel.id === id)?.name ?? '—'
+
+  return (
+    <Card className="p-4">
+      <div className="mb-3">
+        <h2 className="text-sm font-semibold">{t('dashboard.notifications.title')}</h2>
+        <p className="text-xs text-muted-foreground">{t('dashboard.notifications.desc')}</p>
+      </div>
+
+      {channels.length > 0 && (
+        <ul className="mb-3 divide-y divide-border">
+          {channels.map((channel) => (
+            <li key={channel.id} className="py-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium">{channel.name}</span>
+                <span className="px-2 py-0.5 text-xs rounded-full bg-muted">
+                  {t(`dashboard.notifications.types.${channel.type}`)}
+                </span>
+                <span className="text-xs font-mono text-muted-foreground">{channel.target}</span>
+                <div className="ml-auto flex gap-2">
+                  <button
+                    onClick={() => mutate('/api/notifications', 'PATCH', { id: channel.id, enabled: !channel.enabled })}
+                    disabled={busy}
+                    className="px-2 py-1 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+                  >
+                    {channel.enabled ? t('dashboard.notifications.disable') : t('dashboard.notifications.enable')}
+                  </button>
+                  <button
+                    onClick={() => handleTest(channel)}
+                    disabled={busy}
+                    className="px-2 py-1 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+                  >
+                    {t('dashboard.notifications.sendTest')}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(channel)}
+                    disabled={busy}
+                    className="px-2 py-1 text-xs text-muted-foreground border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+                  >
+                    {t('dashboard.notifications.delete')}
+                  </button>
+                </div>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-3">
+                {EVENTS.map((event) => (
+                  <label key={event} className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={channel.events.includes(event)}
+                      disabled={busy}
+                      onChange={() => handleToggleEvent(channel, event)}
+                    />
+                    {t(`dashboard.notifications.events.${event}`)}
+                  </label>
+                ))}
+              </div>
+              {!channel.enabled && (
+                <p className="mt-1 text-xs text-muted-foreground">{t('dashboard.notifications.disabled')}</p>
+              )}
+              {testResult?.id === channel.id && (
+                <p className={`mt-1 text-xs ${testResult.ok ? 'text-green-600' : 'text-red-500'}`}>
+                  {testResult.ok ? t('dashboard.notifications.testSent') : t('dashboard.notifications.testFailed')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {newSecret && (
+        <div className="mb-3 p-3 text-xs border border-border rounded-lg bg-muted/50">
+          <p className="mb-1">{t('dashboard.notifications.secretOnce')}</p>
+          <code className="block break-all font-mono">{newSecret}</code>
+          <button onClick={() => setNewSecret(null)} className="mt-2 underline">
+            {t('dashboard.notifications.secretDismiss')}
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={form.type}
+          onChange={(e) => setForm((prev) => ({ ...prev, type: e.target.value as NotificationChannelType }))}
+          className="px-3 py-2 text-sm bg-background border border-border rounded-lg"
+        >
+          {TYPES.map((type) => (
+            <option key={type} value={type} disabled={type === 'email' && !emailAvailable}>
+              {t(`dashboard.notifications.types.${type}`)}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={form.name}
+          maxLength={60}
+          placeholder={t('dashboard.notifications.namePlaceholder')}
+          onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+          className="px-3 py-2 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-foreground/20"
+        />
+        <input
+          type={form.type === 'email' ? 'email' : 'url'}
+          value={form.target}
+          placeholder={form.type === 'email' ? 'you@example.com' : 'https://'}
+          onChange={(e) => setForm((prev) => ({ ...prev, target: e.target.value }))}
+          className="flex-1 min-w-48 px-3 py-2 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-foreground/20"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={busy || !form.name.trim() || !form.target.trim()}
+          className="px-3 py-2 text-sm border border-border rounded-lg hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {t('dashboard.notifications.add')}
+        </button>
+      </div>
+      {!emailAvailable && (
+        <p className="mt-2 text-xs text-muted-foreground">{t('dashboard.notifications.emailUnavailable')}</p>
+      )}
+      {error && <p className="mt-2 text-xs text-red-500">{error}</p>}
+
+      {deliveries.length > 0 && (
+        <div className="mt-4">
+          <h3 className="mb-2 text-xs font-semibold">{t('dashboard.notifications.deliveries')}</h3>
+          <ul className="space-y-1">
+            {deliveries.map((delivery) => (
+              <li key={delivery.id} className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                <span className={delivery.status === 'success' ? 'text-green-600' : 'text-red-500'}>
+                  {delivery.status === 'success' ? '✓' : '✗'}
+                </span>
+                <span>{new Date(delivery.createdAt).toLocaleString()}</span>
+                <span className="font-medium text-foreground">{channelName(delivery.channelId)}</span>
+                <span>{delivery.event === 'test' ? t('dashboard.notifications.testEvent') : t(`dashboard.notifications.events.${delivery.event}`)}</span>
+                {delivery.attempt > 1 && <span>{t('dashboard.notifications.retry', { attempt: delivery.attempt })}</span>}
+                {delivery.error && <span>{delivery.error}</span>}
+                <span>{delivery.durationMs} ms</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  )
+}
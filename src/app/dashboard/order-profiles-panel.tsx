@@ -0,0 +1,247 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Order Profiles Panel Component
+ * Named saved orders of the selected account: save the current order under
+ * a name, activate a profile, and schedule rotations (one-off date or cron,
+ * both in UTC) that the sync pipeline applies on its own.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card } from '@/components/ui'
+import { useTranslation } from '@/i18n'
+import type { OrderProfileInfo } from '@/types'
+
+interface OrderProfilesPanelProps {
+  /** Selected account, null for the personal one */
+  org: string | null
+  /** Saving a profile copies the saved order, so unsaved edits block it */
+  hasUnsavedChanges: boolean
+  /** Called after a profile was activated so the dashboard reloads the order */
+  onActivated: () => void
+  ensureCsrfToken: () => Promise<string | null>
+}
+
+/** `datetime-local` value (UTC) for an ISO date. */
+function toUtcInput(iso: string | null): string {
+  return iso ? iso.slice(0, 16) : ''
+}
+
+export function OrderProfilesPanel({ org, hasUnsavedChanges, onActivated, ensureCsrfToken }: OrderProfilesPanelProps) {
+  const { t } = useTranslation()
+  const [profiles, setProfiles] = useState<OrderProfileInfo[]>([])
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [schedule, setSchedule] = useState({ activateAt: '', cron: '' })
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = org ? `?org=${encodeURIComponent(org)}` : ''
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/order-profiles${query}`, { cache: 'no-store' })
+      if (!response.ok) return
+      const data = await response.json()
+      setProfiles(Array.isArray(data.profiles) ? data.profiles : [])
+      setActiveProfileId(typeof data.activeProfileId === 'string' ? data.activeProfileId : null)
+    } catch (err) {
+      console.error('Error fetching order profiles:', err)
+    }
+  }, [query])
+
+  useEffect(() => {
+    setEditingId(null)
+    void loadProfiles()
+  }, [loadProfiles])
+
+  /** Sends a mutation and reloads the list. Returns false when it failed. */
+  async function mutate(path: string, method: string, body?: Record<string, unknown>): Promise<boolean> {
+    setBusy(true)
+    setError(null)
+    try {
+      const token = await ensureCsrfToken()
+      if (!token) return false
+
+      const response = await fetch(path, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': token,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(typeof data.error === 'string' ? data.error : t('dashboard.orderProfiles.error'))
+        return false
+      }
+
+      await loadProfiles()
+      return true
+    } catch (err) {
+      console.error('Order profile request failed:', err)
+      setError(t('dashboard.orderProfiles.error'))
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleCreate() {
+    if (await mutate('/api/order-profiles', 'POST', { org, name: newName })) {
+      setNewName('')
+    }
+  }
+
+  async function handleActivate(id: string) {
+    if (await mutate('/api/order-profiles/activate', 'POST', { id })) {
+      onActivated()
+    }
+  }
+
+  async function handleDelete(profile: OrderProfileInfo) {
+    if (!window.confirm(t('dashboard.orderProfiles.deleteConfirm', { name: profile.name }))) return
+    await mutate(`/api/order-profiles?id=${encodeURIComponent(profile.id)}`, 'DELETE')
+  }
+
+  function startEditing(profile: OrderProfileInfo) {
+    setEditingId(profile.id)
+    setSchedule({ activateAt: toUtcInput(profile.activateAt), cron: profile.cron ?? '' })
+  }
+
+  async function handleSaveSchedule(id: string) {
+    const saved = await mutate('/api/order-profiles', 'PATCH', {
+      id,
+      // El campo datetime-local se interpreta como UTC
+      activateAt: schedule.activateAt ? `${schedule.activateAt}:00Z` : null,
+      cron: schedule.cron.trim() || null,
+    })
+    if (saved) setEditingId(null)
+  }
+
+  function describeSchedule(profile: OrderProfileInfo): string | null {
+    const parts: string[] = []
+    if (profile.activateAt) {
+      parts.push(t('dashboard.orderProfiles.activatesOn', { date: `${toUtcInput(profile.activateAt).replace('T', ' ')} UTC` }))
+    }
+    if (profile.cron) {
+      parts.push(t('dashboard.orderProfiles.cronSchedule', { cron: profile.cron }))
+    }
+    return parts.length > 0 ? parts.join(' · ') : null
+  }
+
+  return (
+    <Card className="mb-6 p-4">
+      <div className="mb-3">
+        <h2 className="text-sm font-semibold">{t('dashboard.orderProfiles.title')}</h2>
+        <p className="text-xs text-muted-foreground">{t('dashboard.orderProfiles.desc')}</p>
+      </div>
+
+      {profiles.length > 0 && (
+        <ul className="mb-3 divide-y divide-border">
+          {profiles.map((profile) => (
+            <li key={profile.id} className="py-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium">{profile.name}</span>
+                {profile.id === activeProfileId && (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-foreground text-background">
+                    {t('dashboard.orderProfiles.active')}
+                  </span>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {t('dashboard.orderProfiles.repos', { count: profile.reposCount })}
+                </span>
+                <div className="ml-auto flex gap-2">
+                  {profile.id !== activeProfileId && (
+                    <button
+                      onClick={() => handleActivate(profile.id)}
+                      disabled={busy}
+                      className="px-2 py-1 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+                    >
+                      {t('dashboard.orderProfiles.activate')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => (editingId === profile.id ? setEditingId(null) : startEditing(profile))}
+                    disabled={busy}
+                    className="px-2 py-1 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+                  >
+                    {t('dashboard.orderProfiles.schedule')}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(profile)}
+                    disabled={busy}
+                    className="px-2 py-1 text-xs text-muted-foreground border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+                  >
+                    {t('dashboard.orderProfiles.delete')}
+                  </button>
+                </div>
+              </div>
+              {describeSchedule(profile) && (
+                <p className="mt-1 text-xs text-muted-foreground">{describeSchedule(profile)}</p>
+              )}
+              {editingId === profile.id && (
+                <div className="mt-2 flex flex-wrap items-end gap-2">
+                  <label className="text-xs text-muted-foreground">
+                    {t('dashboard.orderProfiles.activateAtLabel')}
+                    <input
+                      type="datetime-local"
+                      value={schedule.activateAt}
+                      onChange={(e) => setSchedule((prev) => ({ ...prev, activateAt: e.target.value }))}
+                      className="mt-1 block px-2 py-1 text-sm bg-background border border-border rounded-lg"
+                    />
+                  </label>
+                  <label className="text-xs text-muted-foreground">
+                    {t('dashboard.orderProfiles.cronLabel')}
+                    <input
+                      type="text"
+                      value={schedule.cron}
+                      placeholder="0 9 * * 1"
+                      onChange={(e) => setSchedule((prev) => ({ ...prev, cron: e.target.value }))}
+                      className="mt-1 block px-2 py-1 text-sm font-mono bg-background border border-border rounded-lg"
+                    />
+                  </label>
+                  <button
+                    onClick={() => handleSaveSchedule(profile.id)}
+                    disabled={busy}
+                    className="px-3 py-1.5 text-xs font-medium bg-foreground text-background rounded-lg hover:bg-foreground/90 disabled:opacity-50 transition-colors"
+                  >
+                    {t('dashboard.orderProfiles.saveSchedule')}
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          maxLength={50}
+          placeholder={t('dashboard.orderProfiles.namePlaceholder')}
+          onChange={(e) => setNewName(e.target.value)}
+          className="px-3 py-2 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-foreground/20"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={busy || hasUnsavedChanges || !newName.trim()}
+          title={hasUnsavedChanges ? t('dashboard.orderProfiles.saveFirst') : undefined}
+          className="px-3 py-2 text-sm border border-border rounded-lg hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {t('dashboard.orderProfiles.saveCurrent')}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-500">{error}</p>}
+    </Card>
+  )
+}
@@ -0,0 +1,77 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Orphaned Pins Panel Component
+ * Warns about saved pins that are not in the repository list (deleted, no
+ * longer accessible, or private while private repos are excluded). Syncs
+ * skip them; the panel offers to remove them or put another repo in their
+ * place. Changes are applied to the pinned list and saved with it.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Card } from '@/components/ui'
+import { useTranslation } from '@/i18n'
+import type { OrphanedPin, Repo } from '@/types'
+
+interface OrphanedPinsPanelProps {
+  orphans: OrphanedPin[]
+  /** Repos that can take an orphan's position (visible and not pinned) */
+  candidates: Repo[]
+  onRemove: (repo: string) => void
+  onReplace: (repo: string, replacement: string) => void
+}
+
+export function OrphanedPinsPanel({ orphans, candidates, onRemove, onReplace }: OrphanedPinsPanelProps) {
+  const { t } = useTranslation()
+  const [replacements, setReplacements] = useState<Record<string, string>>({})
+
+  if (orphans.length === 0) return null
+
+  return (
+    <Card className="mb-6 p-4 border-yellow-500/40 bg-yellow-500/5">
+      <h2 className="text-sm font-semibold">{t('dashboard.orphanedPins.title', { count: orphans.length })}</h2>
+      <p className="mb-3 text-xs text-muted-foreground">{t('dashboard.orphanedPins.desc')}</p>
+
+      <ul className="divide-y divide-border">
+        {orphans.map((orphan) => (
+          <li key={orphan.repo} className="flex flex-wrap items-center gap-2 py-2">
+            <div className="min-w-0 flex-1">
+              <div className="font-mono text-sm truncate">{orphan.repo}</div>
+              <div className="text-xs text-muted-foreground">{t(`dashboard.orphanedPins.reasons.${orphan.reason}`)}</div>
+            </div>
+            <select
+              value={replacements[orphan.repo] ?? ''}
+              onChange={(e) => setReplacements((prev) => ({ ...prev, [orphan.repo]: e.target.value }))}
+              aria-label={t('dashboard.orphanedPins.replaceWith')}
+              className="max-w-[14rem] px-2 py-1 text-sm bg-background border border-border rounded-lg"
+            >
+              <option value="">{t('dashboard.orphanedPins.replaceWith')}</option>
+              {candidates.map((repo) => (
+                <option key={repo.id} value={repo.fullName}>{repo.fullName}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onReplace(orphan.repo, replacements[orphan.repo])}
+              disabled={!replacements[orphan.repo]}
+              className="px-2 py-1 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+            >
+              {t('dashboard.orphanedPins.replace')}
+            </button>
+            <button
+              onClick={() => onRemove(orphan.repo)}
+              className="px-2 py-1 text-xs text-muted-foreground border border-border rounded-lg hover:bg-muted transition-colors"
+            >
+              {t('dashboard.orphanedPins.remove')}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  )
+}
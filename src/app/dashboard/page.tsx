@@ -39,7 +39,7 @@ export default async function DashboardPage() {
   // Verificar si el usuario existe en DB
   let user = await prisma.user.findUnique({
     where: { id: session.userId },
-    include: { repoOrder: true, token: true },
+    include: { token: true },
   })
 
   // Si el usuario no existe en DB, redirigir a login
@@ -59,7 +59,7 @@ export default async function DashboardPage() {
         user = await prisma.user.update({
           where: { id: session.userId },
           data: { installationId },
-          include: { repoOrder: true, token: true },
+          include: { token: true },
         })
       } else {
         // No tiene instalación, redirigir a instalar
@@ -0,0 +1,327 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Pin Rules Editor Component
+ * Describes the pinned list as ordered slots: fixed repositories and rules
+ * such as "top 3 by stars among my Rust repos". The preview resolves the
+ * slots against the loaded repositories the same way the sync does.
+ */
+
+'use client'
+
+import { useMemo } from 'react'
+import { Card } from '@/components/ui'
+import { useTranslation } from '@/i18n'
+import { MAX_PIN_SLOTS, MAX_RULE_COUNT, resolvePinRules } from '@/lib/sync/pin-rules'
+import type { PinRuleFilter, PinRuleSort, PinSlot, Repo } from '@/types'
+
+interface PinRulesEditorProps {
+  /** null = rules disabled, the pinned list is used as is */
+  rules: PinSlot[] | null
+  repos: Repo[]
+  /** Pinned list used to seed the fixed slots when rules are enabled */
+  pinnedRepos: string[]
+  includePrivate: boolean
+  onChange: (rules: PinSlot[] | null) => void
+}
+
+const SORT_OPTIONS: PinRuleSort[] = ['stars', 'forks', 'updated', 'name']
+
+const inputClass = 'mt-1 block w-full px-2 py-1 text-sm bg-background border border-border rounded-lg'
+
+/** Tri-state select value for optional boolean criteria. */
+function toChoice(value: boolean | undefined): string {
+  return value === undefined ? '' : String(value)
+}
+
+function fromChoice(value: string): boolean | undefined {
+  return value === '' ? undefined : value === 'true'
+}
+
+export function PinRulesEditor({ rules, repos, pinnedRepos, includePrivate, onChange }: PinRulesEditorProps) {
+  const { t } = useTranslation()
+
+  const preview = useMemo(
+    () => (rules ? resolvePinRules(rules, repos, { includePrivate }) : []),
+    [rules, repos, includePrivate]
+  )
+
+  function handleToggle(enabled: boolean) {
+    onChange(enabled
+      ? pinnedRepos.slice(0, MAX_PIN_SLOTS).map((repo): PinSlot => ({ type: 'pin', repo }))
+      : null)
+  }
+
+  function updateSlot(index: number, slot: PinSlot) {
+    if (!rules) return
+    onChange(rules.map((current, i) => (i === index ? slot : current)))
+  }
+
+  function updateFilter(index: number, patch: Partial<PinRuleFilter>) {
+    const slot = rules?.[index]
+    if (slot?.type !== 'rule') return
+    updateSlot(index, { ...slot, filter: { ...slot.filter, ...patch } })
+  }
+
+  function moveSlot(index: number, offset: number) {
+    if (!rules) return
+    const target = index + offset
+    if (target < 0 || target >= rules.length) return
+    const next = [...rules]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  function addSlot(type: PinSlot['type']) {
+    if (!rules || rules.length >= MAX_PIN_SLOTS) return
+    if (type === 'pin') {
+      const used = new Set(rules.flatMap((slot) => (slot.type === 'pin' ? [slot.repo] : [])))
+      const repo = repos.find((candidate) => !used.has(candidate.fullName))
+      if (!repo) return
+      onChange([...rules, { type: 'pin', repo: repo.fullName }])
+    } else {
+      onChange([...rules, { type: 'rule', count: 3, filter: {}, sortBy: 'stars' }])
+    }
+  }
+
+  function describeSource(slotIndex: number): string {
+    const slot = rules?.[slotIndex]
+    if (slot?.type === 'rule') {
+      return slot.label || t('dashboard.pinRules.ruleN', { n: slotIndex + 1 })
+    }
+    return t('dashboard.pinRules.fixed')
+  }
+
+  return (
+    <Card className="mb-6 p-4">
+      <div className="mb-3 flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h2 className="text-sm font-semibold">{t('dashboard.pinRules.title')}</h2>
+          <p className="text-xs text-muted-foreground">{t('dashboard.pinRules.desc')}</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={rules !== null}
+            onChange={(e) => handleToggle(e.target.checked)}
+          />
+          {t('dashboard.pinRules.enable')}
+        </label>
+      </div>
+
+      {rules && (
+        <>
+          <p className="mb-3 text-xs text-muted-foreground">{t('dashboard.pinRules.replacesList')}</p>
+
+          <ol className="mb-3 space-y-2">
+            {rules.map((slot, index) => (
+              <li key={index} className="p-3 border border-border rounded-lg">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs font-medium text-muted-foreground">
+                    {index + 1}. {slot.type === 'pin' ? t('dashboard.pinRules.fixed') : t('dashboard.pinRules.rule')}
+                  </span>
+                  {slot.type === 'pin' && (
+                    <select
+                      value={slot.repo}
+                      onChange={(e) => updateSlot(index, { type: 'pin', repo: e.target.value })}
+                      className="px-2 py-1 text-sm bg-background border border-border rounded-lg"
+                    >
+                      {!repos.some((repo) => repo.fullName === slot.repo) && (
+                        <option value={slot.repo}>{slot.repo}</option>
+                      )}
+                      {repos.map((repo) => (
+                        <option key={repo.id} value={repo.fullName}>{repo.fullName}</option>
+                      ))}
+                    </select>
+                  )}
+                  <div className="ml-auto flex gap-1">
+                    <button
+                      onClick={() => moveSlot(index, -1)}
+                      disabled={index === 0}
+                      aria-label={t('dashboard.pinRules.moveUp')}
+                      className="px-2 py-1 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveSlot(index, 1)}
+                      disabled={index === rules.length - 1}
+                      aria-label={t('dashboard.pinRules.moveDown')}
+                      className="px-2 py-1 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                      className="px-2 py-1 text-xs text-muted-foreground border border-border rounded-lg hover:bg-muted transition-colors"
+                    >
+                      {t('dashboard.pinRules.remove')}
+                    </button>
+                  </div>
+                </div>
+
+                {slot.type === 'rule' && (
+                  <div className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-4">
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.label')}
+                      <input
+                        type="text"
+                        value={slot.label ?? ''}
+                        maxLength={100}
+                        onChange={(e) => updateSlot(index, { ...slot, label: e.target.value || undefined })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.count')}
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_RULE_COUNT}
+                        value={slot.count}
+                        onChange={(e) => updateSlot(index, {
+                          ...slot,
+                          count: Math.min(Math.max(1, Number(e.target.value) || 1), MAX_RULE_COUNT),
+                        })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.sortBy')}
+                      <select
+                        value={slot.sortBy}
+                        onChange={(e) => updateSlot(index, { ...slot, sortBy: e.target.value as PinRuleSort })}
+                        className={inputClass}
+                      >
+                        {SORT_OPTIONS.map((option) => (
+                          <option key={option} value={option}>{t(`dashboard.pinRules.sort.${option}`)}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.language')}
+                      <input
+                        type="text"
+                        value={slot.filter.language ?? ''}
+                        onChange={(e) => updateFilter(index, { language: e.target.value || undefined })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.minStars')}
+                      <input
+                        type="number"
+                        min={0}
+                        value={slot.filter.minStars ?? ''}
+                        onChange={(e) => updateFilter(index, { minStars: Number(e.target.value) || undefined })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.minForks')}
+                      <input
+                        type="number"
+                        min={0}
+                        value={slot.filter.minForks ?? ''}
+                        onChange={(e) => updateFilter(index, { minForks: Number(e.target.value) || undefined })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.owner')}
+                      <input
+                        type="text"
+                        value={slot.filter.owner ?? ''}
+                        onChange={(e) => updateFilter(index, { owner: e.target.value || undefined })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.namePattern')}
+                      <input
+                        type="text"
+                        value={slot.filter.namePattern ?? ''}
+                        placeholder="gitpins-*"
+                        onChange={(e) => updateFilter(index, { namePattern: e.target.value || undefined })}
+                        className={`${inputClass} font-mono`}
+                      />
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.topic')}
+                      <input
+                        type="text"
+                        value={slot.filter.topic ?? ''}
+                        onChange={(e) => updateFilter(index, { topic: e.target.value.toLowerCase() || undefined })}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.ownerType')}
+                      <select
+                        value={toChoice(slot.filter.isOrg)}
+                        onChange={(e) => updateFilter(index, { isOrg: fromChoice(e.target.value) })}
+                        className={inputClass}
+                      >
+                        <option value="">{t('dashboard.pinRules.any')}</option>
+                        <option value="false">{t('dashboard.pinRules.personal')}</option>
+                        <option value="true">{t('dashboard.pinRules.organization')}</option>
+                      </select>
+                    </label>
+                    <label className="text-xs text-muted-foreground">
+                      {t('dashboard.pinRules.visibility')}
+                      <select
+                        value={toChoice(slot.filter.isPrivate)}
+                        onChange={(e) => updateFilter(index, { isPrivate: fromChoice(e.target.value) })}
+                        className={inputClass}
+                      >
+                        <option value="">{t('dashboard.pinRules.any')}</option>
+                        <option value="false">{t('dashboard.pinRules.public')}</option>
+                        <option value="true">{t('dashboard.pinRules.private')}</option>
+                      </select>
+                    </label>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <div className="mb-4 flex gap-2">
+            <button
+              onClick={() => addSlot('pin')}
+              disabled={rules.length >= MAX_PIN_SLOTS}
+              className="px-3 py-1.5 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+            >
+              {t('dashboard.pinRules.addPin')}
+            </button>
+            <button
+              onClick={() => addSlot('rule')}
+              disabled={rules.length >= MAX_PIN_SLOTS}
+              className="px-3 py-1.5 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+            >
+              {t('dashboard.pinRules.addRule')}
+            </button>
+          </div>
+
+          <h3 className="mb-1 text-xs font-semibold">{t('dashboard.pinRules.preview')}</h3>
+          {preview.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('dashboard.pinRules.previewEmpty')}</p>
+          ) : (
+            <ol className="space-y-1 text-sm">
+              {preview.map((pin, position) => (
+                <li key={pin.repo} className="flex items-center gap-2">
+                  <span className="w-5 text-xs text-muted-foreground">{position + 1}</span>
+                  <span className="font-mono truncate">{pin.repo}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">{describeSource(pin.slot)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,153 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Profile Switcher Component
+ * Selects which account the dashboard edits: the personal account or one of
+ * the organization profiles. Organizations the user administers (with the
+ * GitHub App installed) can be added from the same list.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTranslation } from '@/i18n'
+import type { ProfilesResponse } from '@/types'
+
+// Prefijo de las opciones que crean un perfil nuevo
+const ADD_PREFIX = 'add:'
+
+interface ProfileSwitcherProps {
+  username: string
+  /** Selected organization, null for the personal profile */
+  activeOrg: string | null
+  onSelect: (org: string | null) => void
+  ensureCsrfToken: () => Promise<string | null>
+}
+
+export function ProfileSwitcher({ username, activeOrg, onSelect, ensureCsrfToken }: ProfileSwitcherProps) {
+  const { t } = useTranslation()
+  const [data, setData] = useState<ProfilesResponse | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  async function loadProfiles() {
+    try {
+      const response = await fetch('/api/profiles', { cache: 'no-store' })
+      if (response.ok) {
+        setData(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching profiles:', error)
+    }
+  }
+
+  useEffect(() => {
+    void loadProfiles()
+  }, [])
+
+  async function addProfile(org: string) {
+    setBusy(true)
+    try {
+      const token = await ensureCsrfToken()
+      if (!token) return
+
+      const response = await fetch('/api/profiles', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': token,
+        },
+        body: JSON.stringify({ org }),
+      })
+      if (response.ok) {
+        // La respuesta trae la clave del perfil (login en minúsculas)
+        const created = await response.json()
+        await loadProfiles()
+        onSelect(typeof created.org === 'string' ? created.org : org)
+      }
+    } catch (error) {
+      console.error('Error creating profile:', error)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function removeProfile() {
+    if (!activeOrg || !window.confirm(t('dashboard.profiles.removeConfirm', { org: activeOrg }))) return
+
+    setBusy(true)
+    try {
+      const token = await ensureCsrfToken()
+      if (!token) return
+
+      const response = await fetch(`/api/profiles?org=${encodeURIComponent(activeOrg)}`, {
+        method: 'DELETE',
+        headers: { 'X-CSRF-Token': token },
+      })
+      if (response.ok) {
+        await loadProfiles()
+        onSelect(null)
+      }
+    } catch (error) {
+      console.error('Error deleting profile:', error)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function handleChange(value: string) {
+    if (value.startsWith(ADD_PREFIX)) {
+      void addProfile(value.slice(ADD_PREFIX.length))
+    } else {
+      onSelect(value || null)
+    }
+  }
+
+  // Sin organizaciones no hay nada que elegir
+  if (!data || (data.profiles.length === 0 && data.availableOrgs.length === 0)) return null
+
+  const activeProfile = data.profiles.find((profile) => profile.org === activeOrg)
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2">
+      <label htmlFor="profile-switcher" className="text-sm text-muted-foreground">
+        {t('dashboard.profiles.label')}
+      </label>
+      <select
+        id="profile-switcher"
+        value={activeOrg ?? ''}
+        disabled={busy}
+        onChange={(e) => handleChange(e.target.value)}
+        className="px-3 py-2 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-foreground/20"
+      >
+        <option value="">{t('dashboard.profiles.personal', { username })}</option>
+        {data.profiles.map((profile) => (
+          <option key={profile.org} value={profile.org}>
+            {profile.installed ? profile.org : t('dashboard.profiles.notInstalled', { org: profile.org })}
+          </option>
+        ))}
+        {data.availableOrgs.length > 0 && (
+          <optgroup label={t('dashboard.profiles.addGroup')}>
+            {data.availableOrgs.map((entry) => (
+              <option key={entry.org} value={`${ADD_PREFIX}${entry.org}`}>
+                {t('dashboard.profiles.add', { org: entry.org })}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      {activeProfile && (
+        <button
+          onClick={removeProfile}
+          disabled={busy}
+          className="px-3 py-2 text-sm text-muted-foreground border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+        >
+          {t('dashboard.profiles.remove')}
+        </button>
+      )}
+    </div>
+  )
+}
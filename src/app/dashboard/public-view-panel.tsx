@@ -0,0 +1,144 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Public View Panel Component
+ * Shows the profile's repositories tab as a logged-out visitor sees it next
+ * to the desired list, highlighting positions that do not match and the
+ * repos a sync would need to touch. The listing is fetched on demand.
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Card } from '@/components/ui'
+import { LoaderIcon } from '@/components/icons'
+import { useTranslation } from '@/i18n'
+import { comparePublicView } from '@/lib/sync/planner'
+
+interface PublicViewPanelProps {
+  org: string | null
+  /** Pinned list as the sync resolves it (rules applied) */
+  desiredTop: string[]
+}
+
+interface PublicView {
+  account: string
+  visitorOrder: string[]
+  complete: boolean
+  fetchedAt: string
+}
+
+export function PublicViewPanel({ org, desiredTop }: PublicViewPanelProps) {
+  const { t } = useTranslation()
+  const [view, setView] = useState<PublicView | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const comparison = useMemo(
+    () => (view ? comparePublicView(view.visitorOrder, desiredTop, view.complete) : null),
+    [view, desiredTop]
+  )
+
+  async function handleCheck() {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      if (org) params.set('org', org)
+      if (desiredTop.length > 0) params.set('repos', desiredTop.join(','))
+      const query = params.toString() ? `?${params}` : ''
+      const response = await fetch(`/api/public-view${query}`, { cache: 'no-store' })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(typeof data.error === 'string' ? data.error : t('dashboard.publicView.error'))
+        return
+      }
+      setView(data)
+    } catch (err) {
+      console.error('Error fetching public view:', err)
+      setError(t('dashboard.publicView.error'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card className="mb-6 p-4">
+      <div className="mb-3 flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h2 className="text-sm font-semibold">{t('dashboard.publicView.title')}</h2>
+          <p className="text-xs text-muted-foreground">{t('dashboard.publicView.desc')}</p>
+        </div>
+        <button
+          onClick={handleCheck}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-1.5 text-xs border border-border rounded-lg hover:bg-muted disabled:opacity-50 transition-colors"
+        >
+          {loading && <LoaderIcon className="w-3 h-3 animate-spin" />}
+          {view ? t('dashboard.publicView.refresh') : t('dashboard.publicView.check')}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {view && comparison && (
+        <>
+          <p className={`mb-3 text-sm ${comparison.inOrder ? 'text-green-600' : 'text-yellow-600'}`}>
+            {comparison.inOrder
+              ? t('dashboard.publicView.inOrder')
+              : t('dashboard.publicView.outOfOrder', { count: comparison.reposToTouch.length })}
+          </p>
+
+          {comparison.rows.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('dashboard.publicView.empty')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="w-8 py-1 font-medium">#</th>
+                  <th className="py-1 font-medium">{t('dashboard.publicView.visitorColumn', { account: view.account })}</th>
+                  <th className="py-1 font-medium">{t('dashboard.publicView.desiredColumn')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.rows.map((row) => (
+                  <tr key={row.position} className={row.matches ? '' : 'bg-yellow-500/10'}>
+                    <td className="py-1 text-xs text-muted-foreground">{row.position}</td>
+                    <td className="py-1 pr-2 font-mono truncate">{row.visitor ?? '—'}</td>
+                    <td className="py-1 font-mono truncate">{row.desired ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {comparison.reposToTouch.length > 0 && (
+            <div className="mt-3">
+              <h3 className="text-xs font-semibold">{t('dashboard.publicView.toTouch')}</h3>
+              <p className="text-xs font-mono text-muted-foreground">{comparison.reposToTouch.join(', ')}</p>
+            </div>
+          )}
+
+          {comparison.hidden.length > 0 && (
+            <div className="mt-3">
+              <h3 className="text-xs font-semibold">{t('dashboard.publicView.hidden')}</h3>
+              <p className="text-xs font-mono text-muted-foreground">{comparison.hidden.join(', ')}</p>
+            </div>
+          )}
+
+          {comparison.unchecked.length > 0 && (
+            <p className="mt-3 text-xs text-yellow-600">{t('dashboard.publicView.stale')}</p>
+          )}
+
+          <p className="mt-3 text-xs text-muted-foreground">
+            {t('dashboard.publicView.fetchedAt', { date: new Date(view.fetchedAt).toLocaleString() })}
+          </p>
+        </>
+      )}
+    </Card>
+  )
+}
@@ -9,8 +9,8 @@
  * Modal dialog for configuring repository ordering settings:
  * - Number of repos to pin (topN)
  * - Include/exclude private repos
- * - External scheduler guidance and preferred UTC hour
- * - Fixed commit strategy (temporary ref touch)
+ * - Sync frequency (built-in scheduler) or external scheduler guidance, and preferred UTC hour
+ * - Default touch strategy (per-repo overrides live in the pinned list)
  * - Auto-sync toggle
  * - Config repo visibility
  */
@@ -21,7 +21,14 @@ import { useMemo, useState, useEffect } from 'react'
 import { XIcon } from '@/components/icons'
 import { Button } from '@/components/ui'
 import { useTranslation } from '@/i18n'
-import type { RepoOrderSettings } from '@/types'
+import type { CommitStrategy, RepoOrderSettings } from '@/types'
+import { ApiTokensSettings } from './api-tokens-settings'
+
+/** Frequencies accepted by POST /api/repos/order (hours) */
+const SYNC_FREQUENCY_OPTIONS = [1, 2, 4, 6, 8, 12, 24, 48, 168, 360, 720]
+
+/** Touch strategies accepted by POST /api/repos/order */
+export const COMMIT_STRATEGY_OPTIONS: CommitStrategy[] = ['revert', 'branch', 'annotated_tag', 'metadata']
 
 /** Props for the SettingsModal component */
 interface SettingsModalProps {
@@ -374,18 +381,40 @@ export function SettingsModal({
             description={t('settings.sections.sync.desc')}
           >
             <div data-onboarding="settings-frequency">
-              <div className="rounded-lg border border-border bg-background p-4">
-                <div className="text-sm font-medium">{t('settings.syncFrequency.externalTitle')}</div>
-                <p className="mt-1 text-xs text-muted-foreground">
-                  {t('settings.syncFrequency.externalDesc')}
-                </p>
-                <a
-                  href="/help#sync"
-                  className="mt-2 inline-block text-xs underline text-muted-foreground hover:text-foreground"
-                >
-                  {t('settings.syncFrequency.help')}
-                </a>
-              </div>
+              {settings.builtInScheduler ? (
+                <div className="rounded-lg border border-border bg-background p-4">
+                  <label className="block text-sm font-medium mb-2">
+                    {t('settings.syncFrequency.label')}
+                  </label>
+                  <select
+                    value={settings.syncFrequency}
+                    onChange={(e) => onChange({ syncFrequency: parseInt(e.target.value) })}
+                    className="w-full h-9 px-3 rounded-lg border border-border bg-background text-sm focus:outline-none focus:ring-2 focus:ring-foreground"
+                  >
+                    {SYNC_FREQUENCY_OPTIONS.map((hours) => (
+                      <option key={hours} value={hours}>
+                        {t(`settings.syncFrequency.options.${hours}`)}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {t('settings.syncFrequency.builtInHint')}
+                  </p>
+                </div>
+              ) : (
+                <div className="rounded-lg border border-border bg-background p-4">
+                  <div className="text-sm font-medium">{t('settings.syncFrequency.externalTitle')}</div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {t('settings.syncFrequency.externalDesc')}
+                  </p>
+                  <a
+                    href="/help#sync"
+                    className="mt-2 inline-block text-xs underline text-muted-foreground hover:text-foreground"
+                  >
+                    {t('settings.syncFrequency.help')}
+                  </a>
+                </div>
+              )}
             </div>
 
             <div className="rounded-lg border border-border bg-background p-4" data-onboarding="settings-schedule">
@@ -416,19 +445,79 @@ export function SettingsModal({
               <div className="block text-sm font-medium mb-2">
                 {t('settings.commitStrategy.label')}
               </div>
-              <div className="p-3 rounded-lg border border-border bg-background">
-                <div className="font-medium text-sm">{t('settings.commitStrategy.revert.title')}</div>
-                <div className="text-xs text-muted-foreground mt-1">
-                  {t('settings.commitStrategy.revert.desc')}
+              <div className="space-y-2">
+                {COMMIT_STRATEGY_OPTIONS.map((strategy) => (
+                  <button
+                    key={strategy}
+                    type="button"
+                    onClick={() => onChange({ commitStrategy: strategy })}
+                    className={`w-full text-left p-3 rounded-lg border bg-background transition-colors ${
+                      settings.commitStrategy === strategy
+                        ? 'border-foreground'
+                        : 'border-border hover:border-muted-foreground'
+                    }`}
+                  >
+                    <div className="font-medium text-sm">{t(`settings.commitStrategy.${strategy}.title`)}</div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {t(`settings.commitStrategy.${strategy}.desc`)}
+                    </div>
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                {t('settings.commitStrategy.perRepoHint')}
+              </p>
+              <button
+                type="button"
+                onClick={() => setShowStrategyInfo(true)}
+                className="mt-2 text-xs underline text-muted-foreground hover:text-foreground"
+              >
+                {t('settings.commitStrategy.learnMore')}
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium text-sm">{t('settings.verifyAfterSync.label')}</div>
+                <div className="text-xs text-muted-foreground">
+                  {t('settings.verifyAfterSync.desc')}
+                </div>
+              </div>
+              <button
+                onClick={() => onChange({ verifyAfterSync: !settings.verifyAfterSync })}
+                className={`w-12 h-6 rounded-full transition-colors ${
+                  settings.verifyAfterSync ? 'bg-foreground' : 'bg-muted'
+                }`}
+                aria-label={t('settings.verifyAfterSync.label')}
+              >
+                <div
+                  className={`w-5 h-5 rounded-full bg-background shadow transition-transform ${
+                    settings.verifyAfterSync ? 'translate-x-6' : 'translate-x-0.5'
+                  }`}
+                />
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium text-sm">{t('settings.driftEarlySync.label')}</div>
+                <div className="text-xs text-muted-foreground">
+                  {t('settings.driftEarlySync.desc')}
                 </div>
-                <button
-                  type="button"
-                  onClick={() => setShowStrategyInfo(true)}
-                  className="mt-2 text-xs underline text-muted-foreground hover:text-foreground"
-                >
-                  {t('settings.commitStrategy.learnMore')}
-                </button>
               </div>
+              <button
+                onClick={() => onChange({ driftEarlySync: !settings.driftEarlySync })}
+                className={`w-12 h-6 rounded-full transition-colors ${
+                  settings.driftEarlySync ? 'bg-foreground' : 'bg-muted'
+                }`}
+                aria-label={t('settings.driftEarlySync.label')}
+              >
+                <div
+                  className={`w-5 h-5 rounded-full bg-background shadow transition-transform ${
+                    settings.driftEarlySync ? 'translate-x-6' : 'translate-x-0.5'
+                  }`}
+                />
+              </button>
             </div>
 
             <div className="flex items-center justify-between" data-onboarding="settings-auto">
@@ -454,6 +543,13 @@ export function SettingsModal({
             </div>
           </SettingsSection>
 
+          <SettingsSection
+            title={t('settings.sections.apiTokens.title')}
+            description={t('settings.sections.apiTokens.desc')}
+          >
+            <ApiTokensSettings ensureCsrfToken={ensureCsrfToken} />
+          </SettingsSection>
+
           <SettingsSection
             title={t('settings.sections.privacy.title')}
             description={t('settings.sections.privacy.desc')}
@@ -562,6 +658,18 @@ export function SettingsModal({
                 </div>
               </div>
 
+              <div>
+                <h4 className="font-semibold mb-2">{t('strategyInfo.alternativesTitle')}</h4>
+                <div className="space-y-2">
+                  {COMMIT_STRATEGY_OPTIONS.filter((strategy) => strategy !== 'revert').map((strategy) => (
+                    <div key={strategy} className="text-sm">
+                      <span className="font-medium">{t(`settings.commitStrategy.${strategy}.title`)}:</span>{' '}
+                      <span className="text-muted-foreground">{t(`settings.commitStrategy.${strategy}.desc`)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <div className="bg-muted/50 rounded-lg p-3 text-sm text-muted-foreground">
                 <strong>{t('strategyInfo.noteLabel')}:</strong> {t('strategyInfo.note')}
               </div>
@@ -8,6 +8,8 @@
  * Sortable Repo Item Component
  * Draggable repository item used in both the pinned and pool zones.
  * Displays repo name, description, language, stars, and forks.
+ * Pinned items can override the default touch strategy and show sync failures
+ * or quarantine with a retry action.
  */
 
 'use client'
@@ -16,7 +18,10 @@ import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { GripVerticalIcon, StarIcon, ForkIcon } from '@/components/icons'
 import { useTranslation } from '@/i18n'
-import type { Repo } from '@/types'
+import { isSyncErrorCategory } from '@/lib/sync/errors'
+import { REPO_QUARANTINE_THRESHOLD } from '@/lib/sync/health'
+import type { CommitStrategy, Repo, RepoHealthInfo } from '@/types'
+import { COMMIT_STRATEGY_OPTIONS } from './settings-modal'
 
 /** Props for the SortableRepoItem component */
 interface SortableRepoItemProps {
@@ -24,6 +29,13 @@ interface SortableRepoItemProps {
   index: number
   isTop: boolean
   onRemove?: () => void
+  /** Per-repo override; undefined means the default strategy applies */
+  strategy?: CommitStrategy
+  defaultStrategy?: CommitStrategy
+  onStrategyChange?: (strategy: CommitStrategy | null) => void
+  /** Touch failures of this repo, if any */
+  health?: RepoHealthInfo
+  onRetry?: () => void
 }
 
 /**
@@ -31,8 +43,21 @@ interface SortableRepoItemProps {
  * Displays a single repo with drag handle and metadata.
  * Uses dnd-kit's useSortable hook for drag-and-drop functionality.
  */
-export function SortableRepoItem({ repo, index, isTop, onRemove }: SortableRepoItemProps) {
+export function SortableRepoItem({
+  repo,
+  index,
+  isTop,
+  onRemove,
+  strategy,
+  defaultStrategy = 'revert',
+  onStrategyChange,
+  health,
+  onRetry,
+}: SortableRepoItemProps) {
   const { t } = useTranslation()
+  const healthReason = health
+    ? t(`syncErrors.${isSyncErrorCategory(health.lastErrorCategory) ? health.lastErrorCategory : 'unknown'}.explanation`)
+    : ''
   const {
     attributes,
     listeners,
@@ -92,6 +117,37 @@ export function SortableRepoItem({ repo, index, isTop, onRemove }: SortableRepoI
               {t('common.private')}
             </span>
           )}
+          {isTop && health?.quarantinedAt && (
+            <span
+              className="text-xs px-2 py-0.5 bg-yellow-500/10 text-yellow-700 rounded-full shrink-0"
+              title={t('dashboard.pinnedRepos.health.quarantinedTitle', {
+                count: health.consecutiveFailures,
+                reason: healthReason,
+              })}
+            >
+              {t('dashboard.pinnedRepos.health.quarantined')}
+            </span>
+          )}
+          {isTop && health && !health.quarantinedAt && health.consecutiveFailures > 0 && (
+            <span
+              className="text-xs px-2 py-0.5 bg-muted rounded-full text-muted-foreground shrink-0"
+              title={t('dashboard.pinnedRepos.health.failingTitle', {
+                reason: healthReason,
+                threshold: REPO_QUARANTINE_THRESHOLD,
+              })}
+            >
+              {t('dashboard.pinnedRepos.health.failing', { count: health.consecutiveFailures })}
+            </span>
+          )}
+          {isTop && health?.quarantinedAt && onRetry && (
+            <button
+              type="button"
+              onClick={onRetry}
+              className="text-xs underline text-muted-foreground hover:text-foreground shrink-0"
+            >
+              {t('dashboard.pinnedRepos.health.retry')}
+            </button>
+          )}
         </div>
         {repo.description && (
           <p className="text-sm text-muted-foreground truncate mt-0.5">
@@ -115,6 +171,28 @@ export function SortableRepoItem({ repo, index, isTop, onRemove }: SortableRepoI
         </span>
       </div>
 
+      {/* Touch strategy override - only shown when in top zone */}
+      {isTop && onStrategyChange && (
+        <select
+          value={strategy ?? ''}
+          onChange={(e) => onStrategyChange(e.target.value === '' ? null : e.target.value as CommitStrategy)}
+          className="hidden md:block h-8 px-2 rounded-md border border-border bg-background text-xs text-muted-foreground focus:outline-none focus:ring-2 focus:ring-foreground shrink-0"
+          title={t('dashboard.pinnedRepos.strategy.label')}
+          aria-label={t('dashboard.pinnedRepos.strategy.label')}
+        >
+          <option value="">
+            {t('dashboard.pinnedRepos.strategy.inherit', {
+              strategy: t(`settings.commitStrategy.${defaultStrategy}.title`),
+            })}
+          </option>
+          {COMMIT_STRATEGY_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {t(`settings.commitStrategy.${option}.title`)}
+            </option>
+          ))}
+        </select>
+      )}
+
       {/* Remove button - only shown when in top zone */}
       {isTop && onRemove && (
         <button
@@ -25,6 +25,8 @@ import {
   XIcon,
 } from '@/components/icons'
 import { useTranslation } from '@/i18n'
+import { isSyncErrorCategory } from '@/lib/sync/errors'
+import type { OrphanedPin, ResolvedPin } from '@/types'
 
 /** Unified activity entry from API */
 interface ActivityEntry {
@@ -35,10 +37,28 @@ interface ActivityEntry {
   repos: string[]
   topN?: number
   details?: {
-    results?: Array<{ repo: string; status: string; error?: string }>
+    results?: Array<{ repo: string; status: string; error?: string; errorCategory?: string; errorStatus?: number }>
     logs?: string[]
     summary?: { total: number; successful: number; failed: number; cleaned: number }
     reason?: string
+    verification?: { status: 'verified' | 'drifted'; retried: boolean; observedTop: string[] }
+    quarantined?: string[]
+    orphaned?: OrphanedPin[]
+    newlyQuarantined?: string[]
+    deferred?: { repos: string[]; resumeAt?: string }
+    profile?: string
+    trigger?: 'date' | 'cron'
+    scheduledAt?: string
+    org?: string
+    pinSlots?: ResolvedPin[]
+    from?: string
+    to?: string
+    currentTop?: string[]
+    earlySync?: boolean
+    configRepo?: string
+    path?: string
+    sha?: string
+    configErrors?: Array<{ path: string; message: string }>
   }
   createdAt: string
   canRestore: boolean
@@ -77,6 +97,19 @@ function getActionLabel(action: string, t: (key: string) => string): string {
     manual_sync: t('activity.actions.manualSync'),
     manual_order: t('activity.actions.manualOrder'),
     restore_order: t('activity.actions.restoreOrder'),
+    webhook_installation_removed: t('activity.actions.webhookInstallationRemoved'),
+    webhook_repos_removed: t('activity.actions.webhookReposRemoved'),
+    webhook_repo_renamed: t('activity.actions.webhookRepoRenamed'),
+    repo_quarantine_released: t('activity.actions.repoQuarantineReleased'),
+    org_profile_created: t('activity.actions.orgProfileCreated'),
+    org_profile_deleted: t('activity.actions.orgProfileDeleted'),
+    org_access_revoked: t('activity.actions.orgAccessRevoked'),
+    profile_activated: t('activity.actions.profileActivated'),
+    profile_rotated: t('activity.actions.profileRotated'),
+    repo_renamed: t('activity.actions.repoRenamed'),
+    drift_detected: t('activity.actions.driftDetected'),
+    config_imported: t('activity.actions.configImported'),
+    config_invalid: t('activity.actions.configInvalid'),
   }
   return labels[action] || action
 }
@@ -406,11 +439,103 @@ export function ActivityHistory({ onRestore }: ActivityHistoryProps) {
                             Cleaned: {entry.details.summary.cleaned}
                           </div>
                         )}
+                        {entry.details.profile && (
+                          <div className="mb-2 text-muted-foreground">
+                            Profile: {entry.details.profile}
+                            {entry.details.org && ` (${entry.details.org})`}
+                            {entry.details.scheduledAt && ` · scheduled (${entry.details.trigger}) ${new Date(entry.details.scheduledAt).toLocaleString()}`}
+                          </div>
+                        )}
+                        {entry.details.from && entry.details.to && (
+                          <div className="mb-2 text-muted-foreground">
+                            Renamed: {entry.details.from} → {entry.details.to}
+                          </div>
+                        )}
+                        {entry.details.configRepo && (
+                          <div className="mb-2 text-muted-foreground">
+                            Config: {entry.details.configRepo}
+                            {entry.details.path && ` · ${entry.details.path}`}
+                            {entry.details.sha && ` @ ${entry.details.sha.slice(0, 7)}`}
+                          </div>
+                        )}
+                        {entry.details.configErrors && entry.details.configErrors.length > 0 && (
+                          <div className="mb-2 text-red-600">
+                            {entry.details.configErrors.map((issue, i) => (
+                              <div key={`${issue.path}-${i}`}>{issue.path}: {issue.message}</div>
+                            ))}
+                          </div>
+                        )}
+                        {entry.details.currentTop && (
+                          <div className="mb-2 text-muted-foreground">
+                            Live top: {entry.details.currentTop.join(', ')}
+                            {entry.details.earlySync && ' · early sync started'}
+                          </div>
+                        )}
                         {entry.details.reason && (
                           <div className="text-yellow-600 mb-2">
                             Reason: {entry.details.reason}
                           </div>
                         )}
+                        {entry.details.verification && (
+                          <div className={`mb-2 ${entry.details.verification.status === 'verified' ? 'text-green-600' : 'text-yellow-600'}`}>
+                            Verification: {entry.details.verification.status}
+                            {entry.details.verification.retried && ' (after retry)'}
+                          </div>
+                        )}
+                        {entry.details.results?.some((r) => r.status === 'error') && (
+                          <div className="mb-2 space-y-2 font-sans">
+                            <div className="font-medium">{t('activity.failedRepos')}</div>
+                            {entry.details.results.filter((r) => r.status === 'error').map((r, i) => {
+                              const category = isSyncErrorCategory(r.errorCategory) ? r.errorCategory : 'unknown'
+                              return (
+                                <div key={`${r.repo}-${i}`} className="rounded border border-red-500/20 bg-red-500/5 p-2">
+                                  <div>
+                                    <span className="font-mono">{r.repo}</span>
+                                    {' · '}
+                                    <span className="text-red-600">{t(`syncErrors.${category}.title`)}</span>
+                                    {r.errorStatus && <span className="text-muted-foreground"> (HTTP {r.errorStatus})</span>}
+                                  </div>
+                                  <div className="text-muted-foreground mt-0.5">{t(`syncErrors.${category}.explanation`)}</div>
+                                  <div className="mt-0.5">
+                                    <span className="font-medium">{t('activity.remediation')}:</span>{' '}
+                                    {t(`syncErrors.${category}.remediation`)}
+                                  </div>
+                                </div>
+                              )
+                            })}
+                          </div>
+                        )}
+                        {entry.details.newlyQuarantined && entry.details.newlyQuarantined.length > 0 && (
+                          <div className="text-yellow-600 mb-2">
+                            Quarantined: {entry.details.newlyQuarantined.join(', ')}
+                          </div>
+                        )}
+                        {entry.details.deferred && (
+                          <div className="text-yellow-600 mb-2">
+                            Deferred (GitHub rate limit): {entry.details.deferred.repos.join(', ')}
+                            {entry.details.deferred.resumeAt && ` · resumes ${new Date(entry.details.deferred.resumeAt).toLocaleString()}`}
+                          </div>
+                        )}
+                        {entry.details.quarantined && entry.details.quarantined.length > 0 && (
+                          <div className="mb-2 text-muted-foreground">
+                            Skipped (quarantine): {entry.details.quarantined.join(', ')}
+                          </div>
+                        )}
+                        {entry.details.orphaned && entry.details.orphaned.length > 0 && (
+                          <div className="mb-2 text-muted-foreground">
+                            Skipped (not in repository list): {entry.details.orphaned.map((orphan) => `${orphan.repo} (${orphan.reason})`).join(', ')}
+                          </div>
+                        )}
+                        {entry.details.pinSlots && entry.details.pinSlots.length > 0 && (
+                          <div className="mb-2 text-muted-foreground">
+                            <div>Pin rules:</div>
+                            {entry.details.pinSlots.map((pin) => (
+                              <div key={pin.repo}>
+                                {pin.repo} ← slot {pin.slot + 1} ({pin.source === 'pin' ? 'fixed' : pin.label ?? 'rule'})
+                              </div>
+                            ))}
+                          </div>
+                        )}
                         {entry.details.logs && (
                           <div className="space-y-0.5 max-h-48 overflow-y-auto">
                             {entry.details.logs.slice(0, 50).map((log, i) => (
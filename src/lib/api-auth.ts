@@ -0,0 +1,142 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API Auth Module
+ * Shared guard for the routes that accept personal API tokens
+ * (docs/API.md, "Personal API tokens"). Requests with an
+ * `Authorization: Bearer` header are authenticated by the token alone: the
+ * header is never sent automatically by browsers, so origin and CSRF checks
+ * do not apply, and each token has its own rate limit. Any other request
+ * goes through the usual session cookie, rate limit and (for mutations)
+ * origin + CSRF checks, also used alone by the session-only routes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { ApiTokenScope } from '../types'
+import { prisma } from './prisma'
+import { getSession, verifyCSRFToken, type Session } from './session'
+import { checkAPIRateLimit, checkApiTokenRateLimit, validateOrigin } from './security'
+import { hashApiToken, isApiTokenExpired, parseApiTokenScopes, parseBearerToken } from './api-tokens'
+
+// lastUsedAt se actualiza como mucho una vez por minuto y token
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+export interface AuthorizedRequest {
+  userId: string
+  /** Token used for the request, null for the browser session */
+  apiTokenId: string | null
+}
+
+function unauthorized(reason: string): { response: NextResponse } {
+  return {
+    response: NextResponse.json(
+      { error: 'Unauthorized', reason },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    ),
+  }
+}
+
+async function authorizeApiToken(
+  token: string,
+  scope: ApiTokenScope
+): Promise<AuthorizedRequest | { response: NextResponse }> {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    select: {
+      id: true,
+      userId: true,
+      scopes: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      user: { select: { isBanned: true } },
+    },
+  })
+  if (!apiToken || apiToken.user.isBanned) {
+    return unauthorized('invalid_token')
+  }
+
+  const now = new Date()
+  if (isApiTokenExpired(apiToken, now)) {
+    return unauthorized('token_expired')
+  }
+
+  const rateLimit = await checkApiTokenRateLimit(apiToken.id)
+  if (!rateLimit.allowed) {
+    return { response: rateLimit.response! }
+  }
+
+  if (!parseApiTokenScopes(apiToken.scopes).includes(scope)) {
+    return {
+      response: NextResponse.json({ error: 'Forbidden', reason: 'insufficient_scope', scope }, { status: 403 }),
+    }
+  }
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now },
+    }).catch(() => {})
+  }
+
+  return { userId: apiToken.userId, apiTokenId: apiToken.id }
+}
+
+/**
+ * Session, rate limit and (for mutations) origin + CSRF checks, for routes
+ * that never accept API tokens.
+ * @returns The session, or the error response to return
+ */
+export async function authorizeSessionRequest(
+  request: NextRequest,
+  options: { mutation: boolean }
+): Promise<{ session: Session } | { response: NextResponse }> {
+  if (options.mutation && !validateOrigin(request)) {
+    return { response: NextResponse.json({ error: 'Invalid request' }, { status: 403 }) }
+  }
+
+  const session = await getSession()
+  if (!session) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const rateLimit = await checkAPIRateLimit(request, session.userId)
+  if (!rateLimit.allowed) {
+    return { response: rateLimit.response! }
+  }
+
+  if (options.mutation) {
+    const csrfToken = request.headers.get('X-CSRF-Token')
+    if (!csrfToken || !(await verifyCSRFToken(csrfToken))) {
+      return { response: NextResponse.json({ error: 'Forbidden', reason: 'csrf_failed' }, { status: 403 }) }
+    }
+  }
+
+  return { session }
+}
+
+/**
+ * Authenticates a request with a personal API token or the session cookie.
+ * @param options.scope - Scope a token needs for this route
+ * @param options.mutation - Session requests also need a valid origin and CSRF token
+ * @returns The user, or the error response to return
+ */
+export async function authorizeUserRequest(
+  request: NextRequest,
+  options: { scope: ApiTokenScope; mutation: boolean }
+): Promise<AuthorizedRequest | { response: NextResponse }> {
+  const bearer = parseBearerToken(request.headers.get('Authorization'))
+  if (bearer === 'invalid') {
+    return unauthorized('invalid_token')
+  }
+  if (bearer) {
+    return authorizeApiToken(bearer, options.scope)
+  }
+
+  const auth = await authorizeSessionRequest(request, { mutation: options.mutation })
+  if ('response' in auth) return auth
+  return { userId: auth.session.userId, apiTokenId: null }
+}
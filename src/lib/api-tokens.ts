@@ -0,0 +1,92 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API Tokens Module
+ * Personal API tokens let scripts and CI call a documented set of routes with
+ * `Authorization: Bearer <token>` instead of the session cookie. Only the
+ * SHA-256 of a token is stored; tokens are random, so a plain hash is enough
+ * to look them up without keeping anything usable in the database.
+ * Pure module: the request guard lives in ./api-auth.
+ */
+
+import { createHash, randomBytes } from 'node:crypto'
+import type { ApiTokenScope } from '../types'
+
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = ['repos:read', 'order:write', 'activity:read', 'sync']
+
+export const MAX_API_TOKENS = 10
+export const DEFAULT_API_TOKEN_DAYS = 30
+export const MAX_API_TOKEN_DAYS = 365
+
+const TOKEN_PREFIX = 'gitpins_'
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 4
+const MAX_NAME_LENGTH = 60
+const TOKEN_REGEX = /^gitpins_[A-Za-z0-9_-]{43}$/
+
+/**
+ * Creates a new token.
+ * @returns The token (shown once), its hash and the prefix kept for display
+ */
+export function generateApiToken(): { token: string; tokenHash: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) }
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex')
+}
+
+/**
+ * Extracts a GitPins token from an Authorization header.
+ * @returns The token, null without a Bearer header, or 'invalid' when the value is not a GitPins token
+ */
+export function parseBearerToken(header: string | null): string | 'invalid' | null {
+  if (!header) return null
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header)
+  if (!match) return 'invalid'
+  return TOKEN_REGEX.test(match[1]) ? match[1] : 'invalid'
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return API_TOKEN_SCOPES.includes(value as ApiTokenScope)
+}
+
+/** Keeps known scopes, without duplicates. Non-arrays yield an empty list. */
+export function sanitizeApiTokenScopes(raw: unknown): ApiTokenScope[] {
+  if (!Array.isArray(raw)) return []
+  return API_TOKEN_SCOPES.filter((scope) => raw.includes(scope))
+}
+
+/** Parses the stored `scopes` column. */
+export function parseApiTokenScopes(raw: string): ApiTokenScope[] {
+  try {
+    return sanitizeApiTokenScopes(JSON.parse(raw))
+  } catch {
+    return []
+  }
+}
+
+export function parseApiTokenName(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null
+  const name = raw.trim()
+  return name.length > 0 && name.length <= MAX_NAME_LENGTH ? name : null
+}
+
+/**
+ * Expiration date of a new token.
+ * @param raw - Days until it expires (1-365); undefined means the 30 day default
+ * @returns The expiration date, or null when the value is not acceptable
+ */
+export function parseApiTokenExpiry(raw: unknown, now: Date = new Date()): Date | null {
+  const days = raw === undefined ? DEFAULT_API_TOKEN_DAYS : raw
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_API_TOKEN_DAYS) return null
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+export function isApiTokenExpired(token: { expiresAt: Date }, now: Date = new Date()): boolean {
+  return token.expiresAt.getTime() <= now.getTime()
+}
@@ -0,0 +1,64 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 Envelopes
+ * Response bodies shared by every `/api/v1` route: `{ data }` on success,
+ * `{ data, pagination }` for lists and `{ error: { code, message, details? } }`
+ * on failure. Also maps the errors of the shared auth guard to v1 codes.
+ */
+
+import type { z } from 'zod'
+import type { ApiV1Error, ApiV1Pagination } from '../../types/api-v1'
+
+export type ApiV1ErrorDetail = NonNullable<ApiV1Error['error']['details']>[number]
+
+export function errorBody(code: string, message: string, details?: ApiV1ErrorDetail[]): ApiV1Error {
+  return { error: details && details.length > 0 ? { code, message, details } : { code, message } }
+}
+
+/**
+ * Flattens zod issues to `{ path, message }` pairs (`pinned.2`, `topN`).
+ * Issues on the root object use the path `(root)`.
+ */
+export function issuesToDetails(error: z.ZodError): ApiV1ErrorDetail[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.map(String).join('.') : '(root)',
+    message: issue.message,
+  }))
+}
+
+export function paginationFor(limit: number, offset: number, total: number): ApiV1Pagination {
+  return {
+    limit,
+    offset,
+    total,
+    nextOffset: offset + limit < total ? offset + limit : null,
+  }
+}
+
+/**
+ * Translates an error of the shared guard (src/lib/api-auth.ts) to a v1 error.
+ * @param status - Status of the guard's response
+ * @param body - Its `{ error, reason? }` body
+ */
+export function authErrorBody(status: number, body: { error?: unknown; reason?: unknown; scope?: unknown }): ApiV1Error {
+  const reason = typeof body.reason === 'string' ? body.reason : null
+
+  if (status === 401) {
+    return errorBody(reason ?? 'unauthorized', reason === 'token_expired' ? 'Token expired' : 'Unauthorized')
+  }
+  if (status === 429) {
+    return errorBody('rate_limited', 'Too many requests')
+  }
+  if (reason === 'insufficient_scope') {
+    return errorBody('insufficient_scope', `Token lacks the ${String(body.scope)} scope`)
+  }
+  if (reason) {
+    return errorBody(reason, 'Forbidden')
+  }
+  return errorBody(status === 403 ? 'invalid_origin' : 'invalid_request', 'Invalid request')
+}
@@ -0,0 +1,105 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 HTTP Helpers
+ * Authentication, validation and responses for the `/api/v1` routes. Every
+ * response carries the security headers and `Cache-Control: no-store`;
+ * errors use the v1 envelope (./envelope).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { z } from 'zod'
+import type { ApiTokenScope } from '../../types'
+import type { ApiV1Pagination } from '../../types/api-v1'
+import { authorizeUserRequest, type AuthorizedRequest } from '../api-auth'
+import { addNoStoreHeaders, addSecurityHeaders } from '../security'
+import { authErrorBody, errorBody, issuesToDetails, type ApiV1ErrorDetail } from './envelope'
+
+// Cabeceras de la respuesta del guard que se conservan al re-envolver el error
+const FORWARDED_AUTH_HEADERS = ['Retry-After', 'X-RateLimit-Remaining', 'X-RateLimit-Reset', 'WWW-Authenticate']
+
+function finalize(response: NextResponse): NextResponse {
+  return addSecurityHeaders(addNoStoreHeaders(response))
+}
+
+export function v1Json<T>(data: T, status = 200): NextResponse {
+  return finalize(NextResponse.json({ data }, { status }))
+}
+
+export function v1Page<T>(data: T[], pagination: ApiV1Pagination): NextResponse {
+  return finalize(NextResponse.json({ data, pagination }))
+}
+
+export function v1Error(
+  status: number,
+  code: string,
+  message: string,
+  details?: ApiV1ErrorDetail[]
+): NextResponse {
+  return finalize(NextResponse.json(errorBody(code, message, details), { status }))
+}
+
+export function v1ServerError(): NextResponse {
+  return v1Error(500, 'internal_error', 'Operation failed')
+}
+
+/**
+ * Runs the shared token/session guard and converts its errors to v1 errors.
+ */
+export async function authorizeV1(
+  request: NextRequest,
+  options: { scope: ApiTokenScope; mutation: boolean }
+): Promise<AuthorizedRequest | { response: NextResponse }> {
+  const auth = await authorizeUserRequest(request, options)
+  if (!('response' in auth)) return auth
+
+  const body = await auth.response.json().catch(() => ({}))
+  const response = NextResponse.json(authErrorBody(auth.response.status, body), { status: auth.response.status })
+  for (const header of FORWARDED_AUTH_HEADERS) {
+    const value = auth.response.headers.get(header)
+    if (value) response.headers.set(header, value)
+  }
+  return { response: finalize(response) }
+}
+
+/**
+ * Validates the query string against a schema.
+ * @returns The parsed query, or a 400 `invalid_request` response
+ */
+export function parseV1Query<S extends z.ZodType>(
+  request: NextRequest,
+  schema: S
+): { data: z.output<S> } | { response: NextResponse } {
+  const query = Object.fromEntries(request.nextUrl.searchParams.entries())
+  const parsed = schema.safeParse(query)
+  if (!parsed.success) {
+    return { response: v1Error(400, 'invalid_request', 'Invalid query parameters', issuesToDetails(parsed.error)) }
+  }
+  return { data: parsed.data }
+}
+
+/**
+ * Reads and validates a JSON body.
+ * @returns The parsed body, or a 400 `invalid_json` / `invalid_request` response
+ */
+export async function parseV1Body<S extends z.ZodType>(
+  request: NextRequest,
+  schema: S
+): Promise<{ data: z.output<S> } | { response: NextResponse }> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return { response: v1Error(400, 'invalid_json', 'Body must be valid JSON') }
+  }
+
+  const parsed = schema.safeParse(body)
+  if (!parsed.success) {
+    return { response: v1Error(400, 'invalid_request', 'Invalid request body', issuesToDetails(parsed.error)) }
+  }
+  return { data: parsed.data }
+}
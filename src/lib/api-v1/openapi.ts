@@ -0,0 +1,265 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 OpenAPI Document
+ * Builds the OpenAPI 3.1 description of `/api/v1` from the zod schemas in
+ * src/types/api-v1.ts, so the document cannot drift from the validation.
+ * Served at GET /api/v1/openapi.json and committed as docs/openapi.json
+ * (`pnpm run openapi` regenerates it; a test fails when it is stale).
+ */
+
+import { z } from 'zod'
+import {
+  ActivityEntrySchema,
+  ApiErrorSchema,
+  CommitStrategySchema,
+  OrderSchema,
+  OrderUpdateSchema,
+  PaginationQuerySchema,
+  PaginationSchema,
+  PinRuleFilterSchema,
+  PinSlotSchema,
+  ProfileQuerySchema,
+  RepoFullNameSchema,
+  SettingsSchema,
+  SettingsUpdateSchema,
+  SyncJobSchema,
+  SyncPreviewSchema,
+  SyncStartQuerySchema,
+  SyncStartSchema,
+} from '../../types/api-v1'
+import { API_TOKEN_SCOPES } from '../api-tokens'
+
+export const API_V1_VERSION = '1.0.0'
+
+type JsonObject = Record<string, unknown>
+
+// Los esquemas con nombre aparecen en components.schemas y se referencian con $ref
+const COMPONENTS: Array<[z.ZodType, string]> = [
+  [RepoFullNameSchema, 'RepoFullName'],
+  [CommitStrategySchema, 'CommitStrategy'],
+  [PinRuleFilterSchema, 'PinRuleFilter'],
+  [PinSlotSchema, 'PinSlot'],
+  [OrderSchema, 'Order'],
+  [OrderUpdateSchema, 'OrderUpdate'],
+  [SettingsSchema, 'Settings'],
+  [SettingsUpdateSchema, 'SettingsUpdate'],
+  [SyncJobSchema, 'SyncJob'],
+  [SyncPreviewSchema, 'SyncPreview'],
+  [SyncStartSchema, 'SyncStart'],
+  [ActivityEntrySchema, 'ActivityEntry'],
+  [PaginationSchema, 'Pagination'],
+  [ApiErrorSchema, 'Error'],
+]
+
+function buildComponentSchemas(): Record<string, JsonObject> {
+  const registry = z.registry<{ id: string }>()
+  for (const [schema, id] of COMPONENTS) registry.add(schema, { id })
+
+  const { schemas } = z.toJSONSchema(registry, {
+    uri: (id) => `#/components/schemas/${id}`,
+    override: ({ jsonSchema }) => {
+      // z.number().int() añade los límites de Number.MAX_SAFE_INTEGER: ruido en la documentación
+      if (jsonSchema.minimum === Number.MIN_SAFE_INTEGER) delete jsonSchema.minimum
+      if (jsonSchema.maximum === Number.MAX_SAFE_INTEGER) delete jsonSchema.maximum
+    },
+  })
+
+  const result: Record<string, JsonObject> = {}
+  for (const [id, schema] of Object.entries(schemas)) {
+    const rest = { ...(schema as JsonObject) }
+    delete rest.$id
+    delete rest.$schema
+    result[id] = rest
+  }
+  return result
+}
+
+/** Query parameters of a schema, in OpenAPI `parameters` form. */
+function queryParameters(schema: z.ZodObject): JsonObject[] {
+  const json = z.toJSONSchema(schema, { io: 'input' }) as {
+    properties?: Record<string, JsonObject>
+    required?: string[]
+  }
+  return Object.entries(json.properties ?? {}).map(([name, property]) => {
+    const { description, ...rest } = property
+    if (rest.minimum === Number.MIN_SAFE_INTEGER) delete rest.minimum
+    if (rest.maximum === Number.MAX_SAFE_INTEGER) delete rest.maximum
+    return {
+      name,
+      in: 'query',
+      required: json.required?.includes(name) ?? false,
+      ...(description ? { description } : {}),
+      schema: rest,
+    }
+  })
+}
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` })
+
+function jsonContent(schema: JsonObject): JsonObject {
+  return { 'application/json': { schema } }
+}
+
+function dataResponse(description: string, schema: JsonObject): JsonObject {
+  return {
+    description,
+    content: jsonContent({
+      type: 'object',
+      properties: { data: schema },
+      required: ['data'],
+    }),
+  }
+}
+
+function errorResponse(description: string): JsonObject {
+  return { description, content: jsonContent(ref('Error')) }
+}
+
+const COMMON_ERRORS = {
+  401: errorResponse('Missing, invalid or expired credentials (`unauthorized`, `invalid_token`, `token_expired`)'),
+  403: errorResponse('The token lacks the required scope (`insufficient_scope`) or a browser check failed'),
+  429: errorResponse('Rate limit exceeded (`rate_limited`); see `Retry-After`'),
+  500: errorResponse('Unexpected failure (`internal_error`)'),
+}
+
+const INVALID_REQUEST = errorResponse('Validation failed (`invalid_request`, `invalid_json`); `details` lists the invalid fields')
+const PROFILE_NOT_FOUND = errorResponse('No saved order for this profile (`not_found`)')
+const MANAGED_BY_CONFIG = errorResponse('The profile is managed by a linked config repository (`managed_by_config`); edit its gitpins.yml instead')
+const NOT_ORG_ADMIN = errorResponse('The token lacks the required scope (`insufficient_scope`), a browser check failed, or you no longer administer the organization of the profile (`not_org_admin`; the profile is disabled)')
+
+function operation(
+  scope: string,
+  summary: string,
+  fields: JsonObject,
+  responses: Record<number, JsonObject>
+): JsonObject {
+  return {
+    summary,
+    security: [{ bearerAuth: [scope] }, { sessionCookie: [] }],
+    'x-gitpins-scope': scope,
+    ...fields,
+    responses: { ...COMMON_ERRORS, ...responses },
+  }
+}
+
+/**
+ * Builds the OpenAPI document of the public API.
+ */
+export function buildOpenApiDocument(): JsonObject {
+  const profileParameters = queryParameters(ProfileQuerySchema)
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'GitPins API',
+      version: API_V1_VERSION,
+      description: 'Read and update the pinned order of your GitHub profile. Authenticate with a personal API token (`Authorization: Bearer gitpins_…`) created in Settings → API tokens. Successful responses wrap the payload in `data`; errors use `{ error: { code, message, details? } }`.',
+      license: { name: 'MIT' },
+    },
+    servers: [{ url: '/api/v1' }],
+    paths: {
+      '/order': {
+        get: operation('repos:read', 'Get the saved order', { operationId: 'getOrder', parameters: profileParameters }, {
+          200: dataResponse('Saved order', ref('Order')),
+          400: INVALID_REQUEST,
+          404: PROFILE_NOT_FOUND,
+        }),
+        put: operation('order:write', 'Replace the saved order', {
+          operationId: 'putOrder',
+          description: 'Replaces the pinned list. Records a restorable snapshot (personal profile) and an activity entry; the next sync applies it. Organization profiles must be created from the dashboard first.',
+          parameters: profileParameters,
+          requestBody: { required: true, content: jsonContent(ref('OrderUpdate')) },
+        }, {
+          200: dataResponse('Saved order', ref('Order')),
+          400: INVALID_REQUEST,
+          403: NOT_ORG_ADMIN,
+          404: PROFILE_NOT_FOUND,
+          409: MANAGED_BY_CONFIG,
+          502: errorResponse('Organization membership could not be verified with GitHub (`github_error`)'),
+        }),
+      },
+      '/settings': {
+        get: operation('repos:read', 'Get the sync settings', { operationId: 'getSettings', parameters: profileParameters }, {
+          200: dataResponse('Settings', ref('Settings')),
+          400: INVALID_REQUEST,
+          404: PROFILE_NOT_FOUND,
+        }),
+        patch: operation('order:write', 'Update some sync settings', {
+          operationId: 'patchSettings',
+          description: 'Only the given fields change.',
+          parameters: profileParameters,
+          requestBody: { required: true, content: jsonContent(ref('SettingsUpdate')) },
+        }, {
+          200: dataResponse('Updated settings', ref('Settings')),
+          400: INVALID_REQUEST,
+          404: PROFILE_NOT_FOUND,
+          409: MANAGED_BY_CONFIG,
+        }),
+      },
+      '/syncs': {
+        post: operation('sync', 'Start a sync', {
+          operationId: 'startSync',
+          description: 'Forces a sync of the saved order, like "Sync now" in the dashboard. Returns 202 with the queued job, or 200 with `status: skipped` when nothing had to be done. With `dryRun=true`, returns 200 with `status: preview` and the plan.',
+          parameters: queryParameters(SyncStartQuerySchema),
+        }, {
+          200: dataResponse('Nothing to sync, or the plan of a dry run', ref('SyncStart')),
+          202: dataResponse('Sync queued', ref('SyncStart')),
+          400: errorResponse('Invalid query (`invalid_request`) or stored configuration (`invalid_configuration`)'),
+          403: NOT_ORG_ADMIN,
+          404: PROFILE_NOT_FOUND,
+          502: errorResponse('GitHub rejected the request (`github_error`)'),
+        }),
+      },
+      '/syncs/{id}': {
+        get: operation('sync', 'Get a sync job', {
+          operationId: 'getSync',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        }, {
+          200: dataResponse('Sync job with per-repository progress', ref('SyncJob')),
+          404: errorResponse('Unknown job (`not_found`)'),
+        }),
+      },
+      '/activity': {
+        get: operation('activity:read', 'List activity', {
+          operationId: 'listActivity',
+          description: 'Saved orders and sync log entries, newest first.',
+          parameters: queryParameters(PaginationQuerySchema),
+        }, {
+          200: {
+            description: 'One page of activity',
+            content: jsonContent({
+              type: 'object',
+              properties: {
+                data: { type: 'array', items: ref('ActivityEntry') },
+                pagination: ref('Pagination'),
+              },
+              required: ['data', 'pagination'],
+            }),
+          },
+          400: INVALID_REQUEST,
+        }),
+      },
+    },
+    components: {
+      schemas: buildComponentSchemas(),
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `Personal API token. Scopes: ${API_TOKEN_SCOPES.join(', ')}.`,
+        },
+        sessionCookie: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'gitpins_session',
+          description: 'Dashboard session; mutations also need the `X-CSRF-Token` header.',
+        },
+      },
+    },
+  }
+}
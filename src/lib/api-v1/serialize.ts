@@ -0,0 +1,126 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * API v1 Serializers
+ * Maps stored rows to the public v1 shapes (src/types/api-v1.ts). Stored
+ * JSON columns are parsed leniently: malformed values become empty lists.
+ */
+
+import type { ApiV1ActivityEntry, ApiV1Order, ApiV1Settings } from '../../types/api-v1'
+import { parseDesiredTop } from '../sync/planner'
+import { parsePinRules } from '../sync/pin-rules'
+import { DEFAULT_TOUCH_STRATEGY, isTouchStrategy, parseRepoStrategies } from '../sync/strategies'
+
+interface RepoOrderRow {
+  org: string | null
+  reposOrder: string
+  topN: number
+  pinRules: string | null
+  includePrivate: boolean
+  syncFrequency: number
+  autoEnabled: boolean
+  commitStrategy: string
+  repoStrategies: string
+  preferredHour: number | null
+  verifyAfterSync: boolean
+  driftEarlySync: boolean
+  lastSyncAt: Date | null
+  driftedSince: Date | null
+  updatedAt: Date
+}
+
+function parseJsonList(raw: string | null): string[] {
+  if (!raw) return []
+  return parseDesiredTop(raw, 0) ?? []
+}
+
+export function serializeOrder(row: RepoOrderRow): ApiV1Order {
+  return {
+    org: row.org,
+    pinned: parseJsonList(row.reposOrder),
+    topN: row.topN,
+    pinRules: parsePinRules(row.pinRules),
+    updatedAt: row.updatedAt.toISOString(),
+  }
+}
+
+export function serializeSettings(row: RepoOrderRow): ApiV1Settings {
+  return {
+    org: row.org,
+    includePrivate: row.includePrivate,
+    syncFrequency: row.syncFrequency,
+    autoEnabled: row.autoEnabled,
+    commitStrategy: isTouchStrategy(row.commitStrategy) ? row.commitStrategy : DEFAULT_TOUCH_STRATEGY,
+    repoStrategies: parseRepoStrategies(row.repoStrategies),
+    preferredHour: row.preferredHour,
+    verifyAfterSync: row.verifyAfterSync,
+    driftEarlySync: row.driftEarlySync,
+    lastSyncAt: row.lastSyncAt?.toISOString() ?? null,
+    driftedSince: row.driftedSince?.toISOString() ?? null,
+  }
+}
+
+export function serializeSnapshotEntry(snapshot: {
+  id: string
+  reposOrder: string
+  topN: number
+  changeType: string
+  createdAt: Date
+}): ApiV1ActivityEntry {
+  return {
+    id: snapshot.id,
+    type: 'snapshot',
+    action: snapshot.changeType,
+    status: 'success',
+    repos: parseJsonList(snapshot.reposOrder),
+    topN: snapshot.topN,
+    details: null,
+    createdAt: snapshot.createdAt.toISOString(),
+  }
+}
+
+export function serializeSyncLogEntry(log: {
+  id: string
+  action: string
+  status: string
+  details: string | null
+  reposAffected: string
+  createdAt: Date
+}): ApiV1ActivityEntry {
+  let details: unknown = null
+  try {
+    details = log.details ? JSON.parse(log.details) : null
+  } catch {
+    details = null
+  }
+
+  return {
+    id: log.id,
+    type: 'sync',
+    action: log.action,
+    status: log.status,
+    repos: parseJsonList(log.reposAffected),
+    topN: null,
+    details,
+    createdAt: log.createdAt.toISOString(),
+  }
+}
+
+/**
+ * Merges two newest-first lists into one newest-first list.
+ * Each list must hold at least `offset + limit` entries (or all of them).
+ */
+export function mergeActivity(
+  snapshots: ApiV1ActivityEntry[],
+  syncLogs: ApiV1ActivityEntry[],
+  offset: number,
+  limit: number
+): ApiV1ActivityEntry[] {
+  return [...snapshots, ...syncLogs]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(offset, offset + limit)
+}
@@ -0,0 +1,135 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * CLI API Client
+ * Minimal `/api/v1` client used by the `gitpins` CLI. Responses are checked
+ * against the shared schemas (src/types/api-v1.ts), so a server speaking a
+ * different contract fails loudly instead of printing garbage. Errors carry
+ * the v1 error code in the message.
+ */
+
+import type { z } from 'zod'
+import {
+  ActivityEntrySchema,
+  ApiErrorSchema,
+  OrderSchema,
+  PaginationSchema,
+  SettingsSchema,
+  SyncJobSchema,
+  SyncStartSchema,
+  type ApiV1ActivityEntry,
+  type ApiV1Order,
+  type ApiV1OrderUpdate,
+  type ApiV1Pagination,
+  type ApiV1Settings,
+  type ApiV1SettingsUpdate,
+  type ApiV1SyncJob,
+  type ApiV1SyncStart,
+} from '../../types/api-v1'
+
+export interface ApiClientOptions {
+  /** Instance URL, e.g. https://gitpins.example.com */
+  baseUrl: string
+  token: string
+  fetch?: typeof fetch
+}
+
+export interface ApiResponse {
+  status: number
+  body: unknown
+}
+
+export interface ApiClient {
+  request(method: string, path: string, body?: unknown): Promise<ApiResponse>
+  getOrder(org: string | null): Promise<ApiV1Order>
+  putOrder(org: string | null, update: ApiV1OrderUpdate): Promise<ApiV1Order>
+  getSettings(org: string | null): Promise<ApiV1Settings>
+  patchSettings(org: string | null, update: ApiV1SettingsUpdate): Promise<ApiV1Settings>
+  startSync(org: string | null, options: { dryRun: boolean }): Promise<ApiV1SyncStart>
+  getSync(id: string): Promise<ApiV1SyncJob>
+  listActivity(limit: number, offset: number): Promise<{ data: ApiV1ActivityEntry[]; pagination: ApiV1Pagination }>
+}
+
+/** Turns a failed response into an error with the v1 code when there is one. */
+export function describeApiError(response: ApiResponse): string {
+  const parsed = ApiErrorSchema.safeParse(response.body)
+  if (!parsed.success) return `Request failed with HTTP ${response.status}`
+
+  const { code, message, details } = parsed.data.error
+  const fields = details?.map((detail) => `${detail.path}: ${detail.message}`).join('; ')
+  return fields ? `${message} (${code}): ${fields}` : `${message} (${code})`
+}
+
+function withQuery(path: string, query: Record<string, string | null | undefined>): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value) params.set(key, value)
+  }
+  const search = params.toString()
+  return search ? `${path}?${search}` : path
+}
+
+export function createApiClient(options: ApiClientOptions): ApiClient {
+  const fetchImpl = options.fetch ?? fetch
+
+  async function request(method: string, path: string, body?: unknown): Promise<ApiResponse> {
+    const response = await fetchImpl(`${options.baseUrl}/api/v1${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${options.token}`,
+        Accept: 'application/json',
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    const text = await response.text()
+    let parsed: unknown = null
+    try {
+      parsed = text ? JSON.parse(text) : null
+    } catch {
+      parsed = null
+    }
+    return { status: response.status, body: parsed }
+  }
+
+  async function data<S extends z.ZodType>(schema: S, method: string, path: string, body?: unknown): Promise<z.output<S>> {
+    const response = await request(method, path, body)
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(describeApiError(response))
+    }
+    const payload = (response.body as { data?: unknown } | null)?.data
+    const parsed = schema.safeParse(payload)
+    if (!parsed.success) {
+      throw new Error(`Unexpected response from ${method} /api/v1${path}`)
+    }
+    return parsed.data
+  }
+
+  return {
+    request,
+    getOrder: (org) => data(OrderSchema, 'GET', withQuery('/order', { org })),
+    putOrder: (org, update) => data(OrderSchema, 'PUT', withQuery('/order', { org }), update),
+    getSettings: (org) => data(SettingsSchema, 'GET', withQuery('/settings', { org })),
+    patchSettings: (org, update) => data(SettingsSchema, 'PATCH', withQuery('/settings', { org }), update),
+    startSync: (org, { dryRun }) => data(SyncStartSchema, 'POST', withQuery('/syncs', { org, dryRun: dryRun ? 'true' : null })),
+    getSync: (id) => data(SyncJobSchema, 'GET', `/syncs/${encodeURIComponent(id)}`),
+    async listActivity(limit, offset) {
+      const path = withQuery('/activity', { limit: String(limit), offset: String(offset) })
+      const response = await request('GET', path)
+      if (response.status !== 200) {
+        throw new Error(describeApiError(response))
+      }
+      const body = response.body as { data?: unknown; pagination?: unknown } | null
+      const entries = ActivityEntrySchema.array().safeParse(body?.data)
+      const pagination = PaginationSchema.safeParse(body?.pagination)
+      if (!entries.success || !pagination.success) {
+        throw new Error(`Unexpected response from GET /api/v1${path}`)
+      }
+      return { data: entries.data, pagination: pagination.data }
+    },
+  }
+}
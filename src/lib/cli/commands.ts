@@ -0,0 +1,432 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * CLI Commands
+ * The `gitpins` command line client (entry point: scripts/gitpins.ts). Talks
+ * to a GitPins instance through the public API (`/api/v1`) with a personal
+ * API token. All I/O goes through `CliIO`, so tests run it against a local
+ * mock server. `--json` prints the API data instead of text, for piping.
+ */
+
+import { parseArgs } from 'node:util'
+import {
+  ApiErrorSchema,
+  OrderUpdateSchema,
+  SettingsUpdateSchema,
+  type ApiV1ActivityEntry,
+  type ApiV1Order,
+  type ApiV1Settings,
+  type ApiV1SyncJob,
+  type ApiV1SyncStart,
+} from '../../types/api-v1'
+import { createApiClient, type ApiClient } from './client'
+import { loadConfig, normalizeInstanceUrl, removeConfig, saveConfig } from './config'
+import { addPin, movePin, removePin } from './pins'
+
+export interface CliIO {
+  stdout(text: string): void
+  stderr(text: string): void
+  /** Reads one line from the terminal (used by `login` when no token is given) */
+  prompt(question: string): Promise<string>
+  sleep(ms: number): Promise<void>
+  env: Record<string, string | undefined>
+  configPath: string
+  fetch?: typeof fetch
+}
+
+// Códigos de salida: 2 = uso incorrecto, 1 = fallo de la petición o del sync
+export const EXIT_OK = 0
+export const EXIT_FAILURE = 1
+export const EXIT_USAGE = 2
+
+const SYNC_POLL_INTERVAL_MS = 2000
+// Mismo presupuesto que la ruta de sync (maxDuration = 800 s) con margen
+const SYNC_WAIT_TIMEOUT_MS = 15 * 60 * 1000
+
+export const CLI_USAGE = `Usage: gitpins <command> [options]
+
+Commands:
+  login [--url <instance>] [--token <token>]   Save the instance URL and an API token
+  logout                                       Forget the saved token
+  pins list                                    Show the saved order
+  pins add <owner/repo> [--position <n>]       Pin a repository (default: last)
+  pins remove <owner/repo>                     Unpin a repository
+  pins move <owner/repo> <position>            Move a pinned repository
+  settings [get]                               Show the sync settings
+  settings set <key> <value>                   Change topN or a sync setting
+  sync [--dry-run] [--wait]                    Sync now (or show the plan)
+  activity [--limit <n>] [--offset <n>]        Show recent activity
+
+Options:
+  --org <login>     Use an organization profile instead of the personal one
+  --json            Print JSON (API data) instead of text
+  --url, --token    Override GITPINS_URL / GITPINS_TOKEN and the saved login
+  -h, --help        Show this help
+
+Tokens are created in the dashboard: Settings -> API tokens.`
+
+/** Usage mistakes exit with 2 and print the usage hint. */
+class UsageError extends Error {}
+
+type Flags = {
+  json: boolean
+  url?: string
+  token?: string
+  org?: string
+  position?: string
+  limit?: string
+  offset?: string
+  'dry-run': boolean
+  wait: boolean
+  help: boolean
+}
+
+interface Context {
+  io: CliIO
+  flags: Flags
+  args: string[]
+}
+
+function parseCliArgs(argv: string[]): { flags: Flags; args: string[] } {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      url: { type: 'string' },
+      token: { type: 'string' },
+      org: { type: 'string' },
+      position: { type: 'string' },
+      limit: { type: 'string' },
+      offset: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      wait: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+  return { flags: values as Flags, args: positionals }
+}
+
+function parseInteger(raw: string | undefined, name: string): number | undefined {
+  if (raw === undefined) return undefined
+  if (!/^\d+$/.test(raw)) throw new UsageError(`${name} must be a whole number`)
+  return Number(raw)
+}
+
+function print(ctx: Context, data: unknown, text: () => string): void {
+  ctx.io.stdout(ctx.flags.json ? JSON.stringify(data, null, 2) : text())
+}
+
+async function resolveClient(ctx: Context): Promise<ApiClient> {
+  const saved = await loadConfig(ctx.io.configPath)
+  const rawUrl = ctx.flags.url ?? ctx.io.env.GITPINS_URL ?? saved.url
+  const token = ctx.flags.token ?? ctx.io.env.GITPINS_TOKEN ?? saved.token
+  if (!rawUrl || !token) {
+    throw new Error('Not logged in. Run: gitpins login --url <instance>')
+  }
+
+  const baseUrl = normalizeInstanceUrl(rawUrl)
+  if (!baseUrl) throw new UsageError(`Invalid instance URL: ${rawUrl}`)
+  return createApiClient({ baseUrl, token, fetch: ctx.io.fetch })
+}
+
+// ---------------------------------------------------------------------------
+// login / logout
+// ---------------------------------------------------------------------------
+
+async function login(ctx: Context): Promise<number> {
+  const saved = await loadConfig(ctx.io.configPath)
+  const rawUrl = ctx.flags.url ?? ctx.io.env.GITPINS_URL ?? saved.url
+  if (!rawUrl) throw new UsageError('Missing --url <instance>')
+  const baseUrl = normalizeInstanceUrl(rawUrl)
+  if (!baseUrl) throw new UsageError(`Invalid instance URL: ${rawUrl}`)
+
+  let token = ctx.flags.token ?? ctx.io.env.GITPINS_TOKEN
+  if (!token) {
+    ctx.io.stderr(`Create a token at ${baseUrl}/dashboard (Settings -> API tokens).`)
+    token = (await ctx.io.prompt('API token: ')).trim()
+  }
+  if (!token) throw new UsageError('Missing token')
+
+  // Cualquier respuesta salvo 401 demuestra que el token existe (puede faltarle repos:read)
+  const response = await createApiClient({ baseUrl, token, fetch: ctx.io.fetch }).request('GET', '/order')
+  if (response.status === 401) {
+    throw new Error('The token was rejected (unknown, revoked or expired)')
+  }
+  const isV1Body = (response.body as { data?: unknown } | null)?.data !== undefined || ApiErrorSchema.safeParse(response.body).success
+  if (response.status >= 500 || !isV1Body) {
+    throw new Error(`No GitPins API found at ${baseUrl} (HTTP ${response.status})`)
+  }
+
+  await saveConfig(ctx.io.configPath, { url: baseUrl, token })
+  print(ctx, { url: baseUrl, configPath: ctx.io.configPath }, () =>
+    `Logged in to ${baseUrl} (token ${token.slice(0, 12)}…), saved to ${ctx.io.configPath}`
+  )
+  return EXIT_OK
+}
+
+async function logout(ctx: Context): Promise<number> {
+  await removeConfig(ctx.io.configPath)
+  print(ctx, { loggedOut: true }, () => 'Logged out. Revoke the token in the dashboard if it is no longer needed.')
+  return EXIT_OK
+}
+
+// ---------------------------------------------------------------------------
+// pins
+// ---------------------------------------------------------------------------
+
+function formatOrder(order: ApiV1Order): string {
+  const profile = order.org ? `organization ${order.org}` : 'personal profile'
+  const lines = [`Pinned order (${profile}, top ${order.topN || order.pinned.length}):`]
+  if (order.pinned.length === 0) lines.push('  (empty)')
+  order.pinned.forEach((repo, index) => {
+    const beyond = order.topN > 0 && index >= order.topN ? '  (beyond topN)' : ''
+    lines.push(`${String(index + 1).padStart(4)}. ${repo}${beyond}`)
+  })
+  if (order.pinRules) {
+    lines.push(`Note: ${order.pinRules.length} pin rule slot(s) are active and replace this list at sync time.`)
+  }
+  return lines.join('\n')
+}
+
+async function pins(ctx: Context): Promise<number> {
+  const [action = 'list', repo, position] = ctx.args
+  const org = ctx.flags.org ?? null
+  const client = await resolveClient(ctx)
+  const order = await client.getOrder(org)
+
+  let pinned: string[]
+  switch (action) {
+    case 'list':
+      print(ctx, order, () => formatOrder(order))
+      return EXIT_OK
+    case 'add':
+      if (!repo) throw new UsageError('Usage: gitpins pins add <owner/repo> [--position <n>]')
+      pinned = addPin(order.pinned, repo, parseInteger(ctx.flags.position, '--position'))
+      break
+    case 'remove':
+      if (!repo) throw new UsageError('Usage: gitpins pins remove <owner/repo>')
+      pinned = removePin(order.pinned, repo)
+      break
+    case 'move': {
+      const target = parseInteger(position ?? ctx.flags.position, 'position')
+      if (!repo || target === undefined) throw new UsageError('Usage: gitpins pins move <owner/repo> <position>')
+      pinned = movePin(order.pinned, repo, target)
+      break
+    }
+    default:
+      throw new UsageError(`Unknown pins command: ${action}`)
+  }
+
+  const saved = await client.putOrder(org, { pinned })
+  print(ctx, saved, () => formatOrder(saved))
+  return EXIT_OK
+}
+
+// ---------------------------------------------------------------------------
+// settings
+// ---------------------------------------------------------------------------
+
+const BOOLEAN_SETTINGS = ['includePrivate', 'autoEnabled', 'verifyAfterSync', 'driftEarlySync'] as const
+
+function formatSettings(settings: ApiV1Settings, topN?: number): string {
+  const entries: Array<[string, unknown]> = [
+    ...(topN === undefined ? [] : [['topN', topN] as [string, unknown]]),
+    ...Object.entries(settings).filter(([key]) => key !== 'org'),
+  ]
+  return entries
+    .map(([key, value]) => `${key.padEnd(16)} ${typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)}`)
+    .join('\n')
+}
+
+/**
+ * Converts `settings set <key> <value>` text to an update body.
+ */
+function parseSettingValue(key: string, raw: string): Record<string, unknown> {
+  if ((BOOLEAN_SETTINGS as readonly string[]).includes(key)) {
+    if (raw !== 'true' && raw !== 'false') throw new UsageError(`${key} must be true or false`)
+    return { [key]: raw === 'true' }
+  }
+  if (key === 'syncFrequency' || key === 'topN') {
+    return { [key]: parseInteger(raw, key) }
+  }
+  if (key === 'preferredHour') {
+    return { preferredHour: raw === 'none' ? null : parseInteger(raw, key) }
+  }
+  if (key === 'commitStrategy') {
+    return { commitStrategy: raw }
+  }
+  throw new UsageError(`Unknown setting: ${key}. Settable: topN, ${BOOLEAN_SETTINGS.join(', ')}, syncFrequency, preferredHour, commitStrategy`)
+}
+
+async function settings(ctx: Context): Promise<number> {
+  const [action = 'get', key, value] = ctx.args
+  const org = ctx.flags.org ?? null
+  const client = await resolveClient(ctx)
+
+  if (action === 'get') {
+    const [current, order] = await Promise.all([client.getSettings(org), client.getOrder(org)])
+    print(ctx, { ...current, topN: order.topN }, () => formatSettings(current, order.topN))
+    return EXIT_OK
+  }
+  if (action !== 'set') throw new UsageError(`Unknown settings command: ${action}`)
+  if (!key || value === undefined) throw new UsageError('Usage: gitpins settings set <key> <value>')
+
+  const update = parseSettingValue(key, value)
+
+  // topN forma parte del orden, no de los ajustes de sync
+  if (key === 'topN') {
+    const order = await client.getOrder(org)
+    const body = OrderUpdateSchema.safeParse({ pinned: order.pinned, topN: update.topN })
+    if (!body.success) throw new UsageError('topN must be between 1 and 100')
+    const saved = await client.putOrder(org, body.data)
+    print(ctx, saved, () => `topN set to ${saved.topN}`)
+    return EXIT_OK
+  }
+
+  const body = SettingsUpdateSchema.safeParse(update)
+  if (!body.success) {
+    throw new UsageError(`Invalid value for ${key}: ${body.error.issues[0]?.message ?? value}`)
+  }
+  const updated = await client.patchSettings(org, body.data)
+  print(ctx, updated, () => `${key} set to ${JSON.stringify(updated[key as keyof ApiV1Settings])}`)
+  return EXIT_OK
+}
+
+// ---------------------------------------------------------------------------
+// sync
+// ---------------------------------------------------------------------------
+
+function formatSyncStart(start: ApiV1SyncStart): string {
+  if (start.status === 'preview' && start.preview) {
+    const { preview } = start
+    if (preview.alreadyOrdered) return 'Dry run: already in order, nothing to touch.'
+    return [
+      `Dry run: ${preview.touchOrder.length} repositories would be touched, in this order:`,
+      ...preview.touchOrder.map((repo) => `  - ${repo}`),
+      `Current top:  ${preview.currentTop.join(', ')}`,
+      `Expected top: ${preview.predictedTop.join(', ')}`,
+    ].join('\n')
+  }
+  if (start.status === 'skipped') {
+    return `Nothing to sync: ${start.message ?? start.reason}`
+  }
+  return `Sync queued (job ${start.job?.id}): ${start.job?.total ?? 0} repositories to touch.`
+}
+
+function formatJob(job: ApiV1SyncJob): string {
+  const summary = `Sync ${job.status}: ${job.succeeded} succeeded, ${job.failed} failed of ${job.total}`
+  return job.error ? `${summary}. ${job.error}` : summary
+}
+
+async function sync(ctx: Context): Promise<number> {
+  const client = await resolveClient(ctx)
+  const start = await client.startSync(ctx.flags.org ?? null, { dryRun: ctx.flags['dry-run'] })
+
+  if (!ctx.flags.wait || !start.job) {
+    print(ctx, start, () => formatSyncStart(start))
+    return EXIT_OK
+  }
+
+  if (!ctx.flags.json) ctx.io.stdout(formatSyncStart(start))
+  let job = start.job
+  let reported = -1
+  for (let waited = 0; job.status === 'queued' || job.status === 'running'; waited += SYNC_POLL_INTERVAL_MS) {
+    if (waited >= SYNC_WAIT_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for job ${job.id}; it is still ${job.status}`)
+    }
+    await ctx.io.sleep(SYNC_POLL_INTERVAL_MS)
+    job = await client.getSync(job.id)
+    if (!ctx.flags.json && job.processed !== reported && job.total > 0) {
+      reported = job.processed
+      ctx.io.stdout(`  ${job.processed}/${job.total} processed`)
+    }
+  }
+
+  print(ctx, job, () => formatJob(job))
+  return job.status === 'completed' && job.failed === 0 ? EXIT_OK : EXIT_FAILURE
+}
+
+// ---------------------------------------------------------------------------
+// activity
+// ---------------------------------------------------------------------------
+
+function formatActivity(entry: ApiV1ActivityEntry): string {
+  const date = entry.createdAt.slice(0, 16).replace('T', ' ')
+  const repos = entry.repos.length > 3 ? `${entry.repos.slice(0, 3).join(', ')} +${entry.repos.length - 3}` : entry.repos.join(', ')
+  return `${date}  ${entry.type.padEnd(8)} ${entry.action.padEnd(18)} ${entry.status.padEnd(8)} ${repos}`
+}
+
+async function activity(ctx: Context): Promise<number> {
+  const limit = parseInteger(ctx.flags.limit, '--limit') ?? 20
+  const offset = parseInteger(ctx.flags.offset, '--offset') ?? 0
+  const client = await resolveClient(ctx)
+  const page = await client.listActivity(limit, offset)
+
+  print(ctx, page, () => {
+    if (page.data.length === 0) return 'No activity.'
+    const more = page.pagination.nextOffset === null ? '' : `\nMore: gitpins activity --offset ${page.pagination.nextOffset}`
+    return `${page.data.map(formatActivity).join('\n')}${more}`
+  })
+  return EXIT_OK
+}
+
+// ---------------------------------------------------------------------------
+// entry
+// ---------------------------------------------------------------------------
+
+const COMMANDS: Record<string, (ctx: Context) => Promise<number>> = {
+  login,
+  logout,
+  pins,
+  settings,
+  sync,
+  activity,
+}
+
+/**
+ * Runs one CLI invocation.
+ * @param argv - Arguments after the program name
+ * @returns The process exit code
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  let parsed: { flags: Flags; args: string[] }
+  try {
+    parsed = parseCliArgs(argv)
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n\n${CLI_USAGE}`)
+    return EXIT_USAGE
+  }
+
+  const [command, ...args] = parsed.args
+  if (parsed.flags.help) {
+    io.stdout(CLI_USAGE)
+    return EXIT_OK
+  }
+  if (!command) {
+    io.stderr(CLI_USAGE)
+    return EXIT_USAGE
+  }
+
+  const handler = COMMANDS[command]
+  if (!handler) {
+    io.stderr(`Unknown command: ${command}\n\n${CLI_USAGE}`)
+    return EXIT_USAGE
+  }
+
+  try {
+    return await handler({ io, flags: parsed.flags, args })
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(error.message)
+      return EXIT_USAGE
+    }
+    io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`)
+    return EXIT_FAILURE
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * CLI Configuration
+ * Where `gitpins login` stores the instance URL and API token, and how the
+ * other commands find them: flags first, then GITPINS_URL / GITPINS_TOKEN,
+ * then the config file. The file holds a secret, so it is written 0600.
+ */
+
+import { chmod, mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+
+export interface CliConfig {
+  url: string
+  token: string
+}
+
+type Env = Record<string, string | undefined>
+
+/**
+ * GITPINS_CONFIG, else $XDG_CONFIG_HOME/gitpins/config.json, else ~/.config/gitpins/config.json.
+ */
+export function resolveConfigPath(env: Env, homeDir: string): string {
+  if (env.GITPINS_CONFIG) return env.GITPINS_CONFIG
+  const base = env.XDG_CONFIG_HOME || join(homeDir, '.config')
+  return join(base, 'gitpins', 'config.json')
+}
+
+/**
+ * Normalizes an instance URL (`https://gitpins.example.com/`).
+ * @returns The origin plus path without trailing slash, or null when invalid
+ */
+export function normalizeInstanceUrl(raw: string): string | null {
+  try {
+    const url = new URL(raw)
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`
+  } catch {
+    return null
+  }
+}
+
+export async function loadConfig(path: string): Promise<Partial<CliConfig>> {
+  try {
+    const parsed: unknown = JSON.parse(await readFile(path, 'utf8'))
+    if (!parsed || typeof parsed !== 'object') return {}
+    const { url, token } = parsed as Record<string, unknown>
+    return {
+      ...(typeof url === 'string' ? { url } : {}),
+      ...(typeof token === 'string' ? { token } : {}),
+    }
+  } catch {
+    return {}
+  }
+}
+
+export async function saveConfig(path: string, config: CliConfig): Promise<void> {
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 })
+  await writeFile(path, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 })
+  // mode solo se aplica al crear el fichero
+  await chmod(path, 0o600)
+}
+
+export async function removeConfig(path: string): Promise<void> {
+  await rm(path, { force: true })
+}
@@ -0,0 +1,63 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * CLI Pin Edits
+ * List operations behind `gitpins pins add|remove|move`. Positions are
+ * 1-based like the numbers printed by `gitpins pins list`. Pure module.
+ */
+
+import { RepoFullNameSchema } from '../../types/api-v1'
+
+function findPin(pinned: string[], repo: string): number {
+  const target = repo.toLowerCase()
+  return pinned.findIndex((entry) => entry.toLowerCase() === target)
+}
+
+function parsePosition(position: number, max: number): number {
+  if (!Number.isInteger(position) || position < 1 || position > max) {
+    throw new Error(`Position must be between 1 and ${max}`)
+  }
+  return position - 1
+}
+
+/**
+ * Inserts a repository at a position (default: the end).
+ */
+export function addPin(pinned: string[], repo: string, position?: number): string[] {
+  if (!RepoFullNameSchema.safeParse(repo).success) {
+    throw new Error(`Invalid repository name: ${repo} (expected owner/name)`)
+  }
+  if (findPin(pinned, repo) !== -1) {
+    throw new Error(`${repo} is already pinned`)
+  }
+
+  const index = position === undefined ? pinned.length : parsePosition(position, pinned.length + 1)
+  return [...pinned.slice(0, index), repo, ...pinned.slice(index)]
+}
+
+export function removePin(pinned: string[], repo: string): string[] {
+  const index = findPin(pinned, repo)
+  if (index === -1) {
+    throw new Error(`${repo} is not pinned`)
+  }
+  return pinned.filter((_, i) => i !== index)
+}
+
+/**
+ * Moves a pinned repository to a new position.
+ */
+export function movePin(pinned: string[], repo: string, position: number): string[] {
+  const from = findPin(pinned, repo)
+  if (from === -1) {
+    throw new Error(`${repo} is not pinned`)
+  }
+
+  const to = parsePosition(position, pinned.length)
+  const result = pinned.filter((_, i) => i !== from)
+  result.splice(to, 0, pinned[from])
+  return result
+}
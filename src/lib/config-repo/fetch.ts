@@ -0,0 +1,58 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Config Repository Fetch
+ * Reads the config file from the default branch of the linked repository
+ * through the Contents API, trying CONFIG_FILE_PATHS in order.
+ */
+
+import type { Octokit } from 'octokit'
+import { CONFIG_FILE_PATHS, MAX_CONFIG_FILE_BYTES } from './parse'
+
+export type ConfigRepoClient = Pick<Octokit, 'rest'>
+
+export interface ConfigFile {
+  path: string
+  /** Blob sha, changes with every edit of the file */
+  sha: string
+  /** Decoded content, null when larger than MAX_CONFIG_FILE_BYTES */
+  content: string | null
+}
+
+function isNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'status' in error && (error as { status: unknown }).status === 404
+}
+
+/**
+ * Fetches the first config file found in a repository.
+ * @param repo - Linked repository (`owner/name`)
+ * @returns The file, or null when the repository has none (or is not visible to the installation)
+ * @throws Any GitHub error other than 404
+ */
+export async function fetchConfigFile(client: ConfigRepoClient, repo: string): Promise<ConfigFile | null> {
+  const [owner, name] = repo.split('/')
+
+  for (const path of CONFIG_FILE_PATHS) {
+    let data
+    try {
+      ({ data } = await client.rest.repos.getContent({ owner, repo: name, path }))
+    } catch (error) {
+      if (isNotFound(error)) continue
+      throw error
+    }
+
+    // Un directorio o symlink con ese nombre no es un fichero de configuración
+    if (Array.isArray(data) || data.type !== 'file') continue
+
+    const content = data.size > MAX_CONFIG_FILE_BYTES || !('content' in data)
+      ? null
+      : Buffer.from(data.content, 'base64').toString('utf8')
+    return { path, sha: data.sha, content }
+  }
+
+  return null
+}
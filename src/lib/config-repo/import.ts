@@ -0,0 +1,140 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Config Repository Import
+ * Applies the config file of a linked repository to the saved order. Runs
+ * before every sync, on pushes to the repository (webhook) and when the
+ * repository is linked. A blob that was already imported is skipped; an
+ * invalid or missing file keeps the last imported order, is stored in
+ * `configError` and is reported once in the activity feed.
+ */
+
+import type { RepoOrder } from '../../generated/prisma/client'
+import { prisma } from '../prisma'
+import { fetchConfigFile, type ConfigFile, type ConfigRepoClient } from './fetch'
+import { buildConfigUpdate, configFileTooLarge, parseConfigFile, type ConfigFileError } from './parse'
+
+export type ConfigImportTrigger = 'sync' | 'webhook' | 'link'
+
+export interface ConfigImportResult {
+  status: 'imported' | 'unchanged' | 'invalid'
+  /** Profile after the import */
+  repoOrder: RepoOrder
+  errors?: ConfigFileError[]
+}
+
+async function recordInvalidConfig(
+  repoOrder: RepoOrder,
+  file: ConfigFile | null,
+  errors: ConfigFileError[],
+  trigger: ConfigImportTrigger
+): Promise<ConfigImportResult> {
+  const configError = JSON.stringify(errors)
+  // Un sync tras otro con el mismo fichero roto no repite la entrada del feed
+  if (configError === repoOrder.configError) {
+    return { status: 'invalid', repoOrder, errors }
+  }
+
+  const updated = await prisma.repoOrder.update({
+    where: { id: repoOrder.id },
+    data: { configError },
+  })
+  await prisma.syncLog.create({
+    data: {
+      userId: repoOrder.userId,
+      action: 'config_invalid',
+      status: 'error',
+      details: JSON.stringify({
+        org: repoOrder.org ?? undefined,
+        configRepo: repoOrder.configRepo,
+        path: file?.path,
+        sha: file?.sha,
+        trigger,
+        configErrors: errors,
+      }),
+      reposAffected: '[]',
+    },
+  })
+  return { status: 'invalid', repoOrder: updated, errors }
+}
+
+/**
+ * Applies an already fetched config file.
+ * @param file - File read from the linked repository, null when there is none
+ */
+export async function applyConfigFile(
+  repoOrder: RepoOrder,
+  file: ConfigFile | null,
+  trigger: ConfigImportTrigger
+): Promise<ConfigImportResult> {
+  if (!file) {
+    return recordInvalidConfig(repoOrder, null, [{
+      path: '(file)',
+      message: 'No gitpins.yml, gitpins.yaml or config.json found in the repository',
+    }], trigger)
+  }
+
+  if (file.sha === repoOrder.configSha && !repoOrder.configError) {
+    return { status: 'unchanged', repoOrder }
+  }
+
+  const parsed = file.content === null ? { errors: configFileTooLarge() } : parseConfigFile(file.path, file.content)
+  if ('errors' in parsed) {
+    return recordInvalidConfig(repoOrder, file, parsed.errors, trigger)
+  }
+
+  const { data } = buildConfigUpdate(repoOrder, parsed.config)
+  const updated = await prisma.repoOrder.update({
+    where: { id: repoOrder.id },
+    data: {
+      ...data,
+      // Los perfiles con nombre no se aplican mientras el orden venga del repo
+      activeProfileId: null,
+      configPath: file.path,
+      configSha: file.sha,
+      configImportedAt: new Date(),
+      configError: null,
+    },
+  })
+
+  await prisma.syncLog.create({
+    data: {
+      userId: repoOrder.userId,
+      action: 'config_imported',
+      status: 'success',
+      details: JSON.stringify({
+        org: repoOrder.org ?? undefined,
+        configRepo: repoOrder.configRepo,
+        path: file.path,
+        sha: file.sha,
+        trigger,
+      }),
+      reposAffected: JSON.stringify(parsed.config.pinned.slice(0, updated.topN)),
+    },
+  })
+
+  return { status: 'imported', repoOrder: updated }
+}
+
+/**
+ * Fetches and applies the config file of the profile's linked repository.
+ * Profiles without a linked repository are returned unchanged.
+ * @param client - Client of an installation that can read the repository
+ * @throws GitHub errors other than 404 (nothing is recorded)
+ */
+export async function importConfigRepo(
+  repoOrder: RepoOrder,
+  client: ConfigRepoClient,
+  trigger: ConfigImportTrigger
+): Promise<ConfigImportResult> {
+  if (!repoOrder.configRepo) {
+    return { status: 'unchanged', repoOrder }
+  }
+
+  const file = await fetchConfigFile(client, repoOrder.configRepo)
+  return applyConfigFile(repoOrder, file, trigger)
+}
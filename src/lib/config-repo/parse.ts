@@ -0,0 +1,171 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Config Repository File
+ * Schema and parser of the order file a profile can be managed from
+ * (`gitpins.yml`, `gitpins.yaml` or `config.json` at the root of the linked
+ * repository), and the saved-order update a valid file produces. The file
+ * shares the public API schemas, so it accepts exactly what PUT /api/v1/order
+ * and PATCH /api/v1/settings accept. The `config.json` written by older
+ * versions (`repos` + `settings.topN`) is still understood.
+ * Pure module: no I/O.
+ */
+
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+import {
+  PinSlotSchema,
+  RepoFullNameSchema,
+  SettingsUpdateSchema,
+  type ApiV1SettingsUpdate,
+} from '../../types/api-v1'
+import type { PinSlot } from '../../types'
+import { issuesToDetails, type ApiV1ErrorDetail } from '../api-v1/envelope'
+import { sanitizePinRules } from '../sync/pin-rules'
+import { parseRepoIds, retainRepoIds } from '../sync/repo-ids'
+import { parseRepoStrategies, sanitizeRepoStrategies } from '../sync/strategies'
+
+/** Files looked up at the root of the config repository, in order. */
+export const CONFIG_FILE_PATHS = ['gitpins.yml', 'gitpins.yaml', 'config.json'] as const
+
+export const MAX_CONFIG_FILE_BYTES = 64 * 1024
+
+export type ConfigFileError = ApiV1ErrorDetail
+
+const TopNSchema = z.number().int().min(1).max(100)
+
+export const ConfigFileSchema = z.strictObject({
+  // 1 para gitpins.yml; el config.json antiguo guarda la versión de la app ("4.0.1")
+  version: z.union([z.literal(1), z.string()]).optional(),
+  pinned: z.array(RepoFullNameSchema).max(500).optional(),
+  topN: TopNSchema.optional(),
+  pinRules: z.array(PinSlotSchema).max(20).nullable().optional(),
+  settings: SettingsUpdateSchema.extend({ topN: TopNSchema.optional() }).optional(),
+  // Claves del config.json antiguo
+  repos: z.array(RepoFullNameSchema).max(500).optional(),
+  owner: z.string().optional(),
+  updatedAt: z.string().optional(),
+}).refine((file) => file.pinned !== undefined || file.repos !== undefined, {
+  message: 'pinned is required',
+  path: ['pinned'],
+})
+
+/** What a valid file sets. Omitted keys keep the current value. */
+export interface ConfigImport {
+  pinned: string[]
+  topN?: number
+  /** null turns rules off, undefined keeps them */
+  pinRules?: PinSlot[] | null
+  settings: ApiV1SettingsUpdate
+}
+
+export type ConfigParseResult = { config: ConfigImport } | { errors: ConfigFileError[] }
+
+/**
+ * Validates a linked repository name (`owner/name`).
+ * @returns The lowercased name (GitHub names are case-insensitive), or null
+ */
+export function parseConfigRepoName(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return RepoFullNameSchema.safeParse(trimmed).success ? trimmed.toLowerCase() : null
+}
+
+/** Error reported for files over MAX_CONFIG_FILE_BYTES. */
+export function configFileTooLarge(): ConfigFileError[] {
+  return [{ path: '(file)', message: `File is larger than ${MAX_CONFIG_FILE_BYTES / 1024} KB` }]
+}
+
+/** Parses the `configError` column. */
+export function parseConfigErrors(raw: string | null): ConfigFileError[] | null {
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function readDocument(path: string, content: string): { value: unknown } | { errors: ConfigFileError[] } {
+  try {
+    return { value: path.endsWith('.json') ? JSON.parse(content) : parseYaml(content, { maxAliasCount: 50 }) }
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0] : 'Could not be parsed'
+    return { errors: [{ path: '(file)', message }] }
+  }
+}
+
+/**
+ * Parses and validates the content of a config file.
+ * @param path - File name, selects JSON or YAML
+ */
+export function parseConfigFile(path: string, content: string): ConfigParseResult {
+  if (Buffer.byteLength(content, 'utf8') > MAX_CONFIG_FILE_BYTES) {
+    return { errors: configFileTooLarge() }
+  }
+
+  const document = readDocument(path, content)
+  if ('errors' in document) return document
+
+  const parsed = ConfigFileSchema.safeParse(document.value)
+  if (!parsed.success) {
+    return { errors: issuesToDetails(parsed.error) }
+  }
+
+  const { topN: legacyTopN, ...settings } = parsed.data.settings ?? {}
+  const topN = parsed.data.topN ?? legacyTopN
+  return {
+    config: {
+      pinned: parsed.data.pinned ?? parsed.data.repos ?? [],
+      ...(topN === undefined ? {} : { topN }),
+      ...(parsed.data.pinRules === undefined ? {} : { pinRules: sanitizePinRules(parsed.data.pinRules) }),
+      settings,
+    },
+  }
+}
+
+interface ConfigTarget {
+  reposOrder: string
+  reposOrderIds: string | null
+  topN: number
+  pinRules: string | null
+  repoStrategies: string
+}
+
+/**
+ * Saved-order columns written by a valid file.
+ * @param current - Current values of the profile
+ * @returns The update and whether the order itself (pins, topN, rules) changed
+ */
+export function buildConfigUpdate(current: ConfigTarget, config: ConfigImport) {
+  const { repoStrategies, ...settings } = config.settings
+  const reposOrder = JSON.stringify(config.pinned)
+  const topN = config.topN ?? current.topN
+  let pinRules = current.pinRules
+  if (config.pinRules !== undefined) {
+    pinRules = config.pinRules ? JSON.stringify(config.pinRules) : null
+  }
+  const orderChanged = reposOrder !== current.reposOrder || topN !== current.topN || pinRules !== current.pinRules
+
+  return {
+    orderChanged,
+    data: {
+      ...settings,
+      reposOrder,
+      reposOrderIds: JSON.stringify(retainRepoIds(parseRepoIds(current.reposOrderIds), config.pinned)),
+      topN,
+      pinRules,
+      // Sin repoStrategies en el fichero se conservan las actuales que sigan en el orden
+      repoStrategies: JSON.stringify(
+        sanitizeRepoStrategies(repoStrategies ?? parseRepoStrategies(current.repoStrategies), config.pinned)
+      ),
+      // La última comprobación de deriva era contra el orden anterior
+      ...(orderChanged ? { driftCheckedAt: null, driftedSince: null } : {}),
+    },
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Drift Monitor
+ * Runs read-only drift checks (see ./sync/drift): reads the live order the
+ * same way a dry run does, stores each check in `drift_checks`, keeps
+ * `repo_orders.driftedSince` up to date and records the start of a drift in
+ * `sync_logs`. Used by the scheduler and by `POST /api/drift`.
+ */
+
+import type { RepoOrder, User } from '../generated/prisma/client'
+import { prisma } from './prisma'
+import { inspectLiveOrder, type SyncOutcome } from './sync/pipeline'
+import { DRIFT_HISTORY_LIMIT, evaluateDrift, shouldSyncEarly, type DriftEvaluation } from './sync/drift'
+import { notifyUser } from './notifications/dispatch'
+import { buildDriftNotification } from './notifications/events'
+
+export interface DriftCheckResult extends DriftEvaluation {
+  checkedAt: Date
+  /** The caller should start an early sync (opt-in and cooldown passed) */
+  earlySync: boolean
+}
+
+/**
+ * Checks one account for drift and records the result.
+ * @param repoOrder - Saved order including its owner
+ * @param options.allowEarlySync - Evaluate the early sync opt-in (scheduler only)
+ * @returns The check, or an error outcome when the live order could not be read
+ */
+export async function runDriftCheck(
+  repoOrder: RepoOrder & { user: User },
+  options: { allowEarlySync?: boolean; now?: Date } = {}
+): Promise<{ outcome: SyncOutcome } | { check: DriftCheckResult }> {
+  const now = options.now ?? new Date()
+  const inspected = await inspectLiveOrder(repoOrder)
+  if ('outcome' in inspected) {
+    // Sin historial, pero la siguiente comprobación espera al próximo intervalo
+    await prisma.repoOrder.update({ where: { id: repoOrder.id }, data: { driftCheckedAt: now } })
+    return inspected
+  }
+
+  const { currentOrder, desiredTop } = inspected.inspection
+  const drift = evaluateDrift(currentOrder, desiredTop, repoOrder.driftedSince, now)
+  const earlySync = options.allowEarlySync === true && shouldSyncEarly(repoOrder, drift, now)
+
+  await prisma.driftCheck.create({
+    data: {
+      repoOrderId: repoOrder.id,
+      inOrder: drift.inOrder,
+      currentTop: JSON.stringify(drift.currentTop),
+      desiredTop: JSON.stringify(drift.desiredTop),
+      outOfPlace: JSON.stringify(drift.outOfPlace),
+      earlySync,
+      checkedAt: now,
+    },
+  })
+  await prisma.repoOrder.update({
+    where: { id: repoOrder.id },
+    data: { driftCheckedAt: now, driftedSince: drift.driftedSince },
+  })
+
+  // Historial acotado por perfil
+  const stale = await prisma.driftCheck.findMany({
+    where: { repoOrderId: repoOrder.id },
+    orderBy: { checkedAt: 'desc' },
+    skip: DRIFT_HISTORY_LIMIT,
+    select: { id: true },
+  })
+  if (stale.length > 0) {
+    await prisma.driftCheck.deleteMany({ where: { id: { in: stale.map((row) => row.id) } } })
+  }
+
+  // Solo el inicio de cada racha va al historial de actividad
+  if (!drift.inOrder && !repoOrder.driftedSince) {
+    await prisma.syncLog.create({
+      data: {
+        userId: repoOrder.userId,
+        action: 'drift_detected',
+        status: 'success',
+        details: JSON.stringify({
+          reason: 'The live order no longer matches the desired order',
+          org: repoOrder.org ?? undefined,
+          currentTop: drift.currentTop,
+          desiredTop: drift.desiredTop,
+          earlySync,
+        }),
+        reposAffected: JSON.stringify(drift.outOfPlace),
+      },
+    })
+    await notifyUser(repoOrder.userId, [buildDriftNotification({
+      org: repoOrder.org,
+      currentTop: drift.currentTop,
+      outOfPlace: drift.outOfPlace,
+    })])
+  }
+
+  return { check: { ...drift, checkedAt: now, earlySync } }
+}
@@ -10,8 +10,9 @@
  * Generates config.json, workflow YAML, and README files for each user's gitpins-config repo.
  */
 
-import { Octokit } from 'octokit'
+import type { Octokit } from 'octokit'
 import { createAppAuth } from '@octokit/auth-app'
+import { createGitHubClient } from './github-client'
 import { readFileSync, existsSync } from 'node:fs'
 import packageJson from '../../package.json'
 
@@ -30,7 +31,7 @@ function getPrivateKey(): string {
  * @returns Authenticated Octokit instance
  */
 export function createAppOctokit(installationId: number): Octokit {
-  return new Octokit({
+  return createGitHubClient({
     authStrategy: createAppAuth,
     auth: {
       appId: process.env.GITHUB_APP_ID!,
@@ -112,6 +113,29 @@ jobs:
 
           echo "$response" | jq '.' || echo "$response"
 
+          # Syncs run as background jobs: poll until the job finishes
+          job_id=\$(echo "$response" | jq -r '.jobId // empty')
+          if [ -n "$job_id" ]; then
+            echo "⏳ Sync job $job_id queued, waiting for progress..."
+            status="queued"
+            for attempt in \$(seq 1 120); do
+              sleep 10
+              job=\$(curl -s "${options.appUrl}/api/sync/jobs/$job_id" \\
+                -H "X-GitPins-Sync-Secret: \${{ secrets.GITPINS_SYNC_SECRET }}")
+              status=\$(echo "$job" | jq -r '.job.status // "unknown"')
+              echo "   $status: \$(echo "$job" | jq -r '"\\(.job.processed // 0)/\\(.job.total // 0)"') repositories"
+              if [ "$status" = "completed" ] || [ "$status" = "failed" ] || [ "$status" = "unknown" ]; then
+                break
+              fi
+            done
+
+            if [ "$status" != "completed" ]; then
+              echo "❌ Sync job did not complete (status: $status)"
+              exit 1
+            fi
+            response=\$(echo "$job" | jq -c '.job.result')
+          fi
+
           # Check if sync was skipped (already in order)
           skipped=\$(echo "$response" | jq -r '.skipped // false')
 
@@ -0,0 +1,66 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * GitHub Client
+ * Single place where Octokit instances are built (app installation and user
+ * tokens). Every client records rate limit headers into a budget (see
+ * ./github-rate-limit) and retries primary and secondary rate limits
+ * (403/429) after the wait GitHub asks for, as long as it is short.
+ */
+
+import { Octokit } from 'octokit'
+import {
+  attachRateLimitBudget,
+  createRateLimitBudget,
+  shouldRetryRateLimit,
+  type RateLimitBudget,
+} from './github-rate-limit'
+
+type GitHubClientOptions = NonNullable<ConstructorParameters<typeof Octokit>[0]>
+
+/** Throttling handler: blocks the budget and retries only short waits. */
+function retryOnShortLimit(budget: RateLimitBudget, label: string) {
+  return (
+    retryAfter: number,
+    request: { method: string; url: string },
+    client: { log: { warn: (message: string) => void } },
+    retryCount: number
+  ): boolean => {
+    budget.block(retryAfter)
+    client.log.warn(`GitHub ${label} for ${request.method} ${request.url} (retry after ${retryAfter}s)`)
+    return shouldRetryRateLimit(retryAfter, retryCount)
+  }
+}
+
+/**
+ * Creates an Octokit client with rate limit tracking and throttling.
+ * Use `getRateLimitBudget(client)` to read the remaining budget.
+ * @param options - Octokit options (auth, authStrategy...)
+ */
+export function createGitHubClient(options: GitHubClientOptions): Octokit {
+  const budget = createRateLimitBudget()
+
+  const octokit = new Octokit({
+    ...options,
+    throttle: {
+      onRateLimit: retryOnShortLimit(budget, 'rate limit reached'),
+      onSecondaryRateLimit: retryOnShortLimit(budget, 'secondary rate limit'),
+    },
+  })
+
+  octokit.hook.after('request', (response) => {
+    budget.record(response.headers)
+  })
+  octokit.hook.error('request', (error) => {
+    const response = (error as { response?: { headers?: Record<string, unknown> } }).response
+    budget.record(response?.headers)
+    throw error
+  })
+
+  attachRateLimitBudget(octokit, budget)
+  return octokit
+}
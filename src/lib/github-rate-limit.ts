@@ -0,0 +1,181 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * GitHub Rate Limit Budget
+ * Pure bookkeeping of the REST rate limit as reported by GitHub response
+ * headers (`x-ratelimit-*`, `retry-after`). The GitHub client wrapper feeds
+ * every response into a budget; loops that issue many requests (the sync
+ * touch loop, commit counting) ask it how long to pause before the next
+ * item, or whether to stop and leave the rest for later.
+ */
+
+/** Last rate limit state seen for one GitHub client. */
+export interface RateLimitSnapshot {
+  limit: number | null
+  remaining: number | null
+  resetAt: Date | null
+  /** Set after a secondary limit or `retry-after`; no requests before this */
+  blockedUntil: Date | null
+}
+
+export interface RateLimitBudget {
+  /** Records the headers of a GitHub response (successful or not). */
+  record(headers: Record<string, unknown> | undefined, now?: Date): void
+  /** Marks the client as blocked for `retryAfterSeconds` (secondary limits). */
+  block(retryAfterSeconds: number, now?: Date): void
+  snapshot(): RateLimitSnapshot
+}
+
+export interface PacingOptions {
+  /** Pause used while the budget is healthy */
+  baseDelayMs: number
+  /** Requests one item of work needs (e.g. one repository touch) */
+  requestsPerItem?: number
+  /** Requests kept aside for listing and verification */
+  reserve?: number
+  /** Longest pause worth waiting for inside a run; longer waits defer */
+  maxWaitMs?: number
+}
+
+export type PacingDecision =
+  | { action: 'continue'; delayMs: number }
+  | { action: 'defer'; resumeAt: Date }
+
+/** Requests per repository touch with the most expensive strategy. */
+export const TOUCH_REQUEST_COST = 5
+export const DEFAULT_RATE_LIMIT_RESERVE = 20
+export const DEFAULT_MAX_RATE_LIMIT_WAIT_MS = 60 * 1000
+/** Throttled requests are retried this many times before failing. */
+export const MAX_RATE_LIMIT_RETRIES = 2
+
+/** Used when GitHub does not say when the limit resets. */
+const FALLBACK_RESUME_MS = 60 * 60 * 1000
+
+function readNumber(headers: Record<string, unknown>, name: string): number | null {
+  const value = headers[name]
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Extracts the rate limit fields present in a set of response headers.
+ * Missing headers are returned as null so they do not overwrite known state.
+ */
+export function parseRateLimitHeaders(
+  headers: Record<string, unknown>
+): { limit: number | null; remaining: number | null; resetAt: Date | null; retryAfterMs: number | null } {
+  const reset = readNumber(headers, 'x-ratelimit-reset')
+  const retryAfter = readNumber(headers, 'retry-after')
+  return {
+    limit: readNumber(headers, 'x-ratelimit-limit'),
+    remaining: readNumber(headers, 'x-ratelimit-remaining'),
+    resetAt: reset === null ? null : new Date(reset * 1000),
+    retryAfterMs: retryAfter === null ? null : Math.max(retryAfter, 0) * 1000,
+  }
+}
+
+export function createRateLimitBudget(): RateLimitBudget {
+  const state: RateLimitSnapshot = { limit: null, remaining: null, resetAt: null, blockedUntil: null }
+
+  function block(retryAfterSeconds: number, now: Date = new Date()): void {
+    const until = new Date(now.getTime() + Math.max(retryAfterSeconds, 0) * 1000)
+    if (!state.blockedUntil || until > state.blockedUntil) {
+      state.blockedUntil = until
+    }
+  }
+
+  return {
+    record(headers, now = new Date()) {
+      if (!headers) return
+      const parsed = parseRateLimitHeaders(headers)
+      if (parsed.limit !== null) state.limit = parsed.limit
+      if (parsed.remaining !== null) state.remaining = parsed.remaining
+      if (parsed.resetAt !== null) state.resetAt = parsed.resetAt
+      if (parsed.retryAfterMs !== null) block(parsed.retryAfterMs / 1000, now)
+    },
+    block,
+    snapshot() {
+      return { ...state }
+    },
+  }
+}
+
+/**
+ * Decides whether a throttled request should be retried after `retryAfter`
+ * seconds. Short waits are retried a bounded number of times; long ones fail
+ * fast so the caller can defer the remaining work instead of blocking a run.
+ */
+export function shouldRetryRateLimit(
+  retryAfterSeconds: number,
+  retryCount: number,
+  maxWaitMs: number = DEFAULT_MAX_RATE_LIMIT_WAIT_MS
+): boolean {
+  return retryCount < MAX_RATE_LIMIT_RETRIES && retryAfterSeconds * 1000 <= maxWaitMs
+}
+
+/**
+ * Plans the pause before the next item of work.
+ * - Blocked by a secondary limit: wait it out if short, otherwise defer
+ * - Not enough budget for one more item: wait for the reset if short,
+ *   otherwise defer until the reset
+ * - Budget running low: spread the remaining requests until the reset
+ */
+export function planRequestPacing(
+  snapshot: RateLimitSnapshot,
+  options: PacingOptions,
+  now: Date = new Date()
+): PacingDecision {
+  const cost = options.requestsPerItem ?? TOUCH_REQUEST_COST
+  const reserve = options.reserve ?? DEFAULT_RATE_LIMIT_RESERVE
+  const maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_RATE_LIMIT_WAIT_MS
+  const waitUntil = (until: Date): PacingDecision => {
+    const waitMs = until.getTime() - now.getTime()
+    return waitMs <= maxWaitMs
+      ? { action: 'continue', delayMs: Math.max(waitMs, options.baseDelayMs) }
+      : { action: 'defer', resumeAt: until }
+  }
+
+  if (snapshot.blockedUntil && snapshot.blockedUntil > now) {
+    return waitUntil(snapshot.blockedUntil)
+  }
+
+  if (snapshot.remaining === null) {
+    return { action: 'continue', delayMs: options.baseDelayMs }
+  }
+
+  const usable = snapshot.remaining - reserve
+  if (usable < cost) {
+    return waitUntil(snapshot.resetAt && snapshot.resetAt > now
+      ? snapshot.resetAt
+      : new Date(now.getTime() + FALLBACK_RESUME_MS))
+  }
+
+  if (!snapshot.resetAt || !snapshot.limit) {
+    return { action: 'continue', delayMs: options.baseDelayMs }
+  }
+
+  // Con presupuesto de sobra no hace falta repartir las peticiones
+  const itemsLeft = Math.floor(usable / cost)
+  const msUntilReset = snapshot.resetAt.getTime() - now.getTime()
+  const spread = snapshot.remaining < snapshot.limit / 4 && msUntilReset > 0
+    ? Math.min(Math.ceil(msUntilReset / itemsLeft), maxWaitMs)
+    : 0
+  return { action: 'continue', delayMs: Math.max(options.baseDelayMs, spread) }
+}
+
+// Presupuesto asociado a cada cliente creado por createGitHubClient
+const budgets = new WeakMap<object, RateLimitBudget>()
+
+export function attachRateLimitBudget(client: object, budget: RateLimitBudget): void {
+  budgets.set(client, budget)
+}
+
+/** Budget of a client created by the GitHub client wrapper, if any. */
+export function getRateLimitBudget(client: object): RateLimitBudget | undefined {
+  return budgets.get(client)
+}
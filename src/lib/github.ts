@@ -10,7 +10,10 @@
  * Provides functions for authorization, token exchange, and user data retrieval.
  */
 
-import { Octokit } from 'octokit'
+import type { Octokit } from 'octokit'
+import { createGitHubClient } from './github-client'
+import { createAppOctokit } from './github-app'
+import type { Repo } from '../types'
 
 // GitHub OAuth endpoints
 export const GITHUB_AUTH_URL = 'https://github.com/login/oauth/authorize'
@@ -92,7 +95,7 @@ export async function refreshAccessToken(refreshToken: string): Promise<{
 
 // Crear cliente Octokit con token de usuario
 export function createUserOctokit(accessToken: string): Octokit {
-  return new Octokit({ auth: accessToken })
+  return createGitHubClient({ auth: accessToken })
 }
 
 // Obtener información del usuario
@@ -266,47 +269,184 @@ export async function getUserOrgs(accessToken: string): Promise<Array<{
   return orgs
 }
 
-// Obtener repos del usuario
-export async function getUserRepos(accessToken: string) {
+/**
+ * Organizations where the user is an admin and our GitHub App is installed.
+ * Only these can get an ordering profile.
+ * @param accessToken - OAuth access token of the authenticated user
+ */
+export async function getAdministeredOrgInstallations(accessToken: string): Promise<Array<{
+  org: string
+  installationId: number
+  avatarUrl: string
+}>> {
   const octokit = createUserOctokit(accessToken)
+  const appId = parseInt(process.env.GITHUB_APP_ID!)
 
-  const repos: Array<{
-    id: number
-    name: string
-    fullName: string
-    description: string | null
-    stars: number
-    forks: number
-    language: string | null
-    updatedAt: string
-    isPrivate: boolean
-    url: string
-    owner: string
-    isOrg: boolean
-  }> = []
-
-  // Obtener todos los repos (paginado)
-  for await (const response of octokit.paginate.iterator(
-    octokit.rest.repos.listForAuthenticatedUser,
-    { per_page: 100, sort: 'updated', direction: 'desc' }
-  )) {
-    for (const repo of response.data) {
-      repos.push({
-        id: repo.id,
-        name: repo.name,
-        fullName: repo.full_name,
-        description: repo.description,
-        stars: repo.stargazers_count,
-        forks: repo.forks_count,
-        language: repo.language,
-        updatedAt: repo.updated_at || '',
-        isPrivate: repo.private,
-        url: repo.html_url,
-        owner: repo.owner.login,
-        isOrg: repo.owner.type === 'Organization',
-      })
+  const installations = await octokit.paginate(
+    octokit.rest.apps.listInstallationsForAuthenticatedUser,
+    { per_page: 100 }
+  )
+
+  const orgs: Array<{ org: string; installationId: number; avatarUrl: string }> = []
+  for (const installation of installations) {
+    const account = installation.account as { login?: string; type?: string; avatar_url?: string } | null
+    if (installation.app_id !== appId || account?.type !== 'Organization' || !account.login) continue
+
+    try {
+      const { data: membership } = await octokit.rest.orgs.getMembershipForAuthenticatedUser({ org: account.login })
+      if (membership.role === 'admin' && membership.state === 'active') {
+        orgs.push({ org: account.login, installationId: installation.id, avatarUrl: account.avatar_url || '' })
+      }
+    } catch {
+      // Sin membresía visible: no se puede administrar el perfil
     }
   }
 
-  return repos
+  return orgs
+}
+
+/**
+ * Whether the user is still an active admin of an organization. Org profiles
+ * check it again before their order is saved or synced.
+ * @param accessToken - OAuth access token of the authenticated user
+ * @param org - Organization login
+ * @throws GitHub errors other than 404 (membership unknown)
+ */
+export async function isOrgAdmin(accessToken: string, org: string): Promise<boolean> {
+  const octokit = createUserOctokit(accessToken)
+  try {
+    const { data: membership } = await octokit.rest.orgs.getMembershipForAuthenticatedUser({ org })
+    return membership.role === 'admin' && membership.state === 'active'
+  } catch (error) {
+    // 404: ya no es miembro de la organización
+    if ((error as { status?: number }).status === 404) return false
+    throw error
+  }
+}
+
+type UserRepoPage = Awaited<ReturnType<Octokit['rest']['repos']['listForAuthenticatedUser']>>
+type OrgRepo = Awaited<ReturnType<Octokit['rest']['repos']['listForOrg']>>['data'][number]
+
+function toRepo(repo: UserRepoPage['data'][number] | OrgRepo): Repo {
+  return {
+    id: repo.id,
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description,
+    stars: repo.stargazers_count ?? 0,
+    forks: repo.forks_count ?? 0,
+    language: repo.language ?? null,
+    updatedAt: repo.updated_at || '',
+    isPrivate: repo.private,
+    url: repo.html_url,
+    owner: repo.owner.login,
+    isOrg: repo.owner.type === 'Organization',
+    topics: repo.topics ?? [],
+  }
+}
+
+/**
+ * Lists the user's repositories, most recently updated first.
+ * With an `etag`, the first page is requested conditionally: GitHub answers
+ * 304 (not counted against the rate limit) when it has not changed.
+ * @param accessToken - OAuth access token
+ * @param etag - ETag of the first page from a previous call
+ * @returns `notModified`, or every repo plus the ETag of the first page
+ */
+export async function fetchUserRepos(
+  accessToken: string,
+  etag?: string | null
+): Promise<{ notModified: true } | { notModified: false; repos: Repo[]; etag: string | null }> {
+  const octokit = createUserOctokit(accessToken)
+  const request = { per_page: 100, sort: 'updated', direction: 'desc' } as const
+
+  let firstPage: UserRepoPage
+  try {
+    firstPage = await octokit.rest.repos.listForAuthenticatedUser({
+      ...request,
+      page: 1,
+      headers: etag ? { 'if-none-match': etag } : {},
+    })
+  } catch (error) {
+    if ((error as { status?: number }).status === 304) {
+      return { notModified: true }
+    }
+    throw error
+  }
+
+  const repos = firstPage.data.map(toRepo)
+
+  // Resto de páginas (paginado)
+  for (let page = 2; repos.length === (page - 1) * request.per_page; page++) {
+    const { data } = await octokit.rest.repos.listForAuthenticatedUser({ ...request, page })
+    repos.push(...data.map(toRepo))
+  }
+
+  return { notModified: false, repos, etag: firstPage.headers.etag ?? null }
+}
+
+/**
+ * Lists an organization's repositories through its app installation, most
+ * recently updated first. Not cached: org profiles are edited rarely and the
+ * listing does not spend the user's rate limit.
+ * @param installationId - Installation of the GitHub App on the organization
+ * @param org - Organization login
+ */
+export async function fetchOrgRepos(installationId: number, org: string): Promise<Repo[]> {
+  const octokit = createAppOctokit(installationId)
+  const repos = await octokit.paginate(octokit.rest.repos.listForOrg, {
+    org,
+    sort: 'updated',
+    direction: 'desc',
+    per_page: 100,
+  })
+  return repos.map(toRepo)
+}
+
+/** Public listing read by fetchPublicRepoOrder. */
+export interface PublicRepoOrder {
+  /** Full names, most recently updated first */
+  order: string[]
+  /** False when pages were left unread because every wanted repo was already found */
+  complete: boolean
+}
+
+/**
+ * An account's public repositories, in the order its repositories tab shows
+ * a logged-out visitor (most recently updated first). Pages are read until
+ * every wanted repo has been seen or the listing ends, so a wanted repo
+ * missing from an incomplete result was never looked for, and one missing
+ * from a complete result is not public.
+ * @param octokit - Any authenticated client; only public data is read
+ * @param account - `{ user }` for a personal account, `{ org }` for an organization
+ * @param wanted - Full names the caller needs to locate (the pinned list)
+ */
+export async function fetchPublicRepoOrder(
+  octokit: Octokit,
+  account: { user: string } | { org: string },
+  wanted: string[]
+): Promise<PublicRepoOrder> {
+  const pending = new Set(wanted)
+  let complete = true
+
+  const collect = (
+    response: { data: { full_name: string; private: boolean }[]; headers: { link?: string } },
+    done: () => void
+  ) => {
+    // /users/{username}/repos ya solo devuelve públicos; se filtra por si acaso
+    const names = response.data.filter((repo) => !repo.private).map((repo) => repo.full_name)
+    for (const name of names) pending.delete(name)
+    if (pending.size === 0) {
+      complete = !response.headers.link?.includes('rel="next"')
+      done()
+    }
+    return names
+  }
+
+  const request = { sort: 'updated', direction: 'desc', per_page: 100 } as const
+  const order = 'org' in account
+    ? await octokit.paginate(octokit.rest.repos.listForOrg, { ...request, org: account.org, type: 'public' }, collect)
+    : await octokit.paginate(octokit.rest.repos.listForUser, { ...request, username: account.user, type: 'owner' }, collect)
+
+  return { order, complete }
 }
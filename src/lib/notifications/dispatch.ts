@@ -0,0 +1,99 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Notification Dispatcher
+ * Sends notifications to the user's enabled channels subscribed to the event
+ * and records every delivery attempt in `notification_deliveries` (last 50
+ * per channel) so failures can be debugged from the dashboard. Best-effort:
+ * a failed delivery or database write never fails the sync that caused it.
+ */
+
+import type { NotificationChannel } from '../../generated/prisma/client'
+import { prisma } from '../prisma'
+import { decrypt } from '../crypto'
+import { deliverNotification, type DeliveryAttempt } from './channels'
+import { isNotificationChannelType, parseNotificationEvents, type NotificationPayload } from './events'
+
+const DELIVERY_HISTORY_LIMIT = 50
+
+async function recordAttempts(channelId: string, event: string, attempts: DeliveryAttempt[]): Promise<void> {
+  for (const attempt of attempts) {
+    await prisma.notificationDelivery.create({
+      data: {
+        channelId,
+        event,
+        attempt: attempt.attempt,
+        status: attempt.ok ? 'success' : 'failed',
+        statusCode: attempt.statusCode,
+        error: attempt.error,
+        durationMs: attempt.durationMs,
+      },
+    })
+  }
+
+  const stale = await prisma.notificationDelivery.findMany({
+    where: { channelId },
+    orderBy: { createdAt: 'desc' },
+    skip: DELIVERY_HISTORY_LIMIT,
+    select: { id: true },
+  })
+  if (stale.length > 0) {
+    await prisma.notificationDelivery.deleteMany({ where: { id: { in: stale.map((row) => row.id) } } })
+  }
+}
+
+/**
+ * Delivers one notification through one channel and records the attempts.
+ * @returns The attempts made (empty when the channel cannot be decrypted)
+ */
+export async function deliverToChannel(
+  channel: NotificationChannel,
+  payload: NotificationPayload
+): Promise<DeliveryAttempt[]> {
+  if (!isNotificationChannelType(channel.type)) return []
+
+  let attempts: DeliveryAttempt[]
+  try {
+    attempts = await deliverNotification({
+      type: channel.type,
+      target: decrypt(channel.target),
+      secret: channel.secret ? decrypt(channel.secret) : null,
+    }, payload)
+  } catch (error) {
+    console.error('Failed to prepare notification channel:', { channelId: channel.id, error })
+    attempts = [{ attempt: 1, ok: false, statusCode: null, error: 'Channel could not be decrypted', durationMs: 0 }]
+  }
+
+  try {
+    await recordAttempts(channel.id, payload.event, attempts)
+  } catch (error) {
+    console.error('Failed to record notification delivery:', { channelId: channel.id, error })
+  }
+  return attempts
+}
+
+/**
+ * Sends notifications to every enabled channel of the user that subscribes
+ * to their event. Never throws.
+ */
+export async function notifyUser(userId: string, payloads: NotificationPayload[]): Promise<void> {
+  if (payloads.length === 0) return
+  try {
+    const channels = await prisma.notificationChannel.findMany({
+      where: { userId, enabled: true },
+    })
+    for (const channel of channels) {
+      const events = parseNotificationEvents(channel.events)
+      for (const payload of payloads) {
+        if (payload.event !== 'test' && !events.includes(payload.event)) continue
+        await deliverToChannel(channel, payload)
+      }
+    }
+  } catch (error) {
+    console.error('Failed to send notifications:', { userId, error })
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Notification Events
+ * Which sync outcomes notify a user and what the notification says, plus
+ * validation of channel settings coming from the dashboard. Pure module:
+ * no database or network access.
+ */
+
+import type { NotificationChannelType, NotificationEvent } from '../../types'
+
+export const NOTIFICATION_EVENTS: readonly NotificationEvent[] = [
+  'sync_failed',
+  'sync_partial',
+  'repo_quarantined',
+  'drift_detected',
+]
+
+export const NOTIFICATION_CHANNEL_TYPES: readonly NotificationChannelType[] = ['webhook', 'slack', 'email']
+
+export const MAX_NOTIFICATION_CHANNELS = 10
+const MAX_NAME_LENGTH = 60
+const MAX_URL_LENGTH = 2048
+const MAX_REPOS_LISTED = 20
+
+/** Content sent through every channel type. */
+export interface NotificationPayload {
+  event: NotificationEvent | 'test'
+  title: string
+  summary: string
+  /** Organization login, null for the personal profile */
+  org: string | null
+  repos: string[]
+  occurredAt: string
+}
+
+export function isNotificationEvent(value: unknown): value is NotificationEvent {
+  return NOTIFICATION_EVENTS.includes(value as NotificationEvent)
+}
+
+export function isNotificationChannelType(value: unknown): value is NotificationChannelType {
+  return NOTIFICATION_CHANNEL_TYPES.includes(value as NotificationChannelType)
+}
+
+/** Keeps known events, without duplicates. Non-arrays yield an empty list. */
+export function sanitizeNotificationEvents(raw: unknown): NotificationEvent[] {
+  if (!Array.isArray(raw)) return []
+  return NOTIFICATION_EVENTS.filter((event) => raw.includes(event))
+}
+
+/** Parses the stored `events` column. */
+export function parseNotificationEvents(raw: string): NotificationEvent[] {
+  try {
+    return sanitizeNotificationEvents(JSON.parse(raw))
+  } catch {
+    return []
+  }
+}
+
+export function parseChannelName(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null
+  const name = raw.trim()
+  return name.length > 0 && name.length <= MAX_NAME_LENGTH ? name : null
+}
+
+function isPrivateIPv4(host: string): boolean {
+  const parts = host.split('.').map(Number)
+  if (parts.length !== 4 || parts.some((part) => !Number.isInteger(part) || part < 0 || part > 255)) return false
+  const [a, b] = parts
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or unspecified.
+ * Also applied to every address a webhook host resolves to before delivery.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.toLowerCase()
+  if (host.includes(':')) {
+    // IPv6: loopback, unspecified, unique local (fc00::/7), link local (fe80::/10), mapped IPv4
+    return host === '::1' || host === '::' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:')
+  }
+  return isPrivateIPv4(host)
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true
+  }
+  return isPrivateAddress(host)
+}
+
+/**
+ * Validates a webhook URL. Only https, without credentials, and (unless
+ * `allowPrivateHosts`) never a loopback, private or link-local host literal.
+ * Names that resolve to such addresses are refused at delivery time
+ * (./channels), where the resolved address is checked and connected to.
+ * @returns The normalized URL, or null when it is not acceptable
+ */
+export function sanitizeWebhookUrl(raw: unknown, options: { allowPrivateHosts?: boolean } = {}): string | null {
+  if (typeof raw !== 'string' || raw.length > MAX_URL_LENGTH) return null
+  let url: URL
+  try {
+    url = new URL(raw.trim())
+  } catch {
+    return null
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) return null
+  if (!options.allowPrivateHosts && isPrivateHost(url.hostname)) return null
+  return url.toString()
+}
+
+export function sanitizeEmailAddress(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null
+  const email = raw.trim()
+  return email.length <= 254 && /^[^\s@<>"]+@[^\s@<>"]+\.[^\s@<>"]+$/.test(email) ? email : null
+}
+
+/**
+ * Hides the secret part of a target: webhook URLs keep their host only,
+ * email addresses keep the first letter of the local part.
+ */
+export function maskChannelTarget(type: NotificationChannelType, target: string): string {
+  if (type === 'email') {
+    const [local, domain] = target.split('@')
+    return `${local.slice(0, 1)}***@${domain ?? ''}`
+  }
+  try {
+    return `https://${new URL(target).host}/…`
+  } catch {
+    return '…'
+  }
+}
+
+/** Per-run figures used to decide which sync events fire. */
+export interface SyncNotificationInput {
+  org: string | null
+  successful: string[]
+  failed: string[]
+  /** Repos left for a later run (rate limit) */
+  deferred?: string[]
+  /** Order still wrong after the verification retry */
+  verificationDrifted?: boolean
+  newlyQuarantined: string[]
+}
+
+/**
+ * Notifications for a finished sync: failure when no repo could be touched,
+ * partial success otherwise, plus one for repos quarantined by this run.
+ */
+export function buildSyncNotifications(input: SyncNotificationInput, now: Date = new Date()): NotificationPayload[] {
+  const account = input.org ? `organization ${input.org}` : 'your profile'
+  const occurredAt = now.toISOString()
+  const payloads: NotificationPayload[] = []
+
+  if (input.failed.length > 0 && input.successful.length === 0) {
+    payloads.push({
+      event: 'sync_failed',
+      title: 'GitPins sync failed',
+      summary: `None of the ${input.failed.length} repositories could be touched for ${account}.`,
+      org: input.org,
+      repos: input.failed.slice(0, MAX_REPOS_LISTED),
+      occurredAt,
+    })
+  } else if (input.failed.length > 0 || (input.deferred?.length ?? 0) > 0 || input.verificationDrifted) {
+    const parts = [`${input.successful.length} touched`]
+    if (input.failed.length > 0) parts.push(`${input.failed.length} failed`)
+    if (input.deferred?.length) parts.push(`${input.deferred.length} deferred by the GitHub rate limit`)
+    if (input.verificationDrifted) parts.push('order still not matching after the retry')
+    payloads.push({
+      event: 'sync_partial',
+      title: 'GitPins sync partially succeeded',
+      summary: `Sync for ${account}: ${parts.join(', ')}.`,
+      org: input.org,
+      repos: [...input.failed, ...(input.deferred ?? [])].slice(0, MAX_REPOS_LISTED),
+      occurredAt,
+    })
+  }
+
+  if (input.newlyQuarantined.length > 0) {
+    payloads.push({
+      event: 'repo_quarantined',
+      title: 'GitPins quarantined repositories',
+      summary: `${input.newlyQuarantined.length} pinned repositories of ${account} failed three syncs in a row and are skipped until you retry them from the dashboard.`,
+      org: input.org,
+      repos: input.newlyQuarantined.slice(0, MAX_REPOS_LISTED),
+      occurredAt,
+    })
+  }
+
+  return payloads
+}
+
+/** Notification for a job that crashed before finishing. */
+export function buildSyncCrashNotification(org: string | null, now: Date = new Date()): NotificationPayload {
+  return {
+    event: 'sync_failed',
+    title: 'GitPins sync failed',
+    summary: `The sync for ${org ? `organization ${org}` : 'your profile'} stopped with an unexpected error.`,
+    org,
+    repos: [],
+    occurredAt: now.toISOString(),
+  }
+}
+
+export function buildDriftNotification(
+  input: { org: string | null; currentTop: string[]; outOfPlace: string[] },
+  now: Date = new Date()
+): NotificationPayload {
+  return {
+    event: 'drift_detected',
+    title: 'Your pinned repositories drifted',
+    summary: `The live order of ${input.org ? `organization ${input.org}` : 'your profile'} no longer matches your pinned list. Visitors now see: ${input.currentTop.join(', ') || 'nothing'}.`,
+    org: input.org,
+    repos: input.outOfPlace.slice(0, MAX_REPOS_LISTED),
+    occurredAt: now.toISOString(),
+  }
+}
+
+export function buildTestNotification(now: Date = new Date()): NotificationPayload {
+  return {
+    event: 'test',
+    title: 'GitPins test notification',
+    summary: 'This channel is set up correctly. GitPins will notify you here about sync failures, quarantines and drift.',
+    org: null,
+    repos: [],
+    occurredAt: now.toISOString(),
+  }
+}
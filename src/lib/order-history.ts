@@ -0,0 +1,73 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Order History
+ * Side effects of saving a new order, shared by the dashboard
+ * (POST /api/repos/order) and the public API (PUT /api/v1/order): the active
+ * named profile follows the edit, the personal profile gets a restorable
+ * snapshot and the change is written to `sync_logs`.
+ */
+
+import type { RepoOrder } from '../generated/prisma/client'
+import { prisma } from './prisma'
+
+// Snapshots restaurables que se conservan por usuario
+export const MAX_ORDER_SNAPSHOTS = 20
+
+/**
+ * Records a saved order.
+ * @param repoOrder - Account row after the save
+ * @param reposOrder - Saved order (already validated)
+ */
+export async function recordOrderSave(
+  repoOrder: Pick<RepoOrder, 'id' | 'userId' | 'org' | 'topN' | 'activeProfileId'>,
+  reposOrder: string[]
+): Promise<void> {
+  const reposOrderJson = JSON.stringify(reposOrder)
+
+  // El perfil con nombre activo sigue las ediciones del orden
+  if (repoOrder.activeProfileId) {
+    await prisma.orderProfile.updateMany({
+      where: { id: repoOrder.activeProfileId, repoOrderId: repoOrder.id },
+      data: { reposOrder: reposOrderJson, topN: repoOrder.topN },
+    })
+  }
+
+  // Guardar snapshot del historial (solo el perfil personal tiene historial restaurable)
+  if (!repoOrder.org) await prisma.orderSnapshot.create({
+    data: {
+      userId: repoOrder.userId,
+      reposOrder: reposOrderJson,
+      topN: repoOrder.topN,
+      changeType: 'manual',
+    },
+  })
+
+  // Limpiar snapshots antiguos (mantener solo los últimos 20)
+  const oldSnapshots = await prisma.orderSnapshot.findMany({
+    where: { userId: repoOrder.userId },
+    orderBy: { createdAt: 'desc' },
+    skip: MAX_ORDER_SNAPSHOTS,
+    select: { id: true },
+  })
+  if (oldSnapshots.length > 0) {
+    await prisma.orderSnapshot.deleteMany({
+      where: { id: { in: oldSnapshots.map((s: { id: string }) => s.id) } },
+    })
+  }
+
+  // Registrar en log
+  await prisma.syncLog.create({
+    data: {
+      userId: repoOrder.userId,
+      action: 'manual_order',
+      status: 'success',
+      details: JSON.stringify({ reposCount: reposOrder.length, org: repoOrder.org }),
+      reposAffected: JSON.stringify(reposOrder.slice(0, repoOrder.topN)),
+    },
+  })
+}
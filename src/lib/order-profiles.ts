@@ -0,0 +1,100 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Named Order Profiles
+ * Activation of saved showcases (`order_profiles`) for an account: copies the
+ * profile's order into `repo_orders` and records the switch in `sync_logs`.
+ * Used by the dashboard ("Activate") and by the sync pipeline, which applies
+ * scheduled rotations (see ./sync/rotation) before planning.
+ */
+
+import type { OrderProfile, RepoOrder } from '../generated/prisma/client'
+import { prisma } from './prisma'
+import { findDueRotation } from './sync/rotation'
+
+type ActivationTarget = Pick<RepoOrder, 'id' | 'userId' | 'org'>
+
+/**
+ * Makes a named profile the account's saved order.
+ * @param repoOrder - Account (personal or organization) the profile belongs to
+ * @param profile - Profile to activate
+ * @param log - Sync log action and extra details describing why it switched
+ * @returns The updated account row
+ */
+export async function activateOrderProfile(
+  repoOrder: ActivationTarget,
+  profile: OrderProfile,
+  log: { action: 'profile_activated' | 'profile_rotated'; details?: Record<string, unknown> }
+): Promise<RepoOrder> {
+  const updated = await prisma.repoOrder.update({
+    where: { id: repoOrder.id },
+    data: {
+      reposOrder: profile.reposOrder,
+      topN: profile.topN,
+      activeProfileId: profile.id,
+    },
+  })
+
+  let reposAffected: unknown = []
+  try {
+    reposAffected = (JSON.parse(profile.reposOrder) as unknown[]).slice(0, profile.topN)
+  } catch {
+    // Orden corrupto: el log queda sin repos
+  }
+
+  await prisma.syncLog.create({
+    data: {
+      userId: repoOrder.userId,
+      action: log.action,
+      status: 'success',
+      details: JSON.stringify({
+        profile: profile.name,
+        profileId: profile.id,
+        org: repoOrder.org ?? undefined,
+        ...log.details,
+      }),
+      reposAffected: JSON.stringify(reposAffected),
+    },
+  })
+
+  return updated
+}
+
+/**
+ * Applies the rotation scheduled since the last check, if any, and moves the
+ * check forward. Accounts without scheduled profiles are left untouched.
+ * @returns The account row to sync (updated when a profile was activated) and
+ *          whether a rotation happened
+ */
+export async function applyDueRotation<T extends RepoOrder>(
+  repoOrder: T,
+  now: Date = new Date()
+): Promise<{ repoOrder: T; rotated: boolean }> {
+  const profiles = await prisma.orderProfile.findMany({
+    where: {
+      repoOrderId: repoOrder.id,
+      OR: [{ activateAt: { not: null } }, { cron: { not: null } }],
+    },
+  })
+  if (profiles.length === 0) return { repoOrder, rotated: false }
+
+  const due = findDueRotation(profiles, repoOrder.rotationCheckedAt, now)
+  await prisma.repoOrder.update({
+    where: { id: repoOrder.id },
+    data: { rotationCheckedAt: now },
+  })
+
+  if (!due || due.profile.id === repoOrder.activeProfileId) {
+    return { repoOrder: { ...repoOrder, rotationCheckedAt: now }, rotated: false }
+  }
+
+  const updated = await activateOrderProfile(repoOrder, due.profile, {
+    action: 'profile_rotated',
+    details: { trigger: due.trigger, scheduledAt: due.scheduledAt.toISOString(), cron: due.profile.cron ?? undefined },
+  })
+  return { repoOrder: { ...repoOrder, ...updated }, rotated: true }
+}
@@ -0,0 +1,80 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Organization Profile Access
+ * An org profile is created by an admin of the organization, but they can be
+ * demoted or removed later. Saving the order and every sync check the
+ * membership again; a profile whose owner is no longer an admin gets its
+ * automatic sync turned off so the scheduler stops picking it up.
+ */
+
+import { prisma } from './prisma'
+import { ensureValidToken, isOrgAdmin } from './github'
+
+/**
+ * - `ok`: still an admin
+ * - `revoked`: no longer an admin (the profile was disabled)
+ * - `token_expired`: the user's GitHub token could not be refreshed
+ * - `unavailable`: GitHub did not answer; nothing was changed
+ */
+export type OrgAccessCheck = 'ok' | 'revoked' | 'token_expired' | 'unavailable'
+
+/**
+ * Checks that the user still administers the profile's organization and
+ * disables the profile when they do not.
+ * @param userId - Owner of the profile
+ * @param org - Organization login of the profile
+ */
+export async function checkOrgProfileAccess(userId: string, org: string): Promise<OrgAccessCheck> {
+  let accessToken: string
+  try {
+    accessToken = (await ensureValidToken(userId)).accessToken
+  } catch {
+    return 'token_expired'
+  }
+
+  try {
+    if (await isOrgAdmin(accessToken, org)) return 'ok'
+  } catch (error) {
+    console.error('Error checking organization membership:', { org, error })
+    return 'unavailable'
+  }
+
+  const { count } = await prisma.repoOrder.updateMany({
+    where: { userId, org, autoEnabled: true },
+    data: { autoEnabled: false },
+  })
+  if (count > 0) {
+    await prisma.syncLog.create({
+      data: {
+        userId,
+        action: 'org_access_revoked',
+        status: 'error',
+        details: JSON.stringify({ org, reason: 'not_org_admin' }),
+        reposAffected: '[]',
+      },
+    })
+  }
+  return 'revoked'
+}
+
+/**
+ * Response for a failed check, shared by the order routes and the sync guard.
+ */
+export function describeOrgAccessFailure(access: Exclude<OrgAccessCheck, 'ok'>): {
+  status: number
+  body: { error: string; reason?: string }
+} {
+  switch (access) {
+    case 'revoked':
+      return { status: 403, body: { error: 'Forbidden', reason: 'not_org_admin' } }
+    case 'token_expired':
+      return { status: 401, body: { error: 'GitHub authentication expired. Please log in again.', reason: 'token_expired' } }
+    case 'unavailable':
+      return { status: 502, body: { error: 'Could not verify organization membership' } }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Pinned Repository Renames
+ * Keeps `repo_orders.reposOrder` pointing at current repository names. Given
+ * a fresh listing of the account's repositories, pins are matched by GitHub id
+ * (see ./sync/repo-ids), renamed or transferred repos are rewritten in place
+ * and each rename is recorded in `sync_logs`. Used by `GET /api/repos` and the
+ * sync pipeline.
+ */
+
+import type { RepoOrder } from '../generated/prisma/client'
+import type { Repo } from '../types'
+import { prisma } from './prisma'
+import { parseRepoStrategies, renameRepoStrategy } from './sync/strategies'
+import { parseRepoIds, reconcileRepoIds, type PinnedRename } from './sync/repo-ids'
+
+function parseOrder(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Resolves the account's pinned repos against its current repositories and
+ * saves the result when a name changed or new ids were learned.
+ * @param repoOrder - Account (personal or organization) to reconcile
+ * @param repos - Fresh listing of the account's repositories
+ * @returns The account row with the updated order and the renames applied
+ */
+export async function applyPinnedRenames<T extends RepoOrder>(
+  repoOrder: T,
+  repos: Array<Pick<Repo, 'id' | 'fullName'>>
+): Promise<{ repoOrder: T; renamed: PinnedRename[] }> {
+  const { order, ids, renamed, changed } = reconcileRepoIds(
+    parseOrder(repoOrder.reposOrder),
+    parseRepoIds(repoOrder.reposOrderIds),
+    repos
+  )
+  if (!changed) return { repoOrder, renamed }
+
+  const reposOrder = JSON.stringify(order)
+  const reposOrderIds = JSON.stringify(ids)
+  // La estrategia por repo sigue al repo renombrado
+  const repoStrategies = JSON.stringify(renamed.reduce(
+    (overrides, rename) => renameRepoStrategy(overrides, rename.from, rename.to),
+    parseRepoStrategies(repoOrder.repoStrategies)
+  ))
+
+  await prisma.repoOrder.update({
+    where: { id: repoOrder.id },
+    data: renamed.length > 0 ? { reposOrder, reposOrderIds, repoStrategies } : { reposOrderIds },
+  })
+  if (renamed.length === 0) {
+    return { repoOrder: { ...repoOrder, reposOrderIds }, renamed }
+  }
+
+  // El perfil con nombre activo sigue las ediciones del orden
+  if (repoOrder.activeProfileId) {
+    await prisma.orderProfile.updateMany({
+      where: { id: repoOrder.activeProfileId, repoOrderId: repoOrder.id },
+      data: { reposOrder },
+    })
+  }
+
+  for (const rename of renamed) {
+    await prisma.syncLog.create({
+      data: {
+        userId: repoOrder.userId,
+        action: 'repo_renamed',
+        status: 'success',
+        details: JSON.stringify({
+          reason: 'Pinned repository was renamed or transferred on GitHub',
+          from: rename.from,
+          to: rename.to,
+          repoId: rename.id,
+          org: repoOrder.org ?? undefined,
+        }),
+        reposAffected: JSON.stringify([rename.to]),
+      },
+    })
+  }
+
+  return { repoOrder: { ...repoOrder, reposOrder, reposOrderIds, repoStrategies }, renamed }
+}
@@ -0,0 +1,56 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Ordering Profiles
+ * A user has one personal profile (`repo_orders.org = null`) and may add one
+ * profile per organization they administer where the GitHub App is
+ * installed. Each profile has its own order, topN, schedule and sync secret;
+ * org profiles are synced with the org's installation and planned against
+ * the org's repository listing.
+ */
+
+/** Profile key: null is the personal account, otherwise an organization login. */
+export type ProfileOrg = string | null
+
+/** Organization profiles a single user can create. */
+export const MAX_ORG_PROFILES = 20
+
+// Logins de GitHub: alfanuméricos y guiones simples, sin guion inicial/final, máx 39
+const ORG_LOGIN_REGEX = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i
+
+export function isValidOrgLogin(value: unknown): value is string {
+  return typeof value === 'string' && ORG_LOGIN_REGEX.test(value)
+}
+
+/**
+ * Profile key of an organization. Logins are case-insensitive on GitHub, so
+ * profiles are stored and looked up lowercased.
+ */
+export function normalizeOrgLogin(login: string): string {
+  return login.toLowerCase()
+}
+
+/**
+ * Reads an `org` query or body parameter. Missing or empty selects the
+ * personal profile.
+ * @returns The (lowercased) profile key, or undefined when the value is not a valid login
+ */
+export function parseProfileOrg(value: unknown): ProfileOrg | undefined {
+  if (value === undefined || value === null || value === '') return null
+  return isValidOrgLogin(value) ? normalizeOrgLogin(value) : undefined
+}
+
+/**
+ * Installation used to sync a profile: the org's own installation, or the
+ * user's personal one.
+ */
+export function getProfileInstallationId(
+  profile: { org: string | null; installationId: number | null },
+  user: { installationId: number | null }
+): number | null {
+  return profile.org ? profile.installationId : user.installationId
+}
@@ -242,4 +242,9 @@ export const rateLimits = {
     windowMs: 60 * 1000,
     maxRequests: 30,
   },
+  apiToken: {
+    scope: 'api_token',
+    windowMs: 60 * 1000,
+    maxRequests: 60,
+  },
 } satisfies Record<string, RateLimitConfig>
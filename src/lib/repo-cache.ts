@@ -0,0 +1,134 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Repository Cache
+ * Persists each user's repository list (`repo_caches`) so the dashboard and
+ * the sync planner do not paginate every repo on each request.
+ * - Within `REPO_CACHE_TTL_MS` the stored list is used as is
+ * - After that, the first page is revalidated with its ETag; a 304 keeps
+ *   the list and costs no rate limit
+ * - After `REPO_CACHE_MAX_AGE_MS`, on explicit refresh or without an ETag,
+ *   the full list is downloaded again
+ */
+
+import type { Repo } from '../types'
+
+/** How long a cached list is used without asking GitHub. */
+export const REPO_CACHE_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Maximum age of a full download. The ETag only covers the first page, so
+ * changes limited to older repos are picked up at the latest after this.
+ */
+export const REPO_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+/** Where a returned list came from. */
+export type RepoCacheSource = 'cache' | 'revalidated' | 'github'
+
+/** Stored cache fields needed to decide how to read it. */
+export interface RepoCacheEntry {
+  etag: string | null
+  fetchedAt: Date
+  checkedAt: Date
+}
+
+export interface RepoCacheReadOptions {
+  /** Download the full list even if the cache is fresh (dashboard refresh) */
+  refresh?: boolean
+  /** Override `REPO_CACHE_TTL_MS`; 0 always revalidates */
+  ttlMs?: number
+}
+
+export interface CachedRepos {
+  repos: Repo[]
+  fetchedAt: Date
+  source: RepoCacheSource
+}
+
+/**
+ * Decides whether a cached list can be used, must be revalidated with its
+ * ETag, or must be downloaded again.
+ */
+export function planRepoCacheRead(
+  entry: RepoCacheEntry | null,
+  options: RepoCacheReadOptions = {},
+  now: Date = new Date()
+): 'use' | 'revalidate' | 'fetch' {
+  if (!entry || options.refresh || !entry.etag) return 'fetch'
+  if (now.getTime() - entry.fetchedAt.getTime() >= REPO_CACHE_MAX_AGE_MS) return 'fetch'
+
+  const ttlMs = options.ttlMs ?? REPO_CACHE_TTL_MS
+  return now.getTime() - entry.checkedAt.getTime() < ttlMs ? 'use' : 'revalidate'
+}
+
+/**
+ * Parses the stored list. Returns null for malformed data so the caller
+ * downloads it again.
+ */
+export function parseCachedRepos(raw: string): Repo[] | null {
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return null
+    return parsed.every((repo) => typeof repo?.fullName === 'string') ? parsed as Repo[] : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Returns the user's repositories, most recently updated first, reading
+ * the cache when possible.
+ * @param userId - Owner of the cache row
+ * @param accessToken - OAuth token used when GitHub must be asked
+ */
+export async function getCachedUserRepos(
+  userId: string,
+  accessToken: string,
+  options: RepoCacheReadOptions = {}
+): Promise<CachedRepos> {
+  const { prisma } = await import('./prisma')
+  const { fetchUserRepos } = await import('./github')
+  const now = new Date()
+
+  const row = await prisma.repoCache.findUnique({ where: { userId } })
+  const cachedRepos = row ? parseCachedRepos(row.repos) : null
+  const plan = planRepoCacheRead(cachedRepos ? row : null, options, now)
+
+  if (plan === 'use' && row && cachedRepos) {
+    return { repos: cachedRepos, fetchedAt: row.fetchedAt, source: 'cache' }
+  }
+
+  const result = await fetchUserRepos(accessToken, plan === 'revalidate' ? row?.etag : null)
+
+  // Solo hay 304 al revalidar, es decir, con una lista válida guardada
+  if (result.notModified) {
+    await prisma.repoCache.update({ where: { userId }, data: { checkedAt: now } })
+    return { repos: cachedRepos ?? [], fetchedAt: row?.fetchedAt ?? now, source: 'revalidated' }
+  }
+
+  const { repos, etag } = result
+  await prisma.repoCache.upsert({
+    where: { userId },
+    create: { userId, repos: JSON.stringify(repos), etag, fetchedAt: now, checkedAt: now },
+    update: { repos: JSON.stringify(repos), etag, fetchedAt: now, checkedAt: now },
+  })
+
+  return { repos, fetchedAt: now, source: 'github' }
+}
+
+/**
+ * Forces the next read to download the full list (dropping the ETag). Called
+ * after a sync touches repositories or a webhook changes them. Best-effort.
+ */
+export async function invalidateRepoCache(userId: string): Promise<void> {
+  const { prisma } = await import('./prisma')
+  try {
+    await prisma.repoCache.updateMany({ where: { userId }, data: { etag: null } })
+  } catch (error) {
+    console.error('Failed to invalidate repo cache:', error)
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Scheduler Module
+ * Optional in-process scheduler for self-hosted instances. When enabled with
+ * GITPINS_SCHEDULER_ENABLED=true, it periodically scans saved orders whose
+ * `lastSyncAt + syncFrequency` has elapsed and runs the same pipeline as
+ * `POST /api/sync/[secret]`, so users do not need a config repo workflow.
+ * Syncs deferred by the GitHub rate limit are picked up again at `resumeSyncAt`,
+ * and scheduled profile rotations trigger a sync as soon as they fire.
+ * Between syncs, each tick also runs the drift checks that are due and starts
+ * an early sync for accounts that opted in.
+ */
+
+import { findDueRotation, type RotatingProfile } from './sync/rotation'
+import { getDriftCheckIntervalMs, isDriftCheckDue } from './sync/drift'
+
+const HOUR_MS = 60 * 60 * 1000
+const DEFAULT_INTERVAL_MINUTES = 5
+const DEFAULT_CONCURRENCY = 2
+
+/** Fields of a saved order that decide whether a sync is due. */
+export interface SchedulableOrder {
+  autoEnabled: boolean
+  syncFrequency: number
+  preferredHour: number | null
+  lastSyncAt: Date | null
+  /** Set when a previous run was cut short by the GitHub rate limit */
+  resumeSyncAt?: Date | null
+  /** Named profiles with a rotation schedule */
+  orderProfiles?: RotatingProfile[]
+  rotationCheckedAt?: Date | null
+}
+
+export interface SchedulerConfig {
+  enabled: boolean
+  intervalMs: number
+  concurrency: number
+}
+
+export interface SchedulerTickResult {
+  checked: number
+  due: number
+  synced: number
+  failed: number
+  /** Drift checks run this tick */
+  driftChecked: number
+  /** Early syncs started because drift was detected */
+  earlySynced: number
+}
+
+function parsePositiveInt(raw: string | undefined, fallback: number): number {
+  const parsed = raw ? Number.parseInt(raw, 10) : Number.NaN
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Reads scheduler settings from the environment.
+ * - GITPINS_SCHEDULER_ENABLED: "true" to run syncs in-process
+ * - GITPINS_SCHEDULER_INTERVAL_MINUTES: how often due orders are scanned (default 5)
+ * - GITPINS_SCHEDULER_CONCURRENCY: how many users are synced in parallel (default 2)
+ */
+export function getSchedulerConfig(env: NodeJS.ProcessEnv = process.env): SchedulerConfig {
+  return {
+    enabled: env.GITPINS_SCHEDULER_ENABLED === 'true',
+    intervalMs: parsePositiveInt(env.GITPINS_SCHEDULER_INTERVAL_MINUTES, DEFAULT_INTERVAL_MINUTES) * 60 * 1000,
+    concurrency: parsePositiveInt(env.GITPINS_SCHEDULER_CONCURRENCY, DEFAULT_CONCURRENCY),
+  }
+}
+
+export function isSchedulerEnabled(): boolean {
+  return getSchedulerConfig().enabled
+}
+
+/**
+ * Decides whether a saved order should be synced now.
+ * With a preferred hour, the order only runs during that UTC hour and the
+ * frequency window is shortened by one hour (never below one hour) so a
+ * daily run does not slip past its hour because the previous run started a
+ * few minutes late.
+ * A deferred run is due as soon as its resume time has passed, at any hour,
+ * and so is a run with a profile rotation scheduled since the last check.
+ */
+export function isSyncDue(order: SchedulableOrder, now: Date = new Date()): boolean {
+  if (!order.autoEnabled) return false
+
+  if (order.resumeSyncAt && order.resumeSyncAt.getTime() <= now.getTime()) {
+    return true
+  }
+
+  if (order.orderProfiles && findDueRotation(order.orderProfiles, order.rotationCheckedAt ?? null, now)) {
+    return true
+  }
+
+  if (order.preferredHour !== null && now.getUTCHours() !== order.preferredHour) {
+    return false
+  }
+
+  if (!order.lastSyncAt) return true
+
+  const slackMs = order.preferredHour !== null ? HOUR_MS : 0
+  const frequencyMs = Math.max(order.syncFrequency, 1) * HOUR_MS
+  // Con syncFrequency = 1 el umbral quedaría en 0 y se sincronizaría en cada tick de esa hora
+  return now.getTime() - order.lastSyncAt.getTime() >= Math.max(frequencyMs - slackMs, HOUR_MS)
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight.
+ * Worker errors are reported per item and never stop the batch.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<Array<{ item: T; result?: R; error?: unknown }>> {
+  const outcomes: Array<{ item: T; result?: R; error?: unknown }> = new Array(items.length)
+  let nextIndex = 0
+
+  async function lane(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      const item = items[index]
+      try {
+        outcomes[index] = { item, result: await worker(item) }
+      } catch (error) {
+        outcomes[index] = { item, error }
+      }
+    }
+  }
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => lane())
+  await Promise.all(lanes)
+  return outcomes
+}
+
+/**
+ * Scans saved orders once and syncs every order that is due.
+ * @param now - Reference time (injectable for tests and manual runs)
+ */
+export async function runSchedulerTick(now: Date = new Date()): Promise<SchedulerTickResult> {
+  const { prisma } = await import('./prisma')
+  const { startSyncJob } = await import('./sync')
+  const { runDriftCheck } = await import('./drift-monitor')
+  const config = getSchedulerConfig()
+
+  const candidates = await prisma.repoOrder.findMany({
+    where: {
+      autoEnabled: true,
+      syncSecret: { not: null },
+      user: { isBanned: false },
+      // Perfil personal con la instalación del usuario, o perfil de org con la suya
+      OR: [
+        { org: null, user: { installationId: { not: null } } },
+        { org: { not: null }, installationId: { not: null } },
+      ],
+    },
+    include: {
+      user: true,
+      orderProfiles: {
+        where: { OR: [{ activateAt: { not: null } }, { cron: { not: null } }] },
+        select: { id: true, activateAt: true, cron: true },
+      },
+    },
+  })
+
+  const due = candidates.filter((order) => isSyncDue(order, now))
+  const outcomes = await runWithConcurrency(due, config.concurrency, async (order) => {
+    const dispatch = await startSyncJob(order, { trigger: 'scheduler' })
+    return dispatch.background ? dispatch.background() : dispatch
+  })
+
+  let synced = 0
+  let failed = 0
+  for (const outcome of outcomes) {
+    if (outcome.error || !outcome.result || outcome.result.status >= 400) {
+      failed++
+      console.error('Scheduled sync failed:', {
+        repoOrderId: outcome.item.id,
+        status: outcome.result?.status,
+        error: outcome.error,
+      })
+    } else {
+      synced++
+    }
+  }
+
+  // Comprobaciones de deriva: también para perfiles con el sync automático desactivado
+  const driftIntervalMs = getDriftCheckIntervalMs()
+  const syncedIds = new Set(due.map((order) => order.id))
+  const driftCandidates = driftIntervalMs > 0
+    ? await prisma.repoOrder.findMany({
+        where: {
+          id: { notIn: [...syncedIds] },
+          syncSecret: { not: null },
+          user: { isBanned: false },
+          OR: [
+            { org: null, user: { installationId: { not: null } } },
+            { org: { not: null }, installationId: { not: null } },
+          ],
+        },
+        include: { user: true },
+      })
+    : []
+
+  const driftDue = driftCandidates.filter((order) => isDriftCheckDue(order, driftIntervalMs, now))
+  const driftOutcomes = await runWithConcurrency(driftDue, config.concurrency, async (order) => {
+    const drift = await runDriftCheck(order, { allowEarlySync: true, now })
+    if ('outcome' in drift || !drift.check.earlySync) return false
+
+    // Sync anticipado: el usuario lo activó y autoEnabled ya está comprobado
+    const dispatch = await startSyncJob(order, { trigger: 'drift', force: true })
+    const result = dispatch.background ? await dispatch.background() : dispatch
+    return result.status < 400
+  })
+
+  let driftChecked = 0
+  let earlySynced = 0
+  for (const outcome of driftOutcomes) {
+    if (outcome.error) {
+      console.error('Drift check failed:', { repoOrderId: outcome.item.id, error: outcome.error })
+      continue
+    }
+    driftChecked++
+    if (outcome.result) earlySynced++
+  }
+
+  return { checked: candidates.length, due: due.length, synced, failed, driftChecked, earlySynced }
+}
+
+const globalForScheduler = globalThis as unknown as {
+  gitpinsScheduler: { timer: ReturnType<typeof setInterval>; running: boolean } | undefined
+}
+
+/**
+ * Starts the periodic scheduler once per process.
+ * No-op when disabled, already running, or GitHub mutations are disabled.
+ */
+export function startScheduler(): boolean {
+  const config = getSchedulerConfig()
+  if (!config.enabled || globalForScheduler.gitpinsScheduler) return false
+
+  if (process.env.GITPINS_DISABLE_GITHUB_MUTATIONS === 'true') {
+    console.warn('GitPins scheduler not started: GITPINS_DISABLE_GITHUB_MUTATIONS=true')
+    return false
+  }
+
+  const state = {
+    running: false,
+    timer: setInterval(() => {
+      if (state.running) return
+      state.running = true
+      runSchedulerTick()
+        .catch((error) => console.error('Scheduler tick failed:', error))
+        .finally(() => {
+          state.running = false
+        })
+    }, config.intervalMs),
+  }
+
+  // Never keep the process alive just for the scheduler.
+  state.timer.unref?.()
+  globalForScheduler.gitpinsScheduler = state
+  console.log(`GitPins scheduler started (every ${Math.round(config.intervalMs / 60000)} min, concurrency ${config.concurrency})`)
+  return true
+}
+
+export function stopScheduler(): void {
+  const state = globalForScheduler.gitpinsScheduler
+  if (!state) return
+  clearInterval(state.timer)
+  globalForScheduler.gitpinsScheduler = undefined
+}
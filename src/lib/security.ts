@@ -164,6 +164,32 @@ export async function checkAuthRateLimit(request: NextRequest): Promise<{ allowe
   return { allowed: true }
 }
 
+/**
+ * Checks the rate limit of a personal API token.
+ * Each token has its own budget, separate from the owner's browser session.
+ * @param tokenId - ID of the API token used for the request
+ */
+export async function checkApiTokenRateLimit(tokenId: string): Promise<{ allowed: boolean; response?: NextResponse }> {
+  const result = await checkRateLimit(tokenId, rateLimits.apiToken)
+
+  if (!result.success) {
+    const response = NextResponse.json(
+      { error: 'Too many requests' },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(Math.ceil((result.resetTime - Date.now()) / 1000)),
+          'X-RateLimit-Remaining': '0',
+          'X-RateLimit-Reset': String(result.resetTime),
+        },
+      }
+    )
+    return { allowed: false, response }
+  }
+
+  return { allowed: true }
+}
+
 /**
  * Sanitizes user input by trimming and truncating.
  * Basic protection against overly long inputs.
@@ -0,0 +1,106 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Drift Monitoring
+ * Between syncs, pushing to an unpinned repo moves it above the pinned list.
+ * A drift check compares the live order with the desired top-N (read-only)
+ * and tracks since when the account has been out of order. Users can opt in
+ * to an early sync when drift is found. Pure functions, safe to unit test.
+ */
+
+import { planSync } from './planner'
+
+const MINUTE_MS = 60 * 1000
+const DEFAULT_INTERVAL_MINUTES = 60
+
+/** Drift checks kept per profile; older rows are pruned after each check. */
+export const DRIFT_HISTORY_LIMIT = 50
+
+/** Minimum time between the last sync and an early sync triggered by drift. */
+export const DRIFT_EARLY_SYNC_COOLDOWN_MS = 60 * MINUTE_MS
+
+/** A sync started this recently may still be touching repos: skip the check. */
+const SYNC_SETTLE_MS = 10 * MINUTE_MS
+
+/** Fields of a saved order that decide whether a drift check is due. */
+export interface DriftCheckableOrder {
+  driftCheckedAt: Date | null
+  lastSyncAt: Date | null
+}
+
+/** Fields of a saved order that decide whether drift triggers a sync. */
+export interface DriftSyncableOrder {
+  autoEnabled: boolean
+  driftEarlySync: boolean
+  lastSyncAt: Date | null
+  /** A sync deferred by the rate limit resumes on its own */
+  resumeSyncAt?: Date | null
+}
+
+export interface DriftEvaluation {
+  inOrder: boolean
+  currentTop: string[]
+  desiredTop: string[]
+  /** Repos a sync would touch to restore the order */
+  outOfPlace: string[]
+  /** Start of the current out-of-order streak, null when in order */
+  driftedSince: Date | null
+}
+
+/**
+ * Interval between drift checks of the same profile.
+ * GITPINS_DRIFT_CHECK_INTERVAL_MINUTES (default 60); "0" disables them.
+ */
+export function getDriftCheckIntervalMs(env: NodeJS.ProcessEnv = process.env): number {
+  const raw = env.GITPINS_DRIFT_CHECK_INTERVAL_MINUTES
+  const parsed = raw ? Number.parseInt(raw, 10) : Number.NaN
+  const minutes = Number.isInteger(parsed) && parsed >= 0 ? parsed : DEFAULT_INTERVAL_MINUTES
+  return minutes * MINUTE_MS
+}
+
+export function isDriftCheckDue(order: DriftCheckableOrder, intervalMs: number, now: Date = new Date()): boolean {
+  if (intervalMs <= 0) return false
+  if (order.lastSyncAt && now.getTime() - order.lastSyncAt.getTime() < SYNC_SETTLE_MS) return false
+  if (!order.driftCheckedAt) return true
+  return now.getTime() - order.driftCheckedAt.getTime() >= intervalMs
+}
+
+/**
+ * Compares the live order with the desired list.
+ * @param previousDriftedSince - Stored start of the streak, kept while it lasts
+ */
+export function evaluateDrift(
+  currentOrder: string[],
+  desiredTop: string[],
+  previousDriftedSince: Date | null,
+  now: Date = new Date()
+): DriftEvaluation {
+  const plan = planSync(currentOrder, desiredTop)
+  return {
+    inOrder: plan.alreadyOrdered,
+    currentTop: plan.currentTop,
+    desiredTop: plan.desiredTop,
+    outOfPlace: plan.reposToTouch,
+    driftedSince: plan.alreadyOrdered ? null : previousDriftedSince ?? now,
+  }
+}
+
+/**
+ * Decides whether a drifted account should be synced before its schedule.
+ * Requires the opt-in and automatic syncs, and leaves a cooldown after the
+ * last sync so a burst of pushes does not trigger a sync each time.
+ */
+export function shouldSyncEarly(
+  order: DriftSyncableOrder,
+  drift: Pick<DriftEvaluation, 'inOrder'>,
+  now: Date = new Date()
+): boolean {
+  if (drift.inOrder || !order.driftEarlySync || !order.autoEnabled) return false
+  if (order.resumeSyncAt) return false
+  if (!order.lastSyncAt) return true
+  return now.getTime() - order.lastSyncAt.getTime() >= DRIFT_EARLY_SYNC_COOLDOWN_MS
+}
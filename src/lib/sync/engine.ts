@@ -0,0 +1,367 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Sync Engine
+ * Applies a sync plan through an injected GitHub client. Knows nothing about
+ * the database, sessions or HTTP, so it can run from routes, the scheduler,
+ * scripts or tests (with a fake Octokit).
+ * - "Touches" repositories to update repo "last updated" timestamps
+ * - How each repo is touched is delegated to a strategy (see ./strategies);
+ *   the default creates and deletes a temporary tag ref
+ * - With a rate limit budget, pauses are paced from GitHub's headers and the
+ *   run stops early (deferring the remaining repos) when the budget runs out
+ */
+
+import type { Octokit } from 'octokit'
+import {
+  getReposToTouch,
+  isRepoOrderCorrect,
+  isValidRepoNamePart,
+  planSync,
+  type SyncPlan,
+} from './planner'
+import { classifySyncError, describeSyncError, type SyncErrorCategory } from './errors'
+import {
+  planRequestPacing,
+  TOUCH_REQUEST_COST,
+  type RateLimitBudget,
+} from '../github-rate-limit'
+import {
+  resolveTouchStrategy,
+  touchStrategies,
+  type TouchStrategyId,
+} from './strategies'
+
+/** Subset of Octokit used by the engine. Tests can provide a fake. */
+export type SyncClient = Pick<Octokit, 'rest' | 'paginate'>
+
+export interface CurrentOrderOptions {
+  /**
+   * Only public repositories, the order a logged-out visitor sees.
+   * Used when the saved order excludes private repos.
+   */
+  publicOnly?: boolean
+}
+
+export interface RepoTouchResult {
+  repo: string
+  status: 'success' | 'error'
+  /** Fixed summary of the failure (see ./errors) */
+  error?: string
+  errorCategory?: SyncErrorCategory
+  /** HTTP status returned by GitHub, if any */
+  errorStatus?: number
+  durationMs: number
+  strategy: TouchStrategyId
+}
+
+export interface SyncProgressEvent {
+  repo: string
+  /** 1-based position in execution order */
+  position: number
+  total: number
+  status: 'started' | 'success' | 'error'
+}
+
+export interface SyncEngineInput {
+  client: SyncClient
+  /** Saved order truncated to topN */
+  desiredTop: string[]
+  /** Loads the current global order. Defaults to the installation listing. */
+  loadCurrentOrder?: () => Promise<string[]>
+  /** Pause between touched repos to avoid hammering the API (default 1000ms) */
+  delayMs?: number
+  /** Rate limit budget of `client`; when set, pauses follow GitHub's headers */
+  rateLimit?: RateLimitBudget
+  /** Longest rate limit wait accepted inside a run before deferring (default 60s) */
+  maxRateLimitWaitMs?: number
+  /** Default touch strategy (default 'revert', the temporary tag ref) */
+  strategy?: TouchStrategyId
+  /** Per-repo strategy overrides keyed by full name */
+  repoStrategies?: Record<string, TouchStrategyId>
+  /** Called once the plan is known, before any repository is touched */
+  onPlan?: (plan: SyncPlan) => void | Promise<void>
+  /** Called before and after each touched repository */
+  onProgress?: (event: SyncProgressEvent) => void | Promise<void>
+  /** Re-read the global order after touching and retry the missing prefix once */
+  verify?: boolean
+  /** Wait before re-reading the order so GitHub reflects the touches (default 5000ms) */
+  verifyDelayMs?: number
+}
+
+/** Observed result of the post-sync verification pass. */
+export interface SyncVerification {
+  status: 'verified' | 'drifted'
+  desiredTop: string[]
+  observedTop: string[]
+  retried: boolean
+  retryTouched: string[]
+  retryResults: RepoTouchResult[]
+}
+
+/** Repos left untouched because the rate limit budget ran out. */
+export interface SyncDeferral {
+  /** Remaining repos in touch order (the last one is touched first) */
+  repos: string[]
+  /** When GitHub's budget is expected to allow the rest */
+  resumeAt: Date
+}
+
+export type SyncEngineResult =
+  | { status: 'already_ordered'; plan: SyncPlan }
+  | { status: 'no_touch_needed'; plan: SyncPlan }
+  | {
+      status: 'completed'
+      plan: SyncPlan
+      results: RepoTouchResult[]
+      logs: string[]
+      verification?: SyncVerification
+      deferred?: SyncDeferral
+    }
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve()
+}
+
+/**
+ * Lists repositories accessible to the installation, most recently updated first.
+ * @throws GitHub errors: an empty listing would read as "nothing is in order"
+ */
+export async function getCurrentRepoOrderFromInstallation(
+  client: SyncClient,
+  options: CurrentOrderOptions = {}
+): Promise<string[]> {
+  const repos: Array<{ full_name: string; updated_at?: string | null; private?: boolean }> = []
+
+  for await (const response of client.paginate.iterator(
+    client.rest.apps.listReposAccessibleToInstallation,
+    { per_page: 100 }
+  )) {
+    const data = response.data as unknown as {
+      repositories?: Array<{ full_name: string; updated_at?: string | null; private?: boolean }>
+    }
+    for (const repo of data.repositories || []) {
+      if (options.publicOnly && repo.private) continue
+      repos.push(repo)
+    }
+  }
+
+  repos.sort((a, b) => {
+    const aUpdated = a.updated_at ? Date.parse(a.updated_at) : 0
+    const bUpdated = b.updated_at ? Date.parse(b.updated_at) : 0
+    return bUpdated - aUpdated
+  })
+
+  return repos.map((r) => r.full_name)
+}
+
+/**
+ * Lists an organization's repositories, most recently updated first. Used
+ * for org profiles, where the org listing (not the user's) is the order
+ * visitors see.
+ * @throws GitHub errors, like getCurrentRepoOrderFromInstallation
+ */
+export async function getCurrentRepoOrderFromOrg(
+  client: SyncClient,
+  org: string,
+  options: CurrentOrderOptions = {}
+): Promise<string[]> {
+  const fullNames: string[] = []
+
+  // La API ya devuelve el listado ordenado por última actualización
+  for await (const response of client.paginate.iterator(
+    client.rest.repos.listForOrg,
+    { org, type: options.publicOnly ? 'public' : 'all', sort: 'updated', direction: 'desc', per_page: 100 }
+  )) {
+    for (const repo of response.data) {
+      fullNames.push(repo.full_name)
+    }
+  }
+
+  return fullNames
+}
+
+/**
+ * Touches the given repositories in reverse order so the first desired repo
+ * ends up as the most recently updated one.
+ */
+export async function touchRepos(
+  client: SyncClient,
+  reposToTouch: string[],
+  desiredTop: string[],
+  options: Pick<
+    SyncEngineInput,
+    'delayMs' | 'onProgress' | 'strategy' | 'repoStrategies' | 'rateLimit' | 'maxRateLimitWaitMs'
+  > = {}
+): Promise<{ results: RepoTouchResult[]; logs: string[]; deferred?: SyncDeferral }> {
+  const delayMs = options.delayMs ?? 1000
+  const results: RepoTouchResult[] = []
+  const detailedLogs: string[] = []
+  const total = reposToTouch.length
+  let deferred: SyncDeferral | undefined
+  let pauseMs = 0
+
+  // Procesar en orden inverso para que el primero deseado quede más reciente.
+  for (let i = reposToTouch.length - 1; i >= 0; i--) {
+    if (options.rateLimit) {
+      const pacing = planRequestPacing(options.rateLimit.snapshot(), {
+        baseDelayMs: pauseMs,
+        requestsPerItem: TOUCH_REQUEST_COST,
+        maxWaitMs: options.maxRateLimitWaitMs,
+      })
+      if (pacing.action === 'defer') {
+        deferred = { repos: reposToTouch.slice(0, i + 1), resumeAt: pacing.resumeAt }
+        detailedLogs.push(`Rate limit budget exhausted: deferring ${i + 1} repositories until ${pacing.resumeAt.toISOString()}`)
+        break
+      }
+      pauseMs = pacing.delayMs
+    }
+
+    // Esperar entre repos para no saturar la API
+    await sleep(pauseMs)
+    pauseMs = 0
+
+    const repoFullName = reposToTouch[i]
+    const [owner, repo] = repoFullName.split('/')
+    const desiredPosition = desiredTop.indexOf(repoFullName) + 1
+    const position = reposToTouch.length - i
+    const strategy = resolveTouchStrategy(repoFullName, options.strategy, options.repoStrategies)
+
+    if (!isValidRepoNamePart(owner) || !isValidRepoNamePart(repo)) {
+      detailedLogs.push(`[${position}/${total}] ${repoFullName}: Invalid repository name format`)
+      results.push({
+        repo: repoFullName,
+        status: 'error',
+        error: describeSyncError('invalid_name'),
+        errorCategory: 'invalid_name',
+        durationMs: 0,
+        strategy,
+      })
+      await options.onProgress?.({ repo: repoFullName, position, total, status: 'error' })
+      continue
+    }
+
+    detailedLogs.push(`[${position}/${total}] Ordering ${repoFullName} (target ${desiredPosition}/${desiredTop.length})...`)
+    await options.onProgress?.({ repo: repoFullName, position, total, status: 'started' })
+    const repoStartedAt = Date.now()
+
+    try {
+      detailedLogs.push(`  - Touching via ${strategy} strategy for target position ${desiredPosition}/${desiredTop.length}...`)
+      const { warnings } = await touchStrategies[strategy]({ client, owner, repo, desiredPosition })
+      for (const warning of warnings) {
+        detailedLogs.push(`  - Warning: ${warning}`)
+      }
+
+      detailedLogs.push(`[${position}/${total}] ${repoFullName} - SUCCESS`)
+      results.push({
+        repo: repoFullName,
+        status: 'success',
+        durationMs: Date.now() - repoStartedAt,
+        strategy,
+      })
+      await options.onProgress?.({ repo: repoFullName, position, total, status: 'success' })
+      pauseMs = delayMs
+    } catch (error) {
+      const { category, status } = classifySyncError(error)
+      detailedLogs.push(`[${position}/${total}] ${repoFullName} - FAILED (${category}): ${error instanceof Error ? error.message : 'Operation failed'}`)
+      results.push({
+        repo: repoFullName,
+        status: 'error',
+        error: describeSyncError(category),
+        errorCategory: category,
+        errorStatus: status,
+        durationMs: Date.now() - repoStartedAt,
+        strategy,
+      })
+      await options.onProgress?.({ repo: repoFullName, position, total, status: 'error' })
+    }
+  }
+
+  return { results, logs: detailedLogs, deferred }
+}
+
+/**
+ * Re-reads the global order after a sync. On drift, touches the prefix that
+ * is still out of place once and checks again.
+ * @param logs - Sync log lines; verification steps are appended
+ */
+export async function verifySync(
+  input: SyncEngineInput,
+  loadCurrentOrder: () => Promise<string[]>,
+  logs: string[]
+): Promise<SyncVerification> {
+  const delayMs = input.verifyDelayMs ?? 5000
+  const desiredTop = input.desiredTop
+
+  await sleep(delayMs)
+  let observed = await loadCurrentOrder()
+
+  if (isRepoOrderCorrect(observed, desiredTop)) {
+    logs.push('Verification: global order matches the desired top-N')
+    return {
+      status: 'verified',
+      desiredTop,
+      observedTop: observed.slice(0, desiredTop.length),
+      retried: false,
+      retryTouched: [],
+      retryResults: [],
+    }
+  }
+
+  const retryTouched = getReposToTouch(observed, desiredTop)
+  logs.push(`Verification: drift detected, retrying ${retryTouched.length} repositories`)
+  const retry = await touchRepos(input.client, retryTouched, desiredTop, input)
+  logs.push(...retry.logs)
+
+  await sleep(delayMs)
+  observed = await loadCurrentOrder()
+  const verified = isRepoOrderCorrect(observed, desiredTop)
+  logs.push(verified
+    ? 'Verification: global order matches the desired top-N after retry'
+    : 'Verification: global order still differs from the desired top-N')
+
+  return {
+    status: verified ? 'verified' : 'drifted',
+    desiredTop,
+    observedTop: observed.slice(0, desiredTop.length),
+    retried: true,
+    retryTouched,
+    retryResults: retry.results,
+  }
+}
+
+/**
+ * Plans and applies a sync for one account.
+ * @returns Structured result; callers decide how to log or present it
+ */
+export async function runSyncEngine(input: SyncEngineInput): Promise<SyncEngineResult> {
+  const loadCurrentOrder = input.loadCurrentOrder
+    ?? (() => getCurrentRepoOrderFromInstallation(input.client))
+
+  const currentOrder = await loadCurrentOrder()
+  const plan = planSync(currentOrder, input.desiredTop)
+
+  if (plan.alreadyOrdered) {
+    return { status: 'already_ordered', plan }
+  }
+
+  // Optimization: touch only the minimal prefix that must become "newer"
+  // to transform current global top-N into desired top-N.
+  if (plan.reposToTouch.length === 0) {
+    return { status: 'no_touch_needed', plan }
+  }
+
+  await input.onPlan?.(plan)
+
+  const { results, logs, deferred } = await touchRepos(input.client, plan.reposToTouch, plan.desiredTop, input)
+  // Una ejecución aplazada no puede cuadrar todavía: se verifica al reanudar
+  const verification = input.verify && !deferred
+    ? await verifySync(input, loadCurrentOrder, logs)
+    : undefined
+
+  return { status: 'completed', plan, results, logs, verification, deferred }
+}
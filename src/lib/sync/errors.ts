@@ -0,0 +1,136 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Sync Error Taxonomy
+ * Classifies failures of the touch loop from Octokit errors so logs and the
+ * activity feed can explain what went wrong. Only the category, the HTTP
+ * status and a fixed summary are stored; raw messages stay in the detailed log.
+ */
+
+export const SYNC_ERROR_CATEGORIES = [
+  'not_found',
+  'forbidden',
+  'protected_ref',
+  'empty_repository',
+  'archived',
+  'rate_limited',
+  'network',
+  'invalid_name',
+  'unknown',
+] as const
+
+export type SyncErrorCategory = typeof SYNC_ERROR_CATEGORIES[number]
+
+export interface ClassifiedSyncError {
+  category: SyncErrorCategory
+  /** HTTP status from GitHub, when there was a response */
+  status?: number
+}
+
+/** Fixed English summaries stored as `error` in sync results. */
+const SYNC_ERROR_SUMMARIES: Record<SyncErrorCategory, string> = {
+  not_found: 'Repository or branch not found',
+  forbidden: 'GitHub App lacks permission',
+  protected_ref: 'Rejected by a repository rule',
+  empty_repository: 'Repository is empty',
+  archived: 'Repository is archived',
+  rate_limited: 'GitHub rate limit reached',
+  network: 'GitHub could not be reached',
+  invalid_name: 'Invalid repository name format',
+  unknown: 'Operation failed',
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+])
+
+export function isSyncErrorCategory(value: unknown): value is SyncErrorCategory {
+  return typeof value === 'string' && (SYNC_ERROR_CATEGORIES as readonly string[]).includes(value)
+}
+
+/**
+ * Rate limits and network failures say nothing about the repository itself.
+ */
+export function isTransientSyncError(category: SyncErrorCategory): boolean {
+  return category === 'rate_limited' || category === 'network'
+}
+
+export function describeSyncError(category: SyncErrorCategory): string {
+  return SYNC_ERROR_SUMMARIES[category]
+}
+
+/**
+ * Counts failed results per category, e.g. `{ protected_ref: 2 }`.
+ */
+export function summarizeSyncErrors(
+  results: Array<{ status: string; errorCategory?: SyncErrorCategory }>
+): Partial<Record<SyncErrorCategory, number>> {
+  const counts: Partial<Record<SyncErrorCategory, number>> = {}
+  for (const result of results) {
+    if (result.status !== 'error') continue
+    const category = result.errorCategory ?? 'unknown'
+    counts[category] = (counts[category] ?? 0) + 1
+  }
+  return counts
+}
+
+function readHeader(error: object, name: string): string | undefined {
+  const response = (error as { response?: { headers?: Record<string, unknown> } }).response
+  const value = response?.headers?.[name]
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined
+}
+
+/**
+ * Maps an error thrown while touching a repository (usually an Octokit
+ * `RequestError`) to a category.
+ */
+export function classifySyncError(error: unknown): ClassifiedSyncError {
+  if (typeof error !== 'object' || error === null) {
+    return { category: 'unknown' }
+  }
+
+  const rawStatus = 'status' in error ? Number((error as { status: unknown }).status) : NaN
+  const status = Number.isFinite(rawStatus) ? rawStatus : undefined
+  const message = error instanceof Error ? error.message : ''
+  const code = 'code' in error ? String((error as { code: unknown }).code) : ''
+  const cause = 'cause' in error ? (error as { cause: unknown }).cause : undefined
+  const causeCode = typeof cause === 'object' && cause !== null && 'code' in cause
+    ? String((cause as { code: unknown }).code)
+    : ''
+  const withStatus = (category: SyncErrorCategory): ClassifiedSyncError =>
+    (status === undefined ? { category } : { category, status })
+
+  if (
+    status === 429 ||
+    (status === 403 && (/rate limit/i.test(message) || readHeader(error, 'x-ratelimit-remaining') === '0' || readHeader(error, 'retry-after') !== undefined))
+  ) {
+    return withStatus('rate_limited')
+  }
+
+  if (
+    NETWORK_ERROR_CODES.has(code) ||
+    NETWORK_ERROR_CODES.has(causeCode) ||
+    /fetch failed|socket hang up|network/i.test(message) ||
+    status === 502 || status === 503 || status === 504
+  ) {
+    return withStatus('network')
+  }
+
+  if (/archived/i.test(message)) return withStatus('archived')
+  if (status === 409 || /repository is empty/i.test(message)) return withStatus('empty_repository')
+  if (/rule|protected|restricted|Reference update failed/i.test(message)) return withStatus('protected_ref')
+  if (status === 404) return withStatus('not_found')
+  if (status === 401 || status === 403) return withStatus('forbidden')
+  return withStatus('unknown')
+}
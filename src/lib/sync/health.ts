@@ -0,0 +1,121 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Repository Health
+ * Pure bookkeeping for per-repo touch failures. A repository that fails
+ * `REPO_QUARANTINE_THRESHOLD` syncs in a row is quarantined: the pipeline
+ * drops it from the desired top-N until the user retries it.
+ * Rate limits and network errors are recorded but never count towards it.
+ */
+
+import { isTransientSyncError, type SyncErrorCategory } from './errors'
+
+/** Consecutive failed touches before a repository is quarantined. */
+export const REPO_QUARANTINE_THRESHOLD = 3
+
+/** Persisted fields of a `repo_health` row. */
+export interface RepoHealthState {
+  repo: string
+  consecutiveFailures: number
+  lastErrorCategory: string | null
+  lastFailureAt: Date | null
+  lastSuccessAt: Date | null
+  quarantinedAt: Date | null
+}
+
+/** Minimal touch result needed to update health. */
+export interface HealthTouchResult {
+  repo: string
+  status: 'success' | 'error'
+  errorCategory?: SyncErrorCategory
+}
+
+export function emptyRepoHealth(repo: string): RepoHealthState {
+  return {
+    repo,
+    consecutiveFailures: 0,
+    lastErrorCategory: null,
+    lastFailureAt: null,
+    lastSuccessAt: null,
+    quarantinedAt: null,
+  }
+}
+
+/**
+ * Applies one touch result. A success clears the failure streak and any
+ * quarantine; a failure extends it and quarantines at the threshold.
+ * Transient failures only update the last error.
+ */
+export function nextRepoHealth(
+  previous: RepoHealthState | null,
+  result: HealthTouchResult,
+  now: Date = new Date(),
+  threshold: number = REPO_QUARANTINE_THRESHOLD
+): RepoHealthState {
+  const state = previous ?? emptyRepoHealth(result.repo)
+
+  if (result.status === 'success') {
+    return { ...state, consecutiveFailures: 0, lastSuccessAt: now, quarantinedAt: null }
+  }
+
+  const category = result.errorCategory ?? 'unknown'
+  if (isTransientSyncError(category)) {
+    return { ...state, lastErrorCategory: category, lastFailureAt: now }
+  }
+
+  const consecutiveFailures = state.consecutiveFailures + 1
+  return {
+    ...state,
+    consecutiveFailures,
+    lastErrorCategory: category,
+    lastFailureAt: now,
+    quarantinedAt: state.quarantinedAt ?? (consecutiveFailures >= threshold ? now : null),
+  }
+}
+
+/**
+ * Folds a run's touch results (including verification retries) into the
+ * previous states. A run counts once per repo: a later result for the same
+ * repo (the verification retry) replaces the earlier one, so a repo that
+ * fails both passes is one failure closer to quarantine, not two.
+ * @returns Updated states keyed by repo and the repos quarantined by this run
+ */
+export function applyTouchResults(
+  previous: RepoHealthState[],
+  results: HealthTouchResult[],
+  now: Date = new Date(),
+  threshold: number = REPO_QUARANTINE_THRESHOLD
+): { states: Map<string, RepoHealthState>; newlyQuarantined: string[] } {
+  const before = new Map(previous.map((state) => [state.repo, state]))
+  const states = new Map<string, RepoHealthState>()
+
+  const lastResults = new Map(results.map((result) => [result.repo, result]))
+  for (const [repo, result] of lastResults) {
+    states.set(repo, nextRepoHealth(before.get(repo) ?? null, result, now, threshold))
+  }
+
+  const newlyQuarantined = [...states.values()]
+    .filter((state) => state.quarantinedAt && !before.get(state.repo)?.quarantinedAt)
+    .map((state) => state.repo)
+
+  return { states, newlyQuarantined }
+}
+
+/**
+ * Removes quarantined repositories from the desired top-N, keeping the
+ * relative order of the rest.
+ */
+export function excludeQuarantined(
+  desiredTop: string[],
+  quarantined: Iterable<string>
+): { desiredTop: string[]; skipped: string[] } {
+  const blocked = new Set(quarantined)
+  return {
+    desiredTop: desiredTop.filter((repo) => !blocked.has(repo)),
+    skipped: desiredTop.filter((repo) => blocked.has(repo)),
+  }
+}
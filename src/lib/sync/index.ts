@@ -0,0 +1,106 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Sync Module
+ * - planner: pure ordering decisions (what to touch)
+ * - engine: applies a plan through an injected GitHub client
+ * - strategies: how a single repository is touched
+ * - errors: taxonomy of touch failures
+ * - health: per-repo failure streaks and quarantine
+ * - pipeline: guards, locking and sync logs around the engine
+ * - jobs: persisted background runs with per-repo progress
+ * - drift: read-only comparison of the live order between syncs
+ */
+
+export {
+  runSync,
+  prepareSync,
+  executeSync,
+  resolveSyncSecret,
+  inspectLiveOrder,
+  type LiveOrderInspection,
+  type PreparedSync,
+  type RunSyncOptions,
+  type SyncHooks,
+  type SyncOutcome,
+  type SyncPreparation,
+} from './pipeline'
+export {
+  startSyncJob,
+  requestSyncBySecret,
+  runSyncJob,
+  type SyncDispatch,
+  type SyncJobRequest,
+} from './jobs'
+export {
+  serializeSyncJob,
+  isSyncJobStale,
+  type SerializedSyncJob,
+  type SyncJobStatus,
+  type SyncJobTrigger,
+} from './job-state'
+export {
+  runSyncEngine,
+  touchRepos,
+  getCurrentRepoOrderFromInstallation,
+  type SyncClient,
+  type SyncEngineInput,
+  type SyncEngineResult,
+  type SyncProgressEvent,
+  type RepoTouchResult,
+  type SyncDeferral,
+} from './engine'
+export {
+  TOUCH_STRATEGIES,
+  DEFAULT_TOUCH_STRATEGY,
+  touchStrategies,
+  isTouchStrategy,
+  parseRepoStrategies,
+  sanitizeRepoStrategies,
+  renameRepoStrategy,
+  resolveTouchStrategy,
+  resolveDefaultBranchSha,
+  type TouchStrategyId,
+  type TouchStrategy,
+} from './strategies'
+export {
+  SYNC_ERROR_CATEGORIES,
+  classifySyncError,
+  describeSyncError,
+  isSyncErrorCategory,
+  isTransientSyncError,
+  summarizeSyncErrors,
+  type ClassifiedSyncError,
+  type SyncErrorCategory,
+} from './errors'
+export {
+  REPO_QUARANTINE_THRESHOLD,
+  nextRepoHealth,
+  applyTouchResults,
+  excludeQuarantined,
+  type RepoHealthState,
+} from './health'
+export {
+  planSync,
+  parseDesiredTop,
+  isRepoOrderCorrect,
+  getReposToTouch,
+  buildSyncPreview,
+  predictOrderAfterTouch,
+  getTouchExecutionOrder,
+  type SyncPlan,
+  type SyncPreview,
+} from './planner'
+export {
+  DRIFT_HISTORY_LIMIT,
+  DRIFT_EARLY_SYNC_COOLDOWN_MS,
+  getDriftCheckIntervalMs,
+  isDriftCheckDue,
+  evaluateDrift,
+  shouldSyncEarly,
+  type DriftEvaluation,
+} from './drift'
@@ -0,0 +1,119 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Sync Job State
+ * Pure helpers for persisted sync jobs: per-repo progress bookkeeping,
+ * stale-job detection and the JSON shape returned by the status endpoint.
+ */
+
+import type { SyncProgressEvent } from './engine'
+import type { SyncPlan } from './planner'
+
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+export type SyncJobTrigger = 'secret' | 'manual' | 'scheduler' | 'drift'
+
+export interface SyncJobRepoProgress {
+  repo: string
+  status: 'pending' | 'running' | 'success' | 'error'
+}
+
+export interface SyncJobCounters {
+  total: number
+  processed: number
+  succeeded: number
+  failed: number
+}
+
+/** Persisted fields needed to describe a job (matches the `sync_jobs` row). */
+export interface SyncJobRecord extends SyncJobCounters {
+  id: string
+  status: string
+  trigger: string
+  progress: string
+  result: string | null
+  error: string | null
+  createdAt: Date
+  startedAt: Date | null
+  finishedAt: Date | null
+  updatedAt: Date
+}
+
+/** Jobs that stop reporting progress for this long are considered dead. */
+export const SYNC_JOB_STALE_MS = 15 * 60 * 1000
+
+/**
+ * Builds the initial progress list in execution order (last desired first).
+ */
+export function createJobProgress(plan: SyncPlan): SyncJobRepoProgress[] {
+  return [...plan.reposToTouch].reverse().map((repo) => ({ repo, status: 'pending' }))
+}
+
+/**
+ * Applies an engine progress event. Returns a new list; unknown repos are ignored.
+ */
+export function applyJobProgress(
+  progress: SyncJobRepoProgress[],
+  event: SyncProgressEvent
+): SyncJobRepoProgress[] {
+  const status: SyncJobRepoProgress['status'] = event.status === 'started' ? 'running' : event.status
+  return progress.map((entry) => (entry.repo === event.repo ? { ...entry, status } : entry))
+}
+
+export function countJobProgress(progress: SyncJobRepoProgress[]): SyncJobCounters {
+  const succeeded = progress.filter((entry) => entry.status === 'success').length
+  const failed = progress.filter((entry) => entry.status === 'error').length
+  return {
+    total: progress.length,
+    processed: succeeded + failed,
+    succeeded,
+    failed,
+  }
+}
+
+/**
+ * A queued or running job whose row has not been updated recently
+ * (e.g. the process was restarted mid-sync).
+ */
+export function isSyncJobStale(
+  job: Pick<SyncJobRecord, 'status' | 'updatedAt'>,
+  now: Date = new Date()
+): boolean {
+  if (job.status !== 'queued' && job.status !== 'running') return false
+  return now.getTime() - job.updatedAt.getTime() > SYNC_JOB_STALE_MS
+}
+
+function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Public JSON shape of a sync job (status endpoint and dashboard polling).
+ */
+export function serializeSyncJob(job: SyncJobRecord) {
+  return {
+    id: job.id,
+    status: job.status as SyncJobStatus,
+    trigger: job.trigger as SyncJobTrigger,
+    total: job.total,
+    processed: job.processed,
+    succeeded: job.succeeded,
+    failed: job.failed,
+    repos: parseJson<SyncJobRepoProgress[]>(job.progress, []),
+    result: parseJson<Record<string, unknown> | null>(job.result, null),
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+  }
+}
+
+export type SerializedSyncJob = ReturnType<typeof serializeSyncJob>
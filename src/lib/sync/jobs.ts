@@ -0,0 +1,150 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Sync Jobs
+ * Persists each sync as a `sync_jobs` row so HTTP callers get a job id right
+ * away and poll `GET /api/sync/jobs/[jobId]` instead of holding a request open
+ * while every repository is touched.
+ */
+
+import type { RepoOrder, User } from '../../generated/prisma/client'
+import { prisma } from '../prisma'
+import {
+  executeSync,
+  prepareSync,
+  resolveSyncSecret,
+  type PreparedSync,
+  type RunSyncOptions,
+  type SyncOutcome,
+} from './pipeline'
+import {
+  applyJobProgress,
+  countJobProgress,
+  createJobProgress,
+  type SyncJobRepoProgress,
+  type SyncJobTrigger,
+} from './job-state'
+import { notifyUser } from '../notifications/dispatch'
+import { buildSyncCrashNotification } from '../notifications/events'
+
+export interface SyncJobRequest extends RunSyncOptions {
+  trigger: SyncJobTrigger
+}
+
+/**
+ * Outcome to return to the caller. When a job was enqueued, `background`
+ * finishes it and must be scheduled by the caller (e.g. with `after()`).
+ */
+export interface SyncDispatch extends SyncOutcome {
+  background?: () => Promise<SyncOutcome>
+}
+
+/**
+ * Runs the guards synchronously and, if a sync is needed, enqueues a job.
+ * Skips, errors and dry runs are returned immediately, exactly as before.
+ */
+export async function startSyncJob(
+  repoOrder: RepoOrder & { user: User },
+  request: SyncJobRequest
+): Promise<SyncDispatch> {
+  const preparation = await prepareSync(repoOrder, request)
+  if ('outcome' in preparation) return preparation.outcome
+
+  const job = await prisma.syncJob.create({
+    data: {
+      userId: repoOrder.userId,
+      trigger: request.trigger,
+      force: request.force === true,
+    },
+    select: { id: true },
+  })
+
+  return {
+    status: 202,
+    body: {
+      success: true,
+      queued: true,
+      jobId: job.id,
+      statusUrl: `/api/sync/jobs/${job.id}`,
+    },
+    background: () => runSyncJob(job.id, preparation.prepared),
+  }
+}
+
+/**
+ * Authenticates a sync secret and starts a job for its order.
+ */
+export async function requestSyncBySecret(secret: string, request: SyncJobRequest): Promise<SyncDispatch> {
+  const resolved = await resolveSyncSecret(secret)
+  if ('outcome' in resolved) return resolved.outcome
+  return startSyncJob(resolved.repoOrder, request)
+}
+
+/**
+ * Executes a queued job and records progress after every repository.
+ * Progress writes are best-effort: a failed update never aborts the sync.
+ */
+export async function runSyncJob(jobId: string, prepared: PreparedSync): Promise<SyncOutcome> {
+  let progress: SyncJobRepoProgress[] = []
+
+  const saveProgress = async () => {
+    try {
+      await prisma.syncJob.update({
+        where: { id: jobId },
+        data: { progress: JSON.stringify(progress), ...countJobProgress(progress) },
+      })
+    } catch (error) {
+      console.error('Failed to update sync job progress:', { jobId, error })
+    }
+  }
+
+  await prisma.syncJob.update({
+    where: { id: jobId },
+    data: { status: 'running', startedAt: new Date() },
+  })
+
+  try {
+    const outcome = await executeSync(prepared, {
+      onPlan: async (plan) => {
+        progress = createJobProgress(plan)
+        await saveProgress()
+      },
+      onProgress: async (event) => {
+        progress = applyJobProgress(progress, event)
+        await saveProgress()
+      },
+    })
+
+    await prisma.syncJob.update({
+      where: { id: jobId },
+      data: {
+        status: outcome.status < 400 ? 'completed' : 'failed',
+        progress: JSON.stringify(progress),
+        ...countJobProgress(progress),
+        result: JSON.stringify(outcome.body),
+        finishedAt: new Date(),
+      },
+    })
+
+    return outcome
+  } catch (error) {
+    console.error('Sync job failed:', { jobId, error })
+    await prisma.syncJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'failed',
+        progress: JSON.stringify(progress),
+        ...countJobProgress(progress),
+        error: 'Operation failed',
+        finishedAt: new Date(),
+      },
+    }).catch(() => {})
+    await notifyUser(prepared.repoOrder.userId, [buildSyncCrashNotification(prepared.repoOrder.org)])
+
+    return { status: 500, body: { error: 'Operation failed' } }
+  }
+}
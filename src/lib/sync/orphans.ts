@@ -0,0 +1,57 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Orphaned Pins
+ * Saved pins that no longer match a repository of the account: deleted
+ * repos, repos the user or the app lost access to, and private repos while
+ * private repos are excluded. The dashboard lists them for cleanup and the
+ * sync skips them with a logged reason. Pure functions, safe to unit test.
+ */
+
+import type { OrphanedPin, Repo } from '../../types'
+
+/**
+ * Finds the pins missing from the account's repository listing.
+ * @param pinned - Saved pins, in order
+ * @param repos - Current listing of the account's repositories
+ * @param options.includePrivate - When false, private repos count as orphaned
+ * @returns One entry per orphaned pin, in pin order
+ */
+export function findOrphanedPins(
+  pinned: string[],
+  repos: Array<Pick<Repo, 'fullName' | 'isPrivate'>>,
+  options: { includePrivate: boolean }
+): OrphanedPin[] {
+  const byName = new Map(repos.map((repo) => [repo.fullName.toLowerCase(), repo]))
+  const orphaned: OrphanedPin[] = []
+
+  for (const repo of pinned) {
+    const match = byName.get(repo.toLowerCase())
+    if (!match) {
+      orphaned.push({ repo, reason: 'not_found' })
+    } else if (match.isPrivate && !options.includePrivate) {
+      orphaned.push({ repo, reason: 'private_excluded' })
+    }
+  }
+
+  return orphaned
+}
+
+/**
+ * Removes orphaned pins from the desired top-N, keeping the relative order
+ * of the rest.
+ */
+export function excludeOrphanedPins(
+  desiredTop: string[],
+  orphaned: OrphanedPin[]
+): { desiredTop: string[]; skipped: OrphanedPin[] } {
+  const blocked = new Map(orphaned.map((pin) => [pin.repo, pin]))
+  return {
+    desiredTop: desiredTop.filter((repo) => !blocked.has(repo)),
+    skipped: desiredTop.flatMap((repo) => blocked.get(repo) ?? []),
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Pin Rules
+ * Optional rules engine for the pinned list (`repo_orders.pinRules`). Instead
+ * of a fixed hand-picked array, the top is described as ordered slots:
+ * - `pin`: always this repository (e.g. `me/portfolio`)
+ * - `rule`: the best `count` repositories matching a filter, sorted by a
+ *   field (e.g. "top 3 by stars among my Rust repos")
+ * Slots are resolved in order at sync time against the repositories already
+ * fetched, so a repo is never pinned twice. Pure module: the dashboard uses
+ * it for the preview and the pipeline for the real run.
+ */
+
+import type { PinRuleFilter, PinRuleSort, PinSlot, Repo, ResolvedPin } from '../../types'
+import { isValidRepoNamePart } from './planner'
+
+export const MAX_PIN_SLOTS = 20
+export const MAX_RULE_COUNT = 20
+const MAX_TEXT_LENGTH = 100
+
+const PIN_RULE_SORTS: readonly PinRuleSort[] = ['stars', 'forks', 'updated', 'name']
+
+function readText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const text = value.trim()
+  return text.length > 0 && text.length <= MAX_TEXT_LENGTH ? text : undefined
+}
+
+function readCount(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined
+}
+
+function isValidFullName(value: string): boolean {
+  const parts = value.split('/')
+  return parts.length === 2 && parts.every(isValidRepoNamePart)
+}
+
+function sanitizeFilter(raw: Record<string, unknown>): PinRuleFilter {
+  const filter: PinRuleFilter = {}
+  const language = readText(raw.language)
+  const owner = readText(raw.owner)
+  const namePattern = readText(raw.namePattern)
+  const topic = readText(raw.topic)
+  const minStars = readCount(raw.minStars)
+  const minForks = readCount(raw.minForks)
+
+  if (language) filter.language = language
+  if (owner) filter.owner = owner
+  if (namePattern) filter.namePattern = namePattern
+  if (topic) filter.topic = topic.toLowerCase()
+  if (minStars) filter.minStars = minStars
+  if (minForks) filter.minForks = minForks
+  if (typeof raw.isOrg === 'boolean') filter.isOrg = raw.isOrg
+  if (typeof raw.isPrivate === 'boolean') filter.isPrivate = raw.isPrivate
+  return filter
+}
+
+/**
+ * Validates rules coming from the dashboard or the database.
+ * Invalid slots are dropped; a non-array value yields null (rules disabled).
+ */
+export function sanitizePinRules(raw: unknown): PinSlot[] | null {
+  if (!Array.isArray(raw)) return null
+
+  const slots: PinSlot[] = []
+  for (const item of raw.slice(0, MAX_PIN_SLOTS)) {
+    if (!item || typeof item !== 'object') continue
+    const slot = item as Record<string, unknown>
+
+    if (slot.type === 'pin' && typeof slot.repo === 'string' && isValidFullName(slot.repo)) {
+      slots.push({ type: 'pin', repo: slot.repo })
+    } else if (slot.type === 'rule') {
+      const count = readCount(slot.count)
+      if (!count || count > MAX_RULE_COUNT) continue
+      const filter = slot.filter && typeof slot.filter === 'object' && !Array.isArray(slot.filter)
+        ? sanitizeFilter(slot.filter as Record<string, unknown>)
+        : {}
+      const sortBy = PIN_RULE_SORTS.includes(slot.sortBy as PinRuleSort) ? slot.sortBy as PinRuleSort : 'stars'
+      const label = readText(slot.label)
+      slots.push({ type: 'rule', count, filter, sortBy, ...(label ? { label } : {}) })
+    }
+  }
+
+  return slots
+}
+
+/** Parses the stored `pinRules` column. null (or malformed) = rules disabled. */
+export function parsePinRules(raw: string | null): PinSlot[] | null {
+  if (!raw) return null
+  try {
+    return sanitizePinRules(JSON.parse(raw))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Case-insensitive `*` wildcard match. Two pointers with a single backtrack
+ * point instead of a regex: a saved pattern like `*a*a*a*b` must not be able
+ * to backtrack for seconds on every sync.
+ */
+export function matchesNamePattern(name: string, pattern: string): boolean {
+  const text = name.toLowerCase()
+  const glob = pattern.toLowerCase()
+  let t = 0
+  let g = 0
+  let starAt = -1
+  let resumeAt = 0
+
+  while (t < text.length) {
+    if (g < glob.length && glob[g] === '*') {
+      starAt = g++
+      resumeAt = t
+    } else if (g < glob.length && glob[g] === text[t]) {
+      g++
+      t++
+    } else if (starAt !== -1) {
+      // El último * se traga un carácter más
+      g = starAt + 1
+      t = ++resumeAt
+    } else {
+      return false
+    }
+  }
+
+  while (g < glob.length && glob[g] === '*') g++
+  return g === glob.length
+}
+
+export function matchesPinRule(repo: Repo, filter: PinRuleFilter): boolean {
+  if (filter.language && repo.language?.toLowerCase() !== filter.language.toLowerCase()) return false
+  if (filter.minStars !== undefined && repo.stars < filter.minStars) return false
+  if (filter.minForks !== undefined && repo.forks < filter.minForks) return false
+  if (filter.owner && repo.owner.toLowerCase() !== filter.owner.toLowerCase()) return false
+  if (filter.isOrg !== undefined && repo.isOrg !== filter.isOrg) return false
+  if (filter.isPrivate !== undefined && repo.isPrivate !== filter.isPrivate) return false
+  if (filter.namePattern && !matchesNamePattern(repo.name, filter.namePattern)) return false
+  // Las listas cacheadas antes de guardar topics no tienen el campo
+  if (filter.topic && !(repo.topics ?? []).includes(filter.topic)) return false
+  return true
+}
+
+function compareRepos(sortBy: PinRuleSort): (a: Repo, b: Repo) => number {
+  switch (sortBy) {
+    case 'forks':
+      return (a, b) => b.forks - a.forks
+    case 'updated':
+      return (a, b) => (Date.parse(b.updatedAt) || 0) - (Date.parse(a.updatedAt) || 0)
+    case 'name':
+      return (a, b) => a.name.localeCompare(b.name)
+    default:
+      return (a, b) => b.stars - a.stars
+  }
+}
+
+/**
+ * Resolves the slots into the pinned list.
+ * Fixed pins are kept even if the repo is missing from `repos` (the sync
+ * reports it); rule slots only pick from `repos`, skipping repos already
+ * pinned and, unless `includePrivate`, private ones. Ties keep the order of
+ * `repos` (most recently updated first).
+ */
+export function resolvePinRules(
+  slots: PinSlot[],
+  repos: Repo[],
+  options: { includePrivate?: boolean } = {}
+): ResolvedPin[] {
+  const resolved: ResolvedPin[] = []
+  const taken = new Set<string>()
+  const candidates = options.includePrivate === false ? repos.filter((repo) => !repo.isPrivate) : repos
+
+  slots.forEach((slot, index) => {
+    if (slot.type === 'pin') {
+      if (taken.has(slot.repo)) return
+      taken.add(slot.repo)
+      resolved.push({ repo: slot.repo, slot: index, source: 'pin' })
+      return
+    }
+
+    const picked = candidates
+      .filter((repo) => !taken.has(repo.fullName) && matchesPinRule(repo, slot.filter))
+      .sort(compareRepos(slot.sortBy))
+      .slice(0, slot.count)
+
+    for (const repo of picked) {
+      taken.add(repo.fullName)
+      resolved.push({ repo: repo.fullName, slot: index, source: 'rule', ...(slot.label ? { label: slot.label } : {}) })
+    }
+  })
+
+  return resolved
+}
@@ -0,0 +1,824 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Sync Pipeline
+ * Runs the ordering pipeline for a single saved order. Shared by the
+ * `/api/sync/[secret]` route and the built-in scheduler so both apply the
+ * same guards (autoEnabled, preferred hour, mutation flag, lastSyncAt lock)
+ * and write the same sync logs. Scheduled profile rotations and the linked
+ * config repository are applied and pin rules resolved before planning. GitHub work is delegated to the
+ * engine.
+ */
+
+import type { RepoOrder, User } from '../../generated/prisma/client'
+import type { OrphanedPin, Repo, ResolvedPin } from '../../types'
+import { prisma } from '../prisma'
+import { checkRateLimit, rateLimits } from '../rate-limit'
+import { createAppOctokit } from '../github-app'
+import { getRateLimitBudget } from '../github-rate-limit'
+import { ensureValidToken, fetchOrgRepos } from '../github'
+import { getProfileInstallationId } from '../profiles'
+import { checkOrgProfileAccess, describeOrgAccessFailure } from '../org-access'
+import { applyDueRotation } from '../order-profiles'
+import { importConfigRepo } from '../config-repo/import'
+import { applyPinnedRenames } from '../pinned-repos'
+import { getCachedUserRepos, invalidateRepoCache } from '../repo-cache'
+import {
+  getCurrentRepoOrderFromInstallation,
+  getCurrentRepoOrderFromOrg,
+  runSyncEngine,
+  type CurrentOrderOptions,
+  type SyncClient,
+  type SyncEngineInput,
+} from './engine'
+import { buildSyncPreview, parseDesiredTop } from './planner'
+import { DEFAULT_TOUCH_STRATEGY, isTouchStrategy, parseRepoStrategies } from './strategies'
+import { applyTouchResults, excludeQuarantined, type HealthTouchResult } from './health'
+import { summarizeSyncErrors } from './errors'
+import { parsePinRules, resolvePinRules } from './pin-rules'
+import { parseRepoIds, reconcileRepoIds } from './repo-ids'
+import { excludeOrphanedPins, findOrphanedPins } from './orphans'
+import { notifyUser } from '../notifications/dispatch'
+import { buildSyncNotifications } from '../notifications/events'
+
+const SYNC_SECRET_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const GITHUB_MUTATIONS_DISABLED = process.env.GITPINS_DISABLE_GITHUB_MUTATIONS === 'true'
+
+/** A started sync holds the `lastSyncAt` lock for this long. */
+const SYNC_LOCK_MS = 10 * 60 * 1000
+
+/** HTTP-shaped result of a sync run, so routes can return it verbatim. */
+export interface SyncOutcome {
+  status: number
+  body: Record<string, unknown>
+  headers?: Record<string, string>
+}
+
+export interface RunSyncOptions {
+  /** Manual runs bypass `autoEnabled` and the preferred hour gate. */
+  force?: boolean
+  /**
+   * Plan only: report what would be touched without taking the `lastSyncAt`
+   * lock, calling createRef/deleteRef or writing sync logs.
+   */
+  dryRun?: boolean
+}
+
+/**
+ * A sync that passed every guard and holds the `lastSyncAt` lock.
+ * Only GitHub work and the final log remain.
+ */
+export interface PreparedSync {
+  repoOrder: RepoOrder & { user: User }
+  client: SyncClient
+  desiredTop: string[]
+  /** Pinned repos left out of this run because they are quarantined */
+  quarantined: string[]
+  /** Pinned repos left out because they are not in the account's repository list */
+  orphaned?: OrphanedPin[]
+  /** Slot that produced each pinned repo, when the account uses pin rules */
+  pinSlots?: ResolvedPin[]
+  startedAt: number
+}
+
+export type SyncPreparation =
+  | { outcome: SyncOutcome }
+  | { prepared: PreparedSync }
+
+export type SyncHooks = Pick<SyncEngineInput, 'onPlan' | 'onProgress'>
+
+/** Live order and desired list of an account, read without mutating anything. */
+export interface LiveOrderInspection {
+  currentOrder: string[]
+  desiredTop: string[]
+  quarantined: string[]
+  orphaned: OrphanedPin[]
+  pinSlots?: ResolvedPin[]
+}
+
+function respond(body: Record<string, unknown>, init: { status?: number } = {}): SyncOutcome {
+  return { status: init.status ?? 200, body }
+}
+
+/** Ends `prepareSync` early with a final outcome. */
+function halt(body: Record<string, unknown>, init: { status?: number } = {}): SyncPreparation {
+  return { outcome: respond(body, init) }
+}
+
+async function getCurrentRepoOrderFromOAuth(
+  user: { id: string; username: string },
+  options: CurrentOrderOptions
+): Promise<string[] | null> {
+  try {
+    const { accessToken } = await ensureValidToken(user.id)
+    // Siempre revalidar: un 304 no gasta rate limit y evita planificar con un orden viejo
+    const { repos } = await getCachedUserRepos(user.id, accessToken, { ttlMs: 0 })
+    // El listado incluye repos de colaborador y de organizaciones; un visitante
+    // del perfil solo ve los públicos de los que la cuenta es propietaria
+    const owner = user.username.toLowerCase()
+    return repos
+      .filter((r) => !options.publicOnly || (!r.isPrivate && r.owner.toLowerCase() === owner))
+      .map((r) => r.fullName)
+  } catch (error) {
+    // OAuth is not strictly required to perform ordering (we can still touch repos via installation),
+    // but using it gives us the user's true global order (including private repos) for accurate skips.
+    console.error('Error fetching current repo order via OAuth:', error)
+    return null
+  }
+}
+
+/**
+ * Obtiene el orden actual "global" de repositorios.
+ * Preferimos OAuth (lista real del usuario, incluyendo privados); si falla, hacemos fallback a la instalación.
+ * Los perfiles de organización usan el listado de la org con su instalación.
+ * Sin repos privados (`includePrivate` desactivado) el orden se calcula solo
+ * sobre los públicos de la cuenta (sin repos de colaborador ni de otras
+ * organizaciones): lo que ve un visitante en la pestaña de repositorios.
+ */
+async function getCurrentRepoOrder(options: {
+  installationOctokit: SyncClient
+  user: { id: string; username: string }
+  org: string | null
+  includePrivate: boolean
+}): Promise<string[]> {
+  const listing: CurrentOrderOptions = { publicOnly: !options.includePrivate }
+  if (options.org) return getCurrentRepoOrderFromOrg(options.installationOctokit, options.org, listing)
+
+  const oauthOrder = await getCurrentRepoOrderFromOAuth(options.user, listing)
+  if (oauthOrder && oauthOrder.length > 0) return oauthOrder
+
+  return getCurrentRepoOrderFromInstallation(options.installationOctokit, listing)
+}
+
+/**
+ * Lists the account's repositories: the revalidated repo cache for the
+ * personal profile, the organization listing (read with its installation)
+ * for organization profiles.
+ */
+async function loadAccountRepos(repoOrder: RepoOrder, installationId: number): Promise<Repo[]> {
+  if (repoOrder.org) return fetchOrgRepos(installationId, repoOrder.org)
+
+  const { accessToken } = await ensureValidToken(repoOrder.userId)
+  return (await getCachedUserRepos(repoOrder.userId, accessToken, { ttlMs: 0 })).repos
+}
+
+/**
+ * Lists the account's repositories once per run and moves renamed or
+ * transferred pins to their current names (by GitHub id). Dry runs apply the
+ * renames in memory only.
+ * @returns The account row to plan with and its repositories, or null
+ *          repositories when they could not be listed
+ */
+async function loadPinnedRepos<T extends RepoOrder>(
+  repoOrder: T,
+  installationId: number,
+  options: { persist: boolean }
+): Promise<{ repoOrder: T; repos: Repo[] | null }> {
+  let repos: Repo[]
+  try {
+    repos = await loadAccountRepos(repoOrder, installationId)
+  } catch (error) {
+    console.error('Failed to list account repositories:', { repoOrderId: repoOrder.id, error })
+    return { repoOrder, repos: null }
+  }
+
+  if (!options.persist) {
+    const { order, changed } = reconcileRepoIds(
+      parseDesiredTop(repoOrder.reposOrder, 0) ?? [],
+      parseRepoIds(repoOrder.reposOrderIds),
+      repos
+    )
+    return { repoOrder: changed ? { ...repoOrder, reposOrder: JSON.stringify(order) } : repoOrder, repos }
+  }
+
+  try {
+    return { repoOrder: (await applyPinnedRenames(repoOrder, repos)).repoOrder, repos }
+  } catch (error) {
+    console.error('Failed to resolve renamed repositories:', { repoOrderId: repoOrder.id, error })
+    return { repoOrder, repos }
+  }
+}
+
+/**
+ * Lista fija (`reposOrder` + `topN`) o, si la cuenta tiene reglas de pineado,
+ * la lista resuelta contra los repos actuales de la cuenta.
+ * @param repos - Account repositories, null when they could not be listed
+ * @returns null when the saved configuration is invalid
+ * @throws When the pin rules need the repository list and it is unavailable
+ */
+function resolvePinnedTop(
+  repoOrder: RepoOrder,
+  repos: Repo[] | null
+): { pinnedTop: string[]; pinSlots?: ResolvedPin[] } | null {
+  const rules = parsePinRules(repoOrder.pinRules)
+  if (!rules) {
+    const pinnedTop = parseDesiredTop(repoOrder.reposOrder, repoOrder.topN)
+    return pinnedTop ? { pinnedTop } : null
+  }
+  if (!repos) {
+    throw new Error('Repository list unavailable')
+  }
+
+  const pinSlots = resolvePinRules(rules, repos, { includePrivate: repoOrder.includePrivate })
+  return { pinnedTop: pinSlots.map((pin) => pin.repo), pinSlots }
+}
+
+async function getQuarantinedRepos(userId: string): Promise<string[]> {
+  const rows = await prisma.repoHealth.findMany({
+    where: { userId, quarantinedAt: { not: null } },
+    select: { repo: true },
+  })
+  return rows.map((row) => row.repo)
+}
+
+/**
+ * Updates per-repo health from a run's touch results.
+ * Best-effort: a failed write is logged and never fails the sync.
+ * @returns Repos quarantined by this run
+ */
+async function recordRepoHealth(userId: string, results: HealthTouchResult[]): Promise<string[]> {
+  if (results.length === 0) return []
+  try {
+    const previous = await prisma.repoHealth.findMany({
+      where: { userId, repo: { in: results.map((r) => r.repo) } },
+    })
+    const { states, newlyQuarantined } = applyTouchResults(previous, results)
+
+    for (const state of states.values()) {
+      const data = {
+        consecutiveFailures: state.consecutiveFailures,
+        lastErrorCategory: state.lastErrorCategory,
+        lastFailureAt: state.lastFailureAt,
+        lastSuccessAt: state.lastSuccessAt,
+        quarantinedAt: state.quarantinedAt,
+      }
+      await prisma.repoHealth.upsert({
+        where: { userId_repo: { userId, repo: state.repo } },
+        update: data,
+        create: { userId, repo: state.repo, ...data },
+      })
+    }
+
+    return newlyQuarantined
+  } catch (error) {
+    console.error('Failed to record repo health:', { userId, error })
+    return []
+  }
+}
+
+/**
+ * Loads the current global order and the list the sync would apply
+ * (renames, pin rules, orphans and quarantine resolved in memory).
+ * Read-only: shared by dry runs and drift checks.
+ */
+export async function inspectLiveOrder(
+  savedOrder: RepoOrder & { user: User }
+): Promise<{ outcome: SyncOutcome } | { inspection: LiveOrderInspection }> {
+  const installationId = getProfileInstallationId(savedOrder, savedOrder.user)
+  if (!installationId) {
+    return { outcome: respond({ error: 'Configuration error' }, { status: 400 }) }
+  }
+
+  const { repoOrder, repos } = await loadPinnedRepos(savedOrder, installationId, { persist: false })
+  let pinned
+  try {
+    pinned = resolvePinnedTop(repoOrder, repos)
+  } catch (error) {
+    console.error('Failed to resolve pin rules:', { repoOrderId: repoOrder.id, error })
+    return { outcome: respond({ error: 'Failed to resolve pin rules' }, { status: 502 }) }
+  }
+  if (!pinned) {
+    return { outcome: respond({ error: 'Invalid configuration' }, { status: 400 }) }
+  }
+  const { desiredTop: listed, skipped: orphaned } = excludeOrphanedPins(
+    pinned.pinnedTop,
+    repos ? findOrphanedPins(pinned.pinnedTop, repos, { includePrivate: repoOrder.includePrivate }) : []
+  )
+  const { desiredTop, skipped: quarantined } = excludeQuarantined(
+    listed,
+    await getQuarantinedRepos(repoOrder.user.id)
+  )
+
+  let octokit
+  try {
+    octokit = createAppOctokit(installationId)
+  } catch (error: unknown) {
+    console.error('Failed to create GitHub App client:', error)
+    return {
+      outcome: respond({
+        error: 'GitHub App authentication failed. Please reinstall the app.',
+      }, { status: 401 }),
+    }
+  }
+
+  let currentOrder: string[] = []
+  if (desiredTop.length > 0) {
+    try {
+      currentOrder = await getCurrentRepoOrder({
+        installationOctokit: octokit,
+        user: repoOrder.user,
+        org: repoOrder.org,
+        includePrivate: repoOrder.includePrivate,
+      })
+    } catch (error) {
+      // Un listado vacío se leería como deriva: mejor no concluir nada
+      console.error('Error fetching current repo order:', { repoOrderId: repoOrder.id, error })
+      return { outcome: respond({ error: 'Could not read the current repository order' }, { status: 502 }) }
+    }
+  }
+
+  return { inspection: { currentOrder, desiredTop, quarantined, orphaned, pinSlots: pinned.pinSlots } }
+}
+
+/**
+ * Dry run: loads the current global order and returns the plan.
+ * Read-only, so it ignores the schedule gates and the mutation flag.
+ */
+async function previewSync(savedOrder: RepoOrder & { user: User }): Promise<SyncOutcome> {
+  const inspected = await inspectLiveOrder(savedOrder)
+  if ('outcome' in inspected) return inspected.outcome
+
+  const { currentOrder, desiredTop, quarantined, orphaned, pinSlots } = inspected.inspection
+  return respond({
+    success: true,
+    dryRun: true,
+    ...buildSyncPreview(currentOrder, desiredTop),
+    // 'public': el orden actual solo cuenta repos públicos (includePrivate desactivado)
+    visibility: savedOrder.includePrivate ? 'all' : 'public',
+    quarantined,
+    orphaned,
+    pinSlots,
+  })
+}
+
+/**
+ * Runs every guard of the sync pipeline and takes the `lastSyncAt` lock.
+ * Returns either a final outcome (skip, error, dry run) or a prepared sync
+ * that `executeSync` can finish, possibly in the background.
+ * @param repoOrder - Saved order including its owner
+ * @param options.force - Skip the autoEnabled and preferred hour gates
+ * @param options.dryRun - Return the plan without mutating anything
+ */
+export async function prepareSync(
+  savedOrder: RepoOrder & { user: User },
+  options: RunSyncOptions = {}
+): Promise<SyncPreparation> {
+  const syncStartedAt = Date.now()
+  const user = savedOrder.user
+  const installationId = getProfileInstallationId(savedOrder, user)
+
+  if (!installationId) {
+    return halt({ error: 'Configuration error' }, { status: 400 })
+  }
+
+  // El usuario pudo dejar de ser admin de la org después de crear el perfil
+  if (savedOrder.org) {
+    const access = await checkOrgProfileAccess(user.id, savedOrder.org)
+    if (access !== 'ok') {
+      const { status, body } = describeOrgAccessFailure(access)
+      return halt(body, { status })
+    }
+  }
+
+  if (options.dryRun) {
+    return { outcome: await previewSync(savedOrder) }
+  }
+
+  // Cambiar al perfil con nombre programado antes de planificar
+  // (no aplica si el orden lo gestiona un repo de configuración)
+  let repoOrder = savedOrder
+  let rotated = false
+  if (!savedOrder.configRepo) {
+    try {
+      ({ repoOrder, rotated } = await applyDueRotation(savedOrder))
+    } catch (error) {
+      console.error('Failed to apply profile rotation:', { repoOrderId: savedOrder.id, error })
+    }
+  }
+
+  // Ejecución forzada (manual desde dashboard): ignora autoEnabled y hora preferida
+  const forceSync = options.force === true
+
+  if (!repoOrder.autoEnabled && !forceSync) {
+    return halt({
+      success: true,
+      skipped: true,
+      reason: 'auto_disabled',
+      message: 'Sync is disabled in settings.',
+    }, { status: 200 })
+  }
+
+  if (GITHUB_MUTATIONS_DISABLED) {
+    await prisma.syncLog.create({
+      data: {
+        userId: user.id,
+        action: 'auto_sync_skipped',
+        status: 'success',
+        details: JSON.stringify({
+          org: repoOrder.org ?? undefined,
+          reason: 'GitHub mutations are disabled by environment',
+          flag: 'GITPINS_DISABLE_GITHUB_MUTATIONS',
+        }),
+        reposAffected: '[]',
+      },
+    })
+    return halt({
+      success: true,
+      skipped: true,
+      reason: 'mutations_disabled',
+      message: 'GitHub mutations are disabled in this environment.',
+    })
+  }
+
+  // ========== VERIFICACIÓN DE HORA PREFERIDA ==========
+  // Si el usuario ha configurado una hora preferida, solo sincronizar a esa hora
+  // EXCEPTO si es una ejecución forzada manualmente, la reanudación de un
+  // sync aplazado por el rate limit o una rotación de perfil recién aplicada
+  const resumingDeferred = repoOrder.resumeSyncAt !== null && repoOrder.resumeSyncAt.getTime() <= Date.now()
+  if (repoOrder.preferredHour !== null && !forceSync && !resumingDeferred && !rotated) {
+    const currentHour = new Date().getUTCHours()
+    if (currentHour !== repoOrder.preferredHour) {
+      // Log del skip por hora
+      await prisma.syncLog.create({
+        data: {
+          userId: user.id,
+          action: 'auto_sync_skipped',
+          status: 'success',
+          details: JSON.stringify({
+            org: repoOrder.org ?? undefined,
+            reason: 'Outside preferred hour window',
+            currentHourUTC: currentHour,
+            preferredHourUTC: repoOrder.preferredHour,
+          }),
+          reposAffected: '[]',
+        },
+      })
+
+      return halt({
+        success: true,
+        message: `Skipped: Current hour (${currentHour} UTC) doesn't match preferred hour (${repoOrder.preferredHour} UTC)`,
+        skipped: true,
+        reason: 'preferred_hour',
+        currentHour,
+        preferredHour: repoOrder.preferredHour,
+      })
+    }
+  }
+  // ========== FIN VERIFICACIÓN DE HORA PREFERIDA ==========
+
+  const lockCutoff = new Date(Date.now() - SYNC_LOCK_MS)
+  const lockResult = await prisma.repoOrder.updateMany({
+    where: {
+      id: repoOrder.id,
+      OR: [
+        { lastSyncAt: null },
+        { lastSyncAt: { lt: lockCutoff } },
+      ],
+    },
+    data: { lastSyncAt: new Date() },
+  })
+
+  if (lockResult.count === 0) {
+    const latestState = await prisma.repoOrder.findUnique({
+      where: { id: repoOrder.id },
+      select: { lastSyncAt: true },
+    })
+
+    const lastSyncAt = latestState?.lastSyncAt ?? repoOrder.lastSyncAt
+    const waitMinutes = lastSyncAt
+      ? Math.max(Math.ceil((SYNC_LOCK_MS - (Date.now() - lastSyncAt.getTime())) / 60000), 1)
+      : 10
+
+    return halt({
+      success: true,
+      message: 'Sync already in progress or completed recently. Skipping.',
+      skipped: true,
+      reason: 'recent_sync',
+      lastSyncAt: lastSyncAt?.toISOString() ?? null,
+      waitMinutes,
+    })
+  }
+
+  // Crear cliente con token de la GitHub App
+  let octokit
+  try {
+    octokit = createAppOctokit(installationId)
+  } catch (error: unknown) {
+    console.error('Failed to create GitHub App client:', error)
+    await prisma.syncLog.create({
+      data: {
+        userId: user.id,
+        action: 'auto_sync',
+        status: 'error',
+        details: JSON.stringify({
+          org: repoOrder.org ?? undefined,
+          error: 'GitHub App authentication failed',
+          message: 'The GitHub App may have been uninstalled'
+        }),
+        reposAffected: '[]',
+      },
+    })
+    return halt({
+      error: 'GitHub App authentication failed. Please reinstall the app.',
+    }, { status: 401 })
+  }
+
+  // Importar el gitpins.yml del repo de configuración enlazado. Un fallo de
+  // GitHub no bloquea el sync: se ordena con el último orden importado
+  if (repoOrder.configRepo) {
+    try {
+      const imported = await importConfigRepo(repoOrder, octokit, 'sync')
+      repoOrder = { ...imported.repoOrder, user }
+    } catch (error) {
+      console.error('Failed to import config repository:', { repoOrderId: repoOrder.id, error })
+    }
+  }
+
+  // Obtener lista de repos a ordenar (fija o resuelta por reglas), con los
+  // repos renombrados o transferidos ya resueltos por id
+  const loaded = await loadPinnedRepos(repoOrder, installationId, { persist: true })
+  repoOrder = loaded.repoOrder
+  let pinned
+  try {
+    pinned = resolvePinnedTop(repoOrder, loaded.repos)
+  } catch (error) {
+    console.error('Failed to resolve pin rules:', { repoOrderId: repoOrder.id, error })
+    await prisma.syncLog.create({
+      data: {
+        userId: user.id,
+        action: 'auto_sync',
+        status: 'error',
+        details: JSON.stringify({
+          org: repoOrder.org ?? undefined,
+          error: 'Failed to resolve pin rules',
+          message: 'The repository list needed by the pin rules could not be loaded',
+        }),
+        reposAffected: '[]',
+      },
+    })
+    return halt({ error: 'Failed to resolve pin rules' }, { status: 502 })
+  }
+  if (!pinned) {
+    return halt({ error: 'Invalid configuration' }, { status: 400 })
+  }
+  const { pinSlots } = pinned
+
+  // Los pins que ya no están en la lista de la cuenta se saltan con su motivo
+  // (sin lista no se puede saber: se intentan todos)
+  const { desiredTop: listed, skipped: orphaned } = excludeOrphanedPins(
+    pinned.pinnedTop,
+    loaded.repos ? findOrphanedPins(pinned.pinnedTop, loaded.repos, { includePrivate: repoOrder.includePrivate }) : []
+  )
+
+  // Los repos en cuarentena no se tocan hasta que el usuario los reintente
+  const { desiredTop: reposToSync, skipped: quarantined } = excludeQuarantined(
+    listed,
+    await getQuarantinedRepos(user.id)
+  )
+
+  if (reposToSync.length === 0) {
+    return halt({ message: 'No repos to sync', quarantined, orphaned, pinSlots }, { status: 200 })
+  }
+
+  return {
+    prepared: {
+      repoOrder,
+      client: octokit,
+      desiredTop: reposToSync,
+      quarantined,
+      orphaned,
+      pinSlots,
+      startedAt: syncStartedAt,
+    },
+  }
+}
+
+/**
+ * Touches repositories for a prepared sync and writes the sync log.
+ * @param prepared - Result of `prepareSync`
+ * @param hooks - Optional plan/progress callbacks (used by sync jobs)
+ * @returns Status code and JSON body describing what happened
+ */
+export async function executeSync(prepared: PreparedSync, hooks: SyncHooks = {}): Promise<SyncOutcome> {
+  const { repoOrder, client: octokit, desiredTop: reposToSync, startedAt: syncStartedAt } = prepared
+  const user = repoOrder.user
+
+  const result = await runSyncEngine({
+    client: octokit,
+    desiredTop: reposToSync,
+    // Sin listado se planifica contra un orden vacío y se tocan todos los repos
+    loadCurrentOrder: () => getCurrentRepoOrder({
+      installationOctokit: octokit,
+      user,
+      org: repoOrder.org,
+      includePrivate: repoOrder.includePrivate,
+    }).catch((error: unknown) => {
+      console.error('Error fetching current repo order:', { repoOrderId: repoOrder.id, error })
+      return []
+    }),
+    verify: repoOrder.verifyAfterSync,
+    strategy: isTouchStrategy(repoOrder.commitStrategy) ? repoOrder.commitStrategy : DEFAULT_TOUCH_STRATEGY,
+    repoStrategies: parseRepoStrategies(repoOrder.repoStrategies),
+    rateLimit: getRateLimitBudget(octokit),
+    ...hooks,
+  })
+
+  // Un sync aplazado se reanuda cuando GitHub repone el presupuesto
+  // (nunca antes de que expire el lock de lastSyncAt)
+  const deferred = result.status === 'completed' ? result.deferred : undefined
+  const resumeSyncAt = deferred
+    ? new Date(Math.max(deferred.resumeAt.getTime(), syncStartedAt + SYNC_LOCK_MS))
+    : null
+  if (resumeSyncAt || repoOrder.resumeSyncAt) {
+    await prisma.repoOrder.update({
+      where: { id: repoOrder.id },
+      data: { resumeSyncAt },
+    })
+  }
+
+  if (result.status === 'already_ordered') {
+    // Los repos ya están en el orden correcto - no hacer nada
+    await prisma.syncLog.create({
+      data: {
+        userId: user.id,
+        action: 'auto_sync_skipped',
+        status: 'success',
+        details: JSON.stringify({
+          org: repoOrder.org ?? undefined,
+          reason: 'Repositories already in correct order',
+          visibility: repoOrder.includePrivate ? 'all' : 'public',
+          currentOrder: result.plan.currentTop,
+          desiredOrder: reposToSync,
+          quarantined: prepared.quarantined,
+          orphaned: prepared.orphaned,
+          pinSlots: prepared.pinSlots,
+        }),
+        reposAffected: JSON.stringify(reposToSync),
+      },
+    })
+
+    return respond({
+      success: true,
+      message: 'Repositories already in correct order. No sync needed.',
+      skipped: true,
+      reason: 'already_ordered',
+      currentOrder: result.plan.currentTop,
+      desiredOrder: reposToSync,
+    })
+  }
+
+  if (result.status === 'no_touch_needed') {
+    await prisma.syncLog.create({
+      data: {
+        userId: user.id,
+        action: 'auto_sync_skipped',
+        status: 'success',
+        details: JSON.stringify({
+          org: repoOrder.org ?? undefined,
+          reason: 'No touch operations required after optimization',
+          desiredOrder: reposToSync,
+          quarantined: prepared.quarantined,
+          orphaned: prepared.orphaned,
+          pinSlots: prepared.pinSlots,
+        }),
+        reposAffected: JSON.stringify(reposToSync),
+      },
+    })
+    return respond({
+      success: true,
+      skipped: true,
+      reason: 'no_touch_needed',
+      message: 'No touch operations required.',
+    })
+  }
+
+  const { results, logs: detailedLogs, verification } = result
+  // Los repos tocados cambian de posición: la próxima lectura descarga la lista
+  await invalidateRepoCache(user.id)
+  const allSucceeded = results.every((r) => r.status === 'success')
+  const newlyQuarantined = await recordRepoHealth(user.id, [
+    ...results,
+    ...(verification?.retryResults ?? []),
+  ])
+
+  // Registrar en log con detalles completos
+  await prisma.syncLog.create({
+    data: {
+      userId: user.id,
+      action: 'auto_sync',
+      // Un orden que sigue sin coincidir tras el reintento o un sync aplazado cuentan como parcial
+      status: allSucceeded && !deferred && verification?.status !== 'drifted' ? 'success' : 'partial',
+      details: JSON.stringify({
+        org: repoOrder.org ?? undefined,
+        results,
+        logs: detailedLogs,
+        verification,
+        deferred: deferred && { repos: deferred.repos, resumeAt: resumeSyncAt?.toISOString() },
+        visibility: repoOrder.includePrivate ? 'all' : 'public',
+        quarantined: prepared.quarantined,
+        orphaned: prepared.orphaned,
+        newlyQuarantined,
+        pinSlots: prepared.pinSlots,
+        summary: {
+          totalTouched: results.length,
+          desiredTopN: reposToSync.length,
+          successful: results.filter(r => r.status === 'success').length,
+          failed: results.filter(r => r.status === 'error').length,
+          errors: summarizeSyncErrors(results),
+          durationMs: Date.now() - syncStartedAt,
+        }
+      }),
+      reposAffected: JSON.stringify(reposToSync),
+    },
+  })
+
+  // Avisos de fallo, éxito parcial o cuarentena a los canales del usuario
+  await notifyUser(user.id, buildSyncNotifications({
+    org: repoOrder.org,
+    successful: results.filter((r) => r.status === 'success').map((r) => r.repo),
+    failed: results.filter((r) => r.status === 'error').map((r) => r.repo),
+    deferred: deferred?.repos,
+    verificationDrifted: verification?.status === 'drifted',
+    newlyQuarantined,
+  }))
+
+  return respond({
+    success: true,
+    synced: results.filter((r) => r.status === 'success').length,
+    failed: results.filter((r) => r.status === 'error').length,
+    results,
+    errors: summarizeSyncErrors(results),
+    verification,
+    deferred: deferred && { repos: deferred.repos, resumeAt: resumeSyncAt?.toISOString() },
+    quarantined: prepared.quarantined,
+    orphaned: prepared.orphaned,
+    newlyQuarantined,
+    pinSlots: prepared.pinSlots,
+  })
+}
+
+/**
+ * Runs the sync pipeline for a saved order and waits for it to finish.
+ * Callers are responsible for authenticating the request (sync secret, session or scheduler).
+ * @param repoOrder - Saved order including its owner
+ * @param options - See `prepareSync`
+ * @returns Status code and JSON body describing what happened
+ */
+export async function runSync(
+  repoOrder: RepoOrder & { user: User },
+  options: RunSyncOptions = {}
+): Promise<SyncOutcome> {
+  const preparation = await prepareSync(repoOrder, options)
+  if ('outcome' in preparation) return preparation.outcome
+  return executeSync(preparation.prepared)
+}
+
+/**
+ * Authenticates a sync secret and loads its saved order.
+ * Used by every HTTP entrypoint (path secret, header secret, dashboard) so the
+ * per-secret rate limit is counted exactly once per sync request.
+ * @param secret - The user's `syncSecret` (UUID)
+ * @returns The saved order, or the error outcome to return
+ */
+export async function resolveSyncSecret(
+  secret: string
+): Promise<{ outcome: SyncOutcome } | { repoOrder: RepoOrder & { user: User } }> {
+  // Validate secret format (should be UUID)
+  if (!SYNC_SECRET_REGEX.test(secret)) {
+    return { outcome: respond({ error: 'Invalid request' }, { status: 400 }) }
+  }
+
+  // Rate limiting per sync secret
+  const rateLimitResult = await checkRateLimit(secret, rateLimits.sync)
+  if (!rateLimitResult.success) {
+    return {
+      outcome: {
+        status: 429,
+        body: { error: 'Too many requests. Please try again later.' },
+        headers: {
+          'Retry-After': String(Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)),
+          'X-RateLimit-Remaining': '0',
+          'X-RateLimit-Reset': String(rateLimitResult.resetTime),
+        },
+      },
+    }
+  }
+
+  // Buscar usuario por sync secret
+  const repoOrder = await prisma.repoOrder.findFirst({
+    where: { syncSecret: secret },
+    include: { user: true },
+  })
+
+  if (!repoOrder || !repoOrder.user) {
+    // Use generic error message to prevent enumeration
+    return { outcome: respond({ error: 'Invalid request' }, { status: 401 }) }
+  }
+
+  return { repoOrder }
+}
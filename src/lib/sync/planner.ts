@@ -0,0 +1,224 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Sync Planner
+ * Pure functions that decide which repositories need a touch so the global
+ * "recently updated" order matches the saved top-N. No I/O, safe to unit test.
+ */
+
+export interface SyncPlan {
+  /** First N repositories of the current global order */
+  currentTop: string[]
+  /** Saved order truncated to topN */
+  desiredTop: string[]
+  /** True when currentTop already equals desiredTop */
+  alreadyOrdered: boolean
+  /** Minimal prefix of desiredTop that must be touched */
+  reposToTouch: string[]
+}
+
+export function arraysEqual(left: string[], right: string[]): boolean {
+  if (left.length !== right.length) return false
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] !== right[i]) return false
+  }
+  return true
+}
+
+/**
+ * Parses the stored `reposOrder` JSON and truncates it to `topN`.
+ * @returns The desired top list, or null when the stored value is not valid JSON
+ */
+export function parseDesiredTop(reposOrder: string, topN: number): string[] | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(reposOrder)
+  } catch {
+    return null
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed.filter((item): item is string => typeof item === 'string')
+    : []
+  return list.slice(0, topN || list.length)
+}
+
+/**
+ * Verifica si los repositorios ya están en el orden correcto.
+ * Compara los primeros N repos globales con los N repos deseados.
+ * @param currentOrder - Current order from GitHub API
+ * @param desiredTop - Desired repos in top order
+ * @returns true if repos are already in correct order
+ */
+export function isRepoOrderCorrect(
+  currentOrder: string[],
+  desiredTop: string[]
+): boolean {
+  const currentTop = currentOrder.slice(0, desiredTop.length)
+  if (currentTop.length < desiredTop.length) {
+    return false
+  }
+
+  // Verificar que cada repo esté en la posición correcta
+  for (let i = 0; i < desiredTop.length; i++) {
+    if (currentTop[i] !== desiredTop[i]) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Computes the minimal prefix of desired repos that must be "touched"
+ * so the global top-N ends up matching desiredTop exactly.
+ */
+export function getReposToTouch(
+  currentOrder: string[],
+  desiredTop: string[]
+): string[] {
+  if (desiredTop.length === 0) return []
+
+  for (let prefixLength = 0; prefixLength <= desiredTop.length; prefixLength++) {
+    const touchedPrefix = desiredTop.slice(0, prefixLength)
+    const touchedSet = new Set(touchedPrefix)
+
+    const currentWithoutTouched = currentOrder.filter(fullName => !touchedSet.has(fullName))
+    const candidateTop = [
+      ...touchedPrefix,
+      ...currentWithoutTouched.slice(0, desiredTop.length - prefixLength),
+    ]
+
+    if (arraysEqual(candidateTop, desiredTop)) {
+      return touchedPrefix
+    }
+  }
+
+  return [...desiredTop]
+}
+
+/**
+ * Builds the full plan for a sync run.
+ * @param currentOrder - Current global order, most recently updated first
+ * @param desiredTop - Saved order truncated to topN
+ */
+export function planSync(currentOrder: string[], desiredTop: string[]): SyncPlan {
+  const alreadyOrdered = isRepoOrderCorrect(currentOrder, desiredTop)
+  return {
+    currentTop: currentOrder.slice(0, desiredTop.length),
+    desiredTop,
+    alreadyOrdered,
+    reposToTouch: alreadyOrdered ? [] : getReposToTouch(currentOrder, desiredTop),
+  }
+}
+
+/**
+ * Validates a repository owner or name (GitHub constraints: 1-100 chars,
+ * alphanumeric, hyphen, underscore, dot). Must not start with a dot.
+ */
+export function isValidRepoNamePart(name: string): boolean {
+  if (!name || name.length > 100) return false
+  if (name.startsWith('.')) return false
+  if (name === '.' || name === '..') return false
+  return /^[a-zA-Z0-9._-]+$/.test(name)
+}
+
+export interface SyncPreview {
+  currentTop: string[]
+  desiredTop: string[]
+  alreadyOrdered: boolean
+  /** Repositories in the order they would be touched (last desired first) */
+  touchOrder: string[]
+  /** Global top-N expected after all touches succeed */
+  predictedTop: string[]
+}
+
+/**
+ * Touches run in reverse so the first desired repo ends up most recent.
+ */
+export function getTouchExecutionOrder(reposToTouch: string[]): string[] {
+  return [...reposToTouch].reverse()
+}
+
+/**
+ * Predicts the global order after touching `reposToTouch`: touched repos move
+ * to the top in desired order, everything else keeps its relative position.
+ */
+export function predictOrderAfterTouch(currentOrder: string[], reposToTouch: string[]): string[] {
+  const touchedSet = new Set(reposToTouch)
+  return [...reposToTouch, ...currentOrder.filter((fullName) => !touchedSet.has(fullName))]
+}
+
+/**
+ * Describes what a sync would do, for dry runs that must not mutate repositories.
+ */
+export function buildSyncPreview(currentOrder: string[], desiredTop: string[]): SyncPreview {
+  const plan = planSync(currentOrder, desiredTop)
+  return {
+    currentTop: plan.currentTop,
+    desiredTop,
+    alreadyOrdered: plan.alreadyOrdered,
+    touchOrder: getTouchExecutionOrder(plan.reposToTouch),
+    predictedTop: predictOrderAfterTouch(currentOrder, plan.reposToTouch).slice(0, desiredTop.length),
+  }
+}
+
+/** One position of the visitor view compared with the desired list. */
+export interface PublicViewRow {
+  position: number
+  /** Repo a logged-out visitor sees at this position */
+  visitor: string | null
+  /** Repo that should be there */
+  desired: string | null
+  matches: boolean
+}
+
+export interface PublicViewComparison {
+  rows: PublicViewRow[]
+  /** True when the visitor's top already equals the visible desired list */
+  inOrder: boolean
+  /** Minimal prefix of the visible desired list a sync would touch */
+  reposToTouch: string[]
+  /** Desired repos a visitor never sees (private, or not on the profile) */
+  hidden: string[]
+  /** Desired repos an incomplete listing stopped before finding (pinned after the check) */
+  unchecked: string[]
+}
+
+/**
+ * Compares what a visitor sees on the repositories tab with the desired
+ * list. Desired repos missing from the full public listing are reported
+ * apart, since no sync can make them visible.
+ * @param visitorOrder - Public repositories, most recently updated first
+ * @param desiredTop - Pinned repos, in order
+ * @param complete - Whether visitorOrder is the whole listing; when it is not,
+ *   missing repos are unchecked rather than hidden
+ */
+export function comparePublicView(
+  visitorOrder: string[],
+  desiredTop: string[],
+  complete: boolean = true
+): PublicViewComparison {
+  const visible = new Set(visitorOrder)
+  const desired = desiredTop.filter((repo) => visible.has(repo))
+  const missing = desiredTop.filter((repo) => !visible.has(repo))
+
+  const rows = desired.map((repo, index): PublicViewRow => ({
+    position: index + 1,
+    visitor: visitorOrder[index] ?? null,
+    desired: repo,
+    matches: visitorOrder[index] === repo,
+  }))
+
+  return {
+    rows,
+    inOrder: isRepoOrderCorrect(visitorOrder, desired),
+    reposToTouch: getReposToTouch(visitorOrder, desired),
+    hidden: complete ? missing : [],
+    unchecked: complete ? [] : missing,
+  }
+}
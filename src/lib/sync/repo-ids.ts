@@ -0,0 +1,100 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Pinned Repository IDs
+ * `reposOrder` stores display names (`owner/name`), which change when a repo
+ * is renamed or transferred. `repo_orders.reposOrderIds` maps each pinned
+ * name to its GitHub repository id so a fresh repository listing can move
+ * the pin to the current name. Pure functions, safe to unit test.
+ */
+
+import type { Repo } from '../../types'
+import { renameInOrder } from '../webhooks'
+
+/** A pinned repository whose full name changed on GitHub. */
+export interface PinnedRename {
+  id: number
+  from: string
+  to: string
+}
+
+/**
+ * Parses the stored name → id map. Malformed JSON and invalid ids are dropped.
+ */
+export function parseRepoIds(raw: string | null | undefined): Record<string, number> {
+  if (!raw) return {}
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {}
+    const ids: Record<string, number> = {}
+    for (const [repo, id] of Object.entries(parsed as Record<string, unknown>)) {
+      if (typeof id === 'number' && Number.isSafeInteger(id) && id > 0) ids[repo] = id
+    }
+    return ids
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Keeps only the ids of repositories that are still pinned.
+ */
+export function retainRepoIds(ids: Record<string, number>, order: string[]): Record<string, number> {
+  const result: Record<string, number> = {}
+  for (const repo of order) {
+    if (ids[repo] !== undefined) result[repo] = ids[repo]
+  }
+  return result
+}
+
+/**
+ * Moves an id to a repository's new full name (rename or transfer).
+ */
+export function renameRepoId(ids: Record<string, number>, from: string, to: string): Record<string, number> {
+  if (!(from in ids)) return ids
+  const { [from]: id, ...rest } = ids
+  return { ...rest, [to]: id }
+}
+
+/**
+ * Matches the pinned names against a fresh listing of the account's repos.
+ * A pin whose id now belongs to another name is renamed in place; pins
+ * without an id get the id of the repo with the same name. Pins missing from
+ * the listing (deleted, or no longer accessible) are left untouched.
+ * @returns The updated order and ids, the renames applied, and whether
+ *          anything needs to be saved
+ */
+export function reconcileRepoIds(
+  order: string[],
+  ids: Record<string, number>,
+  repos: Array<Pick<Repo, 'id' | 'fullName'>>
+): { order: string[]; ids: Record<string, number>; renamed: PinnedRename[]; changed: boolean } {
+  const nameById = new Map(repos.map((repo) => [repo.id, repo.fullName]))
+  const idByName = new Map(repos.map((repo) => [repo.fullName.toLowerCase(), repo.id]))
+
+  let nextOrder = order
+  let nextIds: Record<string, number> = {}
+  const renamed: PinnedRename[] = []
+
+  for (const repo of order) {
+    const id = ids[repo] ?? idByName.get(repo.toLowerCase())
+    if (id === undefined) continue
+
+    const currentName = nameById.get(id)
+    if (currentName && currentName !== repo) {
+      nextOrder = renameInOrder(nextOrder, repo, currentName).order
+      renamed.push({ id, from: repo, to: currentName })
+      nextIds[currentName] = id
+    } else {
+      nextIds[repo] = id
+    }
+  }
+
+  nextIds = retainRepoIds(nextIds, nextOrder)
+  const changed = renamed.length > 0 || JSON.stringify(nextIds) !== JSON.stringify(retainRepoIds(ids, order))
+  return { order: nextOrder, ids: nextIds, renamed, changed }
+}
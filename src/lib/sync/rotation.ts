@@ -0,0 +1,183 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Profile Rotation
+ * Pure scheduling for named order profiles (`order_profiles`). A profile can
+ * be activated once on a date (`activateAt`) or repeatedly from a 5-field
+ * cron expression in UTC (`cron`). Before planning, the sync pipeline asks
+ * which activation happened since the last check and switches to it.
+ */
+
+/** Named profiles an account can keep. */
+export const MAX_ORDER_PROFILES = 10
+
+export const MAX_PROFILE_NAME_LENGTH = 50
+
+/**
+ * Oldest activation still applied. A cron scan never walks back further
+ * than this, however long ago the last check was.
+ */
+export const ROTATION_LOOKBACK_MS = 31 * 24 * 60 * 60 * 1000
+
+/** Parsed cron expression: allowed values per field. */
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  /** Day of month and day of week restricted: either one matches (cron semantics) */
+  dayOr: boolean
+}
+
+/** Schedule fields of a named profile. */
+export interface RotatingProfile {
+  id: string
+  activateAt: Date | null
+  cron: string | null
+}
+
+export interface DueRotation<T extends RotatingProfile> {
+  profile: T
+  /** Scheduled activation time that triggered the switch */
+  scheduledAt: Date
+  trigger: 'date' | 'cron'
+}
+
+const CRON_FIELDS = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 },
+] as const
+
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) return null
+
+    const start = match[1] === '*' ? min : Number(match[2])
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start
+    const step = match[4] ? Number(match[4]) : 1
+    if (start < min || end > max || start > end || step < 1) return null
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parses a standard 5-field cron expression (minute hour day-of-month month
+ * day-of-week) with `*`, lists, ranges and steps. Names (`MON`, `JAN`) are
+ * not supported.
+ * @returns The schedule, or null when the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) return null
+
+  const parsed = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i].min, CRON_FIELDS[i].max))
+  if (parsed.some((values) => values === null)) return null
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as Set<number>[]
+
+  // 7 también es domingo
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOr: fields[2] !== '*' && fields[4] !== '*',
+  }
+}
+
+export function isValidCron(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= 100 && parseCron(value) !== null
+}
+
+function matchesDay(schedule: CronSchedule, day: Date): boolean {
+  if (!schedule.months.has(day.getUTCMonth() + 1)) return false
+  const dom = schedule.daysOfMonth.has(day.getUTCDate())
+  const dow = schedule.daysOfWeek.has(day.getUTCDay())
+  return schedule.dayOr ? dom || dow : dom && dow
+}
+
+function descending(values: Set<number>, max: number): number[] {
+  return [...values].filter((value) => value <= max).sort((a, b) => b - a)
+}
+
+/**
+ * Latest time matching the schedule in `(after, upTo]`, or null.
+ * Walks back day by day, so a month-long window costs at most ~31 day checks.
+ */
+export function previousCronOccurrence(schedule: CronSchedule, upTo: Date, after: Date): Date | null {
+  const day = new Date(Date.UTC(upTo.getUTCFullYear(), upTo.getUTCMonth(), upTo.getUTCDate()))
+
+  while (day.getTime() + 24 * 60 * 60 * 1000 > after.getTime()) {
+    if (matchesDay(schedule, day)) {
+      const sameDay = day.getTime() === Date.UTC(upTo.getUTCFullYear(), upTo.getUTCMonth(), upTo.getUTCDate())
+      for (const hour of descending(schedule.hours, sameDay ? upTo.getUTCHours() : 23)) {
+        const sameHour = sameDay && hour === upTo.getUTCHours()
+        for (const minute of descending(schedule.minutes, sameHour ? upTo.getUTCMinutes() : 59)) {
+          const candidate = new Date(day.getTime() + (hour * 60 + minute) * 60 * 1000)
+          if (candidate <= after) return null
+          return candidate
+        }
+      }
+    }
+    day.setUTCDate(day.getUTCDate() - 1)
+  }
+
+  return null
+}
+
+/**
+ * Finds the profile that should be active after the activations scheduled in
+ * `(since, now]`. When several fired, the most recent one wins.
+ * @param since - Last rotation check; null means never checked (nothing is due)
+ * @returns The due activation, or null when no schedule fired
+ */
+export function findDueRotation<T extends RotatingProfile>(
+  profiles: T[],
+  since: Date | null,
+  now: Date = new Date()
+): DueRotation<T> | null {
+  if (!since) return null
+  const after = new Date(Math.max(since.getTime(), now.getTime() - ROTATION_LOOKBACK_MS))
+
+  let due: DueRotation<T> | null = null
+  for (const profile of profiles) {
+    if (profile.activateAt && profile.activateAt > after && profile.activateAt <= now) {
+      if (!due || profile.activateAt > due.scheduledAt) {
+        due = { profile, scheduledAt: profile.activateAt, trigger: 'date' }
+      }
+    }
+
+    const schedule = profile.cron ? parseCron(profile.cron) : null
+    const occurrence = schedule ? previousCronOccurrence(schedule, now, after) : null
+    if (occurrence && (!due || occurrence > due.scheduledAt)) {
+      due = { profile, scheduledAt: occurrence, trigger: 'cron' }
+    }
+  }
+
+  return due
+}
+
+/** Validates a profile name (trimmed, 1-50 characters). */
+export function parseProfileName(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const name = value.trim()
+  return name.length > 0 && name.length <= MAX_PROFILE_NAME_LENGTH ? name : null
+}
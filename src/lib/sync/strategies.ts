@@ -0,0 +1,216 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Touch Strategies
+ * Ways of making a repository look "recently updated" to GitHub.
+ * - revert: create+delete a temporary tag ref (original strategy, legacy key)
+ * - branch: create+delete a temporary lightweight branch ref
+ * - annotated_tag: create an annotated tag object, point a ref at it, delete the ref
+ * - metadata: change the repository description and restore it
+ * The user picks a default in settings and may override it per repository.
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { Octokit } from 'octokit'
+
+/** Subset of Octokit used by the strategies. Tests can provide a fake. */
+type StrategyClient = Pick<Octokit, 'rest'>
+
+export const TOUCH_STRATEGIES = ['revert', 'branch', 'annotated_tag', 'metadata'] as const
+
+export type TouchStrategyId = typeof TOUCH_STRATEGIES[number]
+
+/** Strategy used when nothing valid is configured. */
+export const DEFAULT_TOUCH_STRATEGY: TouchStrategyId = 'revert'
+
+export interface TouchContext {
+  client: StrategyClient
+  owner: string
+  repo: string
+  /** 1-based position of the repo in the desired top-N (used in temporary names) */
+  desiredPosition: number
+}
+
+export interface TouchOutcome {
+  /** Non-fatal problems, e.g. a temporary ref that could not be deleted */
+  warnings: string[]
+}
+
+export type TouchStrategy = (context: TouchContext) => Promise<TouchOutcome>
+
+export function isTouchStrategy(value: unknown): value is TouchStrategyId {
+  return typeof value === 'string' && (TOUCH_STRATEGIES as readonly string[]).includes(value)
+}
+
+/**
+ * Parses the stored per-repo overrides (`repo_orders.repoStrategies`).
+ * Unknown strategies and malformed JSON are dropped.
+ */
+export function parseRepoStrategies(raw: string | null | undefined): Record<string, TouchStrategyId> {
+  if (!raw) return {}
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {}
+    return sanitizeRepoStrategies(parsed as Record<string, unknown>)
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Keeps only valid overrides, optionally limited to the given repositories.
+ */
+export function sanitizeRepoStrategies(
+  overrides: Record<string, unknown>,
+  allowedRepos?: string[]
+): Record<string, TouchStrategyId> {
+  const allowed = allowedRepos ? new Set(allowedRepos) : null
+  const result: Record<string, TouchStrategyId> = {}
+  for (const [repo, strategy] of Object.entries(overrides)) {
+    if (allowed && !allowed.has(repo)) continue
+    if (isTouchStrategy(strategy)) result[repo] = strategy
+  }
+  return result
+}
+
+/**
+ * Moves an override to a repository's new full name (rename or transfer).
+ */
+export function renameRepoStrategy(
+  overrides: Record<string, TouchStrategyId>,
+  from: string,
+  to: string
+): Record<string, TouchStrategyId> {
+  if (!(from in overrides)) return overrides
+  const { [from]: strategy, ...rest } = overrides
+  return { ...rest, [to]: strategy }
+}
+
+/**
+ * Strategy for one repository: its override if any, otherwise the default.
+ */
+export function resolveTouchStrategy(
+  repo: string,
+  defaultStrategy: TouchStrategyId = DEFAULT_TOUCH_STRATEGY,
+  overrides: Record<string, TouchStrategyId> = {}
+): TouchStrategyId {
+  return overrides[repo] ?? defaultStrategy
+}
+
+/**
+ * Resolves the HEAD commit of the default branch.
+ * Works for repos whose default branch is not main/master; falls back to
+ * main then master when the repository metadata cannot be read.
+ */
+export async function resolveDefaultBranchSha(
+  client: StrategyClient,
+  owner: string,
+  repo: string
+): Promise<{ branch: string; sha: string }> {
+  let defaultBranch: string | null = null
+  try {
+    const { data: repoData } = await client.rest.repos.get({ owner, repo })
+    if (typeof repoData.default_branch === 'string' && repoData.default_branch) {
+      defaultBranch = repoData.default_branch
+    }
+  } catch {
+    // Best-effort fallback below
+  }
+
+  if (defaultBranch) {
+    const { data } = await client.rest.git.getRef({ owner, repo, ref: `heads/${defaultBranch}` })
+    return { branch: defaultBranch, sha: data.object.sha }
+  }
+
+  try {
+    const { data } = await client.rest.git.getRef({ owner, repo, ref: 'heads/main' })
+    return { branch: 'main', sha: data.object.sha }
+  } catch {
+    const { data } = await client.rest.git.getRef({ owner, repo, ref: 'heads/master' })
+    return { branch: 'master', sha: data.object.sha }
+  }
+}
+
+function temporaryName(desiredPosition: number): string {
+  return `gitpins-touch-${Date.now().toString(36)}-${randomUUID().slice(0, 8)}-${desiredPosition}`
+}
+
+/**
+ * Creates a temporary ref and deletes it right away.
+ * A failed delete is reported as a warning: leaving a stray ref is noisy
+ * but safer than failing the whole run.
+ */
+async function touchWithTemporaryRef(
+  { client, owner, repo }: TouchContext,
+  kind: 'tags' | 'heads',
+  name: string,
+  sha: string
+): Promise<TouchOutcome> {
+  await client.rest.git.createRef({ owner, repo, ref: `refs/${kind}/${name}`, sha })
+
+  try {
+    await client.rest.git.deleteRef({ owner, repo, ref: `${kind}/${name}` })
+    return { warnings: [] }
+  } catch (error) {
+    console.error('Failed to delete temporary ref:', { owner, repo, ref: `${kind}/${name}`, error })
+    return { warnings: [`failed to delete temporary ${kind === 'tags' ? 'tag' : 'branch'} ${name}`] }
+  }
+}
+
+const METADATA_RESTORE_ATTEMPTS = 2
+
+export const touchStrategies: Record<TouchStrategyId, TouchStrategy> = {
+  // Temporary tag pointing at HEAD; no commits, no branches.
+  revert: async (context) => {
+    const { sha } = await resolveDefaultBranchSha(context.client, context.owner, context.repo)
+    return touchWithTemporaryRef(context, 'tags', temporaryName(context.desiredPosition), sha)
+  },
+
+  // Para repos con reglas de protección de tags.
+  // Note: a branch push may trigger `on: push` workflows that do not filter branches.
+  branch: async (context) => {
+    const { sha } = await resolveDefaultBranchSha(context.client, context.owner, context.repo)
+    return touchWithTemporaryRef(context, 'heads', temporaryName(context.desiredPosition), sha)
+  },
+
+  // The tag object stays unreferenced once the ref is gone and GitHub garbage-collects it.
+  annotated_tag: async (context) => {
+    const { client, owner, repo } = context
+    const { sha } = await resolveDefaultBranchSha(client, owner, repo)
+    const name = temporaryName(context.desiredPosition)
+    const { data: tag } = await client.rest.git.createTag({
+      owner,
+      repo,
+      tag: name,
+      message: 'GitPins temporary touch',
+      object: sha,
+      type: 'commit',
+    })
+    return touchWithTemporaryRef(context, 'tags', name, tag.sha)
+  },
+
+  // No refs at all. Needs the "Administration: write" app permission.
+  // A description left as gitpins-touch-… would be visible on the profile, so
+  // the restore is retried once and a second failure fails the repo.
+  metadata: async ({ client, owner, repo, desiredPosition }) => {
+    const { data } = await client.rest.repos.get({ owner, repo })
+    // null (sin descripción) se conserva; los tipos de octokit solo declaran string
+    const original = data.description as string
+
+    await client.rest.repos.update({ owner, repo, description: temporaryName(desiredPosition) })
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await client.rest.repos.update({ owner, repo, description: original })
+        return { warnings: attempt > 1 ? ['restored the repository description on the second attempt'] : [] }
+      } catch (error) {
+        console.error('Failed to restore repository description:', { owner, repo, attempt, error })
+        if (attempt >= METADATA_RESTORE_ATTEMPTS) throw error
+      }
+    }
+  },
+}
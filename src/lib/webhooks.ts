@@ -0,0 +1,208 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * GitHub Webhooks Module
+ * Verifies GitHub App webhook signatures and translates installation/repository
+ * lifecycle events and pushes to config repositories into changes that
+ * GitPins must apply to stored orders.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { CONFIG_FILE_PATHS } from './config-repo/parse'
+
+const SIGNATURE_PREFIX = 'sha256='
+
+/**
+ * A change derived from a GitHub webhook delivery.
+ * Every change is scoped to the installation that received the event.
+ */
+export type WebhookChange =
+  | { type: 'installation_removed'; installationId: number }
+  | { type: 'repos_removed'; installationId: number; repos: string[]; reason: 'installation_repositories' | 'deleted' }
+  | { type: 'repo_renamed'; installationId: number; from: string; to: string; reason: 'renamed' | 'transferred' }
+  | { type: 'config_pushed'; installationId: number; repo: string }
+
+/**
+ * Verifies the `X-Hub-Signature-256` header of a webhook delivery.
+ * @param payload - Raw request body exactly as received
+ * @param signatureHeader - Value of the `X-Hub-Signature-256` header
+ * @param secret - Webhook secret configured in the GitHub App
+ * @returns true if the signature matches the payload
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  signatureHeader: string | null,
+  secret: string
+): boolean {
+  if (!secret || !signatureHeader || !signatureHeader.startsWith(SIGNATURE_PREFIX)) {
+    return false
+  }
+
+  const expected = createHmac('sha256', secret).update(payload, 'utf8').digest('hex')
+  const received = signatureHeader.slice(SIGNATURE_PREFIX.length)
+
+  if (!/^[0-9a-f]{64}$/i.test(received)) {
+    return false
+  }
+
+  return timingSafeEqual(Buffer.from(expected, 'hex'), Buffer.from(received, 'hex'))
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : null
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null
+}
+
+/**
+ * Whether a push touched a config file at the repository root.
+ * GitHub lists at most 20 commits per push; a file changed in a commit past
+ * that is picked up by the next sync instead.
+ */
+function touchesConfigFile(commits: unknown[]): boolean {
+  const configPaths: readonly string[] = CONFIG_FILE_PATHS
+  return commits.some((commit) => {
+    const record = asRecord(commit)
+    return ['added', 'modified', 'removed'].some((key) => {
+      const paths = record?.[key]
+      return Array.isArray(paths) && paths.some((path) => typeof path === 'string' && configPaths.includes(path))
+    })
+  })
+}
+
+function readInstallationId(payload: Record<string, unknown>): number | null {
+  const installation = asRecord(payload.installation)
+  const id = installation?.id
+  return typeof id === 'number' && Number.isInteger(id) && id > 0 ? id : null
+}
+
+/**
+ * Translates a webhook delivery into the change GitPins must apply.
+ * Events and actions we do not care about return null.
+ * @param event - Value of the `X-GitHub-Event` header
+ * @param payload - Parsed JSON body
+ */
+export function parseWebhookEvent(event: string, payload: unknown): WebhookChange | null {
+  const body = asRecord(payload)
+  if (!body) return null
+
+  const installationId = readInstallationId(body)
+  if (!installationId) return null
+
+  const action = readString(body.action)
+
+  if (event === 'installation') {
+    return action === 'deleted' ? { type: 'installation_removed', installationId } : null
+  }
+
+  if (event === 'installation_repositories') {
+    if (action !== 'removed' || !Array.isArray(body.repositories_removed)) return null
+
+    const repos = body.repositories_removed
+      .map((repo) => readString(asRecord(repo)?.full_name))
+      .filter((fullName): fullName is string => fullName !== null)
+
+    return repos.length > 0
+      ? { type: 'repos_removed', installationId, repos, reason: 'installation_repositories' }
+      : null
+  }
+
+  if (event === 'push') {
+    const repository = asRecord(body.repository)
+    const fullName = readString(repository?.full_name)
+    const defaultBranch = readString(repository?.default_branch)
+    if (!fullName || !defaultBranch || body.ref !== `refs/heads/${defaultBranch}` || body.deleted === true) return null
+    if (!Array.isArray(body.commits) || !touchesConfigFile(body.commits)) return null
+
+    // configRepo se guarda en minúsculas
+    return { type: 'config_pushed', installationId, repo: fullName.toLowerCase() }
+  }
+
+  if (event === 'repository') {
+    const repository = asRecord(body.repository)
+    const fullName = readString(repository?.full_name)
+    const name = readString(repository?.name)
+    if (!fullName || !name) return null
+
+    if (action === 'deleted') {
+      return { type: 'repos_removed', installationId, repos: [fullName], reason: 'deleted' }
+    }
+
+    const changes = asRecord(body.changes)
+
+    if (action === 'renamed') {
+      const previousName = readString(asRecord(asRecord(changes?.repository)?.name)?.from)
+      if (!previousName) return null
+      const owner = fullName.slice(0, fullName.indexOf('/'))
+      return { type: 'repo_renamed', installationId, from: `${owner}/${previousName}`, to: fullName, reason: 'renamed' }
+    }
+
+    if (action === 'transferred') {
+      const previousOwner = asRecord(asRecord(changes?.owner)?.from)
+      const previousLogin =
+        readString(asRecord(previousOwner?.user)?.login) ??
+        readString(asRecord(previousOwner?.organization)?.login)
+      if (!previousLogin) return null
+      return { type: 'repo_renamed', installationId, from: `${previousLogin}/${name}`, to: fullName, reason: 'transferred' }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Replaces a repository full name inside an order, keeping its position.
+ * GitHub names are case-insensitive, so matching ignores case.
+ * @returns The new order and whether anything changed
+ */
+export function renameInOrder(
+  order: string[],
+  from: string,
+  to: string
+): { order: string[]; changed: boolean } {
+  const fromKey = from.toLowerCase()
+  let changed = false
+
+  const renamed = order.map((fullName) => {
+    if (fullName.toLowerCase() !== fromKey) return fullName
+    changed = true
+    return to
+  })
+
+  // If the new name was already pinned, keep only its first occurrence.
+  const seen = new Set<string>()
+  const deduped = renamed.filter((fullName) => {
+    const key = fullName.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+
+  return { order: deduped, changed }
+}
+
+/**
+ * Removes repositories from an order (case-insensitive).
+ * @returns The new order and the entries that were actually removed
+ */
+export function removeFromOrder(
+  order: string[],
+  repos: string[]
+): { order: string[]; removed: string[] } {
+  const keys = new Set(repos.map((repo) => repo.toLowerCase()))
+  const removed: string[] = []
+
+  const remaining = order.filter((fullName) => {
+    if (!keys.has(fullName.toLowerCase())) return true
+    removed.push(fullName)
+    return false
+  })
+
+  return { order: remaining, removed }
+}
@@ -0,0 +1,217 @@
+/**
+ * GitPins - Control the order of your GitHub repositories
+ * @author 686f6c61
+ * @repository https://github.com/686f6c61/gitpins
+ * @created 2025
+ * @license MIT
+ *
+ * Public REST API v1 Schemas
+ * Request and response schemas of `/api/v1`. Routes validate with them, the
+ * OpenAPI document (src/lib/api-v1/openapi.ts) is generated from them and
+ * clients can import the inferred types. Changing a schema changes the
+ * public contract: keep changes backwards compatible within v1.
+ */
+
+import { z } from 'zod'
+
+/** Sync frequencies accepted by the settings (hours). */
+export const SYNC_FREQUENCY_HOURS = [1, 2, 4, 6, 8, 12, 24, 48, 168, 360, 720] as const
+
+const DateTime = z.string().meta({ format: 'date-time' })
+
+export const RepoFullNameSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9._-]{1,100}\/[a-zA-Z0-9._-]{1,100}$/)
+  .meta({ description: 'Repository full name (`owner/name`)', example: 'octocat/hello-world' })
+
+export const CommitStrategySchema = z
+  .enum(['revert', 'branch', 'annotated_tag', 'metadata'])
+  .meta({ description: 'How a repository is touched: temporary tag ref (`revert`), temporary branch, annotated tag or description update' })
+
+export const PinRuleFilterSchema = z.object({
+  language: z.string().min(1).max(100).optional(),
+  minStars: z.number().int().min(0).optional(),
+  minForks: z.number().int().min(0).optional(),
+  owner: z.string().min(1).max(100).optional(),
+  isOrg: z.boolean().optional(),
+  isPrivate: z.boolean().optional(),
+  namePattern: z.string().min(1).max(100).optional().meta({ description: 'Repository name glob, `*` as wildcard' }),
+  topic: z.string().min(1).max(100).optional(),
+})
+
+export const PinSlotSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('pin'),
+    repo: RepoFullNameSchema,
+  }),
+  z.object({
+    type: z.literal('rule'),
+    label: z.string().min(1).max(100).optional(),
+    count: z.number().int().min(1).max(20),
+    sortBy: z.enum(['stars', 'forks', 'updated', 'name']),
+    filter: PinRuleFilterSchema,
+  }),
+]).meta({ description: 'A fixed repository or the best `count` repositories matching a filter' })
+
+export const ProfileQuerySchema = z.object({
+  org: z
+    .string()
+    .regex(/^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i)
+    .toLowerCase()
+    .optional()
+    .meta({ description: 'Organization login (case-insensitive); omitted selects the personal profile' }),
+})
+
+// ---------------------------------------------------------------------------
+// Order
+// ---------------------------------------------------------------------------
+
+export const OrderSchema = z.object({
+  org: z.string().nullable(),
+  pinned: z.array(RepoFullNameSchema).meta({ description: 'Saved pinned list, in order' }),
+  topN: z.number().int(),
+  pinRules: z.array(PinSlotSchema).nullable().meta({ description: 'Slots replacing `pinned` + `topN` when set' }),
+  updatedAt: DateTime,
+})
+
+export const OrderUpdateSchema = z.strictObject({
+  pinned: z.array(RepoFullNameSchema).max(500),
+  topN: z.number().int().min(1).max(100).optional().meta({ description: 'Defaults to the current value' }),
+  pinRules: z.array(PinSlotSchema).max(20).nullable().optional().meta({ description: '`null` turns rules off; omitted keeps the current rules' }),
+})
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+export const SettingsSchema = z.object({
+  org: z.string().nullable(),
+  includePrivate: z.boolean(),
+  syncFrequency: z.number().int().meta({ description: 'Hours between scheduled syncs' }),
+  autoEnabled: z.boolean(),
+  commitStrategy: CommitStrategySchema,
+  repoStrategies: z.record(z.string(), CommitStrategySchema).meta({ description: 'Per-repository overrides of `commitStrategy`' }),
+  preferredHour: z.number().int().min(0).max(23).nullable().meta({ description: 'UTC hour scheduled syncs wait for' }),
+  verifyAfterSync: z.boolean(),
+  driftEarlySync: z.boolean(),
+  lastSyncAt: DateTime.nullable(),
+  driftedSince: DateTime.nullable().meta({ description: 'Start of the current drift, null when in order' }),
+})
+
+export const SettingsUpdateSchema = z.strictObject({
+  includePrivate: z.boolean().optional(),
+  syncFrequency: z.literal(SYNC_FREQUENCY_HOURS).optional().meta({ description: 'Hours between scheduled syncs' }),
+  autoEnabled: z.boolean().optional(),
+  commitStrategy: CommitStrategySchema.optional(),
+  repoStrategies: z.record(RepoFullNameSchema, CommitStrategySchema).optional().meta({ description: 'Replaces all overrides; repos outside the pinned list are dropped' }),
+  preferredHour: z.number().int().min(0).max(23).nullable().optional(),
+  verifyAfterSync: z.boolean().optional(),
+  driftEarlySync: z.boolean().optional(),
+})
+
+// ---------------------------------------------------------------------------
+// Syncs
+// ---------------------------------------------------------------------------
+
+export const SyncJobSchema = z.object({
+  id: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'failed']),
+  trigger: z.enum(['secret', 'manual', 'scheduler', 'drift']),
+  total: z.number().int(),
+  processed: z.number().int(),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  repos: z.array(z.object({
+    repo: z.string(),
+    status: z.enum(['pending', 'running', 'success', 'error']),
+  })).meta({ description: 'Repositories to touch, in execution order' }),
+  result: z.record(z.string(), z.unknown()).nullable().meta({ description: 'Sync result once finished (same shape as the sync log details)' }),
+  error: z.string().nullable(),
+  createdAt: DateTime,
+  startedAt: DateTime.nullable(),
+  finishedAt: DateTime.nullable(),
+})
+
+export const SyncStartQuerySchema = ProfileQuerySchema.extend({
+  dryRun: z.enum(['true', 'false']).optional().meta({ description: 'Return the plan without touching any repository' }),
+})
+
+export const SyncPreviewSchema = z.object({
+  currentTop: z.array(z.string()).meta({ description: 'Current order of the first positions' }),
+  desiredTop: z.array(z.string()),
+  alreadyOrdered: z.boolean(),
+  touchOrder: z.array(z.string()).meta({ description: 'Repositories a sync would touch, in execution order' }),
+  predictedTop: z.array(z.string()).meta({ description: 'Expected order after the sync' }),
+})
+
+export const SyncStartSchema = z.object({
+  status: z.enum(['queued', 'skipped', 'preview']),
+  job: SyncJobSchema.nullable().meta({ description: 'The queued job; poll `GET /api/v1/syncs/{id}` until it finishes' }),
+  preview: SyncPreviewSchema.nullable().meta({ description: 'The plan of a dry run' }),
+  reason: z.string().nullable().meta({ description: 'Why nothing was queued (e.g. `auto_disabled`, `no_repos`)' }),
+  message: z.string().nullable(),
+})
+
+// ---------------------------------------------------------------------------
+// Activity
+// ---------------------------------------------------------------------------
+
+export const PaginationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+  offset: z.coerce.number().int().min(0).max(10_000).default(0),
+})
+
+export const PaginationSchema = z.object({
+  limit: z.number().int(),
+  offset: z.number().int(),
+  total: z.number().int(),
+  nextOffset: z.number().int().nullable().meta({ description: 'Offset of the next page, null on the last page' }),
+})
+
+export const ActivityEntrySchema = z.object({
+  id: z.string(),
+  type: z.enum(['snapshot', 'sync']).meta({ description: '`snapshot`: saved order (restorable); `sync`: sync log entry' }),
+  action: z.string(),
+  status: z.string(),
+  repos: z.array(z.string()),
+  topN: z.number().int().nullable(),
+  details: z.unknown().meta({ description: 'Action-specific details of sync log entries, null for snapshots' }),
+  createdAt: DateTime,
+})
+
+// ---------------------------------------------------------------------------
+// Envelopes
+// ---------------------------------------------------------------------------
+
+export const ApiErrorSchema = z.object({
+  error: z.object({
+    code: z.string().meta({ description: 'Stable machine-readable code, e.g. `invalid_request`, `not_found`, `insufficient_scope`' }),
+    message: z.string(),
+    details: z.array(z.object({
+      path: z.string(),
+      message: z.string(),
+    })).optional().meta({ description: 'Validation problems, one per invalid field' }),
+  }),
+})
+
+export type RepoFullName = z.infer<typeof RepoFullNameSchema>
+export type ApiV1Order = z.infer<typeof OrderSchema>
+export type ApiV1OrderUpdate = z.infer<typeof OrderUpdateSchema>
+export type ApiV1Settings = z.infer<typeof SettingsSchema>
+export type ApiV1SettingsUpdate = z.infer<typeof SettingsUpdateSchema>
+export type ApiV1SyncJob = z.infer<typeof SyncJobSchema>
+export type ApiV1SyncPreview = z.infer<typeof SyncPreviewSchema>
+export type ApiV1SyncStart = z.infer<typeof SyncStartSchema>
+export type ApiV1ActivityEntry = z.infer<typeof ActivityEntrySchema>
+export type ApiV1Pagination = z.infer<typeof PaginationSchema>
+export type ApiV1Error = z.infer<typeof ApiErrorSchema>
+
+/** Successful responses wrap their payload in `data`; lists add `pagination`. */
+export interface ApiV1Data<T> {
+  data: T
+}
+
+export interface ApiV1Page<T> {
+  data: T[]
+  pagination: ApiV1Pagination
+}
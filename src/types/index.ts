@@ -26,6 +26,48 @@ export interface Repo {
   url: string
   owner: string
   isOrg: boolean
+  topics?: string[] // missing in lists cached before topics were stored
+}
+
+/**
+ * How a repository is touched during sync.
+ * 'revert' is the legacy key for the temporary tag ref strategy.
+ */
+export type CommitStrategy = 'revert' | 'branch' | 'annotated_tag' | 'metadata'
+
+/**
+ * Field a pin rule sorts its matches by.
+ * Pin rules describe the pinned list as ordered slots (see src/lib/sync/pin-rules).
+ */
+export type PinRuleSort = 'stars' | 'forks' | 'updated' | 'name'
+
+/** Criteria over the `Repo` fields. Omitted criteria match every repo. */
+export interface PinRuleFilter {
+  language?: string
+  minStars?: number
+  minForks?: number
+  /** Owner login (user or organization) */
+  owner?: string
+  /** true = organization repos only, false = personal only */
+  isOrg?: boolean
+  /** true = private only, false = public only */
+  isPrivate?: boolean
+  /** Repository name glob, `*` as wildcard, case-insensitive */
+  namePattern?: string
+  topic?: string
+}
+
+export type PinSlot =
+  | { type: 'pin'; repo: string }
+  | { type: 'rule'; label?: string; count: number; filter: PinRuleFilter; sortBy: PinRuleSort }
+
+/** Which slot produced a pinned repository. */
+export interface ResolvedPin {
+  repo: string
+  /** Index of the slot in the rule list */
+  slot: number
+  source: 'pin' | 'rule'
+  label?: string
 }
 
 /**
@@ -37,11 +79,105 @@ export interface RepoOrderSettings {
   includePrivate: boolean
   syncFrequency: number
   autoEnabled: boolean
-  commitStrategy: 'revert'
+  commitStrategy: CommitStrategy
+  repoStrategies?: Record<string, CommitStrategy> // per-repo overrides of commitStrategy
   preferredHour?: number | null // 0-23 UTC, null = cualquier hora
+  verifyAfterSync?: boolean // re-check the global order after each sync
+  pinRules?: PinSlot[] | null // null = fixed list (reposOrder + topN)
+  driftEarlySync?: boolean // sync before schedule when a drift check finds the order broken
+  driftCheckedAt?: string | null
+  driftedSince?: string | null // null = in order at the last check
   lastSyncAt?: string | null
   syncConfigured?: boolean
   canManualSync?: boolean
+  builtInScheduler?: boolean // true when GITPINS_SCHEDULER_ENABLED runs syncs in-process
+  configRepo?: string | null // set = order managed by a config repository (read-only in the dashboard)
+}
+
+/**
+ * Touch failure state of a pinned repository.
+ * Only repos with failures or a quarantine are returned.
+ */
+export interface RepoHealthInfo {
+  consecutiveFailures: number
+  lastErrorCategory: string | null // SyncErrorCategory from src/lib/sync/errors
+  lastFailureAt: string | null
+  lastSuccessAt: string | null
+  quarantinedAt: string | null // set = skipped by sync until retried
+}
+
+/**
+ * Saved pin that is not in the account's repository list.
+ * 'not_found': deleted, or access was removed; 'private_excluded': the repo
+ * is private and private repos are excluded from ordering.
+ */
+export interface OrphanedPin {
+  repo: string
+  reason: 'not_found' | 'private_excluded'
+}
+
+/**
+ * One drift check: the live top-N compared with the desired list.
+ */
+export interface DriftCheckEntry {
+  id: string
+  inOrder: boolean
+  currentTop: string[]
+  desiredTop: string[]
+  outOfPlace: string[] // repos a sync would touch
+  earlySync: boolean // an early sync was started by this check
+  checkedAt: string
+}
+
+/** Sync outcomes a notification channel can subscribe to. */
+export type NotificationEvent = 'sync_failed' | 'sync_partial' | 'repo_quarantined' | 'drift_detected'
+
+/**
+ * 'webhook': signed JSON POST; 'slack': Slack-compatible incoming webhook
+ * (Slack, Discord, Mattermost...); 'email': SMTP.
+ */
+export type NotificationChannelType = 'webhook' | 'slack' | 'email'
+
+/** A notification channel as shown in the dashboard (target masked). */
+export interface NotificationChannelInfo {
+  id: string
+  type: NotificationChannelType
+  name: string
+  target: string // masked URL or address
+  events: NotificationEvent[]
+  enabled: boolean
+  createdAt: string
+}
+
+/** One delivery attempt of a notification. */
+export interface NotificationDeliveryInfo {
+  id: string
+  channelId: string
+  event: NotificationEvent | 'test'
+  attempt: number
+  status: 'success' | 'failed'
+  statusCode: number | null
+  error: string | null
+  durationMs: number
+  createdAt: string
+}
+
+/**
+ * What a personal API token may do:
+ * 'repos:read' GET /api/repos, 'order:write' save or restore the order,
+ * 'activity:read' GET /api/activity, 'sync' start syncs and poll their jobs.
+ */
+export type ApiTokenScope = 'repos:read' | 'order:write' | 'activity:read' | 'sync'
+
+/** A personal API token as listed in settings (never the token itself). */
+export interface ApiTokenInfo {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiTokenScope[]
+  expiresAt: string
+  lastUsedAt: string | null
+  createdAt: string
 }
 
 /**
@@ -51,5 +187,55 @@ export interface RepoOrderSettings {
 export interface ReposResponse {
   repos: Repo[]
   savedOrder: string[]
+  repoHealth?: Record<string, RepoHealthInfo>
+  orphanedPins?: OrphanedPin[]
+  reposCache?: {
+    fetchedAt: string // last full download from GitHub
+    source: 'cache' | 'revalidated' | 'github'
+  }
   settings: RepoOrderSettings | null
 }
+
+/**
+ * Ordering profile of an organization the user administers.
+ * The personal profile is implicit (no org).
+ */
+export interface OrgProfileInfo {
+  org: string
+  avatarUrl: string | null
+  installed: boolean // false after the app is uninstalled from the org
+  lastSyncAt: string | null
+}
+
+/**
+ * API response structure for the /api/profiles endpoint.
+ */
+export interface ProfilesResponse {
+  profiles: OrgProfileInfo[]
+  availableOrgs: Array<{ org: string; avatarUrl: string }> // admin + app installed, no profile yet
+}
+
+/**
+ * Named saved order of an account, with its optional rotation schedule.
+ */
+export interface OrderProfileInfo {
+  id: string
+  name: string
+  reposCount: number // pinned repos (up to topN)
+  activateAt: string | null // one-off activation (ISO, UTC)
+  cron: string | null // recurring activation, 5-field cron in UTC
+  updatedAt: string
+}
+
+/**
+ * Config repository linked to an account (config-as-code). While
+ * `configRepo` is set the order is imported from its gitpins.yml and
+ * dashboard edits are refused.
+ */
+export interface ConfigRepoStatus {
+  configRepo: string | null // "owner/name", null = managed from GitPins
+  configPath: string | null // file of the last import
+  configSha: string | null
+  configImportedAt: string | null
+  configErrors: Array<{ path: string; message: string }> | null // last read failed, the previous order stays
+}
@@ -0,0 +1,18 @@
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { I18nProvider } from '@/i18n'
+import { ApiTokensSettings } from '@/app/dashboard/api-tokens-settings'
+
+describe('ApiTokensSettings', () => {
+  it('should render translated labels', () => {
+    const html = renderToStaticMarkup(
+      createElement(I18nProvider, null, createElement(ApiTokensSettings, { ensureCsrfToken: async () => null }))
+    )
+
+    // El primer render usa siempre 'es'
+    expect(html).toContain('Nombre del token (p. ej. pipeline de CI)')
+    expect(html).toContain('30 días')
+    expect(html).toContain('Crear token')
+    expect(html).not.toContain('apiTokens.')
+  })
+})
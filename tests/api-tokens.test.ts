@@ -0,0 +1,78 @@
+import {
+  MAX_API_TOKEN_DAYS,
+  generateApiToken,
+  hashApiToken,
+  isApiTokenExpired,
+  parseApiTokenExpiry,
+  parseApiTokenName,
+  parseApiTokenScopes,
+  parseBearerToken,
+  sanitizeApiTokenScopes,
+} from '@/lib/api-tokens'
+
+describe('API Tokens Module', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const day = 24 * 60 * 60 * 1000
+
+  describe('generateApiToken', () => {
+    it('should create distinct prefixed tokens with their hash', () => {
+      const first = generateApiToken()
+      const second = generateApiToken()
+      expect(first.token).toMatch(/^gitpins_[A-Za-z0-9_-]{43}$/)
+      expect(first.token).not.toBe(second.token)
+      expect(first.tokenHash).toBe(hashApiToken(first.token))
+      expect(first.tokenHash).toMatch(/^[0-9a-f]{64}$/)
+      expect(first.token.startsWith(first.prefix)).toBe(true)
+      expect(first.prefix).toHaveLength(12)
+    })
+  })
+
+  describe('parseBearerToken', () => {
+    it('should read GitPins bearer tokens', () => {
+      const { token } = generateApiToken()
+      expect(parseBearerToken(`Bearer ${token}`)).toBe(token)
+      expect(parseBearerToken(`bearer ${token} `)).toBe(token)
+    })
+
+    it('should tell missing headers from invalid ones', () => {
+      expect(parseBearerToken(null)).toBeNull()
+      expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBe('invalid')
+      expect(parseBearerToken('Bearer ghp_not_a_gitpins_token')).toBe('invalid')
+    })
+  })
+
+  describe('scopes', () => {
+    it('should keep known scopes without duplicates', () => {
+      expect(sanitizeApiTokenScopes(['sync', 'admin', 'repos:read', 'sync'])).toEqual(['repos:read', 'sync'])
+      expect(sanitizeApiTokenScopes('sync')).toEqual([])
+      expect(parseApiTokenScopes('["order:write"]')).toEqual(['order:write'])
+      expect(parseApiTokenScopes('oops')).toEqual([])
+    })
+  })
+
+  describe('parseApiTokenExpiry', () => {
+    it('should default to 30 days', () => {
+      expect(parseApiTokenExpiry(undefined, now)).toEqual(new Date(now.getTime() + 30 * day))
+    })
+
+    it('should accept 1 to 365 whole days', () => {
+      expect(parseApiTokenExpiry(1, now)).toEqual(new Date(now.getTime() + day))
+      expect(parseApiTokenExpiry(MAX_API_TOKEN_DAYS, now)).toEqual(new Date(now.getTime() + 365 * day))
+      expect(parseApiTokenExpiry(0, now)).toBeNull()
+      expect(parseApiTokenExpiry(366, now)).toBeNull()
+      expect(parseApiTokenExpiry(1.5, now)).toBeNull()
+      expect(parseApiTokenExpiry(null, now)).toBeNull()
+    })
+  })
+
+  it('should detect expired tokens', () => {
+    expect(isApiTokenExpired({ expiresAt: new Date(now.getTime() - 1) }, now)).toBe(true)
+    expect(isApiTokenExpired({ expiresAt: new Date(now.getTime() + day) }, now)).toBe(false)
+  })
+
+  it('should validate token names', () => {
+    expect(parseApiTokenName('  CI  ')).toBe('CI')
+    expect(parseApiTokenName('')).toBeNull()
+    expect(parseApiTokenName('x'.repeat(61))).toBeNull()
+  })
+})
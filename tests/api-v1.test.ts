@@ -0,0 +1,147 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { authErrorBody, errorBody, issuesToDetails, paginationFor } from '@/lib/api-v1/envelope'
+import { buildOpenApiDocument } from '@/lib/api-v1/openapi'
+import { mergeActivity, serializeOrder, serializeSettings, serializeSnapshotEntry, serializeSyncLogEntry } from '@/lib/api-v1/serialize'
+import {
+  OrderSchema,
+  OrderUpdateSchema,
+  PaginationQuerySchema,
+  ProfileQuerySchema,
+  SettingsSchema,
+  SettingsUpdateSchema,
+} from '@/types/api-v1'
+
+describe('API v1', () => {
+  const row = {
+    org: null,
+    reposOrder: '["octocat/hello","octocat/world"]',
+    topN: 2,
+    pinRules: null,
+    includePrivate: true,
+    syncFrequency: 24,
+    autoEnabled: true,
+    commitStrategy: 'unknown',
+    repoStrategies: '{"octocat/hello":"branch","octocat/world":"nope"}',
+    preferredHour: null,
+    verifyAfterSync: false,
+    driftEarlySync: true,
+    lastSyncAt: new Date('2026-10-18T10:00:00Z'),
+    driftedSince: null,
+    updatedAt: new Date('2026-10-19T10:00:00Z'),
+  }
+
+  describe('request schemas', () => {
+    it('should accept a valid order update', () => {
+      const parsed = OrderUpdateSchema.parse({
+        pinned: ['octocat/hello'],
+        topN: 5,
+        pinRules: [{ type: 'rule', count: 3, sortBy: 'stars', filter: { language: 'Rust' } }],
+      })
+      expect(parsed.topN).toBe(5)
+    })
+
+    it('should reject unknown fields and invalid repository names', () => {
+      const result = OrderUpdateSchema.safeParse({ pinned: ['not a repo'], reposOrder: [] })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(issuesToDetails(result.error).map((d) => d.path).sort()).toEqual(['(root)', 'pinned.0'])
+      }
+    })
+
+    it('should only accept supported sync frequencies', () => {
+      expect(SettingsUpdateSchema.safeParse({ syncFrequency: 24 }).success).toBe(true)
+      expect(SettingsUpdateSchema.safeParse({ syncFrequency: 5 }).success).toBe(false)
+      expect(SettingsUpdateSchema.safeParse({ preferredHour: 24 }).success).toBe(false)
+    })
+
+    it('should parse query strings', () => {
+      expect(PaginationQuerySchema.parse({})).toEqual({ limit: 30, offset: 0 })
+      expect(PaginationQuerySchema.parse({ limit: '10', offset: '20' })).toEqual({ limit: 10, offset: 20 })
+      expect(PaginationQuerySchema.safeParse({ limit: '500' }).success).toBe(false)
+      expect(ProfileQuerySchema.safeParse({ org: 'my-org' }).success).toBe(true)
+      expect(ProfileQuerySchema.safeParse({ org: '-bad' }).success).toBe(false)
+    })
+  })
+
+  describe('serializers', () => {
+    it('should produce responses matching the schemas', () => {
+      const order = serializeOrder(row)
+      expect(OrderSchema.parse(order)).toEqual(order)
+      expect(order.pinned).toEqual(['octocat/hello', 'octocat/world'])
+
+      const settings = serializeSettings(row)
+      expect(SettingsSchema.parse(settings)).toEqual(settings)
+      expect(settings.commitStrategy).toBe('revert')
+      expect(settings.repoStrategies).toEqual({ 'octocat/hello': 'branch' })
+    })
+
+    it('should merge activity newest first', () => {
+      const snapshot = serializeSnapshotEntry({
+        id: 's1', reposOrder: '["a/b"]', topN: 1, changeType: 'manual', createdAt: new Date('2026-10-19T10:00:00Z'),
+      })
+      const log = serializeSyncLogEntry({
+        id: 'l1', action: 'sync', status: 'success', details: '{oops', reposAffected: '["a/b"]', createdAt: new Date('2026-10-19T11:00:00Z'),
+      })
+      expect(log.details).toBeNull()
+      expect(mergeActivity([snapshot], [log], 0, 10).map((e) => e.id)).toEqual(['l1', 's1'])
+      expect(mergeActivity([snapshot], [log], 1, 1).map((e) => e.id)).toEqual(['s1'])
+    })
+  })
+
+  describe('envelopes', () => {
+    it('should compute the next page offset', () => {
+      expect(paginationFor(30, 0, 45)).toEqual({ limit: 30, offset: 0, total: 45, nextOffset: 30 })
+      expect(paginationFor(30, 30, 45).nextOffset).toBeNull()
+    })
+
+    it('should omit empty details', () => {
+      expect(errorBody('not_found', 'Missing', [])).toEqual({ error: { code: 'not_found', message: 'Missing' } })
+    })
+
+    it('should map auth guard errors to codes', () => {
+      expect(authErrorBody(401, { error: 'Unauthorized' }).error.code).toBe('unauthorized')
+      expect(authErrorBody(401, { error: 'Unauthorized', reason: 'token_expired' }).error.code).toBe('token_expired')
+      expect(authErrorBody(403, { error: 'Forbidden', reason: 'insufficient_scope', scope: 'sync' }).error.code).toBe('insufficient_scope')
+      expect(authErrorBody(403, { error: 'Forbidden', reason: 'csrf_failed' }).error.code).toBe('csrf_failed')
+      expect(authErrorBody(403, { error: 'Invalid request' }).error.code).toBe('invalid_origin')
+      expect(authErrorBody(429, { error: 'Too many requests' }).error.code).toBe('rate_limited')
+    })
+  })
+
+  describe('OpenAPI document', () => {
+    const document = buildOpenApiDocument() as {
+      paths: Record<string, Record<string, { 'x-gitpins-scope': string }>>
+      components: { schemas: Record<string, Record<string, unknown>> }
+    }
+
+    it('should describe every v1 operation with its token scope', () => {
+      const scopes = Object.entries(document.paths).flatMap(([path, operations]) =>
+        Object.entries(operations).map(([method, op]) => `${method.toUpperCase()} ${path} ${op['x-gitpins-scope']}`)
+      )
+      expect(scopes).toEqual([
+        'GET /order repos:read',
+        'PUT /order order:write',
+        'GET /settings repos:read',
+        'PATCH /settings order:write',
+        'POST /syncs sync',
+        'GET /syncs/{id} sync',
+        'GET /activity activity:read',
+      ])
+    })
+
+    it('should reference component schemas without JSON Schema identifiers', () => {
+      const json = JSON.stringify(document)
+      expect(json).not.toContain('"$id"')
+      expect(json).not.toContain('"$schema"')
+      for (const [, target] of json.matchAll(/"\$ref":"#\/components\/schemas\/([^"]+)"/g)) {
+        expect(document.components.schemas).toHaveProperty(target)
+      }
+    })
+
+    it('should match the committed docs/openapi.json', () => {
+      const committed = readFileSync(join(__dirname, '..', 'docs', 'openapi.json'), 'utf8')
+      expect(committed).toBe(`${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`)
+    })
+  })
+})
@@ -0,0 +1,223 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { EXIT_FAILURE, EXIT_OK, EXIT_USAGE, runCli, type CliIO } from '@/lib/cli/commands'
+import { normalizeInstanceUrl, resolveConfigPath } from '@/lib/cli/config'
+import { addPin, movePin, removePin } from '@/lib/cli/pins'
+
+const TOKEN = 'gitpins_test-token'
+
+interface MockState {
+  pinned: string[]
+  topN: number
+  settings: Record<string, unknown>
+  jobPolls: number
+  requests: string[]
+}
+
+/** Local stand-in for the `/api/v1` routes, with in-memory state. */
+async function startMockApi(state: MockState): Promise<{ url: string; server: Server }> {
+  const job = (status: string, processed: number) => ({
+    id: 'job-1', status, trigger: 'manual', total: 2, processed, succeeded: processed, failed: 0,
+    repos: [{ repo: 'me/a', status: processed > 0 ? 'success' : 'pending' }, { repo: 'me/b', status: processed > 1 ? 'success' : 'pending' }],
+    result: null, error: null, createdAt: '2026-10-19T12:00:00.000Z', startedAt: null, finishedAt: null,
+  })
+  const order = () => ({ org: null, pinned: state.pinned, topN: state.topN, pinRules: null, updatedAt: '2026-10-19T12:00:00.000Z' })
+
+  const server = createServer((req, res) => {
+    let raw = ''
+    req.on('data', (chunk) => { raw += chunk })
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost')
+      const route = `${req.method} ${url.pathname}`
+      state.requests.push(`${route}${url.search}`)
+      const send = (status: number, body: unknown) => {
+        res.statusCode = status
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify(body))
+      }
+
+      if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+        return send(401, { error: { code: 'invalid_token', message: 'Unauthorized' } })
+      }
+      const body = raw ? JSON.parse(raw) : null
+      switch (route) {
+        case 'GET /api/v1/order':
+          return send(200, { data: order() })
+        case 'PUT /api/v1/order':
+          state.pinned = body.pinned
+          state.topN = body.topN ?? state.topN
+          return send(200, { data: order() })
+        case 'GET /api/v1/settings':
+          return send(200, { data: state.settings })
+        case 'PATCH /api/v1/settings':
+          state.settings = { ...state.settings, ...body }
+          return send(200, { data: state.settings })
+        case 'POST /api/v1/syncs':
+          if (url.searchParams.get('dryRun') === 'true') {
+            return send(200, {
+              data: {
+                status: 'preview', job: null, reason: null, message: null,
+                preview: { currentTop: ['me/b', 'me/a'], desiredTop: ['me/a', 'me/b'], alreadyOrdered: false, touchOrder: ['me/b', 'me/a'], predictedTop: ['me/a', 'me/b'] },
+              },
+            })
+          }
+          return send(202, { data: { status: 'queued', job: job('queued', 0), preview: null, reason: null, message: null } })
+        case 'GET /api/v1/syncs/job-1':
+          state.jobPolls++
+          return send(200, { data: state.jobPolls >= 2 ? job('completed', 2) : job('running', 1) })
+        case 'GET /api/v1/activity':
+          return send(200, {
+            data: [{ id: 'l1', type: 'sync', action: 'sync', status: 'success', repos: ['me/a'], topN: null, details: null, createdAt: '2026-10-19T12:00:00.000Z' }],
+            pagination: { limit: 20, offset: 0, total: 1, nextOffset: null },
+          })
+        default:
+          return send(404, { error: { code: 'not_found', message: 'Not found' } })
+      }
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return { url: `http://127.0.0.1:${port}`, server }
+}
+
+describe('gitpins CLI', () => {
+  describe('pin edits', () => {
+    const pinned = ['me/a', 'me/b', 'me/c']
+
+    it('should add, remove and move pins by 1-based position', () => {
+      expect(addPin(pinned, 'me/d')).toEqual(['me/a', 'me/b', 'me/c', 'me/d'])
+      expect(addPin(pinned, 'me/d', 1)).toEqual(['me/d', 'me/a', 'me/b', 'me/c'])
+      expect(removePin(pinned, 'ME/B')).toEqual(['me/a', 'me/c'])
+      expect(movePin(pinned, 'me/c', 1)).toEqual(['me/c', 'me/a', 'me/b'])
+      expect(movePin(pinned, 'me/a', 3)).toEqual(['me/b', 'me/c', 'me/a'])
+    })
+
+    it('should reject duplicates, unknown repos and bad positions', () => {
+      expect(() => addPin(pinned, 'me/a')).toThrow('already pinned')
+      expect(() => addPin(pinned, 'not-a-repo')).toThrow('Invalid repository name')
+      expect(() => addPin(pinned, 'me/d', 5)).toThrow('between 1 and 4')
+      expect(() => removePin(pinned, 'me/x')).toThrow('not pinned')
+      expect(() => movePin(pinned, 'me/a', 0)).toThrow('between 1 and 3')
+    })
+  })
+
+  describe('config', () => {
+    it('should resolve the config path and instance URL', () => {
+      expect(resolveConfigPath({ GITPINS_CONFIG: '/tmp/x.json' }, '/home/me')).toBe('/tmp/x.json')
+      expect(resolveConfigPath({ XDG_CONFIG_HOME: '/cfg' }, '/home/me')).toBe('/cfg/gitpins/config.json')
+      expect(resolveConfigPath({}, '/home/me')).toBe('/home/me/.config/gitpins/config.json')
+      expect(normalizeInstanceUrl('https://gitpins.example.com/')).toBe('https://gitpins.example.com')
+      expect(normalizeInstanceUrl('ftp://example.com')).toBeNull()
+      expect(normalizeInstanceUrl('nope')).toBeNull()
+    })
+  })
+
+  describe('commands against a mock server', () => {
+    let state: MockState
+    let api: { url: string; server: Server }
+    let dir: string
+    let out: string[]
+    let err: string[]
+    let io: CliIO
+
+    beforeEach(async () => {
+      state = {
+        pinned: ['me/a', 'me/b'],
+        topN: 2,
+        settings: {
+          org: null, includePrivate: true, syncFrequency: 168, autoEnabled: true, commitStrategy: 'revert',
+          repoStrategies: {}, preferredHour: null, verifyAfterSync: false, driftEarlySync: false, lastSyncAt: null, driftedSince: null,
+        },
+        jobPolls: 0,
+        requests: [],
+      }
+      api = await startMockApi(state)
+      dir = await mkdtemp(join(tmpdir(), 'gitpins-cli-'))
+      out = []
+      err = []
+      io = {
+        stdout: (text) => out.push(text),
+        stderr: (text) => err.push(text),
+        prompt: async () => TOKEN,
+        sleep: async () => {},
+        env: {},
+        configPath: join(dir, 'config.json'),
+      }
+    })
+
+    afterEach(async () => {
+      await new Promise((resolve) => api.server.close(resolve))
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('should log in with a prompted token and save it privately', async () => {
+      expect(await runCli(['login', '--url', `${api.url}/`], io)).toBe(EXIT_OK)
+      expect(JSON.parse(await readFile(io.configPath, 'utf8'))).toEqual({ url: api.url, token: TOKEN })
+      expect((await stat(io.configPath)).mode & 0o777).toBe(0o600)
+
+      expect(await runCli(['logout'], io)).toBe(EXIT_OK)
+      expect(await runCli(['pins', 'list'], io)).toBe(EXIT_FAILURE)
+      expect(err.at(-1)).toContain('Not logged in')
+    })
+
+    it('should refuse a rejected token', async () => {
+      io.prompt = async () => 'gitpins_wrong'
+      expect(await runCli(['login', '--url', api.url], io)).toBe(EXIT_FAILURE)
+      expect(err.at(-1)).toContain('rejected')
+    })
+
+    it('should edit pins and print JSON', async () => {
+      io.env = { GITPINS_URL: api.url, GITPINS_TOKEN: TOKEN }
+      expect(await runCli(['pins', 'add', 'me/c', '--position', '1'], io)).toBe(EXIT_OK)
+      expect(await runCli(['pins', 'move', 'me/a', '3'], io)).toBe(EXIT_OK)
+      expect(await runCli(['pins', 'remove', 'me/b'], io)).toBe(EXIT_OK)
+      expect(state.pinned).toEqual(['me/c', 'me/a'])
+
+      expect(await runCli(['pins', 'list', '--json'], io)).toBe(EXIT_OK)
+      expect(JSON.parse(out.at(-1)!).pinned).toEqual(['me/c', 'me/a'])
+    })
+
+    it('should set topN on the order and other keys on the settings', async () => {
+      io.env = { GITPINS_URL: api.url, GITPINS_TOKEN: TOKEN }
+      expect(await runCli(['settings', 'set', 'topN', '8'], io)).toBe(EXIT_OK)
+      expect(state.topN).toBe(8)
+      expect(await runCli(['settings', 'set', 'preferredHour', '6'], io)).toBe(EXIT_OK)
+      expect(state.settings.preferredHour).toBe(6)
+
+      expect(await runCli(['settings', 'set', 'syncFrequency', '5'], io)).toBe(EXIT_USAGE)
+      expect(await runCli(['settings', 'set', 'color', 'blue'], io)).toBe(EXIT_USAGE)
+      expect(state.requests.filter((r) => r.startsWith('PATCH'))).toHaveLength(1)
+    })
+
+    it('should wait for a sync job to finish', async () => {
+      io.env = { GITPINS_URL: api.url, GITPINS_TOKEN: TOKEN }
+      expect(await runCli(['sync', '--wait'], io)).toBe(EXIT_OK)
+      expect(state.jobPolls).toBe(2)
+      expect(out.at(-1)).toBe('Sync completed: 2 succeeded, 0 failed of 2')
+    })
+
+    it('should show the plan of a dry run', async () => {
+      io.env = { GITPINS_URL: api.url, GITPINS_TOKEN: TOKEN }
+      expect(await runCli(['sync', '--dry-run'], io)).toBe(EXIT_OK)
+      expect(state.requests.at(-1)).toBe('POST /api/v1/syncs?dryRun=true')
+      expect(out.at(-1)).toContain('2 repositories would be touched')
+    })
+
+    it('should list activity', async () => {
+      io.env = { GITPINS_URL: api.url, GITPINS_TOKEN: TOKEN }
+      expect(await runCli(['activity'], io)).toBe(EXIT_OK)
+      expect(out.at(-1)).toContain('2026-10-19 12:00  sync')
+      expect(state.requests.at(-1)).toBe('GET /api/v1/activity?limit=20&offset=0')
+    })
+
+    it('should report usage errors', async () => {
+      expect(await runCli([], io)).toBe(EXIT_USAGE)
+      expect(await runCli(['frobnicate'], io)).toBe(EXIT_USAGE)
+      expect(await runCli(['pins', '--bogus'], io)).toBe(EXIT_USAGE)
+      expect(await runCli(['--help'], io)).toBe(EXIT_OK)
+    })
+  })
+})
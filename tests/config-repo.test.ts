@@ -0,0 +1,188 @@
+import {
+  buildConfigUpdate,
+  parseConfigErrors,
+  parseConfigFile,
+  parseConfigRepoName,
+  MAX_CONFIG_FILE_BYTES,
+} from '@/lib/config-repo/parse'
+import { fetchConfigFile, type ConfigRepoClient } from '@/lib/config-repo/fetch'
+
+function fakeClient(files: Record<string, { content: string; sha: string; size?: number } | 'error'>) {
+  const requested: string[] = []
+  const client = {
+    rest: {
+      repos: {
+        getContent: async ({ path }: { owner: string; repo: string; path: string }) => {
+          requested.push(path)
+          const file = files[path]
+          if (file === 'error') throw Object.assign(new Error('Server Error'), { status: 500 })
+          if (!file) throw Object.assign(new Error('Not Found'), { status: 404 })
+          return {
+            data: {
+              type: 'file',
+              sha: file.sha,
+              size: file.size ?? file.content.length,
+              content: Buffer.from(file.content).toString('base64'),
+            },
+          }
+        },
+      },
+    },
+  } as unknown as ConfigRepoClient
+  return { client, requested }
+}
+
+describe('Config Repository Module', () => {
+  describe('parseConfigFile', () => {
+    it('should read a gitpins.yml', () => {
+      const result = parseConfigFile('gitpins.yml', [
+        'version: 1',
+        'pinned:',
+        '  - me/app',
+        '  - me/lib',
+        'topN: 2',
+        'settings:',
+        '  syncFrequency: 24',
+        '  commitStrategy: branch',
+      ].join('\n'))
+
+      expect(result).toEqual({
+        config: {
+          pinned: ['me/app', 'me/lib'],
+          topN: 2,
+          settings: { syncFrequency: 24, commitStrategy: 'branch' },
+        },
+      })
+    })
+
+    it('should accept the config.json written by older versions', () => {
+      const result = parseConfigFile('config.json', JSON.stringify({
+        version: '4.0.1',
+        owner: 'me',
+        repos: ['me/app'],
+        settings: { topN: 6, syncFrequency: 168, commitStrategy: 'revert' },
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      }))
+
+      expect(result).toEqual({
+        config: { pinned: ['me/app'], topN: 6, settings: { syncFrequency: 168, commitStrategy: 'revert' } },
+      })
+    })
+
+    it('should sanitize pin rules and keep null to turn them off', () => {
+      const rules = parseConfigFile('gitpins.yml', [
+        'pinned: []',
+        'pinRules:',
+        '  - { type: rule, count: 3, sortBy: stars, filter: { language: TypeScript } }',
+      ].join('\n'))
+      const off = parseConfigFile('gitpins.yml', 'pinned: []\npinRules: null')
+
+      expect(rules).toMatchObject({ config: { pinRules: [{ type: 'rule', count: 3, sortBy: 'stars', filter: { language: 'TypeScript' } }] } })
+      expect(off).toMatchObject({ config: { pinRules: null } })
+    })
+
+    it('should report schema errors with their path', () => {
+      const result = parseConfigFile('gitpins.yml', 'pinned:\n  - not a repo\nsettings:\n  syncFrequency: 5\ncolor: blue')
+
+      expect('errors' in result && result.errors.map((error) => error.path)).toEqual(
+        expect.arrayContaining(['pinned.0', 'settings.syncFrequency', '(root)'])
+      )
+    })
+
+    it('should require a pinned list', () => {
+      expect(parseConfigFile('gitpins.yml', 'topN: 3')).toEqual({
+        errors: [{ path: 'pinned', message: 'pinned is required' }],
+      })
+    })
+
+    it('should report syntax errors and oversized files', () => {
+      expect(parseConfigFile('config.json', '{ "pinned": [')).toMatchObject({ errors: [{ path: '(file)' }] })
+      expect(parseConfigFile('gitpins.yml', 'pinned: [me/app')).toMatchObject({ errors: [{ path: '(file)' }] })
+      expect(parseConfigFile('gitpins.yml', `pinned: []\n#${'x'.repeat(MAX_CONFIG_FILE_BYTES)}`)).toMatchObject({
+        errors: [{ path: '(file)', message: 'File is larger than 64 KB' }],
+      })
+    })
+  })
+
+  describe('parseConfigRepoName / parseConfigErrors', () => {
+    it('should lowercase valid repository names', () => {
+      expect(parseConfigRepoName(' Me/GitPins-Config ')).toBe('me/gitpins-config')
+      expect(parseConfigRepoName('me')).toBeNull()
+      expect(parseConfigRepoName('me/a/b')).toBeNull()
+      expect(parseConfigRepoName(42)).toBeNull()
+    })
+
+    it('should parse stored errors leniently', () => {
+      expect(parseConfigErrors('[{"path":"topN","message":"Too big"}]')).toEqual([{ path: 'topN', message: 'Too big' }])
+      expect(parseConfigErrors('{bad')).toBeNull()
+      expect(parseConfigErrors(null)).toBeNull()
+    })
+  })
+
+  describe('buildConfigUpdate', () => {
+    const current = {
+      reposOrder: '["me/a","me/b"]',
+      reposOrderIds: '{"me/a":1,"me/b":2}',
+      topN: 2,
+      pinRules: null,
+      repoStrategies: '{"me/a":"branch","me/b":"metadata"}',
+    }
+
+    it('should replace the order and keep what the file omits', () => {
+      const { data, orderChanged } = buildConfigUpdate(current, {
+        pinned: ['me/b', 'me/c'],
+        settings: { autoEnabled: false },
+      })
+
+      expect(orderChanged).toBe(true)
+      expect(data).toEqual({
+        autoEnabled: false,
+        reposOrder: '["me/b","me/c"]',
+        reposOrderIds: '{"me/b":2}',
+        topN: 2,
+        pinRules: null,
+        repoStrategies: '{"me/b":"metadata"}',
+        driftCheckedAt: null,
+        driftedSince: null,
+      })
+    })
+
+    it('should not reset drift when only settings change', () => {
+      const { data, orderChanged } = buildConfigUpdate(current, {
+        pinned: ['me/a', 'me/b'],
+        settings: { repoStrategies: { 'me/a': 'annotated_tag', 'other/x': 'branch' } },
+      })
+
+      expect(orderChanged).toBe(false)
+      expect(data).not.toHaveProperty('driftedSince')
+      expect(data.repoStrategies).toBe('{"me/a":"annotated_tag"}')
+    })
+  })
+
+  describe('fetchConfigFile', () => {
+    it('should return the first config file found', async () => {
+      const { client, requested } = fakeClient({ 'config.json': { content: '{"repos":[]}', sha: 'abc' } })
+
+      await expect(fetchConfigFile(client, 'me/config')).resolves.toEqual({
+        path: 'config.json',
+        sha: 'abc',
+        content: '{"repos":[]}',
+      })
+      expect(requested).toEqual(['gitpins.yml', 'gitpins.yaml', 'config.json'])
+    })
+
+    it('should return null when the repository has no config file', async () => {
+      await expect(fetchConfigFile(fakeClient({}).client, 'me/config')).resolves.toBeNull()
+    })
+
+    it('should not decode oversized files', async () => {
+      const { client } = fakeClient({ 'gitpins.yml': { content: 'pinned: []', sha: 'big', size: MAX_CONFIG_FILE_BYTES + 1 } })
+
+      await expect(fetchConfigFile(client, 'me/config')).resolves.toEqual({ path: 'gitpins.yml', sha: 'big', content: null })
+    })
+
+    it('should rethrow GitHub errors other than 404', async () => {
+      await expect(fetchConfigFile(fakeClient({ 'gitpins.yml': 'error' }).client, 'me/config')).rejects.toThrow('Server Error')
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import {
+  DRIFT_EARLY_SYNC_COOLDOWN_MS,
+  evaluateDrift,
+  getDriftCheckIntervalMs,
+  isDriftCheckDue,
+  shouldSyncEarly,
+} from '@/lib/sync/drift'
+
+describe('Drift Module', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000)
+
+  describe('getDriftCheckIntervalMs', () => {
+    it('should default to one hour', () => {
+      expect(getDriftCheckIntervalMs({} as NodeJS.ProcessEnv)).toBe(60 * 60 * 1000)
+      expect(getDriftCheckIntervalMs({ GITPINS_DRIFT_CHECK_INTERVAL_MINUTES: 'soon' } as NodeJS.ProcessEnv)).toBe(60 * 60 * 1000)
+    })
+
+    it('should accept zero to disable checks', () => {
+      expect(getDriftCheckIntervalMs({ GITPINS_DRIFT_CHECK_INTERVAL_MINUTES: '15' } as NodeJS.ProcessEnv)).toBe(15 * 60 * 1000)
+      expect(getDriftCheckIntervalMs({ GITPINS_DRIFT_CHECK_INTERVAL_MINUTES: '0' } as NodeJS.ProcessEnv)).toBe(0)
+    })
+  })
+
+  describe('isDriftCheckDue', () => {
+    const hour = 60 * 60 * 1000
+
+    it('should check a profile that was never checked', () => {
+      expect(isDriftCheckDue({ driftCheckedAt: null, lastSyncAt: null }, hour, now)).toBe(true)
+    })
+
+    it('should wait for the interval', () => {
+      expect(isDriftCheckDue({ driftCheckedAt: minutesAgo(30), lastSyncAt: null }, hour, now)).toBe(false)
+      expect(isDriftCheckDue({ driftCheckedAt: minutesAgo(60), lastSyncAt: null }, hour, now)).toBe(true)
+    })
+
+    it('should skip profiles with a sync in progress and disabled checks', () => {
+      expect(isDriftCheckDue({ driftCheckedAt: null, lastSyncAt: minutesAgo(5) }, hour, now)).toBe(false)
+      expect(isDriftCheckDue({ driftCheckedAt: null, lastSyncAt: null }, 0, now)).toBe(false)
+    })
+  })
+
+  describe('evaluateDrift', () => {
+    it('should report an ordered account', () => {
+      const drift = evaluateDrift(['me/a', 'me/b', 'me/x'], ['me/a', 'me/b'], minutesAgo(90), now)
+      expect(drift.inOrder).toBe(true)
+      expect(drift.outOfPlace).toEqual([])
+      expect(drift.driftedSince).toBeNull()
+    })
+
+    it('should start a streak when the order breaks', () => {
+      const drift = evaluateDrift(['me/x', 'me/a', 'me/b'], ['me/a', 'me/b'], null, now)
+      expect(drift.inOrder).toBe(false)
+      expect(drift.currentTop).toEqual(['me/x', 'me/a'])
+      expect(drift.outOfPlace).toEqual(['me/a', 'me/b'])
+      expect(drift.driftedSince).toEqual(now)
+    })
+
+    it('should keep the start of an ongoing streak', () => {
+      const since = minutesAgo(120)
+      expect(evaluateDrift(['me/x', 'me/a'], ['me/a'], since, now).driftedSince).toBe(since)
+    })
+  })
+
+  describe('shouldSyncEarly', () => {
+    const order = { autoEnabled: true, driftEarlySync: true, lastSyncAt: null, resumeSyncAt: null }
+
+    it('should sync a drifted account that opted in', () => {
+      expect(shouldSyncEarly(order, { inOrder: false }, now)).toBe(true)
+    })
+
+    it('should not sync without drift, opt-in or automatic syncs', () => {
+      expect(shouldSyncEarly(order, { inOrder: true }, now)).toBe(false)
+      expect(shouldSyncEarly({ ...order, driftEarlySync: false }, { inOrder: false }, now)).toBe(false)
+      expect(shouldSyncEarly({ ...order, autoEnabled: false }, { inOrder: false }, now)).toBe(false)
+    })
+
+    it('should leave a cooldown after the last sync and defer to pending resumes', () => {
+      const justUnder = new Date(now.getTime() - DRIFT_EARLY_SYNC_COOLDOWN_MS + 1000)
+      const justOver = new Date(now.getTime() - DRIFT_EARLY_SYNC_COOLDOWN_MS)
+      expect(shouldSyncEarly({ ...order, lastSyncAt: justUnder }, { inOrder: false }, now)).toBe(false)
+      expect(shouldSyncEarly({ ...order, lastSyncAt: justOver }, { inOrder: false }, now)).toBe(true)
+      expect(shouldSyncEarly({ ...order, resumeSyncAt: minutesAgo(-30) }, { inOrder: false }, now)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,98 @@
+import {
+  createRateLimitBudget,
+  MAX_RATE_LIMIT_RETRIES,
+  parseRateLimitHeaders,
+  planRequestPacing,
+  shouldRetryRateLimit,
+  type RateLimitSnapshot,
+} from '@/lib/github-rate-limit'
+
+describe('GitHub Rate Limit Module', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const inSeconds = (seconds: number) => new Date(now.getTime() + seconds * 1000)
+  const snapshot = (overrides: Partial<RateLimitSnapshot>): RateLimitSnapshot => ({
+    limit: 5000,
+    remaining: 4000,
+    resetAt: inSeconds(3600),
+    blockedUntil: null,
+    ...overrides,
+  })
+
+  describe('parseRateLimitHeaders', () => {
+    it('should read the rate limit headers', () => {
+      expect(parseRateLimitHeaders({
+        'x-ratelimit-limit': '5000',
+        'x-ratelimit-remaining': '42',
+        'x-ratelimit-reset': String(now.getTime() / 1000),
+        'retry-after': '30',
+      })).toEqual({ limit: 5000, remaining: 42, resetAt: now, retryAfterMs: 30000 })
+    })
+
+    it('should return null for missing or malformed headers', () => {
+      expect(parseRateLimitHeaders({ 'x-ratelimit-remaining': 'soon' })).toEqual({
+        limit: null,
+        remaining: null,
+        resetAt: null,
+        retryAfterMs: null,
+      })
+    })
+  })
+
+  describe('createRateLimitBudget', () => {
+    it('should keep known values when later responses omit them', () => {
+      const budget = createRateLimitBudget()
+      budget.record({ 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '10' }, now)
+      budget.record({ 'x-ratelimit-remaining': '9' }, now)
+      budget.record(undefined, now)
+
+      expect(budget.snapshot()).toMatchObject({ limit: 5000, remaining: 9 })
+    })
+
+    it('should block until the longest retry-after', () => {
+      const budget = createRateLimitBudget()
+      budget.block(60, now)
+      budget.record({ 'retry-after': '5' }, now)
+
+      expect(budget.snapshot().blockedUntil).toEqual(inSeconds(60))
+    })
+  })
+
+  describe('shouldRetryRateLimit', () => {
+    it('should retry short waits a bounded number of times', () => {
+      expect(shouldRetryRateLimit(30, 0)).toBe(true)
+      expect(shouldRetryRateLimit(30, MAX_RATE_LIMIT_RETRIES)).toBe(false)
+      expect(shouldRetryRateLimit(600, 0)).toBe(false)
+    })
+  })
+
+  describe('planRequestPacing', () => {
+    it('should keep the base delay while the budget is healthy or unknown', () => {
+      expect(planRequestPacing(snapshot({}), { baseDelayMs: 1000 }, now)).toEqual({ action: 'continue', delayMs: 1000 })
+      expect(planRequestPacing(snapshot({ remaining: null }), { baseDelayMs: 1000 }, now)).toEqual({ action: 'continue', delayMs: 1000 })
+    })
+
+    it('should spread the remaining requests when the budget runs low', () => {
+      const decision = planRequestPacing(snapshot({ remaining: 520, resetAt: inSeconds(600) }), {
+        baseDelayMs: 1000,
+        requestsPerItem: 5,
+        reserve: 20,
+      }, now)
+
+      expect(decision).toEqual({ action: 'continue', delayMs: 6000 })
+    })
+
+    it('should wait out a short secondary limit and defer a long one', () => {
+      expect(planRequestPacing(snapshot({ blockedUntil: inSeconds(10) }), { baseDelayMs: 1000 }, now))
+        .toEqual({ action: 'continue', delayMs: 10000 })
+      expect(planRequestPacing(snapshot({ blockedUntil: inSeconds(300) }), { baseDelayMs: 1000 }, now))
+        .toEqual({ action: 'defer', resumeAt: inSeconds(300) })
+    })
+
+    it('should defer until the reset when the budget is exhausted', () => {
+      expect(planRequestPacing(snapshot({ remaining: 22 }), { baseDelayMs: 1000, requestsPerItem: 5 }, now))
+        .toEqual({ action: 'defer', resumeAt: inSeconds(3600) })
+      expect(planRequestPacing(snapshot({ remaining: 22, resetAt: inSeconds(20) }), { baseDelayMs: 1000, requestsPerItem: 5 }, now))
+        .toEqual({ action: 'continue', delayMs: 20000 })
+    })
+  })
+})
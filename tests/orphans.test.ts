@@ -0,0 +1,38 @@
+import { excludeOrphanedPins, findOrphanedPins } from '@/lib/sync/orphans'
+
+describe('Orphaned Pins Module', () => {
+  const repos = [
+    { fullName: 'me/public', isPrivate: false },
+    { fullName: 'me/secret', isPrivate: true },
+  ]
+
+  describe('findOrphanedPins', () => {
+    it('should report pins missing from the listing', () => {
+      expect(findOrphanedPins(['me/public', 'me/gone'], repos, { includePrivate: true })).toEqual([
+        { repo: 'me/gone', reason: 'not_found' },
+      ])
+    })
+
+    it('should report private pins only when private repos are excluded', () => {
+      expect(findOrphanedPins(['me/secret'], repos, { includePrivate: true })).toEqual([])
+      expect(findOrphanedPins(['me/secret'], repos, { includePrivate: false })).toEqual([
+        { repo: 'me/secret', reason: 'private_excluded' },
+      ])
+    })
+
+    it('should match names case-insensitively', () => {
+      expect(findOrphanedPins(['Me/Public'], repos, { includePrivate: false })).toEqual([])
+    })
+  })
+
+  describe('excludeOrphanedPins', () => {
+    it('should drop orphans and keep the order of the rest', () => {
+      const orphaned = [{ repo: 'me/b', reason: 'not_found' as const }]
+
+      expect(excludeOrphanedPins(['me/a', 'me/b', 'me/c'], orphaned)).toEqual({
+        desiredTop: ['me/a', 'me/c'],
+        skipped: orphaned,
+      })
+    })
+  })
+})
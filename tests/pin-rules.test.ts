@@ -0,0 +1,138 @@
+import { MAX_PIN_SLOTS, matchesNamePattern, matchesPinRule, parsePinRules, resolvePinRules, sanitizePinRules } from '@/lib/sync/pin-rules'
+import type { Repo } from '@/types'
+
+function repo(fullName: string, overrides: Partial<Repo> = {}): Repo {
+  const [owner, name] = fullName.split('/')
+  return {
+    id: fullName.length,
+    name,
+    fullName,
+    description: null,
+    language: 'TypeScript',
+    stars: 0,
+    forks: 0,
+    isPrivate: false,
+    updatedAt: '2026-10-01T00:00:00Z',
+    url: `https://github.com/${fullName}`,
+    owner,
+    isOrg: false,
+    topics: [],
+    ...overrides,
+  }
+}
+
+describe('Pin Rules Module', () => {
+  const repos = [
+    repo('me/web', { stars: 5 }),
+    repo('me/rusty', { language: 'Rust', stars: 40, forks: 3, topics: ['cli'] }),
+    repo('me/ferris', { language: 'Rust', stars: 90, isPrivate: true }),
+    repo('acme/tool', { language: 'Rust', stars: 60, isOrg: true, owner: 'acme' }),
+    repo('me/gitpins-docs', { stars: 1, updatedAt: '2026-10-10T00:00:00Z' }),
+  ]
+
+  describe('sanitizePinRules', () => {
+    it('should keep valid slots and drop invalid ones', () => {
+      const rules = sanitizePinRules([
+        { type: 'pin', repo: 'me/web' },
+        { type: 'pin', repo: 'not a repo' },
+        { type: 'rule', count: 2, sortBy: 'bogus', filter: { language: ' Rust ', minStars: -1, topic: 'CLI', extra: 1 } },
+        { type: 'rule', count: 0, filter: {} },
+        { type: 'rule', count: 21, filter: {} },
+        'junk',
+      ])
+
+      expect(rules).toEqual([
+        { type: 'pin', repo: 'me/web' },
+        { type: 'rule', count: 2, sortBy: 'stars', filter: { language: 'Rust', topic: 'cli' } },
+      ])
+    })
+
+    it('should cap the number of slots and disable rules for non-arrays', () => {
+      const many = Array.from({ length: MAX_PIN_SLOTS + 5 }, (_, i) => ({ type: 'pin', repo: `me/repo${i}` }))
+
+      expect(sanitizePinRules(many)).toHaveLength(MAX_PIN_SLOTS)
+      expect(sanitizePinRules(null)).toBeNull()
+      expect(sanitizePinRules({ type: 'pin' })).toBeNull()
+    })
+
+    it('should parse the stored column', () => {
+      expect(parsePinRules(null)).toBeNull()
+      expect(parsePinRules('{bad json')).toBeNull()
+      expect(parsePinRules('[{"type":"pin","repo":"me/web"}]')).toEqual([{ type: 'pin', repo: 'me/web' }])
+    })
+  })
+
+  describe('matchesPinRule', () => {
+    it('should combine every criterion', () => {
+      const rusty = repos[1]
+
+      expect(matchesPinRule(rusty, { language: 'rust', minStars: 10, minForks: 3, topic: 'cli', isOrg: false })).toBe(true)
+      expect(matchesPinRule(rusty, { minForks: 4 })).toBe(false)
+      expect(matchesPinRule(rusty, { owner: 'acme' })).toBe(false)
+      expect(matchesPinRule(rusty, { isPrivate: true })).toBe(false)
+    })
+
+    it('should match name globs case-insensitively', () => {
+      expect(matchesPinRule(repos[4], { namePattern: 'GitPins-*' })).toBe(true)
+      expect(matchesPinRule(repos[0], { namePattern: 'gitpins-*' })).toBe(false)
+    })
+
+    it('should match wildcards anywhere in the name', () => {
+      expect(matchesNamePattern('awesome-cli', '*cli')).toBe(true)
+      expect(matchesNamePattern('awesome-cli', 'a*e*-*')).toBe(true)
+      expect(matchesNamePattern('awesome-cli', '**')).toBe(true)
+      expect(matchesNamePattern('awesome-cli', 'awesome')).toBe(false)
+      expect(matchesNamePattern('a.b', 'a?b')).toBe(false)
+      expect(matchesNamePattern('', '*')).toBe(true)
+    })
+
+    it('should reject pathological patterns quickly', () => {
+      const startedAt = Date.now()
+      expect(matchesNamePattern('a'.repeat(60), '*a*a*a*a*a*a*a*a*a*b')).toBe(false)
+      expect(matchesPinRule(repo('me/' + 'a'.repeat(100)), { namePattern: `${'*a'.repeat(50)}*b` })).toBe(false)
+      expect(Date.now() - startedAt).toBeLessThan(100)
+    })
+
+    it('should treat lists cached without topics as having none', () => {
+      expect(matchesPinRule({ ...repos[1], topics: undefined }, { topic: 'cli' })).toBe(false)
+    })
+  })
+
+  describe('resolvePinRules', () => {
+    it('should fill slots in order without pinning a repo twice', () => {
+      const resolved = resolvePinRules([
+        { type: 'pin', repo: 'me/rusty' },
+        { type: 'rule', label: 'Rust', count: 2, filter: { language: 'Rust' }, sortBy: 'stars' },
+        { type: 'pin', repo: 'acme/tool' },
+      ], repos)
+
+      expect(resolved).toEqual([
+        { repo: 'me/rusty', slot: 0, source: 'pin' },
+        { repo: 'me/ferris', slot: 1, source: 'rule', label: 'Rust' },
+        { repo: 'acme/tool', slot: 1, source: 'rule', label: 'Rust' },
+      ])
+    })
+
+    it('should leave private repos out of rules unless included', () => {
+      const rules = [{ type: 'rule' as const, count: 1, filter: { language: 'Rust' }, sortBy: 'stars' as const }]
+
+      expect(resolvePinRules(rules, repos, { includePrivate: false }).map((pin) => pin.repo)).toEqual(['acme/tool'])
+      expect(resolvePinRules(rules, repos, { includePrivate: true }).map((pin) => pin.repo)).toEqual(['me/ferris'])
+    })
+
+    it('should keep fixed pins that are missing from the list', () => {
+      expect(resolvePinRules([{ type: 'pin', repo: 'me/gone' }], repos)).toEqual([
+        { repo: 'me/gone', slot: 0, source: 'pin' },
+      ])
+    })
+
+    it('should sort by the selected field', () => {
+      const pick = (sortBy: 'forks' | 'updated' | 'name') =>
+        resolvePinRules([{ type: 'rule', count: 1, filter: {}, sortBy }], repos)[0].repo
+
+      expect(pick('forks')).toBe('me/rusty')
+      expect(pick('updated')).toBe('me/gitpins-docs')
+      expect(pick('name')).toBe('me/ferris')
+    })
+  })
+})
@@ -0,0 +1,58 @@
+import { getProfileInstallationId, isValidOrgLogin, parseProfileOrg } from '@/lib/profiles'
+
+describe('Profiles Module', () => {
+  describe('isValidOrgLogin', () => {
+    it('should accept GitHub logins', () => {
+      expect(isValidOrgLogin('acme')).toBe(true)
+      expect(isValidOrgLogin('Acme-Labs-2')).toBe(true)
+      expect(isValidOrgLogin('a'.repeat(39))).toBe(true)
+    })
+
+    it('should reject malformed logins', () => {
+      expect(isValidOrgLogin('')).toBe(false)
+      expect(isValidOrgLogin('-acme')).toBe(false)
+      expect(isValidOrgLogin('acme-')).toBe(false)
+      expect(isValidOrgLogin('ac--me')).toBe(false)
+      expect(isValidOrgLogin('acme/repo')).toBe(false)
+      expect(isValidOrgLogin('a'.repeat(40))).toBe(false)
+      expect(isValidOrgLogin(42)).toBe(false)
+    })
+  })
+
+  describe('parseProfileOrg', () => {
+    it('should select the personal profile when missing or empty', () => {
+      expect(parseProfileOrg(undefined)).toBeNull()
+      expect(parseProfileOrg(null)).toBeNull()
+      expect(parseProfileOrg('')).toBeNull()
+    })
+
+    it('should return the login of an organization profile', () => {
+      expect(parseProfileOrg('acme')).toBe('acme')
+    })
+
+    it('should lowercase organization logins', () => {
+      expect(parseProfileOrg('Acme-Labs')).toBe('acme-labs')
+    })
+
+    it('should flag invalid values', () => {
+      expect(parseProfileOrg('acme/../x')).toBeUndefined()
+      expect(parseProfileOrg({ org: 'acme' })).toBeUndefined()
+    })
+  })
+
+  describe('getProfileInstallationId', () => {
+    const user = { installationId: 1 }
+
+    it('should use the user installation for the personal profile', () => {
+      expect(getProfileInstallationId({ org: null, installationId: null }, user)).toBe(1)
+    })
+
+    it('should use the organization installation for org profiles', () => {
+      expect(getProfileInstallationId({ org: 'acme', installationId: 7 }, user)).toBe(7)
+    })
+
+    it('should not fall back to the user installation for org profiles', () => {
+      expect(getProfileInstallationId({ org: 'acme', installationId: null }, user)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import {
+  parseCachedRepos,
+  planRepoCacheRead,
+  REPO_CACHE_MAX_AGE_MS,
+  REPO_CACHE_TTL_MS,
+} from '@/lib/repo-cache'
+
+describe('Repo Cache Module', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const ago = (ms: number) => new Date(now.getTime() - ms)
+  const entry = { etag: 'W/"abc"', fetchedAt: ago(60 * 60 * 1000), checkedAt: ago(60 * 1000) }
+
+  describe('planRepoCacheRead', () => {
+    it('should use a list checked within the TTL', () => {
+      expect(planRepoCacheRead(entry, {}, now)).toBe('use')
+    })
+
+    it('should revalidate a stale list with its ETag', () => {
+      expect(planRepoCacheRead({ ...entry, checkedAt: ago(REPO_CACHE_TTL_MS) }, {}, now)).toBe('revalidate')
+      expect(planRepoCacheRead(entry, { ttlMs: 0 }, now)).toBe('revalidate')
+    })
+
+    it('should download the full list when missing, refreshed, without ETag or too old', () => {
+      expect(planRepoCacheRead(null, {}, now)).toBe('fetch')
+      expect(planRepoCacheRead(entry, { refresh: true }, now)).toBe('fetch')
+      expect(planRepoCacheRead({ ...entry, etag: null }, {}, now)).toBe('fetch')
+      expect(planRepoCacheRead({ ...entry, fetchedAt: ago(REPO_CACHE_MAX_AGE_MS) }, {}, now)).toBe('fetch')
+    })
+  })
+
+  describe('parseCachedRepos', () => {
+    it('should parse a stored list', () => {
+      expect(parseCachedRepos('[{"fullName":"me/a"}]')).toEqual([{ fullName: 'me/a' }])
+      expect(parseCachedRepos('[]')).toEqual([])
+    })
+
+    it('should reject malformed data', () => {
+      expect(parseCachedRepos('not json')).toBeNull()
+      expect(parseCachedRepos('{"fullName":"me/a"}')).toBeNull()
+      expect(parseCachedRepos('[{"name":"a"}]')).toBeNull()
+    })
+  })
+})
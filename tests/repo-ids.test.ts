@@ -0,0 +1,62 @@
+import { parseRepoIds, reconcileRepoIds, renameRepoId, retainRepoIds } from '@/lib/sync/repo-ids'
+
+describe('Repo IDs Module', () => {
+  describe('parseRepoIds', () => {
+    it('should keep valid ids only', () => {
+      expect(parseRepoIds('{"me/a":1,"me/b":"2","me/c":-3,"me/d":4.5}')).toEqual({ 'me/a': 1 })
+      expect(parseRepoIds('[1,2]')).toEqual({})
+      expect(parseRepoIds('{bad')).toEqual({})
+      expect(parseRepoIds(null)).toEqual({})
+    })
+  })
+
+  describe('retainRepoIds / renameRepoId', () => {
+    it('should drop ids of unpinned repos and move renamed ones', () => {
+      const ids = { 'me/a': 1, 'me/b': 2 }
+
+      expect(retainRepoIds(ids, ['me/b'])).toEqual({ 'me/b': 2 })
+      expect(renameRepoId(ids, 'me/a', 'org/a')).toEqual({ 'me/b': 2, 'org/a': 1 })
+      expect(renameRepoId(ids, 'me/x', 'me/y')).toBe(ids)
+    })
+  })
+
+  describe('reconcileRepoIds', () => {
+    it('should learn ids of pins found by name', () => {
+      const result = reconcileRepoIds(['me/a', 'me/b'], {}, [
+        { id: 1, fullName: 'me/a' },
+        { id: 2, fullName: 'me/b' },
+      ])
+
+      expect(result).toEqual({ order: ['me/a', 'me/b'], ids: { 'me/a': 1, 'me/b': 2 }, renamed: [], changed: true })
+    })
+
+    it('should rename pins whose id has a new name', () => {
+      const result = reconcileRepoIds(['me/a', 'me/old'], { 'me/a': 1, 'me/old': 2 }, [
+        { id: 1, fullName: 'me/a' },
+        { id: 2, fullName: 'acme/new' },
+      ])
+
+      expect(result.order).toEqual(['me/a', 'acme/new'])
+      expect(result.ids).toEqual({ 'me/a': 1, 'acme/new': 2 })
+      expect(result.renamed).toEqual([{ id: 2, from: 'me/old', to: 'acme/new' }])
+      expect(result.changed).toBe(true)
+    })
+
+    it('should keep a single pin when the new name was already pinned', () => {
+      const result = reconcileRepoIds(['me/old', 'me/new'], { 'me/old': 2 }, [{ id: 2, fullName: 'me/new' }])
+
+      expect(result.order).toEqual(['me/new'])
+      expect(result.ids).toEqual({ 'me/new': 2 })
+    })
+
+    it('should leave pins missing from the listing untouched', () => {
+      const result = reconcileRepoIds(['me/gone'], { 'me/gone': 9 }, [{ id: 1, fullName: 'me/a' }])
+
+      expect(result).toEqual({ order: ['me/gone'], ids: { 'me/gone': 9 }, renamed: [], changed: false })
+    })
+
+    it('should report no change when everything already matches', () => {
+      expect(reconcileRepoIds(['me/a'], { 'me/a': 1 }, [{ id: 1, fullName: 'me/a' }]).changed).toBe(false)
+    })
+  })
+})
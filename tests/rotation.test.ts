@@ -0,0 +1,130 @@
+import {
+  findDueRotation,
+  isValidCron,
+  parseCron,
+  parseProfileName,
+  previousCronOccurrence,
+  ROTATION_LOOKBACK_MS,
+} from '@/lib/sync/rotation'
+
+describe('Rotation Module', () => {
+  // Lunes 19 de octubre de 2026, 12:30 UTC
+  const now = new Date('2026-10-19T12:30:00Z')
+
+  describe('parseCron', () => {
+    it('should parse lists, ranges and steps', () => {
+      const schedule = parseCron('0,30 9-17/4 * * 1-5')
+
+      expect([...schedule!.minutes]).toEqual([0, 30])
+      expect([...schedule!.hours]).toEqual([9, 13, 17])
+      expect(schedule!.daysOfWeek).toEqual(new Set([1, 2, 3, 4, 5]))
+      expect(schedule!.dayOr).toBe(false)
+    })
+
+    it('should treat 7 as Sunday', () => {
+      expect(parseCron('0 0 * * 7')!.daysOfWeek).toEqual(new Set([0]))
+    })
+
+    it('should reject invalid expressions', () => {
+      expect(parseCron('* * * *')).toBeNull()
+      expect(parseCron('60 * * * *')).toBeNull()
+      expect(parseCron('* * 0 * *')).toBeNull()
+      expect(parseCron('*/0 * * * *')).toBeNull()
+      expect(parseCron('5-1 * * * *')).toBeNull()
+      expect(parseCron('0 9 * * MON')).toBeNull()
+      expect(isValidCron(42)).toBe(false)
+    })
+  })
+
+  describe('previousCronOccurrence', () => {
+    it('should find the latest match at or before the reference time', () => {
+      const schedule = parseCron('0 9 * * *')!
+
+      expect(previousCronOccurrence(schedule, now, new Date('2026-10-01T00:00:00Z')))
+        .toEqual(new Date('2026-10-19T09:00:00Z'))
+    })
+
+    it('should include an occurrence exactly at the reference time', () => {
+      const schedule = parseCron('30 12 * * *')!
+
+      expect(previousCronOccurrence(schedule, now, new Date('2026-10-19T00:00:00Z'))).toEqual(now)
+    })
+
+    it('should walk back to previous days', () => {
+      // Viernes a las 18:00
+      const schedule = parseCron('0 18 * * 5')!
+
+      expect(previousCronOccurrence(schedule, now, new Date('2026-10-01T00:00:00Z')))
+        .toEqual(new Date('2026-10-16T18:00:00Z'))
+    })
+
+    it('should match either day field when both are restricted', () => {
+      // Día 1 del mes o domingos
+      const schedule = parseCron('0 0 1 * 0')!
+
+      expect(previousCronOccurrence(schedule, now, new Date('2026-10-01T00:00:00Z')))
+        .toEqual(new Date('2026-10-18T00:00:00Z'))
+    })
+
+    it('should return null when nothing matches after the lower bound', () => {
+      const schedule = parseCron('0 18 * * 5')!
+
+      expect(previousCronOccurrence(schedule, now, new Date('2026-10-16T18:00:00Z'))).toBeNull()
+    })
+  })
+
+  describe('findDueRotation', () => {
+    const since = new Date('2026-10-19T08:00:00Z')
+    const profile = (id: string, activateAt: string | null, cron: string | null) => ({
+      id,
+      activateAt: activateAt ? new Date(activateAt) : null,
+      cron,
+    })
+
+    it('should return nothing before the first check', () => {
+      expect(findDueRotation([profile('a', '2026-10-19T10:00:00Z', null)], null, now)).toBeNull()
+    })
+
+    it('should activate a one-off date inside the window', () => {
+      const due = findDueRotation([profile('a', '2026-10-19T10:00:00Z', null)], since, now)
+
+      expect(due).toMatchObject({ profile: { id: 'a' }, trigger: 'date', scheduledAt: new Date('2026-10-19T10:00:00Z') })
+    })
+
+    it('should ignore dates already handled or still in the future', () => {
+      expect(findDueRotation([
+        profile('past', '2026-10-19T07:00:00Z', null),
+        profile('future', '2026-10-20T10:00:00Z', null),
+      ], since, now)).toBeNull()
+    })
+
+    it('should pick the most recent activation when several fired', () => {
+      const due = findDueRotation([
+        profile('date', '2026-10-19T10:00:00Z', null),
+        profile('cron', null, '0 12 * * *'),
+        profile('older', null, '0 9 * * *'),
+      ], since, now)
+
+      expect(due).toMatchObject({ profile: { id: 'cron' }, trigger: 'cron', scheduledAt: new Date('2026-10-19T12:00:00Z') })
+    })
+
+    it('should not look back further than the lookback window', () => {
+      const longAgo = new Date(now.getTime() - 2 * ROTATION_LOOKBACK_MS)
+
+      expect(findDueRotation([profile('a', longAgo.toISOString(), null)], new Date(0), now)).toBeNull()
+    })
+
+    it('should skip profiles with an invalid cron', () => {
+      expect(findDueRotation([profile('a', null, 'not a cron')], since, now)).toBeNull()
+    })
+  })
+
+  describe('parseProfileName', () => {
+    it('should trim and bound names', () => {
+      expect(parseProfileName('  Hiring ')).toBe('Hiring')
+      expect(parseProfileName('   ')).toBeNull()
+      expect(parseProfileName('x'.repeat(51))).toBeNull()
+      expect(parseProfileName(null)).toBeNull()
+    })
+  })
+})
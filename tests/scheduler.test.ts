@@ -0,0 +1,115 @@
+import { getSchedulerConfig, isSyncDue, runWithConcurrency } from '@/lib/scheduler'
+
+const HOUR = 60 * 60 * 1000
+
+describe('Scheduler Module', () => {
+  describe('getSchedulerConfig', () => {
+    it('should be disabled by default', () => {
+      const config = getSchedulerConfig({} as NodeJS.ProcessEnv)
+      expect(config).toEqual({ enabled: false, intervalMs: 5 * 60 * 1000, concurrency: 2 })
+    })
+
+    it('should read interval and concurrency overrides', () => {
+      const config = getSchedulerConfig({
+        GITPINS_SCHEDULER_ENABLED: 'true',
+        GITPINS_SCHEDULER_INTERVAL_MINUTES: '15',
+        GITPINS_SCHEDULER_CONCURRENCY: '4',
+      } as unknown as NodeJS.ProcessEnv)
+      expect(config).toEqual({ enabled: true, intervalMs: 15 * 60 * 1000, concurrency: 4 })
+    })
+
+    it('should ignore invalid numbers', () => {
+      const config = getSchedulerConfig({
+        GITPINS_SCHEDULER_INTERVAL_MINUTES: '-3',
+        GITPINS_SCHEDULER_CONCURRENCY: 'abc',
+      } as unknown as NodeJS.ProcessEnv)
+      expect(config.intervalMs).toBe(5 * 60 * 1000)
+      expect(config.concurrency).toBe(2)
+    })
+  })
+
+  describe('isSyncDue', () => {
+    const now = new Date('2026-03-10T10:20:00Z')
+    const base = { autoEnabled: true, syncFrequency: 24, preferredHour: null, lastSyncAt: null }
+
+    it('should run orders that never synced', () => {
+      expect(isSyncDue(base, now)).toBe(true)
+    })
+
+    it('should skip disabled orders', () => {
+      expect(isSyncDue({ ...base, autoEnabled: false }, now)).toBe(false)
+    })
+
+    it('should wait until the frequency has elapsed', () => {
+      expect(isSyncDue({ ...base, lastSyncAt: new Date(now.getTime() - 23 * HOUR) }, now)).toBe(false)
+      expect(isSyncDue({ ...base, lastSyncAt: new Date(now.getTime() - 24 * HOUR) }, now)).toBe(true)
+    })
+
+    it('should only run during the preferred hour', () => {
+      expect(isSyncDue({ ...base, preferredHour: 9 }, now)).toBe(false)
+      expect(isSyncDue({ ...base, preferredHour: 10 }, now)).toBe(true)
+    })
+
+    it('should not let a daily run slip past its preferred hour', () => {
+      const lastSyncAt = new Date('2026-03-09T10:35:00Z')
+      expect(isSyncDue({ ...base, preferredHour: 10, lastSyncAt }, now)).toBe(true)
+    })
+
+    it('should run an hourly order once during its preferred hour', () => {
+      const order = { ...base, syncFrequency: 1, preferredHour: 10 }
+      expect(isSyncDue({ ...order, lastSyncAt: new Date(now.getTime() - 5 * 60 * 1000) }, now)).toBe(false)
+      expect(isSyncDue({ ...order, lastSyncAt: new Date(now.getTime() - 24 * HOUR) }, now)).toBe(true)
+    })
+
+    it('should resume a deferred run outside the preferred hour', () => {
+      const lastSyncAt = new Date(now.getTime() - HOUR)
+      const order = { ...base, preferredHour: 3, lastSyncAt }
+
+      expect(isSyncDue({ ...order, resumeSyncAt: new Date(now.getTime() + 60000) }, now)).toBe(false)
+      expect(isSyncDue({ ...order, resumeSyncAt: new Date(now.getTime() - 60000) }, now)).toBe(true)
+      expect(isSyncDue({ ...order, autoEnabled: false, resumeSyncAt: lastSyncAt }, now)).toBe(false)
+    })
+
+    it('should run when a profile rotation fired since the last check', () => {
+      const lastSyncAt = new Date(now.getTime() - HOUR)
+      const order = { ...base, preferredHour: 3, lastSyncAt, rotationCheckedAt: lastSyncAt }
+      const profile = { id: 'hiring', cron: null }
+
+      expect(isSyncDue({ ...order, orderProfiles: [{ ...profile, activateAt: new Date(now.getTime() - 60000) }] }, now)).toBe(true)
+      expect(isSyncDue({ ...order, orderProfiles: [{ ...profile, activateAt: new Date(now.getTime() + 60000) }] }, now)).toBe(false)
+    })
+  })
+
+  describe('runWithConcurrency', () => {
+    it('should never exceed the concurrency limit', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+
+      const outcomes = await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        inFlight--
+        return item * 2
+      })
+
+      expect(maxInFlight).toBe(2)
+      expect(outcomes.map((o) => o.result)).toEqual([2, 4, 6, 8, 10])
+    })
+
+    it('should report worker errors without stopping the batch', async () => {
+      const outcomes = await runWithConcurrency(['ok', 'fail', 'ok'], 3, async (item) => {
+        if (item === 'fail') throw new Error('boom')
+        return item
+      })
+
+      expect(outcomes[0].result).toBe('ok')
+      expect(outcomes[1].error).toBeInstanceOf(Error)
+      expect(outcomes[2].result).toBe('ok')
+    })
+
+    it('should handle an empty list', async () => {
+      await expect(runWithConcurrency([], 2, async () => 1)).resolves.toEqual([])
+    })
+  })
+})
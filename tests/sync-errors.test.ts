@@ -0,0 +1,82 @@
+import {
+  classifySyncError,
+  describeSyncError,
+  isSyncErrorCategory,
+  isTransientSyncError,
+  summarizeSyncErrors,
+} from '@/lib/sync/errors'
+
+function githubError(status: number, message: string, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(message), { status, response: { headers } })
+}
+
+describe('Sync Error Taxonomy', () => {
+  describe('classifySyncError', () => {
+    it('should map plain status codes', () => {
+      expect(classifySyncError(githubError(404, 'Not Found'))).toEqual({ category: 'not_found', status: 404 })
+      expect(classifySyncError(githubError(403, 'Resource not accessible by integration')))
+        .toEqual({ category: 'forbidden', status: 403 })
+      expect(classifySyncError(githubError(401, 'Bad credentials')).category).toBe('forbidden')
+    })
+
+    it('should recognize repository rules and tag protection', () => {
+      expect(classifySyncError(githubError(422, 'Repository rule violations found')).category).toBe('protected_ref')
+      expect(classifySyncError(githubError(422, 'Reference update failed')).category).toBe('protected_ref')
+      expect(classifySyncError(githubError(403, 'Cannot create ref due to creations being restricted.')).category)
+        .toBe('protected_ref')
+    })
+
+    it('should recognize empty and archived repositories', () => {
+      expect(classifySyncError(githubError(409, 'Git Repository is empty.'))).toEqual({ category: 'empty_repository', status: 409 })
+      expect(classifySyncError(githubError(403, 'Repository was archived so is read-only.')).category).toBe('archived')
+    })
+
+    it('should detect primary and secondary rate limits', () => {
+      expect(classifySyncError(githubError(429, 'Too Many Requests')).category).toBe('rate_limited')
+      expect(classifySyncError(githubError(403, 'You have exceeded a secondary rate limit')).category).toBe('rate_limited')
+      expect(classifySyncError(githubError(403, 'Forbidden', { 'x-ratelimit-remaining': '0' })).category).toBe('rate_limited')
+      expect(classifySyncError(githubError(403, 'Forbidden', { 'retry-after': '60' })).category).toBe('rate_limited')
+    })
+
+    it('should detect network failures and gateway errors', () => {
+      expect(classifySyncError(Object.assign(new Error('connect'), { code: 'ECONNRESET' }))).toEqual({ category: 'network' })
+      expect(classifySyncError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ENOTFOUND' } })).category)
+        .toBe('network')
+      expect(classifySyncError(githubError(502, 'Bad Gateway')).category).toBe('network')
+    })
+
+    it('should fall back to unknown', () => {
+      expect(classifySyncError(githubError(500, 'Server Error'))).toEqual({ category: 'unknown', status: 500 })
+      expect(classifySyncError(new Error('boom'))).toEqual({ category: 'unknown' })
+      expect(classifySyncError('boom')).toEqual({ category: 'unknown' })
+    })
+  })
+
+  describe('helpers', () => {
+    it('should validate categories', () => {
+      expect(isSyncErrorCategory('protected_ref')).toBe(true)
+      expect(isSyncErrorCategory('protected')).toBe(false)
+      expect(isSyncErrorCategory(undefined)).toBe(false)
+    })
+
+    it('should treat only rate limits and network errors as transient', () => {
+      expect(isTransientSyncError('rate_limited')).toBe(true)
+      expect(isTransientSyncError('network')).toBe(true)
+      expect(isTransientSyncError('not_found')).toBe(false)
+    })
+
+    it('should keep the generic summary for unknown errors', () => {
+      expect(describeSyncError('unknown')).toBe('Operation failed')
+      expect(describeSyncError('archived')).toBe('Repository is archived')
+    })
+
+    it('should count failures per category', () => {
+      expect(summarizeSyncErrors([
+        { status: 'success' },
+        { status: 'error', errorCategory: 'protected_ref' },
+        { status: 'error', errorCategory: 'protected_ref' },
+        { status: 'error' },
+      ])).toEqual({ protected_ref: 2, unknown: 1 })
+    })
+  })
+})
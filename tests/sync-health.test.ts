@@ -0,0 +1,114 @@
+import {
+  applyTouchResults,
+  emptyRepoHealth,
+  excludeQuarantined,
+  nextRepoHealth,
+  REPO_QUARANTINE_THRESHOLD,
+} from '@/lib/sync/health'
+
+describe('Repo Health Module', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+
+  describe('nextRepoHealth', () => {
+    it('should count consecutive failures and quarantine at the threshold', () => {
+      let state = null
+      for (let i = 0; i < REPO_QUARANTINE_THRESHOLD - 1; i++) {
+        state = nextRepoHealth(state, { repo: 'me/a', status: 'error', errorCategory: 'protected_ref' }, now)
+      }
+      expect(state).toMatchObject({ consecutiveFailures: REPO_QUARANTINE_THRESHOLD - 1, quarantinedAt: null })
+
+      state = nextRepoHealth(state, { repo: 'me/a', status: 'error', errorCategory: 'protected_ref' }, now)
+      expect(state).toMatchObject({
+        consecutiveFailures: REPO_QUARANTINE_THRESHOLD,
+        lastErrorCategory: 'protected_ref',
+        lastFailureAt: now,
+        quarantinedAt: now,
+      })
+    })
+
+    it('should keep the original quarantine date on further failures', () => {
+      const earlier = new Date('2026-10-01T00:00:00Z')
+      const state = { ...emptyRepoHealth('me/a'), consecutiveFailures: 5, quarantinedAt: earlier }
+
+      expect(nextRepoHealth(state, { repo: 'me/a', status: 'error' }, now).quarantinedAt).toBe(earlier)
+    })
+
+    it('should reset the streak and quarantine on success', () => {
+      const state = { ...emptyRepoHealth('me/a'), consecutiveFailures: 3, lastErrorCategory: 'archived', quarantinedAt: now }
+
+      expect(nextRepoHealth(state, { repo: 'me/a', status: 'success' }, now)).toMatchObject({
+        consecutiveFailures: 0,
+        lastErrorCategory: 'archived',
+        lastSuccessAt: now,
+        quarantinedAt: null,
+      })
+    })
+
+    it('should not count rate limits or network errors towards quarantine', () => {
+      const state = { ...emptyRepoHealth('me/a'), consecutiveFailures: 2 }
+
+      expect(nextRepoHealth(state, { repo: 'me/a', status: 'error', errorCategory: 'rate_limited' }, now)).toMatchObject({
+        consecutiveFailures: 2,
+        lastErrorCategory: 'rate_limited',
+        lastFailureAt: now,
+        quarantinedAt: null,
+      })
+    })
+
+    it('should default the category to unknown', () => {
+      expect(nextRepoHealth(null, { repo: 'me/a', status: 'error' }, now).lastErrorCategory).toBe('unknown')
+    })
+  })
+
+  describe('applyTouchResults', () => {
+    it('should report only repos quarantined by this run', () => {
+      const previous = [
+        { ...emptyRepoHealth('me/a'), consecutiveFailures: 2 },
+        { ...emptyRepoHealth('me/b'), consecutiveFailures: 4, quarantinedAt: now },
+      ]
+
+      const { states, newlyQuarantined } = applyTouchResults(previous, [
+        { repo: 'me/a', status: 'error', errorCategory: 'not_found' },
+        { repo: 'me/b', status: 'error' },
+        { repo: 'me/c', status: 'success' },
+      ], now)
+
+      expect(newlyQuarantined).toEqual(['me/a'])
+      expect(states.get('me/c')).toMatchObject({ consecutiveFailures: 0, lastSuccessAt: now })
+    })
+
+    it('should let a later retry result win', () => {
+      const { states } = applyTouchResults([], [
+        { repo: 'me/a', status: 'error' },
+        { repo: 'me/a', status: 'success' },
+      ], now)
+
+      expect(states.get('me/a')?.consecutiveFailures).toBe(0)
+    })
+
+    it('should count a repo that also fails its retry once per run', () => {
+      const previous = [{ ...emptyRepoHealth('me/a'), consecutiveFailures: REPO_QUARANTINE_THRESHOLD - 2 }]
+
+      const { states, newlyQuarantined } = applyTouchResults(previous, [
+        { repo: 'me/a', status: 'error', errorCategory: 'protected_ref' },
+        { repo: 'me/a', status: 'error', errorCategory: 'forbidden' },
+      ], now)
+
+      expect(states.get('me/a')).toMatchObject({
+        consecutiveFailures: REPO_QUARANTINE_THRESHOLD - 1,
+        lastErrorCategory: 'forbidden',
+        quarantinedAt: null,
+      })
+      expect(newlyQuarantined).toEqual([])
+    })
+  })
+
+  describe('excludeQuarantined', () => {
+    it('should drop quarantined repos and keep the rest in order', () => {
+      expect(excludeQuarantined(['me/a', 'me/b', 'me/c'], ['me/b'])).toEqual({
+        desiredTop: ['me/a', 'me/c'],
+        skipped: ['me/b'],
+      })
+    })
+  })
+})
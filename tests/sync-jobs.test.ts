@@ -0,0 +1,125 @@
+import {
+  applyJobProgress,
+  countJobProgress,
+  createJobProgress,
+  isSyncJobStale,
+  serializeSyncJob,
+  SYNC_JOB_STALE_MS,
+} from '@/lib/sync/job-state'
+
+describe('Sync Job State Module', () => {
+  const plan = {
+    currentTop: ['me/x', 'me/y'],
+    desiredTop: ['me/a', 'me/b'],
+    alreadyOrdered: false,
+    reposToTouch: ['me/a', 'me/b'],
+  }
+
+  describe('createJobProgress', () => {
+    it('should list repos in execution order as pending', () => {
+      expect(createJobProgress(plan)).toEqual([
+        { repo: 'me/b', status: 'pending' },
+        { repo: 'me/a', status: 'pending' },
+      ])
+    })
+  })
+
+  describe('applyJobProgress', () => {
+    it('should move a repo through running to its final status', () => {
+      let progress = createJobProgress(plan)
+      progress = applyJobProgress(progress, { repo: 'me/b', position: 1, total: 2, status: 'started' })
+      expect(progress[0].status).toBe('running')
+
+      progress = applyJobProgress(progress, { repo: 'me/b', position: 1, total: 2, status: 'success' })
+      progress = applyJobProgress(progress, { repo: 'me/a', position: 2, total: 2, status: 'error' })
+      expect(progress).toEqual([
+        { repo: 'me/b', status: 'success' },
+        { repo: 'me/a', status: 'error' },
+      ])
+    })
+
+    it('should ignore unknown repos', () => {
+      const progress = createJobProgress(plan)
+      expect(applyJobProgress(progress, { repo: 'me/zzz', position: 1, total: 1, status: 'success' })).toEqual(progress)
+    })
+  })
+
+  describe('countJobProgress', () => {
+    it('should count processed, succeeded and failed repos', () => {
+      expect(countJobProgress([
+        { repo: 'me/a', status: 'success' },
+        { repo: 'me/b', status: 'error' },
+        { repo: 'me/c', status: 'running' },
+        { repo: 'me/d', status: 'pending' },
+      ])).toEqual({ total: 4, processed: 2, succeeded: 1, failed: 1 })
+    })
+  })
+
+  describe('isSyncJobStale', () => {
+    const now = new Date('2026-05-01T12:00:00Z')
+    const old = new Date(now.getTime() - SYNC_JOB_STALE_MS - 1)
+
+    it('should flag running jobs that stopped updating', () => {
+      expect(isSyncJobStale({ status: 'running', updatedAt: old }, now)).toBe(true)
+      expect(isSyncJobStale({ status: 'queued', updatedAt: old }, now)).toBe(true)
+    })
+
+    it('should not flag recent or finished jobs', () => {
+      expect(isSyncJobStale({ status: 'running', updatedAt: now }, now)).toBe(false)
+      expect(isSyncJobStale({ status: 'completed', updatedAt: old }, now)).toBe(false)
+    })
+  })
+
+  describe('serializeSyncJob', () => {
+    it('should parse stored JSON and format dates', () => {
+      const createdAt = new Date('2026-05-01T12:00:00Z')
+      const job = serializeSyncJob({
+        id: 'job_1',
+        status: 'completed',
+        trigger: 'manual',
+        progress: '[{"repo":"me/a","status":"success"}]',
+        result: '{"success":true,"synced":1}',
+        error: null,
+        total: 1,
+        processed: 1,
+        succeeded: 1,
+        failed: 0,
+        createdAt,
+        startedAt: createdAt,
+        finishedAt: null,
+        updatedAt: createdAt,
+      })
+
+      expect(job).toMatchObject({
+        id: 'job_1',
+        repos: [{ repo: 'me/a', status: 'success' }],
+        result: { success: true, synced: 1 },
+        createdAt: '2026-05-01T12:00:00.000Z',
+        finishedAt: null,
+      })
+    })
+
+    it('should tolerate corrupted JSON columns', () => {
+      const now = new Date()
+      const job = serializeSyncJob({
+        id: 'job_2',
+        status: 'failed',
+        trigger: 'secret',
+        progress: 'not json',
+        result: null,
+        error: 'Operation failed',
+        total: 0,
+        processed: 0,
+        succeeded: 0,
+        failed: 0,
+        createdAt: now,
+        startedAt: null,
+        finishedAt: now,
+        updatedAt: now,
+      })
+
+      expect(job.repos).toEqual([])
+      expect(job.result).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,607 @@
+import {
+  getCurrentRepoOrderFromInstallation,
+  getCurrentRepoOrderFromOrg,
+  runSyncEngine,
+  touchRepos,
+  type SyncClient,
+} from '@/lib/sync/engine'
+import {
+  buildSyncPreview,
+  comparePublicView,
+  getReposToTouch,
+  isRepoOrderCorrect,
+  isValidRepoNamePart,
+  parseDesiredTop,
+  planSync,
+} from '@/lib/sync/planner'
+import {
+  isTouchStrategy,
+  parseRepoStrategies,
+  renameRepoStrategy,
+  resolveTouchStrategy,
+  sanitizeRepoStrategies,
+} from '@/lib/sync/strategies'
+import { createRateLimitBudget } from '@/lib/github-rate-limit'
+
+interface FakeRepo {
+  fullName: string
+  defaultBranch?: string
+  branches?: Record<string, string>
+  failCreate?: boolean
+  failDelete?: boolean
+  /** Number of restore calls that fail, true for all of them */
+  failRestore?: boolean | number
+  description?: string | null
+  updatedAt?: string
+  isPrivate?: boolean
+}
+
+function createFakeClient(repos: FakeRepo[]) {
+  const calls: string[] = []
+  const byName = new Map(repos.map((repo) => [repo.fullName, repo]))
+
+  const notFound = () => Object.assign(new Error('Not Found'), { status: 404 })
+  const find = (owner: string, repo: string) => {
+    const found = byName.get(`${owner}/${repo}`)
+    if (!found) throw notFound()
+    return found
+  }
+
+  const client = {
+    rest: {
+      apps: {
+        listReposAccessibleToInstallation: jest.fn(),
+      },
+      repos: {
+        get: jest.fn(async ({ owner, repo }: { owner: string; repo: string }) => {
+          const found = find(owner, repo)
+          if (!found.defaultBranch) throw notFound()
+          return { data: { default_branch: found.defaultBranch, description: found.description ?? null } }
+        }),
+        update: jest.fn(async ({ owner, repo, description }: { owner: string; repo: string; description: string | null }) => {
+          const found = find(owner, repo)
+          const restoring = !description?.startsWith('gitpins-touch-')
+          calls.push(`describe ${owner}/${repo} ${restoring ? JSON.stringify(description) : 'temporary'}`)
+          if (restoring && found.failRestore) {
+            if (typeof found.failRestore === 'number') found.failRestore--
+            throw Object.assign(new Error('Server Error'), { status: 500 })
+          }
+          return { data: {} }
+        }),
+      },
+      git: {
+        getRef: jest.fn(async ({ owner, repo, ref }: { owner: string; repo: string; ref: string }) => {
+          const found = find(owner, repo)
+          const sha = found.branches?.[ref.replace('heads/', '')]
+          if (!sha) throw notFound()
+          return { data: { object: { sha } } }
+        }),
+        createRef: jest.fn(async ({ owner, repo, ref, sha }: { owner: string; repo: string; ref: string; sha: string }) => {
+          calls.push(`create ${owner}/${repo} ${ref.replace(/-[a-z0-9]+-[a-f0-9]{8}-/, '-*-')} ${sha}`)
+          if (find(owner, repo).failCreate) throw new Error('Resource not accessible by integration')
+          return { data: {} }
+        }),
+        createTag: jest.fn(async ({ owner, repo, object }: { owner: string; repo: string; object: string }) => {
+          calls.push(`tag ${owner}/${repo} ${object}`)
+          find(owner, repo)
+          return { data: { sha: `tag-${object}` } }
+        }),
+        deleteRef: jest.fn(async ({ owner, repo }: { owner: string; repo: string }) => {
+          calls.push(`delete ${owner}/${repo}`)
+          if (find(owner, repo).failDelete) throw new Error('Reference does not exist')
+          return { data: {} }
+        }),
+      },
+    },
+    paginate: {
+      iterator: jest.fn(() => ({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            data: {
+              repositories: repos.map((repo) => ({
+                full_name: repo.fullName,
+                updated_at: repo.updatedAt ?? null,
+                private: repo.isPrivate ?? false,
+              })),
+            },
+          }
+        },
+      })),
+    },
+  }
+
+  return { client: client as unknown as SyncClient, calls, mocks: client }
+}
+
+describe('Sync Module', () => {
+  let consoleErrorSpy: jest.SpyInstance
+
+  beforeEach(() => {
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore()
+  })
+
+  describe('planner', () => {
+    it('should detect an order that is already correct', () => {
+      expect(isRepoOrderCorrect(['me/a', 'me/b', 'me/c'], ['me/a', 'me/b'])).toBe(true)
+      expect(isRepoOrderCorrect(['me/b', 'me/a'], ['me/a', 'me/b'])).toBe(false)
+      expect(isRepoOrderCorrect(['me/a'], ['me/a', 'me/b'])).toBe(false)
+    })
+
+    it('should touch only the prefix that must move', () => {
+      // me/c is already first, so it becomes third once a and b are touched above it
+      expect(getReposToTouch(['me/c', 'me/x', 'me/b', 'me/a'], ['me/a', 'me/b', 'me/c'])).toEqual(['me/a', 'me/b'])
+    })
+
+    it('should touch everything when nothing lines up', () => {
+      expect(getReposToTouch(['me/x', 'me/y'], ['me/a', 'me/b'])).toEqual(['me/a', 'me/b'])
+    })
+
+    it('should return an empty touch list for an empty order', () => {
+      expect(getReposToTouch(['me/a'], [])).toEqual([])
+    })
+
+    it('should build a complete plan', () => {
+      expect(planSync(['me/b', 'me/a', 'me/c'], ['me/a', 'me/b'])).toEqual({
+        currentTop: ['me/b', 'me/a'],
+        desiredTop: ['me/a', 'me/b'],
+        alreadyOrdered: false,
+        reposToTouch: ['me/a'],
+      })
+    })
+
+    it('should parse and truncate the saved order', () => {
+      expect(parseDesiredTop('["me/a","me/b","me/c"]', 2)).toEqual(['me/a', 'me/b'])
+      expect(parseDesiredTop('["me/a","me/b"]', 0)).toEqual(['me/a', 'me/b'])
+      expect(parseDesiredTop('{"not":"a list"}', 5)).toEqual([])
+      expect(parseDesiredTop('not json', 5)).toBeNull()
+    })
+
+    it('should preview the touch order and predicted result', () => {
+      expect(buildSyncPreview(['me/c', 'me/x', 'me/b', 'me/a'], ['me/a', 'me/b', 'me/c'])).toEqual({
+        currentTop: ['me/c', 'me/x', 'me/b'],
+        desiredTop: ['me/a', 'me/b', 'me/c'],
+        alreadyOrdered: false,
+        touchOrder: ['me/b', 'me/a'],
+        predictedTop: ['me/a', 'me/b', 'me/c'],
+      })
+    })
+
+    it('should preview an already ordered account as a no-op', () => {
+      const preview = buildSyncPreview(['me/a', 'me/b'], ['me/a', 'me/b'])
+      expect(preview.alreadyOrdered).toBe(true)
+      expect(preview.touchOrder).toEqual([])
+      expect(preview.predictedTop).toEqual(['me/a', 'me/b'])
+    })
+
+    it('should compare the visitor view with the desired list', () => {
+      const comparison = comparePublicView(['me/b', 'me/a', 'me/c'], ['me/a', 'me/b'])
+      expect(comparison.rows).toEqual([
+        { position: 1, visitor: 'me/b', desired: 'me/a', matches: false },
+        { position: 2, visitor: 'me/a', desired: 'me/b', matches: false },
+      ])
+      expect(comparison.inOrder).toBe(false)
+      expect(comparison.reposToTouch).toEqual(['me/a'])
+      expect(comparison.hidden).toEqual([])
+    })
+
+    it('should report desired repos a visitor cannot see apart', () => {
+      // me/secret is private: visitors see me/a first, which is already in order
+      const comparison = comparePublicView(['me/a', 'me/b'], ['me/secret', 'me/a'])
+      expect(comparison.rows).toEqual([{ position: 1, visitor: 'me/a', desired: 'me/a', matches: true }])
+      expect(comparison.inOrder).toBe(true)
+      expect(comparison.reposToTouch).toEqual([])
+      expect(comparison.hidden).toEqual(['me/secret'])
+      expect(comparison.unchecked).toEqual([])
+    })
+
+    it('should not report repos as hidden when the listing stopped early', () => {
+      // me/new was pinned after the check; the listing stopped once me/a and me/b were found
+      const comparison = comparePublicView(['me/a', 'me/b'], ['me/new', 'me/a', 'me/b'], false)
+      expect(comparison.hidden).toEqual([])
+      expect(comparison.unchecked).toEqual(['me/new'])
+      expect(comparison.rows.map((row) => row.desired)).toEqual(['me/a', 'me/b'])
+    })
+
+    it('should validate repository name parts', () => {
+      expect(isValidRepoNamePart('my-repo.js')).toBe(true)
+      expect(isValidRepoNamePart('.hidden')).toBe(false)
+      expect(isValidRepoNamePart('')).toBe(false)
+      expect(isValidRepoNamePart('a'.repeat(101))).toBe(false)
+      expect(isValidRepoNamePart('bad name')).toBe(false)
+    })
+  })
+
+  describe('engine', () => {
+    it('should touch repos in reverse order on their default branch', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'develop', branches: { develop: 'sha-a' } },
+        { fullName: 'me/b', defaultBranch: 'main', branches: { main: 'sha-b' } },
+      ])
+
+      const { results } = await touchRepos(client, ['me/a', 'me/b'], ['me/a', 'me/b'], { delayMs: 0 })
+
+      expect(results.map((r) => [r.repo, r.status])).toEqual([
+        ['me/b', 'success'],
+        ['me/a', 'success'],
+      ])
+      expect(calls).toEqual([
+        'create me/b refs/tags/gitpins-touch-*-2 sha-b',
+        'delete me/b',
+        'create me/a refs/tags/gitpins-touch-*-1 sha-a',
+        'delete me/a',
+      ])
+    })
+
+    it('should fall back to main and then master when metadata is unavailable', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/legacy', branches: { master: 'sha-master' } },
+      ])
+
+      const { results } = await touchRepos(client, ['me/legacy'], ['me/legacy'], { delayMs: 0 })
+
+      expect(results[0].status).toBe('success')
+      expect(calls[0]).toContain('sha-master')
+    })
+
+    it('should keep going after a failed repo and report progress', async () => {
+      const { client } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', branches: { main: 'sha-a' } },
+        { fullName: 'me/b', defaultBranch: 'main', branches: { main: 'sha-b' }, failCreate: true },
+      ])
+      const events: string[] = []
+
+      const { results, logs } = await touchRepos(client, ['me/a', 'me/b'], ['me/a', 'me/b'], {
+        delayMs: 0,
+        onProgress: (event) => events.push(`${event.position}/${event.total} ${event.repo} ${event.status}`),
+      })
+
+      expect(results).toEqual([
+        expect.objectContaining({ repo: 'me/b', status: 'error', error: 'Operation failed', errorCategory: 'unknown' }),
+        expect.objectContaining({ repo: 'me/a', status: 'success' }),
+      ])
+      expect(events).toEqual([
+        '1/2 me/b started',
+        '1/2 me/b error',
+        '2/2 me/a started',
+        '2/2 me/a success',
+      ])
+      expect(logs.some((line) => line.includes('me/b - FAILED'))).toBe(true)
+    })
+
+    it('should treat a failed tag cleanup as non-fatal', async () => {
+      const { client } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', branches: { main: 'sha-a' }, failDelete: true },
+      ])
+
+      const { results, logs } = await touchRepos(client, ['me/a'], ['me/a'], { delayMs: 0 })
+
+      expect(results[0].status).toBe('success')
+      expect(logs.some((line) => line.includes('failed to delete temporary tag'))).toBe(true)
+    })
+
+    it('should reject invalid repository names without calling GitHub', async () => {
+      const { client, mocks } = createFakeClient([])
+
+      const { results } = await touchRepos(client, ['me/.bad'], ['me/.bad'], { delayMs: 0 })
+
+      expect(results[0]).toMatchObject({ status: 'error', error: 'Invalid repository name format', errorCategory: 'invalid_name' })
+      expect(mocks.rest.git.createRef).not.toHaveBeenCalled()
+    })
+
+    it('should sort the installation listing by last update', async () => {
+      const { client } = createFakeClient([
+        { fullName: 'me/old', updatedAt: '2025-01-01T00:00:00Z' },
+        { fullName: 'me/new', updatedAt: '2026-01-01T00:00:00Z' },
+      ])
+
+      await expect(getCurrentRepoOrderFromInstallation(client)).resolves.toEqual(['me/new', 'me/old'])
+    })
+
+    it('should leave private repositories out of a public-only listing', async () => {
+      const { client } = createFakeClient([
+        { fullName: 'me/public' },
+        { fullName: 'me/secret', isPrivate: true },
+      ])
+
+      await expect(getCurrentRepoOrderFromInstallation(client, { publicOnly: true })).resolves.toEqual(['me/public'])
+    })
+
+    it('should list organization repositories for org profiles', async () => {
+      const listForOrg = jest.fn()
+      const iterator = jest.fn(() => ({
+        async *[Symbol.asyncIterator]() {
+          yield { data: [{ full_name: 'acme/new' }, { full_name: 'acme/old' }] }
+        },
+      }))
+      const client = { rest: { repos: { listForOrg } }, paginate: { iterator } } as unknown as SyncClient
+
+      await expect(getCurrentRepoOrderFromOrg(client, 'acme')).resolves.toEqual(['acme/new', 'acme/old'])
+      expect(iterator).toHaveBeenCalledWith(listForOrg, expect.objectContaining({ org: 'acme', sort: 'updated' }))
+    })
+
+    it('should request only public organization repositories when private ones are excluded', async () => {
+      const listForOrg = jest.fn()
+      const iterator = jest.fn(() => ({
+        async *[Symbol.asyncIterator]() {
+          yield { data: [{ full_name: 'acme/site' }] }
+        },
+      }))
+      const client = { rest: { repos: { listForOrg } }, paginate: { iterator } } as unknown as SyncClient
+
+      await getCurrentRepoOrderFromOrg(client, 'acme', { publicOnly: true })
+      expect(iterator).toHaveBeenCalledWith(listForOrg, expect.objectContaining({ type: 'public' }))
+    })
+
+    it('should reject instead of returning an empty order when GitHub fails', async () => {
+      // An empty order would read as drift and could start an early sync
+      const iterator = jest.fn(() => ({
+        async *[Symbol.asyncIterator]() {
+          yield* []
+          throw Object.assign(new Error('Server Error'), { status: 502 })
+        },
+      }))
+      const client = {
+        rest: { repos: { listForOrg: jest.fn() }, apps: { listReposAccessibleToInstallation: jest.fn() } },
+        paginate: { iterator },
+      } as unknown as SyncClient
+
+      await expect(getCurrentRepoOrderFromOrg(client, 'acme')).rejects.toMatchObject({ status: 502 })
+      await expect(getCurrentRepoOrderFromInstallation(client)).rejects.toMatchObject({ status: 502 })
+    })
+
+    it('should skip the touch loop when already ordered', async () => {
+      const { client, mocks } = createFakeClient([])
+
+      const result = await runSyncEngine({
+        client,
+        desiredTop: ['me/a', 'me/b'],
+        loadCurrentOrder: async () => ['me/a', 'me/b', 'me/c'],
+      })
+
+      expect(result.status).toBe('already_ordered')
+      expect(mocks.rest.git.createRef).not.toHaveBeenCalled()
+    })
+
+    it('should plan from the installation listing by default and touch the minimal prefix', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/b', defaultBranch: 'main', branches: { main: 'sha-b' }, updatedAt: '2026-02-01T00:00:00Z' },
+        { fullName: 'me/a', defaultBranch: 'main', branches: { main: 'sha-a' }, updatedAt: '2026-01-01T00:00:00Z' },
+      ])
+
+      const result = await runSyncEngine({ client, desiredTop: ['me/a', 'me/b'], delayMs: 0 })
+
+      expect(result.status).toBe('completed')
+      expect(result.plan.reposToTouch).toEqual(['me/a'])
+      expect(calls).toEqual(['create me/a refs/tags/gitpins-touch-*-1 sha-a', 'delete me/a'])
+    })
+
+    it('should record the strategy used for each repo', async () => {
+      const { client } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', branches: { main: 'sha-a' } },
+        { fullName: 'me/b', defaultBranch: 'main', branches: { main: 'sha-b' } },
+      ])
+
+      const { results } = await touchRepos(client, ['me/a', 'me/b'], ['me/a', 'me/b'], {
+        delayMs: 0,
+        strategy: 'branch',
+        repoStrategies: { 'me/a': 'annotated_tag' },
+      })
+
+      expect(results.map((r) => [r.repo, r.strategy])).toEqual([
+        ['me/b', 'branch'],
+        ['me/a', 'annotated_tag'],
+      ])
+    })
+
+    it('should defer the remaining repos when the rate limit budget runs out', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', branches: { main: 'sha-a' } },
+        { fullName: 'me/b', defaultBranch: 'main', branches: { main: 'sha-b' } },
+        { fullName: 'me/c', defaultBranch: 'main', branches: { main: 'sha-c' } },
+      ])
+      const resetAt = Math.floor(Date.now() / 1000) + 3600
+      const rateLimit = createRateLimitBudget()
+      rateLimit.record({ 'x-ratelimit-remaining': '30', 'x-ratelimit-reset': String(resetAt) })
+
+      const result = await runSyncEngine({
+        client,
+        desiredTop: ['me/a', 'me/b', 'me/c'],
+        loadCurrentOrder: async () => ['me/c', 'me/b', 'me/a'],
+        delayMs: 0,
+        verify: true,
+        rateLimit,
+        onProgress: (event) => {
+          if (event.status === 'success') rateLimit.record({ 'x-ratelimit-remaining': '22' })
+        },
+      })
+
+      expect(calls.filter((call) => call.startsWith('create'))).toHaveLength(1)
+      expect(result.status === 'completed' && result.results.map((r) => r.repo)).toEqual(['me/b'])
+      expect(result.status === 'completed' && result.deferred).toEqual({
+        repos: ['me/a'],
+        resumeAt: new Date(resetAt * 1000),
+      })
+      expect(result.status === 'completed' && result.verification).toBeUndefined()
+    })
+
+    describe('verification', () => {
+      const repos: FakeRepo[] = [
+        { fullName: 'me/a', defaultBranch: 'main', branches: { main: 'sha-a' } },
+        { fullName: 'me/b', defaultBranch: 'main', branches: { main: 'sha-b' } },
+      ]
+
+      it('should not re-read the order unless requested', async () => {
+        const { client } = createFakeClient(repos)
+        const loadCurrentOrder = jest.fn(async () => ['me/b', 'me/a'])
+
+        const result = await runSyncEngine({ client, desiredTop: ['me/a', 'me/b'], loadCurrentOrder, delayMs: 0 })
+
+        expect(result.status === 'completed' && result.verification).toBeUndefined()
+        expect(loadCurrentOrder).toHaveBeenCalledTimes(1)
+      })
+
+      it('should report verified when the order matches after the sync', async () => {
+        const { client, calls } = createFakeClient(repos)
+        const loadCurrentOrder = jest.fn()
+          .mockResolvedValueOnce(['me/b', 'me/a'])
+          .mockResolvedValueOnce(['me/a', 'me/b'])
+
+        const result = await runSyncEngine({
+          client, desiredTop: ['me/a', 'me/b'], loadCurrentOrder, delayMs: 0, verify: true, verifyDelayMs: 0,
+        })
+
+        expect(result.status === 'completed' && result.verification).toEqual({
+          status: 'verified',
+          desiredTop: ['me/a', 'me/b'],
+          observedTop: ['me/a', 'me/b'],
+          retried: false,
+          retryTouched: [],
+          retryResults: [],
+        })
+        expect(calls).toHaveLength(2)
+      })
+
+      it('should retry the out-of-place prefix once and report the final order', async () => {
+        const { client, calls } = createFakeClient(repos)
+        const loadCurrentOrder = jest.fn()
+          .mockResolvedValueOnce(['me/b', 'me/a'])
+          .mockResolvedValueOnce(['me/b', 'me/a'])
+          .mockResolvedValueOnce(['me/a', 'me/b'])
+
+        const result = await runSyncEngine({
+          client, desiredTop: ['me/a', 'me/b'], loadCurrentOrder, delayMs: 0, verify: true, verifyDelayMs: 0,
+        })
+
+        expect(result.status === 'completed' && result.verification).toMatchObject({
+          status: 'verified',
+          retried: true,
+          retryTouched: ['me/a'],
+          retryResults: [expect.objectContaining({ repo: 'me/a', status: 'success' })],
+        })
+        expect(calls.filter((call) => call.startsWith('create'))).toHaveLength(2)
+      })
+
+      it('should report drift when the retry does not fix the order', async () => {
+        const { client } = createFakeClient(repos)
+        const loadCurrentOrder = jest.fn(async () => ['me/b', 'me/a'])
+
+        const result = await runSyncEngine({
+          client, desiredTop: ['me/a', 'me/b'], loadCurrentOrder, delayMs: 0, verify: true, verifyDelayMs: 0,
+        })
+
+        expect(result.status === 'completed' && result.verification).toMatchObject({
+          status: 'drifted',
+          observedTop: ['me/b', 'me/a'],
+          retried: true,
+        })
+        expect(loadCurrentOrder).toHaveBeenCalledTimes(3)
+        expect(result.status === 'completed' && result.logs.at(-1)).toContain('still differs')
+      })
+    })
+  })
+
+  describe('strategies', () => {
+    it('should validate strategy keys', () => {
+      expect(isTouchStrategy('revert')).toBe(true)
+      expect(isTouchStrategy('metadata')).toBe(true)
+      expect(isTouchStrategy('force-push')).toBe(false)
+      expect(isTouchStrategy(null)).toBe(false)
+    })
+
+    it('should parse stored overrides and drop invalid entries', () => {
+      expect(parseRepoStrategies('{"me/a":"branch","me/b":"nope"}')).toEqual({ 'me/a': 'branch' })
+      expect(parseRepoStrategies('["me/a"]')).toEqual({})
+      expect(parseRepoStrategies('not json')).toEqual({})
+      expect(parseRepoStrategies(null)).toEqual({})
+    })
+
+    it('should limit overrides to the given repositories', () => {
+      expect(sanitizeRepoStrategies({ 'me/a': 'branch', 'me/gone': 'metadata' }, ['me/a'])).toEqual({ 'me/a': 'branch' })
+    })
+
+    it('should move an override when a repository is renamed', () => {
+      expect(renameRepoStrategy({ 'me/old': 'branch', 'me/b': 'metadata' }, 'me/old', 'me/new'))
+        .toEqual({ 'me/b': 'metadata', 'me/new': 'branch' })
+      const overrides = { 'me/b': 'metadata' as const }
+      expect(renameRepoStrategy(overrides, 'me/old', 'me/new')).toBe(overrides)
+    })
+
+    it('should prefer the per-repo override over the default', () => {
+      expect(resolveTouchStrategy('me/a', 'branch', { 'me/a': 'metadata' })).toBe('metadata')
+      expect(resolveTouchStrategy('me/b', 'branch', { 'me/a': 'metadata' })).toBe('branch')
+      expect(resolveTouchStrategy('me/b')).toBe('revert')
+    })
+
+    it('should touch through a temporary branch ref', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', branches: { main: 'sha-a' } },
+      ])
+
+      await touchRepos(client, ['me/a'], ['me/a'], { delayMs: 0, strategy: 'branch' })
+
+      expect(calls).toEqual(['create me/a refs/heads/gitpins-touch-*-1 sha-a', 'delete me/a'])
+    })
+
+    it('should point the temporary ref at an annotated tag object', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', branches: { main: 'sha-a' } },
+      ])
+
+      await touchRepos(client, ['me/a'], ['me/a'], { delayMs: 0, strategy: 'annotated_tag' })
+
+      expect(calls).toEqual([
+        'tag me/a sha-a',
+        'create me/a refs/tags/gitpins-touch-*-1 tag-sha-a',
+        'delete me/a',
+      ])
+    })
+
+    it('should change and restore the description without touching refs', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', description: 'My project' },
+      ])
+
+      const { results } = await touchRepos(client, ['me/a'], ['me/a'], { delayMs: 0, strategy: 'metadata' })
+
+      expect(results[0]).toMatchObject({ status: 'success', strategy: 'metadata' })
+      expect(calls).toEqual(['describe me/a temporary', 'describe me/a "My project"'])
+    })
+
+    it('should keep an empty description as null', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', description: null },
+      ])
+
+      await touchRepos(client, ['me/a'], ['me/a'], { delayMs: 0, strategy: 'metadata' })
+
+      expect(calls).toEqual(['describe me/a temporary', 'describe me/a null'])
+    })
+
+    it('should retry restoring the description once', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', description: 'My project', failRestore: 1 },
+      ])
+
+      const { results, logs } = await touchRepos(client, ['me/a'], ['me/a'], { delayMs: 0, strategy: 'metadata' })
+
+      expect(results[0].status).toBe('success')
+      expect(calls).toEqual(['describe me/a temporary', 'describe me/a "My project"', 'describe me/a "My project"'])
+      expect(logs.some((line) => line.includes('restored the repository description on the second attempt'))).toBe(true)
+    })
+
+    it('should fail the repo when the description cannot be restored', async () => {
+      const { client, calls } = createFakeClient([
+        { fullName: 'me/a', defaultBranch: 'main', description: 'My project', failRestore: true },
+      ])
+
+      const { results } = await touchRepos(client, ['me/a'], ['me/a'], { delayMs: 0, strategy: 'metadata' })
+
+      expect(results[0]).toMatchObject({ status: 'error', strategy: 'metadata' })
+      expect(calls.filter((call) => call.includes('My project'))).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,167 @@
+import { createHmac } from 'node:crypto'
+import {
+  parseWebhookEvent,
+  removeFromOrder,
+  renameInOrder,
+  verifyWebhookSignature,
+} from '@/lib/webhooks'
+
+function sign(payload: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`
+}
+
+describe('Webhooks Module', () => {
+  describe('verifyWebhookSignature', () => {
+    const secret = 'webhook-secret'
+    const payload = JSON.stringify({ action: 'deleted' })
+
+    it('should accept a valid signature', () => {
+      expect(verifyWebhookSignature(payload, sign(payload, secret), secret)).toBe(true)
+    })
+
+    it('should reject a signature made with another secret', () => {
+      expect(verifyWebhookSignature(payload, sign(payload, 'other'), secret)).toBe(false)
+    })
+
+    it('should reject a tampered payload', () => {
+      expect(verifyWebhookSignature(`${payload} `, sign(payload, secret), secret)).toBe(false)
+    })
+
+    it('should reject missing or malformed headers', () => {
+      expect(verifyWebhookSignature(payload, null, secret)).toBe(false)
+      expect(verifyWebhookSignature(payload, 'sha1=abc', secret)).toBe(false)
+      expect(verifyWebhookSignature(payload, 'sha256=not-hex', secret)).toBe(false)
+    })
+
+    it('should reject when no secret is configured', () => {
+      expect(verifyWebhookSignature(payload, sign(payload, ''), '')).toBe(false)
+    })
+  })
+
+  describe('parseWebhookEvent', () => {
+    const installation = { id: 42 }
+
+    it('should detect an uninstalled app', () => {
+      expect(parseWebhookEvent('installation', { action: 'deleted', installation })).toEqual({
+        type: 'installation_removed',
+        installationId: 42,
+      })
+    })
+
+    it('should ignore new installations', () => {
+      expect(parseWebhookEvent('installation', { action: 'created', installation })).toBeNull()
+    })
+
+    it('should list repositories removed from the installation', () => {
+      const change = parseWebhookEvent('installation_repositories', {
+        action: 'removed',
+        installation,
+        repositories_removed: [{ full_name: 'me/one' }, { full_name: 'me/two' }],
+      })
+
+      expect(change).toEqual({
+        type: 'repos_removed',
+        installationId: 42,
+        repos: ['me/one', 'me/two'],
+        reason: 'installation_repositories',
+      })
+    })
+
+    it('should map renamed repositories to the previous full name', () => {
+      const change = parseWebhookEvent('repository', {
+        action: 'renamed',
+        installation,
+        repository: { name: 'new-name', full_name: 'me/new-name' },
+        changes: { repository: { name: { from: 'old-name' } } },
+      })
+
+      expect(change).toEqual({
+        type: 'repo_renamed',
+        installationId: 42,
+        from: 'me/old-name',
+        to: 'me/new-name',
+        reason: 'renamed',
+      })
+    })
+
+    it('should map transferred repositories to the previous owner', () => {
+      const change = parseWebhookEvent('repository', {
+        action: 'transferred',
+        installation,
+        repository: { name: 'tool', full_name: 'my-org/tool' },
+        changes: { owner: { from: { user: { login: 'me' } } } },
+      })
+
+      expect(change).toMatchObject({ from: 'me/tool', to: 'my-org/tool', reason: 'transferred' })
+    })
+
+    it('should treat deleted repositories as removed', () => {
+      const change = parseWebhookEvent('repository', {
+        action: 'deleted',
+        installation,
+        repository: { name: 'gone', full_name: 'me/gone' },
+      })
+
+      expect(change).toMatchObject({ type: 'repos_removed', repos: ['me/gone'], reason: 'deleted' })
+    })
+
+    it('should report pushes that change a config file on the default branch', () => {
+      const push = {
+        installation,
+        ref: 'refs/heads/main',
+        repository: { name: 'Config', full_name: 'Me/Config', default_branch: 'main' },
+        commits: [{ added: [], modified: ['README.md'], removed: [] }, { added: [], modified: ['gitpins.yml'], removed: [] }],
+      }
+
+      expect(parseWebhookEvent('push', push)).toEqual({ type: 'config_pushed', installationId: 42, repo: 'me/config' })
+      expect(parseWebhookEvent('push', { ...push, commits: [{ removed: ['config.json'] }] })).toMatchObject({ type: 'config_pushed' })
+    })
+
+    it('should ignore pushes to other branches or files', () => {
+      const push = {
+        installation,
+        ref: 'refs/heads/main',
+        repository: { name: 'config', full_name: 'me/config', default_branch: 'main' },
+        commits: [{ added: [], modified: ['gitpins.yml'], removed: [] }],
+      }
+
+      expect(parseWebhookEvent('push', { ...push, ref: 'refs/heads/feature' })).toBeNull()
+      expect(parseWebhookEvent('push', { ...push, deleted: true })).toBeNull()
+      expect(parseWebhookEvent('push', { ...push, commits: [{ modified: ['docs/gitpins.yml'] }] })).toBeNull()
+      expect(parseWebhookEvent('push', { ...push, commits: [] })).toBeNull()
+    })
+
+    it('should ignore events without an installation', () => {
+      expect(parseWebhookEvent('installation', { action: 'deleted' })).toBeNull()
+      expect(parseWebhookEvent('push', { installation })).toBeNull()
+    })
+  })
+
+  describe('renameInOrder', () => {
+    it('should keep the position of the renamed repository', () => {
+      const result = renameInOrder(['me/a', 'me/old', 'me/c'], 'me/old', 'me/new')
+      expect(result).toEqual({ order: ['me/a', 'me/new', 'me/c'], changed: true })
+    })
+
+    it('should match names case-insensitively', () => {
+      const result = renameInOrder(['Me/Old'], 'me/old', 'me/new')
+      expect(result.order).toEqual(['me/new'])
+    })
+
+    it('should not duplicate an already pinned target', () => {
+      const result = renameInOrder(['me/new', 'me/old'], 'me/old', 'me/new')
+      expect(result.order).toEqual(['me/new'])
+    })
+
+    it('should report no change when the repository is not pinned', () => {
+      expect(renameInOrder(['me/a'], 'me/old', 'me/new')).toEqual({ order: ['me/a'], changed: false })
+    })
+  })
+
+  describe('removeFromOrder', () => {
+    it('should drop removed repositories and report them', () => {
+      const result = removeFromOrder(['me/a', 'me/b', 'me/c'], ['ME/B', 'me/zzz'])
+      expect(result).toEqual({ order: ['me/a', 'me/c'], removed: ['me/b'] })
+    })
+  })
+})